@@ -0,0 +1,108 @@
+import {
+  ASSIGNMENT_STRATEGY_NAMES,
+  AssignmentDecision,
+  AssignmentRule,
+} from "../domain/Assignment";
+import { AssignmentPort } from "../domain/AssignmentPort";
+import { CategoryPort } from "../domain/CategoryPort";
+import { IncidentPort } from "../domain/IncidentPort";
+import { UserPort } from "../domain/UserPort";
+
+/**
+ * Servicio de aplicación para la configuración de la asignación automática
+ * Implementa los casos de uso de consulta, alta/modificación y baja de las
+ * reglas por categoría, y la consulta de las decisiones registradas
+ *
+ * Responsabilidades:
+ * - Validación de la estrategia y de los técnicos de cada regla
+ * - Comprobar que la categoría existe antes de configurarla
+ * - Exponer la auditoría de las asignaciones automáticas de una incidencia
+ */
+export class AssignmentApplicationService {
+  private port: AssignmentPort;
+  private categoryPort: CategoryPort;
+  private userPort: UserPort;
+  private incidentPort: IncidentPort;
+
+  constructor(
+    port: AssignmentPort,
+    categoryPort: CategoryPort,
+    userPort: UserPort,
+    incidentPort: IncidentPort
+  ) {
+    this.port = port;
+    this.categoryPort = categoryPort;
+    this.userPort = userPort;
+    this.incidentPort = incidentPort;
+  }
+
+  async getAllRules(): Promise<AssignmentRule[]> {
+    return await this.port.getAllRules();
+  }
+
+  async getRuleByCategory(categoriaId: number): Promise<AssignmentRule | null> {
+    if (!categoriaId || categoriaId <= 0) {
+      throw new Error("El ID de la categoría debe ser un número positivo");
+    }
+
+    return await this.port.getRuleByCategory(categoriaId);
+  }
+
+  /**
+   * Crea o reemplaza la regla de asignación de una categoría
+   * La estrategia habilidades exige al menos un técnico; los técnicos
+   * indicados deben ser usuarios de soporte activos
+   */
+  async saveRule(
+    rule: Omit<AssignmentRule, "ultimoSoporteId" | "actualizadoEn">
+  ): Promise<boolean> {
+    const category = await this.categoryPort.getCategoryById(rule.categoriaId);
+    if (!category) {
+      throw new Error("Categoría no encontrada");
+    }
+
+    if (!ASSIGNMENT_STRATEGY_NAMES.includes(rule.estrategia)) {
+      throw new Error(
+        "La estrategia debe ser: round_robin, menor_carga o habilidades"
+      );
+    }
+
+    const soporteIds = [...new Set(rule.soporteIds)];
+    if (rule.estrategia === "habilidades" && soporteIds.length === 0) {
+      throw new Error(
+        "La estrategia habilidades requiere al menos un técnico de soporte"
+      );
+    }
+
+    for (const soporteId of soporteIds) {
+      const user = await this.userPort.getUserById(soporteId);
+      if (!user || user.rol !== "soporte" || user.status !== 1) {
+        throw new Error(
+          `El usuario ${soporteId} no es un técnico de soporte activo válido`
+        );
+      }
+    }
+
+    return await this.port.saveRule({ ...rule, soporteIds });
+  }
+
+  async deleteRule(categoriaId: number): Promise<boolean> {
+    const existingRule = await this.port.getRuleByCategory(categoriaId);
+    if (!existingRule) {
+      throw new Error("Regla de asignación no encontrada");
+    }
+
+    return await this.port.deleteRule(categoriaId);
+  }
+
+  async getDecisionsByIncident(
+    incidenciaId: number
+  ): Promise<AssignmentDecision[]> {
+    const incident = await this.incidentPort.getIncidentById(incidenciaId);
+    if (!incident) {
+      throw new Error("Incidencia no encontrada");
+    }
+
+    return await this.port.getDecisionsByIncident(incidenciaId);
+  }
+}
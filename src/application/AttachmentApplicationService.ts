@@ -0,0 +1,225 @@
+import {
+  Attachment,
+  ATTACHMENT_ALLOWED_MIME_TYPES,
+  AttachmentUpload,
+  DEFAULT_ATTACHMENT_MAX_SIZE_BYTES,
+  matchesAttachmentType,
+} from "../domain/Attachment";
+import { AttachmentPort } from "../domain/AttachmentPort";
+import { AuthUser } from "../domain/AuthUser";
+import { canViewComment } from "../domain/Comments";
+import { CommentsPort } from "../domain/CommentsPort";
+import { FileStoragePort } from "../domain/FileStoragePort";
+import { IncidentApplicationService } from "./IncidentApplicationService";
+
+/**
+ * Servicio de aplicación para la gestión de archivos adjuntos
+ * Implementa los casos de uso de subida, consulta, descarga y eliminación
+ *
+ * Responsabilidades:
+ * - Validación del tamaño y del tipo de los archivos
+ * - Comprobar que el usuario puede ver la incidencia a la que se adjunta
+ *   y, en su caso, el comentario
+ * - Mantener coherentes los metadatos y el contenido almacenado
+ */
+export class AttachmentApplicationService {
+  private port: AttachmentPort;
+  private storagePort: FileStoragePort;
+  private incidentService: IncidentApplicationService;
+  private commentsPort: CommentsPort;
+  private maxSizeBytes: number;
+
+  constructor(
+    port: AttachmentPort,
+    storagePort: FileStoragePort,
+    incidentService: IncidentApplicationService,
+    commentsPort: CommentsPort,
+    maxSizeBytes: number = DEFAULT_ATTACHMENT_MAX_SIZE_BYTES
+  ) {
+    this.port = port;
+    this.storagePort = storagePort;
+    this.incidentService = incidentService;
+    this.commentsPort = commentsPort;
+    this.maxSizeBytes = maxSizeBytes;
+  }
+
+  /**
+   * Adjunta un archivo a una incidencia o, si se indica comentarioId,
+   * a uno de sus comentarios
+   */
+  async uploadAttachment(
+    caller: AuthUser,
+    incidenciaId: number,
+    archivo: AttachmentUpload,
+    comentarioId?: number
+  ): Promise<Attachment> {
+    await this.ensureIncidentVisible(caller, incidenciaId);
+
+    if (comentarioId !== undefined) {
+      const comment = await this.commentsPort.getCommentsById(comentarioId);
+      if (
+        !comment ||
+        comment.incidencia !== incidenciaId ||
+        !canViewComment(caller.rol, comment)
+      ) {
+        throw new Error("El comentario no existe o no pertenece a la incidencia");
+      }
+    }
+
+    this.validateFile(archivo);
+
+    const claveAlmacenamiento = await this.storagePort.saveFile(
+      archivo.contenido
+    );
+
+    const attachment: Omit<Attachment, "id" | "fechaCreacion"> = {
+      incidenciaId,
+      comentarioId,
+      nombreOriginal: this.sanitizeFileName(archivo.nombreOriginal),
+      tipoMime: archivo.tipoMime,
+      tamano: archivo.contenido.length,
+      claveAlmacenamiento,
+      usuarioId: caller.id,
+    };
+
+    try {
+      const id = await this.port.createAttachment(attachment);
+      return { ...attachment, id, fechaCreacion: new Date() };
+    } catch (error) {
+      // Sin metadatos el archivo quedaría huérfano en el almacenamiento
+      await this.storagePort.deleteFiles([claveAlmacenamiento]);
+      throw error;
+    }
+  }
+
+  async getAttachmentsByIncident(
+    caller: AuthUser,
+    incidenciaId: number
+  ): Promise<Attachment[]> {
+    await this.ensureIncidentVisible(caller, incidenciaId);
+    const attachments = await this.port.getAttachmentsByIncident(incidenciaId);
+
+    // Los adjuntos de las notas internas se ocultan junto con ellas
+    const visibleComments = new Set(
+      (await this.commentsPort.getCommentsByIncidencia(incidenciaId))
+        .filter((comment) => canViewComment(caller.rol, comment))
+        .map((comment) => comment.id)
+    );
+
+    return attachments.filter(
+      (attachment) =>
+        attachment.comentarioId === undefined ||
+        visibleComments.has(attachment.comentarioId)
+    );
+  }
+
+  async downloadAttachment(
+    caller: AuthUser,
+    id: number
+  ): Promise<{ attachment: Attachment; contenido: Buffer }> {
+    const attachment = await this.getVisibleAttachment(caller, id);
+    const contenido = await this.storagePort.readFile(
+      attachment.claveAlmacenamiento
+    );
+
+    return { attachment, contenido };
+  }
+
+  /**
+   * Elimina un adjunto; solo puede hacerlo quien lo subió o un administrador
+   */
+  async deleteAttachment(caller: AuthUser, id: number): Promise<boolean> {
+    const attachment = await this.getVisibleAttachment(caller, id);
+
+    if (caller.rol !== "administrador" && attachment.usuarioId !== caller.id) {
+      throw new Error("No tiene permisos para eliminar este adjunto");
+    }
+
+    const deleted = await this.port.deleteAttachment(id);
+    if (deleted) {
+      await this.storagePort.deleteFiles([attachment.claveAlmacenamiento]);
+    }
+
+    return deleted;
+  }
+
+  private async getVisibleAttachment(
+    caller: AuthUser,
+    id: number
+  ): Promise<Attachment> {
+    if (!id || id <= 0) {
+      throw new Error("El ID del adjunto debe ser un número positivo");
+    }
+
+    const attachment = await this.port.getAttachmentById(id);
+    if (!attachment) {
+      throw new Error("Adjunto no encontrado");
+    }
+
+    // Un adjunto de una incidencia que el usuario no puede ver no existe para él
+    const incident = await this.incidentService.getIncidentById(
+      caller,
+      attachment.incidenciaId
+    );
+    if (!incident) {
+      throw new Error("Adjunto no encontrado");
+    }
+
+    if (attachment.comentarioId) {
+      const comment = await this.commentsPort.getCommentsById(
+        attachment.comentarioId
+      );
+      if (!comment || !canViewComment(caller.rol, comment)) {
+        throw new Error("Adjunto no encontrado");
+      }
+    }
+
+    return attachment;
+  }
+
+  private async ensureIncidentVisible(
+    caller: AuthUser,
+    incidenciaId: number
+  ): Promise<void> {
+    if (!incidenciaId || incidenciaId <= 0) {
+      throw new Error("El ID de la incidencia debe ser un número positivo");
+    }
+
+    const incident = await this.incidentService.getIncidentById(
+      caller,
+      incidenciaId
+    );
+    if (!incident) {
+      throw new Error("Incidencia no encontrada");
+    }
+  }
+
+  private validateFile(archivo: AttachmentUpload): void {
+    if (!archivo.contenido || archivo.contenido.length === 0) {
+      throw new Error("El archivo está vacío");
+    }
+
+    if (archivo.contenido.length > this.maxSizeBytes) {
+      const maxMb = Math.round((this.maxSizeBytes / (1024 * 1024)) * 100) / 100;
+      throw new Error(`El archivo excede el tamaño máximo de ${maxMb} MB`);
+    }
+
+    if (!ATTACHMENT_ALLOWED_MIME_TYPES.includes(archivo.tipoMime)) {
+      throw new Error(`Tipo de archivo no permitido: ${archivo.tipoMime}`);
+    }
+
+    if (!matchesAttachmentType(archivo)) {
+      throw new Error(
+        `La extensión o el contenido del archivo no corresponde al tipo ${archivo.tipoMime}`
+      );
+    }
+  }
+
+  private sanitizeFileName(nombre: string): string {
+    // Se descartan las rutas y los caracteres de control del nombre recibido
+    const base = (nombre ?? "").split(/[\\/]/).pop() ?? "";
+    const limpio = base.replace(/[\u0000-\u001f\u007f"]/g, "").trim();
+
+    return (limpio || "archivo").slice(0, 255);
+  }
+}
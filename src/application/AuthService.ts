@@ -1,11 +1,23 @@
 import jwt from 'jsonwebtoken';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 
 const JWT_SECRET = process.env.JWT_SECRET|| "asdwqjndqoijdqkndkjsnakjndkajnd";
+const ACCESS_TOKEN_TTL_MINUTES = Number(process.env.ACCESS_TOKEN_TTL_MINUTES) || 15;
 export class AuthService{
     static generateToken(payload: object):string{
-        return jwt.sign(payload, JWT_SECRET, { expiresIn: '1h' });
+        return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60 });
     }
     static verifyToken(token: string): any{
         return jwt.verify(token, JWT_SECRET);
     }
-}
\ No newline at end of file
+    // Los refresh tokens y los de restablecimiento son opacos: solo se persiste su hash
+    static generateOpaqueToken(): string{
+        return randomBytes(48).toString("base64url");
+    }
+    static hashToken(token: string): string{
+        return createHash("sha256").update(token).digest("hex");
+    }
+    static generateSessionId(): string{
+        return randomUUID();
+    }
+}
@@ -0,0 +1,131 @@
+import {
+  BusinessCalendar,
+  DEFAULT_BUSINESS_CALENDAR,
+  Holiday,
+  isValidTimeZone,
+} from "../domain/BusinessCalendar";
+import { BusinessCalendarPort } from "../domain/BusinessCalendarPort";
+
+/**
+ * Servicio de aplicación para la gestión del calendario laboral
+ * Implementa los casos de uso de configuración de la jornada y de los festivos
+ * que se aplican al cálculo de plazos de SLA y de métricas en horas laborables
+ *
+ * Responsabilidades:
+ * - Validación de la jornada laboral (días, horario y zona horaria)
+ * - Validación y unicidad de los días festivos
+ * - Aplicar el calendario por defecto mientras no se haya configurado uno
+ */
+export class BusinessCalendarApplicationService {
+  private port: BusinessCalendarPort;
+
+  constructor(port: BusinessCalendarPort) {
+    this.port = port;
+  }
+
+  async getCalendar(): Promise<BusinessCalendar> {
+    return (await this.port.getCalendar()) ?? DEFAULT_BUSINESS_CALENDAR;
+  }
+
+  async updateCalendar(calendar: Partial<BusinessCalendar>): Promise<boolean> {
+    const currentCalendar = await this.getCalendar();
+    const calendarToSave: BusinessCalendar = {
+      diasLaborables: calendar.diasLaborables ?? currentCalendar.diasLaborables,
+      horaInicio: calendar.horaInicio?.trim() ?? currentCalendar.horaInicio,
+      horaFin: calendar.horaFin?.trim() ?? currentCalendar.horaFin,
+      zonaHoraria: calendar.zonaHoraria?.trim() ?? currentCalendar.zonaHoraria,
+    };
+
+    this.validateCalendar(calendarToSave);
+
+    return await this.port.saveCalendar({
+      ...calendarToSave,
+      diasLaborables: [...new Set(calendarToSave.diasLaborables)].sort(),
+    });
+  }
+
+  async getHolidays(anio?: number): Promise<Holiday[]> {
+    if (anio === undefined) {
+      return await this.port.getHolidays();
+    }
+
+    if (!Number.isInteger(anio) || anio < 1970 || anio > 9999) {
+      throw new Error("El año debe ser un número entero válido");
+    }
+
+    return await this.port.getHolidays(`${anio}-01-01`, `${anio}-12-31`);
+  }
+
+  async createHoliday(holiday: Omit<Holiday, "id">): Promise<number> {
+    if (!holiday.fecha || !this.isValidDate(holiday.fecha)) {
+      throw new Error("La fecha del festivo es obligatoria y debe tener el formato YYYY-MM-DD");
+    }
+
+    if (holiday.descripcion && holiday.descripcion.length > 150) {
+      throw new Error("La descripción no puede exceder los 150 caracteres");
+    }
+
+    const existingHoliday = await this.port.getHolidayByDate(holiday.fecha);
+    if (existingHoliday) {
+      throw new Error("Ya existe un festivo en esta fecha");
+    }
+
+    return await this.port.createHoliday({
+      fecha: holiday.fecha,
+      descripcion: holiday.descripcion?.trim(),
+    });
+  }
+
+  async deleteHoliday(id: number): Promise<boolean> {
+    if (!id || id <= 0) {
+      throw new Error("El ID del festivo debe ser un número positivo");
+    }
+
+    const existingHoliday = await this.port.getHolidayById(id);
+    if (!existingHoliday) {
+      throw new Error("Festivo no encontrado");
+    }
+
+    return await this.port.deleteHoliday(id);
+  }
+
+  private validateCalendar(calendar: BusinessCalendar): void {
+    if (
+      !Array.isArray(calendar.diasLaborables) ||
+      calendar.diasLaborables.length === 0
+    ) {
+      throw new Error("Debe indicar al menos un día laborable");
+    }
+
+    if (
+      calendar.diasLaborables.some(
+        (dia) => !Number.isInteger(dia) || dia < 0 || dia > 6
+      )
+    ) {
+      throw new Error(
+        "Los días laborables deben ser números del 0 (domingo) al 6 (sábado)"
+      );
+    }
+
+    const horaRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
+    if (!horaRegex.test(calendar.horaInicio) || !horaRegex.test(calendar.horaFin)) {
+      throw new Error("Las horas de la jornada deben tener el formato HH:MM");
+    }
+
+    if (calendar.horaInicio >= calendar.horaFin) {
+      throw new Error("La hora de inicio de la jornada debe ser anterior a la hora de fin");
+    }
+
+    if (!calendar.zonaHoraria || !isValidTimeZone(calendar.zonaHoraria)) {
+      throw new Error("La zona horaria no es válida");
+    }
+  }
+
+  private isValidDate(fecha: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(fecha)) {
+      return false;
+    }
+    const date = new Date(`${fecha}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(fecha);
+  }
+}
@@ -1,5 +1,6 @@
 import { Category } from "../domain/Category";
 import { CategoryPort } from "../domain/CategoryPort";
+import { SupportGroupPort } from "../domain/SupportGroupPort";
 
 /**
  * Servicio de aplicación para la gestión de categorías
@@ -13,9 +14,11 @@ import { CategoryPort } from "../domain/CategoryPort";
  */
 export class CategoryApplicationService {
   private port: CategoryPort;
+  private groupPort: SupportGroupPort;
 
-  constructor(port: CategoryPort) {
+  constructor(port: CategoryPort, groupPort: SupportGroupPort) {
     this.port = port;
+    this.groupPort = groupPort;
   }
 
   async createCategory(category: Omit<Category, "id" | "fechaCreacion">): Promise<number> {
@@ -27,6 +30,10 @@ export class CategoryApplicationService {
       throw new Error("Ya existe una categoría con este nombre");
     }
 
+    if (category.grupoSoporteId) {
+      await this.validateSupportGroup(category.grupoSoporteId);
+    }
+
     const categoryToCreate = {
       ...category,
       nombre: category.nombre.trim(),
@@ -77,11 +84,16 @@ export class CategoryApplicationService {
         throw new Error("Ya existe otra categoría con este nombre");
       }
     }
+
+    if (category.grupoSoporteId) {
+      await this.validateSupportGroup(category.grupoSoporteId);
+    }
     const categoryToUpdate: Partial<Category> = {};
     
     if (category.nombre) categoryToUpdate.nombre = category.nombre.trim();
     if (category.descripcion !== undefined) categoryToUpdate.descripcion = category.descripcion?.trim();
     if (category.estado !== undefined) categoryToUpdate.estado = category.estado;
+    if (category.grupoSoporteId !== undefined) categoryToUpdate.grupoSoporteId = category.grupoSoporteId;
 
     return await this.port.updateCategory(id, categoryToUpdate);
   }
@@ -111,6 +123,13 @@ export class CategoryApplicationService {
     }
   }
 
+  private async validateSupportGroup(grupoSoporteId: number): Promise<void> {
+    const group = await this.groupPort.getSupportGroupById(grupoSoporteId);
+    if (!group || group.estado !== 1) {
+      throw new Error("El grupo de soporte no existe o está inactivo");
+    }
+  }
+
   private validateCategoryName(nombre: string): void {
     if (nombre.length < 3) {
       throw new Error("El nombre de la categoría debe tener al menos 3 caracteres");
@@ -0,0 +1,139 @@
+import { ClosureCode } from "../domain/ClosureCode";
+import { ClosureCodePort } from "../domain/ClosureCodePort";
+
+/**
+ * Servicio de aplicación para la gestión del catálogo de códigos de cierre
+ * Implementa los casos de uso de alta, consulta, modificación y baja lógica
+ * de los códigos que se exigen al cerrar una incidencia
+ *
+ * Responsabilidades:
+ * - Validación de reglas de negocio
+ * - Unicidad del nombre del código
+ * - Manejo de excepciones y errores de negocio
+ */
+export class ClosureCodeApplicationService {
+  private port: ClosureCodePort;
+
+  constructor(port: ClosureCodePort) {
+    this.port = port;
+  }
+
+  async createClosureCode(
+    closureCode: Omit<ClosureCode, "id" | "fechaCreacion">
+  ): Promise<number> {
+    this.validateClosureCodeData(closureCode);
+
+    const existingClosureCode = await this.port.getClosureCodeByName(
+      closureCode.nombre.trim()
+    );
+    if (existingClosureCode) {
+      throw new Error("Ya existe un código de cierre con este nombre");
+    }
+
+    return await this.port.createClosureCode({
+      nombre: closureCode.nombre.trim(),
+      descripcion: closureCode.descripcion?.trim(),
+      estado: closureCode.estado ?? 1, // Por defecto activo
+    });
+  }
+
+  async getClosureCodeById(id: number): Promise<ClosureCode | null> {
+    if (!id || id <= 0) {
+      throw new Error("El ID del código de cierre debe ser un número positivo");
+    }
+
+    return await this.port.getClosureCodeById(id);
+  }
+
+  async getAllActiveClosureCodes(): Promise<ClosureCode[]> {
+    return await this.port.getAllActiveClosureCodes();
+  }
+
+  async getAllClosureCodes(): Promise<ClosureCode[]> {
+    return await this.port.getAllClosureCodes();
+  }
+
+  async updateClosureCode(
+    id: number,
+    closureCode: Partial<ClosureCode>
+  ): Promise<boolean> {
+    const existingClosureCode = await this.port.getClosureCodeById(id);
+    if (!existingClosureCode) {
+      throw new Error("Código de cierre no encontrado");
+    }
+
+    if (closureCode.nombre) {
+      this.validateName(closureCode.nombre.trim());
+
+      const closureCodeWithSameName = await this.port.getClosureCodeByName(
+        closureCode.nombre.trim()
+      );
+      if (closureCodeWithSameName && closureCodeWithSameName.id !== id) {
+        throw new Error("Ya existe otro código de cierre con este nombre");
+      }
+    }
+
+    if (closureCode.descripcion && closureCode.descripcion.length > 1000) {
+      throw new Error("La descripción no puede exceder los 1000 caracteres");
+    }
+
+    if (closureCode.estado !== undefined && ![0, 1].includes(closureCode.estado)) {
+      throw new Error("El estado debe ser 0 (inactivo) o 1 (activo)");
+    }
+
+    const closureCodeToUpdate: Partial<ClosureCode> = {};
+    if (closureCode.nombre) closureCodeToUpdate.nombre = closureCode.nombre.trim();
+    if (closureCode.descripcion !== undefined)
+      closureCodeToUpdate.descripcion = closureCode.descripcion?.trim();
+    if (closureCode.estado !== undefined)
+      closureCodeToUpdate.estado = closureCode.estado;
+
+    return await this.port.updateClosureCode(id, closureCodeToUpdate);
+  }
+
+  /**
+   * Baja lógica: el código deja de ofrecerse al cerrar incidencias, pero las
+   * incidencias ya cerradas lo conservan
+   */
+  async deleteClosureCode(id: number): Promise<boolean> {
+    const existingClosureCode = await this.port.getClosureCodeById(id);
+    if (!existingClosureCode) {
+      throw new Error("Código de cierre no encontrado");
+    }
+
+    return await this.port.deleteClosureCode(id);
+  }
+
+  private validateClosureCodeData(
+    closureCode: Omit<ClosureCode, "id" | "fechaCreacion">
+  ): void {
+    if (!closureCode.nombre || closureCode.nombre.trim().length === 0) {
+      throw new Error("El nombre del código de cierre es obligatorio");
+    }
+
+    this.validateName(closureCode.nombre.trim());
+
+    if (closureCode.descripcion && closureCode.descripcion.length > 1000) {
+      throw new Error("La descripción no puede exceder los 1000 caracteres");
+    }
+
+    if (closureCode.estado !== undefined && ![0, 1].includes(closureCode.estado)) {
+      throw new Error("El estado debe ser 0 (inactivo) o 1 (activo)");
+    }
+  }
+
+  private validateName(nombre: string): void {
+    if (nombre.length < 3 || nombre.length > 100) {
+      throw new Error(
+        "El nombre del código de cierre debe tener entre 3 y 100 caracteres"
+      );
+    }
+
+    const nameRegex = /^[A-Za-zÁÉÍÓÚáéíóúÑñ0-9\s\-_']+$/;
+    if (!nameRegex.test(nombre)) {
+      throw new Error(
+        "El nombre del código de cierre contiene caracteres no válidos"
+      );
+    }
+  }
+}
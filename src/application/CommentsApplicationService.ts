@@ -1,5 +1,24 @@
-import { Comments } from "../domain/Comments";
+import { AttachmentPort } from "../domain/AttachmentPort";
+import { AuthUser } from "../domain/AuthUser";
+import {
+  canViewComment,
+  COMMENT_VISIBILITIES,
+  buildCommentThreads,
+  CommentRevision,
+  Comments,
+  CommentThread,
+  CommentVisibility,
+  CommentVisibilityChange,
+  DEFAULT_COMMENT_EDIT_WINDOW_MINUTES,
+  extractMentions,
+} from "../domain/Comments";
 import { CommentsPort } from "../domain/CommentsPort";
+import { EventBusPort } from "../domain/EventBusPort";
+import { FileStoragePort } from "../domain/FileStoragePort";
+import { canViewIncident, Incident } from "../domain/Incident";
+import { IncidentPort } from "../domain/IncidentPort";
+import { validateMarkdown } from "../domain/Markdown";
+import { UserPort } from "../domain/UserPort";
 
 /**
  * Servicio de aplicación para la gestión de comentarios
@@ -10,17 +29,64 @@ import { CommentsPort } from "../domain/CommentsPort";
  * - Coordinación entre el dominio y la infraestructura
  * - Manejo de excepciones y errores de negocio
  * - Aplicación de políticas empresariales
+ * - Limitar los comentarios a los de incidencias que el usuario puede consultar
+ * - Ocultar las notas internas a los empleados
+ * - Limitar la edición al autor dentro del plazo y conservar las revisiones
+ * - Organizar las respuestas en hilos y resolver las menciones a usuarios
  */
 export class CommentsApplicationService {
   private port: CommentsPort;
+  private incidentPort: IncidentPort;
+  private attachmentPort: AttachmentPort;
+  private storagePort: FileStoragePort;
+  private userPort: UserPort;
+  private eventBus: EventBusPort;
+  private minutosEdicion: number;
 
-  constructor(port: CommentsPort) {
+  constructor(
+    port: CommentsPort,
+    incidentPort: IncidentPort,
+    attachmentPort: AttachmentPort,
+    storagePort: FileStoragePort,
+    userPort: UserPort,
+    eventBus: EventBusPort,
+    minutosEdicion: number = DEFAULT_COMMENT_EDIT_WINDOW_MINUTES
+  ) {
     this.port = port;
+    this.incidentPort = incidentPort;
+    this.attachmentPort = attachmentPort;
+    this.storagePort = storagePort;
+    this.userPort = userPort;
+    this.eventBus = eventBus;
+    this.minutosEdicion = minutosEdicion;
   }
 
+  /**
+   * Crea un comentario cuyo autor es el usuario autenticado
+   * Un administrador puede registrarlo en nombre de otro usuario indicando
+   * enNombreDe; en ese caso queda constancia de quién lo registró en creadoPorId
+   * Los comentarios son públicos salvo que se indique lo contrario, y los
+   * empleados no pueden crear notas internas
+   * Con comentarioPadreId el comentario es una respuesta; la respuesta a una
+   * nota interna también debe ser interna
+   */
   async createComments(
-    comments: Omit<Comments, "id" | "fechaCreacion">
+    caller: AuthUser,
+    data: Pick<Comments, "incidencia" | "comentario" | "comentarioPadreId"> & {
+      visibilidad?: CommentVisibility;
+    },
+    enNombreDe?: number
   ): Promise<number> {
+    const usuario = this.resolveAuthor(caller, enNombreDe);
+    const comments = {
+      ...data,
+      usuario,
+      creadoPorId: usuario !== caller.id ? caller.id : undefined,
+      visibilidad: data.visibilidad ?? "publico",
+    };
+
+    this.validateVisibility(caller, comments.visibilidad);
+
     if (!comments.comentario || comments.comentario.trim().length === 0) {
       throw new Error("El comentario es obligatorio");
     }
@@ -38,56 +104,261 @@ export class CommentsApplicationService {
       throw new Error("El comentario no puede exceder 1000 caracteres");
     }
 
-    return await this.port.createComments(comments);
+    validateMarkdown(comments.comentario, "el comentario");
+
+    const incident = await this.getVisibleIncident(caller, comments.incidencia);
+
+    if (comments.comentarioPadreId !== undefined) {
+      const parent = await this.port.getCommentsById(comments.comentarioPadreId);
+      if (
+        !parent ||
+        parent.incidencia !== comments.incidencia ||
+        !canViewComment(caller.rol, parent)
+      ) {
+        throw new Error(
+          "El comentario al que se responde no existe o no pertenece a la incidencia"
+        );
+      }
+
+      if (parent.visibilidad === "interno" && comments.visibilidad !== "interno") {
+        throw new Error("La respuesta a una nota interna debe ser interna");
+      }
+    }
+
+    const id = await this.port.createComments(comments);
+    await this.port.setMentions(
+      id,
+      await this.resolveMentions(
+        comments.comentario,
+        comments.visibilidad,
+        incident
+      )
+    );
+
+    this.eventBus.publish({
+      tipo: "comment.created",
+      incidenciaId: comments.incidencia,
+      comentarioId: id,
+      visibilidad: comments.visibilidad,
+      actorId: caller.id,
+      fecha: new Date(),
+    });
+
+    return id;
   }
 
-  async getCommentsById(id: number): Promise<Comments | null> {
+  /**
+   * Devuelve el comentario si el usuario puede verlo: debe poder consultar
+   * su incidencia, y una nota interna no existe para un empleado
+   */
+  async getCommentsById(
+    caller: AuthUser,
+    id: number
+  ): Promise<Comments | null> {
     if (!id || id <= 0) {
       throw new Error("El ID del comentario debe ser un número positivo");
     }
 
-    return await this.port.getCommentsById(id);
+    const comment = await this.port.getCommentsById(id);
+    if (
+      !comment ||
+      !canViewComment(caller.rol, comment) ||
+      !(await this.canViewIncidentOf(caller, comment))
+    ) {
+      return null;
+    }
+
+    return comment;
   }
 
+  /**
+   * Edita el texto de un comentario; la incidencia y el autor no cambian
+   * Solo puede hacerlo el autor, dentro del plazo de edición, o un
+   * administrador en cualquier momento. El texto anterior se conserva
+   * como revisión
+   */
   async updateComments(
+    caller: AuthUser,
     id: number,
-    comments: Partial<Comments>
+    comentario: string
   ): Promise<boolean> {
     if (!id || id <= 0) {
       throw new Error("El ID del comentario debe ser un número positivo");
     }
 
-    // Validaciones para los campos que se van a actualizar
-    if (comments.comentario !== undefined) {
-      if (!comments.comentario || comments.comentario.trim().length === 0) {
-        throw new Error("El comentario no puede estar vacío");
+    if (!comentario || comentario.trim().length === 0) {
+      throw new Error("El comentario no puede estar vacío");
+    }
+    if (comentario.length > 1000) {
+      throw new Error("El comentario no puede exceder 1000 caracteres");
+    }
+
+    validateMarkdown(comentario, "el comentario");
+
+    const comment = await this.getCommentsById(caller, id);
+    if (!comment) {
+      throw new Error("Comentario no encontrado");
+    }
+
+    if (caller.rol !== "administrador") {
+      if (comment.usuario !== caller.id) {
+        throw new Error("No tiene permisos para editar este comentario");
       }
-      if (comments.comentario.length > 1000) {
-        throw new Error("El comentario no puede exceder 1000 caracteres");
+
+      const limite =
+        new Date(comment.fechaCreacion).getTime() +
+        this.minutosEdicion * 60 * 1000;
+      if (Date.now() > limite) {
+        throw new Error(
+          `El plazo de edición de ${this.minutosEdicion} minutos ha expirado`
+        );
       }
     }
 
-    if (comments.incidencia !== undefined && comments.incidencia <= 0) {
-      throw new Error("El ID de incidencia debe ser un número positivo");
+    if (comentario.trim() === comment.comentario) {
+      return true;
     }
 
-    if (comments.usuario !== undefined && comments.usuario <= 0) {
-      throw new Error("El ID de usuario debe ser un número positivo");
+    const updated = await this.port.updateComments(
+      id,
+      comentario.trim(),
+      caller.id
+    );
+    if (updated) {
+      await this.port.setMentions(
+        id,
+        await this.resolveMentions(
+          comentario.trim(),
+          comment.visibilidad,
+          await this.getVisibleIncident(caller, comment.incidencia)
+        )
+      );
     }
 
-    return await this.port.updateComments(id, comments);
+    return updated;
   }
 
-  async getAllComments(): Promise<Comments[]> {
-    return await this.port.getAllComments();
+  /**
+   * Versiones anteriores de un comentario visible, de la más reciente
+   * a la más antigua
+   */
+  async getRevisions(
+    caller: AuthUser,
+    id: number
+  ): Promise<CommentRevision[]> {
+    const comment = await this.getCommentsById(caller, id);
+    if (!comment) {
+      throw new Error("Comentario no encontrado");
+    }
+
+    return await this.port.getRevisions(id);
+  }
+
+  /**
+   * Todos los comentarios que el usuario puede ver: los de incidencias
+   * fuera de su alcance y, para un empleado, las notas internas se omiten
+   */
+  async getAllComments(caller: AuthUser): Promise<Comments[]> {
+    return await this.filterVisible(caller, await this.port.getAllComments());
   }
 
-  async getCommentsByIncidencia(incidenciaId: number): Promise<Comments[]> {
+  /**
+   * Lista los comentarios de una incidencia visibles para el usuario
+   * Una incidencia fuera de su alcance se trata como inexistente
+   */
+  async getCommentsByIncidencia(
+    caller: AuthUser,
+    incidenciaId: number
+  ): Promise<Comments[]> {
     if (!incidenciaId || incidenciaId <= 0) {
       throw new Error("El ID de incidencia debe ser un número positivo");
     }
 
-    return await this.port.getCommentsByIncidencia(incidenciaId);
+    await this.getVisibleIncident(caller, incidenciaId);
+
+    const comments = await this.port.getCommentsByIncidencia(incidenciaId);
+    return comments.filter((comment) => canViewComment(caller.rol, comment));
+  }
+
+  /**
+   * Comentarios visibles de una incidencia agrupados en hilos de respuestas
+   */
+  async getCommentThreadsByIncidencia(
+    caller: AuthUser,
+    incidenciaId: number
+  ): Promise<CommentThread[]> {
+    return buildCommentThreads(
+      await this.getCommentsByIncidencia(caller, incidenciaId)
+    );
+  }
+
+  /**
+   * Comentarios visibles en los que se menciona al usuario autenticado
+   * Se descartan los de incidencias que ya no puede consultar, por ejemplo
+   * tras reasignarse a otro técnico
+   */
+  async getMentions(caller: AuthUser): Promise<Comments[]> {
+    return await this.filterVisible(
+      caller,
+      await this.port.getCommentsMentioningUser(caller.id)
+    );
+  }
+
+  /**
+   * Convierte un comentario entre público e interno dejando constancia
+   * de quién hizo el cambio y cuándo
+   * Una respuesta a una nota interna no puede hacerse pública, y al hacer
+   * interno un comentario sus respuestas públicas pasan también a internas
+   */
+  async changeVisibility(
+    caller: AuthUser,
+    id: number,
+    visibilidad: CommentVisibility
+  ): Promise<boolean> {
+    if (!id || id <= 0) {
+      throw new Error("El ID del comentario debe ser un número positivo");
+    }
+
+    if (caller.rol === "empleado") {
+      throw new Error(
+        "No tiene permisos para cambiar la visibilidad de los comentarios"
+      );
+    }
+
+    this.validateVisibility(caller, visibilidad);
+
+    const comment = await this.getCommentsById(caller, id);
+    if (!comment) {
+      throw new Error("Comentario no encontrado");
+    }
+
+    if (comment.visibilidad === visibilidad) {
+      throw new Error(`El comentario ya es ${visibilidad}`);
+    }
+
+    if (visibilidad === "publico" && comment.comentarioPadreId !== undefined) {
+      const parent = await this.port.getCommentsById(comment.comentarioPadreId);
+      if (parent?.visibilidad === "interno") {
+        throw new Error("La respuesta a una nota interna debe ser interna");
+      }
+    }
+
+    return await this.port.changeVisibility(id, visibilidad, caller.id);
+  }
+
+  /**
+   * Historial de cambios de visibilidad de un comentario visible
+   */
+  async getVisibilityChanges(
+    caller: AuthUser,
+    id: number
+  ): Promise<CommentVisibilityChange[]> {
+    const comment = await this.getCommentsById(caller, id);
+    if (!comment) {
+      throw new Error("Comentario no encontrado");
+    }
+
+    return await this.port.getVisibilityChanges(id);
   }
 
   async deleteComments(id: number): Promise<boolean> {
@@ -95,6 +366,138 @@ export class CommentsApplicationService {
       throw new Error("El ID del comentario debe ser un número positivo");
     }
 
-    return await this.port.deleteComments(id);
+    // Los metadatos de los adjuntos se eliminan en cascada con el comentario
+    const attachments = await this.attachmentPort.getAttachmentsByComment(id);
+    const deleted = await this.port.deleteComments(id);
+
+    if (deleted && attachments.length > 0) {
+      await this.storagePort.deleteFiles(
+        attachments.map((attachment) => attachment.claveAlmacenamiento)
+      );
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Resuelve las menciones del texto a usuarios activos, por su correo
+   * completo o por la parte anterior a la arroba si solo un usuario la usa
+   * Se descartan los usuarios que no pueden ver el comentario o su incidencia
+   */
+  private async resolveMentions(
+    texto: string,
+    visibilidad: CommentVisibility,
+    incident: Incident
+  ): Promise<number[]> {
+    const menciones = extractMentions(texto);
+    if (menciones.length === 0) {
+      return [];
+    }
+
+    const users = (await this.userPort.getAllUsers()).filter(
+      (user) => user.status === 1
+    );
+    const usuarioIds = new Set<number>();
+
+    for (const mencion of menciones) {
+      const candidatos = users.filter((user) => {
+        const email = user.email.toLowerCase();
+        return mencion.includes("@")
+          ? email === mencion
+          : email.split("@")[0] === mencion;
+      });
+
+      if (
+        candidatos.length === 1 &&
+        canViewComment(candidatos[0].rol, { visibilidad }) &&
+        canViewIncident(candidatos[0], incident)
+      ) {
+        usuarioIds.add(candidatos[0].id);
+      }
+    }
+
+    return [...usuarioIds];
+  }
+
+  /**
+   * Obtiene la incidencia si el usuario puede consultarla; las que quedan
+   * fuera de su alcance se tratan como inexistentes
+   */
+  private async getVisibleIncident(
+    caller: AuthUser,
+    incidenciaId: number
+  ): Promise<Incident> {
+    const incident = await this.incidentPort.getIncidentById(incidenciaId);
+    if (!incident || !canViewIncident(caller, incident)) {
+      throw new Error("Incidencia no encontrada");
+    }
+    return incident;
+  }
+
+  /**
+   * Filtra los comentarios que el usuario puede ver, consultando cada
+   * incidencia una sola vez
+   */
+  private async filterVisible(
+    caller: AuthUser,
+    comments: Comments[]
+  ): Promise<Comments[]> {
+    const incidenciasVisibles = new Map<number, boolean>();
+    const visibles: Comments[] = [];
+
+    for (const comment of comments) {
+      if (!canViewComment(caller.rol, comment)) {
+        continue;
+      }
+
+      let visible = incidenciasVisibles.get(comment.incidencia);
+      if (visible === undefined) {
+        visible = await this.canViewIncidentOf(caller, comment);
+        incidenciasVisibles.set(comment.incidencia, visible);
+      }
+
+      if (visible) {
+        visibles.push(comment);
+      }
+    }
+
+    return visibles;
+  }
+
+  private async canViewIncidentOf(
+    caller: AuthUser,
+    comment: Comments
+  ): Promise<boolean> {
+    const incident = await this.incidentPort.getIncidentById(comment.incidencia);
+    return !!incident && canViewIncident(caller, incident);
+  }
+
+  private validateVisibility(
+    caller: AuthUser,
+    visibilidad: CommentVisibility
+  ): void {
+    if (!COMMENT_VISIBILITIES.includes(visibilidad)) {
+      throw new Error(
+        `La visibilidad debe ser: ${COMMENT_VISIBILITIES.join(" o ")}`
+      );
+    }
+
+    if (visibilidad === "interno" && caller.rol === "empleado") {
+      throw new Error("No tiene permisos para crear comentarios internos");
+    }
+  }
+
+  private resolveAuthor(caller: AuthUser, enNombreDe?: number): number {
+    if (enNombreDe === undefined || enNombreDe === caller.id) {
+      return caller.id;
+    }
+
+    if (caller.rol !== "administrador") {
+      throw new Error(
+        "No tiene permisos para comentar en nombre de otro usuario"
+      );
+    }
+
+    return enNombreDe;
   }
 }
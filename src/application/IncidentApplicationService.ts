@@ -1,5 +1,67 @@
-import { Incident } from "../domain/Incident";
+import { AssignmentCandidate } from "../domain/Assignment";
+import { AssignmentPort } from "../domain/AssignmentPort";
+import { ASSIGNMENT_STRATEGIES } from "../domain/AssignmentStrategy";
+import { AttachmentPort } from "../domain/AttachmentPort";
+import { AuthUser } from "../domain/AuthUser";
+import { DEFAULT_BUSINESS_CALENDAR } from "../domain/BusinessCalendar";
+import { BusinessCalendarPort } from "../domain/BusinessCalendarPort";
+import { BusinessTimeService } from "../domain/BusinessTimeService";
+import { CategoryPort } from "../domain/CategoryPort";
+import { ClosureCodePort } from "../domain/ClosureCodePort";
+import { summarizeDurations } from "../domain/DurationStatistics";
+import { EventBusPort } from "../domain/EventBusPort";
+import { FileStoragePort } from "../domain/FileStoragePort";
+import { HistorialIncidencia } from "../domain/HistorialIncidencia";
+import { HistorialIncidenciaPort } from "../domain/HistorialIncidenciaPort";
+import {
+  canViewIncident,
+  Incident,
+  IncidentFilters,
+  IncidentPagination,
+  IncidentReopenResult,
+  IncidentStatistics,
+  IncidentStatisticsFilters,
+  IncidentStatusChange,
+  SlaStatus,
+} from "../domain/Incident";
 import { IncidentPort } from "../domain/IncidentPort";
+import {
+  extractSearchTerms,
+  highlightSnippet,
+  IncidentSearchResult,
+  SEARCH_MIN_TERM_LENGTH,
+  SearchSnippet,
+} from "../domain/IncidentSearch";
+import { IncidentSearchPort } from "../domain/IncidentSearchPort";
+import { IncidentWatcher } from "../domain/IncidentWatcher";
+import { validateMarkdown } from "../domain/Markdown";
+import { PaginatedResult } from "../domain/Pagination";
+import { PriorityPort } from "../domain/PriorityPort";
+import { ResolutionPolicy } from "../domain/ResolutionPolicy";
+import { SupportGroupPort } from "../domain/SupportGroupPort";
+import { UserPort } from "../domain/UserPort";
+import { WatcherPort } from "../domain/WatcherPort";
+import {
+  ASSIGNED_STATUS,
+  CONFIRMED_STATUS,
+  DEFAULT_WORKFLOW,
+  IncidentStatus,
+  isValidStatusKey,
+  REJECTED_STATUS,
+  RESOLVED_STATUS,
+  TransitionData,
+  WorkflowTransition,
+} from "../domain/Workflow";
+import { WorkflowEngine } from "../domain/WorkflowEngine";
+import { WorkflowPort } from "../domain/WorkflowPort";
+
+/**
+ * Límites de la paginación de los listados de incidencias
+ */
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_RESULTS = 50;
+const MS_POR_DIA = 24 * 3600 * 1000;
 
 /*
  * Servicio de aplicación para la gestión de incidencias
@@ -24,36 +86,167 @@ export class IncidentApplicationService {
       throw new Error("Incidencia no encontrada");
     }
 
-    if (existingIncident.estado !== "cerrada") {
-      throw new Error("Solo se pueden eliminar incidencias cerradas");
+    const workflow = await this.loadWorkflow();
+    if (!workflow.isFinal(existingIncident.estado)) {
+      throw new Error(
+        "Solo se pueden eliminar incidencias en un estado final del flujo de trabajo"
+      );
     }
 
-    return await this.port.deleteIncident(id);
+    // Los metadatos de los adjuntos se eliminan en cascada con la incidencia;
+    // los archivos se borran del almacenamiento una vez eliminada
+    const attachments = await this.attachmentPort.getAttachmentsByIncident(id);
+    const deleted = await this.port.deleteIncident(id);
+
+    if (deleted && attachments.length > 0) {
+      await this.storagePort.deleteFiles(
+        attachments.map((attachment) => attachment.claveAlmacenamiento)
+      );
+    }
+
+    return deleted;
   }
   private port: IncidentPort;
+  private historyPort: HistorialIncidenciaPort;
+  private priorityPort: PriorityPort;
+  private calendarPort: BusinessCalendarPort;
+  private searchPort: IncidentSearchPort;
+  private attachmentPort: AttachmentPort;
+  private storagePort: FileStoragePort;
+  private workflowPort: WorkflowPort;
+  private closureCodePort: ClosureCodePort;
+  private assignmentPort: AssignmentPort;
+  private userPort: UserPort;
+  private categoryPort: CategoryPort;
+  private supportGroupPort: SupportGroupPort;
+  private watcherPort: WatcherPort;
+  private eventBus: EventBusPort;
+  private resolutionPolicy: ResolutionPolicy;
 
-  constructor(port: IncidentPort) {
+  constructor(
+    port: IncidentPort,
+    historyPort: HistorialIncidenciaPort,
+    priorityPort: PriorityPort,
+    calendarPort: BusinessCalendarPort,
+    searchPort: IncidentSearchPort,
+    attachmentPort: AttachmentPort,
+    storagePort: FileStoragePort,
+    workflowPort: WorkflowPort,
+    closureCodePort: ClosureCodePort,
+    assignmentPort: AssignmentPort,
+    userPort: UserPort,
+    categoryPort: CategoryPort,
+    supportGroupPort: SupportGroupPort,
+    watcherPort: WatcherPort,
+    eventBus: EventBusPort,
+    resolutionPolicy: ResolutionPolicy
+  ) {
     this.port = port;
+    this.historyPort = historyPort;
+    this.priorityPort = priorityPort;
+    this.calendarPort = calendarPort;
+    this.searchPort = searchPort;
+    this.attachmentPort = attachmentPort;
+    this.storagePort = storagePort;
+    this.workflowPort = workflowPort;
+    this.closureCodePort = closureCodePort;
+    this.assignmentPort = assignmentPort;
+    this.userPort = userPort;
+    this.categoryPort = categoryPort;
+    this.supportGroupPort = supportGroupPort;
+    this.watcherPort = watcherPort;
+    this.eventBus = eventBus;
+    this.resolutionPolicy = resolutionPolicy;
+  }
+
+  /**
+   * Cierra periódicamente las resoluciones no confirmadas a tiempo
+   * El temporizador no mantiene vivo el proceso por sí solo
+   */
+  startAutoCloseWorker(intervaloMs: number = 3600 * 1000): void {
+    setInterval(() => {
+      this.closeUnconfirmedResolutions().catch((error) =>
+        console.error("Error closing unconfirmed resolutions:", error)
+      );
+    }, intervaloMs).unref();
   }
 
+  /**
+   * Crea una incidencia reportada por el usuario autenticado
+   * Un administrador puede registrarla en nombre de otro usuario indicando
+   * enNombreDe; en ese caso queda constancia de quién la registró en creadoPorId
+   * La incidencia se crea siempre sin técnico y en el estado inicial del
+   * flujo de trabajo, en la cola del grupo indicado o del grupo por defecto
+   * de su categoría, y, si su categoría tiene una regla de asignación
+   * automática, se asigna al técnico que decida la estrategia configurada;
+   * la asignación manual se hace después con assignIncident
+   */
   async createIncident(
-    incident: Omit<Incident, "id" | "creadoEn" | "actualizadoEn">
+    caller: AuthUser,
+    incident: Omit<
+      Incident,
+      | "id"
+      | "creadoEn"
+      | "actualizadoEn"
+      | "usuarioId"
+      | "creadoPorId"
+      | "estado"
+      | "soporteId"
+    >,
+    enNombreDe?: number
   ): Promise<number> {
-    this.validateIncidentData(incident);
+    const usuarioId = this.resolveReporter(caller, enNombreDe);
+    const incidentData = {
+      ...incident,
+      estado: (await this.loadWorkflow()).getInitialState().clave,
+      usuarioId,
+      creadoPorId: usuarioId !== caller.id ? caller.id : undefined,
+    };
+
+    this.validateIncidentData(incidentData);
 
     const incidentToCreate = {
-      ...incident,
+      ...incidentData,
       titulo: incident.titulo.trim(),
       descripcion: incident.descripcion?.trim(),
-      estado: incident.estado || ("abierta" as const), // Por defecto abierta
     };
 
     await this.validateReferences(incidentToCreate);
 
-    return await this.port.createIncident(incidentToCreate);
+    const grupoSoporteId = await this.resolveSupportGroup(
+      incidentToCreate.grupoSoporteId,
+      incidentToCreate.categoriaId
+    );
+
+    const plazosSla = await this.calculateSlaDueDates(
+      incidentToCreate.prioridadId,
+      new Date()
+    );
+
+    const id = await this.port.createIncident({
+      ...incidentToCreate,
+      grupoSoporteId,
+      ...plazosSla,
+    });
+
+    this.eventBus.publish({
+      tipo: "incident.created",
+      incidenciaId: id,
+      actorId: caller.id,
+      fecha: new Date(),
+    });
+
+    // Un fallo de la asignación automática no invalida la creación:
+    // la incidencia queda pendiente de asignación manual
+    await this.autoAssignIncident(caller.id, id).catch((error) =>
+      console.error("Error auto-assigning incident:", error)
+    );
+
+    return id;
   }
 
   async getIncidentById(
+    caller: AuthUser,
     id: number,
     includeRelations: boolean = false
   ): Promise<Incident | null> {
@@ -61,103 +254,314 @@ export class IncidentApplicationService {
       throw new Error("El ID de la incidencia debe ser un número positivo");
     }
 
-    return await this.port.getIncidentById(id, includeRelations);
+    const incident = await this.port.getIncidentById(id, includeRelations);
+
+    // Una incidencia fuera del alcance del usuario se trata como inexistente
+    if (!incident || !canViewIncident(caller, incident)) {
+      return null;
+    }
+
+    return incident;
   }
 
+  /**
+   * Lista las incidencias visibles para el usuario de forma paginada
+   * Por defecto devuelve la primera página ordenada de más reciente a más antigua
+   */
   async getAllIncidents(
-    filters?: {
-      estado?: "abierta" | "en_progreso" | "cerrada";
-      usuarioId?: number;
-      soporteId?: number;
-      categoriaId?: number;
-      prioridadId?: number;
-      fechaDesde?: Date;
-      fechaHasta?: Date;
-    },
+    caller: AuthUser,
+    filters?: IncidentFilters,
+    pagination?: Partial<IncidentPagination>,
     includeRelations: boolean = false
-  ): Promise<Incident[]> {
+  ): Promise<PaginatedResult<Incident>> {
     if (filters) {
       this.validateFilters(filters);
     }
 
-    return await this.port.getAllIncidents(filters, includeRelations);
+    return await this.port.getIncidentsPage(
+      this.applyVisibilityScope(caller, filters ?? {}),
+      await this.resolvePagination(pagination),
+      includeRelations
+    );
+  }
+
+  /**
+   * Busca incidencias visibles para el usuario por palabras de su título,
+   * descripción o comentarios, ordenadas por relevancia
+   * Cada resultado incluye fragmentos con los términos encontrados resaltados
+   */
+  async searchIncidents(
+    caller: AuthUser,
+    texto: string,
+    filters?: IncidentFilters,
+    limite: number = 20,
+    includeRelations: boolean = false
+  ): Promise<IncidentSearchResult[]> {
+    const terminos = extractSearchTerms(texto ?? "");
+    if (terminos.length === 0) {
+      throw new Error(
+        `La búsqueda debe contener al menos una palabra de ${SEARCH_MIN_TERM_LENGTH} o más caracteres`
+      );
+    }
+
+    if (texto.length > 200) {
+      throw new Error("La búsqueda no puede exceder los 200 caracteres");
+    }
+
+    if (!Number.isInteger(limite) || limite <= 0 || limite > MAX_SEARCH_RESULTS) {
+      throw new Error(
+        `El límite de resultados debe ser un entero entre 1 y ${MAX_SEARCH_RESULTS}`
+      );
+    }
+
+    if (filters) {
+      this.validateFilters(filters);
+    }
+
+    const hits = await this.searchPort.searchIncidents(
+      texto.trim(),
+      this.applyVisibilityScope(caller, filters ?? {}),
+      limite,
+      caller.rol !== "empleado"
+    );
+
+    const results: IncidentSearchResult[] = [];
+    for (const hit of hits) {
+      const incident = await this.port.getIncidentById(
+        hit.incidenciaId,
+        includeRelations
+      );
+      if (!incident) {
+        continue;
+      }
+
+      const fragmentos: SearchSnippet[] = [];
+      for (const coincidencia of hit.coincidencias) {
+        const fragmento = highlightSnippet(coincidencia.texto, terminos);
+        if (fragmento) {
+          fragmentos.push({
+            campo: coincidencia.campo,
+            comentarioId: coincidencia.comentarioId,
+            fragmento,
+          });
+        }
+      }
+
+      results.push({ incident, puntuacion: hit.puntuacion, fragmentos });
+    }
+
+    return results;
   }
 
   async getIncidentsBySupport(
+    caller: AuthUser,
     soporteId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
+    pagination?: Partial<IncidentPagination>,
     includeRelations: boolean = false
-  ): Promise<Incident[]> {
+  ): Promise<PaginatedResult<Incident>> {
     if (!soporteId || soporteId <= 0) {
       throw new Error(
         "El ID del técnico de soporte debe ser un número positivo"
       );
     }
 
-    return await this.port.getIncidentsBySupport(
-      soporteId,
-      estado,
+    return await this.port.getIncidentsPage(
+      this.applyVisibilityScope(caller, { soporteId, estado }),
+      await this.resolvePagination(pagination),
       includeRelations
     );
   }
 
+  /**
+   * Lista la cola de un grupo de soporte
+   * Un técnico solo puede consultar la cola de los grupos de los que es
+   * miembro, y en ella ve las incidencias asignadas a él o sin técnico
+   */
+  async getIncidentsBySupportGroup(
+    caller: AuthUser,
+    grupoSoporteId: number,
+    estado?: IncidentStatus,
+    pagination?: Partial<IncidentPagination>,
+    includeRelations: boolean = false
+  ): Promise<PaginatedResult<Incident>> {
+    if (!grupoSoporteId || grupoSoporteId <= 0) {
+      throw new Error("El ID del grupo de soporte debe ser un número positivo");
+    }
+
+    const group = await this.supportGroupPort.getSupportGroupById(
+      grupoSoporteId
+    );
+    if (!group) {
+      throw new Error("Grupo de soporte no encontrado");
+    }
+
+    if (
+      caller.rol === "soporte" &&
+      !(await this.supportGroupPort.isMember(grupoSoporteId, caller.id))
+    ) {
+      throw new Error(
+        "No tiene permisos para consultar la cola de un grupo al que no pertenece"
+      );
+    }
+
+    return await this.port.getIncidentsPage(
+      this.applyVisibilityScope(caller, { grupoSoporteId, estado }),
+      await this.resolvePagination(pagination),
+      includeRelations
+    );
+  }
+
+  /**
+   * Feed personal: incidencias que sigue el usuario autenticado, dentro
+   * de las que puede consultar
+   */
+  async getWatchedIncidents(
+    caller: AuthUser,
+    estado?: IncidentStatus,
+    pagination?: Partial<IncidentPagination>,
+    includeRelations: boolean = false
+  ): Promise<PaginatedResult<Incident>> {
+    return await this.port.getIncidentsPage(
+      this.applyVisibilityScope(caller, { seguidorId: caller.id, estado }),
+      await this.resolvePagination(pagination),
+      includeRelations
+    );
+  }
+
+  async getWatchers(caller: AuthUser, id: number): Promise<IncidentWatcher[]> {
+    await this.getVisibleIncident(caller, id);
+    return await this.watcherPort.getWatchers(id);
+  }
+
+  /**
+   * Suscribe al usuario autenticado a una incidencia que puede consultar
+   */
+  async watchIncident(caller: AuthUser, id: number): Promise<boolean> {
+    await this.getVisibleIncident(caller, id);
+
+    if (await this.watcherPort.isWatching(id, caller.id)) {
+      throw new Error("Ya sigue esta incidencia");
+    }
+
+    return await this.watcherPort.addWatcher(id, caller.id);
+  }
+
+  async unwatchIncident(caller: AuthUser, id: number): Promise<boolean> {
+    await this.getVisibleIncident(caller, id);
+
+    if (!(await this.watcherPort.isWatching(id, caller.id))) {
+      throw new Error("No sigue esta incidencia");
+    }
+
+    return await this.watcherPort.removeWatcher(id, caller.id);
+  }
+
+  /**
+   * Un gestor añade como seguidor a otro usuario activo que pueda consultar
+   * la incidencia, para que reciba sus notificaciones
+   */
+  async addWatcher(
+    caller: AuthUser,
+    id: number,
+    usuarioId: number
+  ): Promise<boolean> {
+    const incident = await this.getVisibleIncident(caller, id);
+
+    const user = await this.userPort.getUserById(usuarioId);
+    if (!user || user.status !== 1) {
+      throw new Error("Usuario no encontrado o inactivo");
+    }
+
+    if (!canViewIncident(user, incident)) {
+      throw new Error("El usuario no tiene acceso a esta incidencia");
+    }
+
+    if (await this.watcherPort.isWatching(id, usuarioId)) {
+      throw new Error("El usuario ya sigue esta incidencia");
+    }
+
+    return await this.watcherPort.addWatcher(id, usuarioId, caller.id);
+  }
+
+  async removeWatcher(
+    caller: AuthUser,
+    id: number,
+    usuarioId: number
+  ): Promise<boolean> {
+    await this.getVisibleIncident(caller, id);
+
+    if (!(await this.watcherPort.isWatching(id, usuarioId))) {
+      throw new Error("El usuario no sigue esta incidencia");
+    }
+
+    return await this.watcherPort.removeWatcher(id, usuarioId);
+  }
+
   async getIncidentsByUser(
+    caller: AuthUser,
     usuarioId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
+    pagination?: Partial<IncidentPagination>,
     includeRelations: boolean = false
-  ): Promise<Incident[]> {
+  ): Promise<PaginatedResult<Incident>> {
     if (!usuarioId || usuarioId <= 0) {
       throw new Error("El ID del usuario debe ser un número positivo");
     }
 
-    return await this.port.getIncidentsByUser(
-      usuarioId,
-      estado,
+    return await this.port.getIncidentsPage(
+      this.applyVisibilityScope(caller, { usuarioId, estado }),
+      await this.resolvePagination(pagination),
       includeRelations
     );
   }
 
   async getIncidentsByCategory(
+    caller: AuthUser,
     categoriaId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
+    pagination?: Partial<IncidentPagination>,
     includeRelations: boolean = false
-  ): Promise<Incident[]> {
+  ): Promise<PaginatedResult<Incident>> {
     if (!categoriaId || categoriaId <= 0) {
       throw new Error("El ID de la categoría debe ser un número positivo");
     }
 
-    return await this.port.getIncidentsByCategory(
-      categoriaId,
-      estado,
+    return await this.port.getIncidentsPage(
+      this.applyVisibilityScope(caller, { categoriaId, estado }),
+      await this.resolvePagination(pagination),
       includeRelations
     );
   }
 
   async getIncidentsByPriority(
+    caller: AuthUser,
     prioridadId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
+    pagination?: Partial<IncidentPagination>,
     includeRelations: boolean = false
-  ): Promise<Incident[]> {
+  ): Promise<PaginatedResult<Incident>> {
     if (!prioridadId || prioridadId <= 0) {
       throw new Error("El ID de la prioridad debe ser un número positivo");
     }
 
-    return await this.port.getIncidentsByPriority(
-      prioridadId,
-      estado,
+    return await this.port.getIncidentsPage(
+      this.applyVisibilityScope(caller, { prioridadId, estado }),
+      await this.resolvePagination(pagination),
       includeRelations
     );
   }
 
+  /**
+   * Actualiza los datos de la incidencia; el técnico asignado solo cambia
+   * mediante assignIncident, que valida la asignación y el flujo de trabajo
+   */
   async updateIncident(
+    caller: AuthUser,
     id: number,
-    incident: Partial<Omit<Incident, "id" | "creadoEn">>
+    incident: Partial<Omit<Incident, "id" | "creadoEn" | "soporteId">>
   ): Promise<boolean> {
-    // Validar que la incidencia existe
-    const existingIncident = await this.port.getIncidentById(id);
-    if (!existingIncident) {
-      throw new Error("Incidencia no encontrada");
-    }
+    const existingIncident = await this.getVisibleIncident(caller, id);
 
     // Validar datos de actualización
     if (incident.titulo) {
@@ -168,8 +572,19 @@ export class IncidentApplicationService {
       this.validateDescription(incident.descripcion);
     }
 
-    if (incident.estado) {
-      this.validateStatusTransition(existingIncident.estado, incident.estado);
+    // El cambio de estado se valida contra el flujo de trabajo
+    let cambioEstado: IncidentStatusChange | undefined;
+    if (incident.estado && incident.estado !== existingIncident.estado) {
+      cambioEstado = await this.buildStatusChange(
+        await this.loadWorkflow(),
+        caller,
+        existingIncident,
+        incident.estado,
+        {
+          notaResolucion: incident.notaResolucion,
+          codigoCierreId: incident.codigoCierreId,
+        }
+      );
     }
 
     const incidentToUpdate: Partial<Omit<Incident, "id" | "creadoEn">> = {};
@@ -177,69 +592,503 @@ export class IncidentApplicationService {
     if (incident.titulo) incidentToUpdate.titulo = incident.titulo.trim();
     if (incident.descripcion !== undefined)
       incidentToUpdate.descripcion = incident.descripcion?.trim();
-    if (incident.estado) incidentToUpdate.estado = incident.estado;
-    if (incident.soporteId !== undefined)
-      incidentToUpdate.soporteId = incident.soporteId;
     if (incident.categoriaId)
       incidentToUpdate.categoriaId = incident.categoriaId;
     if (incident.prioridadId)
       incidentToUpdate.prioridadId = incident.prioridadId;
 
-    return await this.port.updateIncident(id, incidentToUpdate);
+    // Un cambio de prioridad recalcula los plazos del SLA desde la creación
+    if (
+      incident.prioridadId &&
+      incident.prioridadId !== existingIncident.prioridadId
+    ) {
+      Object.assign(
+        incidentToUpdate,
+        await this.calculateSlaDueDates(
+          incident.prioridadId,
+          existingIncident.creadoEn
+        )
+      );
+    }
+
+    // Los datos y el estado se guardan juntos en una única transacción
+    const updated = await this.port.updateIncident(
+      id,
+      incidentToUpdate,
+      caller.id,
+      cambioEstado
+    );
+
+    if (updated) {
+      this.publishChanges(
+        caller.id,
+        existingIncident,
+        {
+          ...incidentToUpdate,
+          ...(cambioEstado ? { estado: cambioEstado.estado } : {}),
+        },
+        cambioEstado?.tipoNuevo === "final"
+      );
+    }
+
+    return updated;
   }
 
+  /**
+   * Cambia el estado de una incidencia siguiendo el flujo de trabajo:
+   * la transición debe existir, estar permitida para el rol del usuario
+   * y cumplir sus campos requeridos (por ejemplo, la nota de resolución)
+   */
   async changeIncidentStatus(
+    caller: AuthUser,
     id: number,
-    nuevoEstado: "abierta" | "en_progreso" | "cerrada"
+    nuevoEstado: IncidentStatus,
+    datos: TransitionData = {}
   ): Promise<boolean> {
     const existingIncident = await this.port.getIncidentById(id);
-    if (!existingIncident) {
+    if (!existingIncident || !canViewIncident(caller, existingIncident)) {
+      throw new Error("Incidencia no encontrada");
+    }
+
+    const cambio = await this.buildStatusChange(
+      await this.loadWorkflow(),
+      caller,
+      existingIncident,
+      nuevoEstado,
+      datos
+    );
+
+    const changed = await this.port.changeIncidentStatus(id, cambio, caller.id);
+
+    if (changed) {
+      this.publishChanges(
+        caller.id,
+        existingIncident,
+        { estado: nuevoEstado },
+        cambio.tipoNuevo === "final"
+      );
+    }
+
+    return changed;
+  }
+
+  /**
+   * Lista las transiciones que el usuario puede realizar desde el estado
+   * actual de la incidencia
+   */
+  async getAvailableTransitions(
+    caller: AuthUser,
+    id: number
+  ): Promise<WorkflowTransition[]> {
+    const incident = await this.getIncidentById(caller, id);
+    if (!incident) {
       throw new Error("Incidencia no encontrada");
     }
 
-    this.validateStatusTransition(existingIncident.estado, nuevoEstado);
+    const workflow = await this.loadWorkflow();
+    return workflow.getAvailableTransitions(incident.estado, caller.rol);
+  }
+
+  /**
+   * El usuario que reportó la incidencia confirma la resolución propuesta
+   * y la incidencia pasa a cerrada
+   */
+  async confirmResolution(caller: AuthUser, id: number): Promise<boolean> {
+    return await this.respondToResolution(caller, id, CONFIRMED_STATUS);
+  }
 
-    return await this.port.changeIncidentStatus(id, nuevoEstado);
+  /**
+   * El usuario que reportó la incidencia rechaza la resolución propuesta:
+   * la incidencia vuelve a tratamiento y se descartan la nota y el código
+   * de cierre propuestos
+   */
+  async rejectResolution(caller: AuthUser, id: number): Promise<boolean> {
+    return await this.respondToResolution(caller, id, REJECTED_STATUS);
   }
 
-  async assignIncident(id: number, soporteId: number | null): Promise<boolean> {
+  /**
+   * Reabre una incidencia en un estado final
+   * Dentro del plazo de reapertura vuelve al estado inicial; fuera de plazo
+   * se crea una incidencia de seguimiento enlazada con la original
+   */
+  async reopenIncident(
+    caller: AuthUser,
+    id: number,
+    motivo?: string
+  ): Promise<IncidentReopenResult> {
     const existingIncident = await this.port.getIncidentById(id);
-    if (!existingIncident) {
+    if (!existingIncident || !canViewIncident(caller, existingIncident)) {
       throw new Error("Incidencia no encontrada");
     }
 
-    // Validar que no se puede asignar una incidencia cerrada
-    if (existingIncident.estado === "cerrada") {
+    if (motivo && motivo.length > 5000) {
+      throw new Error("El motivo no puede exceder los 5000 caracteres");
+    }
+
+    // El motivo se convierte en la descripción de la incidencia de seguimiento
+    if (motivo) {
+      validateMarkdown(motivo, "el motivo");
+    }
+
+    const workflow = await this.loadWorkflow();
+    if (!workflow.isFinal(existingIncident.estado)) {
+      throw new Error("Solo se pueden reabrir incidencias en un estado final");
+    }
+
+    if (this.isWithinReopenWindow(existingIncident)) {
+      const estadoInicial = workflow.getInitialState().clave;
+      const cambio = await this.buildStatusChange(
+        workflow,
+        caller,
+        existingIncident,
+        estadoInicial,
+        {}
+      );
+      await this.port.changeIncidentStatus(id, cambio, caller.id);
+      this.publishChanges(caller.id, existingIncident, { estado: estadoInicial });
+
+      return { incidenciaId: id, seguimiento: false };
+    }
+
+    const seguimientoId = await this.createFollowUp(
+      caller,
+      existingIncident,
+      workflow.getInitialState().clave,
+      motivo
+    );
+
+    return { incidenciaId: seguimientoId, seguimiento: true };
+  }
+
+  /**
+   * Cierra las incidencias resueltas cuyo usuario no ha respondido dentro
+   * del plazo de confirmación
+   * El cierre se atribuye al técnico asignado para que el reportador reciba
+   * la notificación de cierre
+   */
+  async closeUnconfirmedResolutions(): Promise<number> {
+    const workflow = await this.loadWorkflow();
+    const transicion = workflow.findTransition(RESOLVED_STATUS, CONFIRMED_STATUS);
+    if (!transicion) {
+      return 0;
+    }
+
+    const limite = new Date(
+      Date.now() - this.resolutionPolicy.diasConfirmacion * MS_POR_DIA
+    );
+    const incidents = await this.port.getIncidentsResolvedBefore(
+      RESOLVED_STATUS,
+      limite
+    );
+
+    let cerradas = 0;
+    for (const incident of incidents) {
+      const actorId = incident.soporteId ?? incident.usuarioId;
+      const cambio: IncidentStatusChange = {
+        estadoAnterior: RESOLVED_STATUS,
+        estado: CONFIRMED_STATUS,
+        tipoAnterior: workflow.getState(RESOLVED_STATUS)!.tipo,
+        tipoNuevo: workflow.getState(CONFIRMED_STATUS)!.tipo,
+        fechaResolucion: null,
+      };
+
+      // Si el usuario ha respondido entretanto, la incidencia ya no está
+      // resuelta y se omite
+      const changed = await this.port
+        .changeIncidentStatus(incident.id, cambio, actorId)
+        .catch((error) => {
+          console.error("Error auto-closing incident:", error);
+          return false;
+        });
+
+      if (changed) {
+        cerradas++;
+        this.publishChanges(
+          actorId,
+          incident,
+          { estado: CONFIRMED_STATUS },
+          cambio.tipoNuevo === "final"
+        );
+      }
+    }
+
+    return cerradas;
+  }
+
+  async assignIncident(
+    caller: AuthUser,
+    id: number,
+    soporteId: number | null
+  ): Promise<boolean> {
+    const existingIncident = await this.getVisibleIncident(caller, id);
+
+    // Validar que no se puede asignar una incidencia en un estado final
+    const workflow = await this.loadWorkflow();
+    if (workflow.isFinal(existingIncident.estado)) {
+      throw new Error("No se puede asignar una incidencia cerrada");
+    }
+
+    return await this.applyAssignment(
+      caller.id,
+      workflow,
+      existingIncident,
+      soporteId
+    );
+  }
+
+  /**
+   * Asigna la incidencia a la cola de un grupo de soporte, o la saca de la
+   * cola del grupo si grupoSoporteId es null
+   * El técnico asignado, si lo hay, se conserva
+   */
+  async assignIncidentGroup(
+    caller: AuthUser,
+    id: number,
+    grupoSoporteId: number | null
+  ): Promise<boolean> {
+    const existingIncident = await this.getVisibleIncident(caller, id);
+
+    const workflow = await this.loadWorkflow();
+    if (workflow.isFinal(existingIncident.estado)) {
       throw new Error("No se puede asignar una incidencia cerrada");
     }
 
-    // Si se asigna por primera vez, cambiar estado a "en_progreso"
-    if (soporteId && !existingIncident.soporteId) {
-      await this.port.changeIncidentStatus(id, "en_progreso");
+    if (grupoSoporteId) {
+      await this.validateSupportGroup(grupoSoporteId);
+    }
+
+    const assigned = await this.port.assignIncidentGroup(
+      id,
+      grupoSoporteId,
+      caller.id
+    );
+
+    if (assigned) {
+      this.publishChanges(caller.id, existingIncident, {
+        grupoSoporteId: grupoSoporteId ?? undefined,
+      });
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Asigna una incidencia recién creada según la regla de su categoría
+   * Los candidatos son los técnicos de soporte activos (salvo el reportador)
+   * con su número de incidencias no finalizadas, limitados a los miembros
+   * del grupo de soporte si la incidencia tiene uno; la decisión queda
+   * registrada aunque ningún técnico resulte elegible
+   */
+  private async autoAssignIncident(actorId: number, id: number): Promise<void> {
+    const incident = await this.port.getIncidentById(id);
+    if (!incident || incident.soporteId) {
+      return;
+    }
+
+    const regla = await this.assignmentPort.getRuleByCategory(
+      incident.categoriaId
+    );
+    if (!regla || !regla.activa) {
+      return;
+    }
+
+    const workflow = await this.loadWorkflow();
+    const usuarios = await this.userPort.getAllUsers();
+    const miembros = incident.grupoSoporteId
+      ? (await this.supportGroupPort.getMembers(incident.grupoSoporteId)).map(
+          (miembro) => miembro.usuarioId
+        )
+      : undefined;
+    const candidatos: AssignmentCandidate[] = [];
+    for (const usuario of usuarios) {
+      if (
+        usuario.rol !== "soporte" ||
+        usuario.status !== 1 ||
+        usuario.id === incident.usuarioId ||
+        (miembros && !miembros.includes(usuario.id))
+      ) {
+        continue;
+      }
+
+      const asignadas = await this.port.getIncidentsBySupport(usuario.id);
+      candidatos.push({
+        soporteId: usuario.id,
+        incidenciasAbiertas: asignadas.filter(
+          (asignada) => !workflow.isFinal(asignada.estado)
+        ).length,
+      });
+    }
+
+    const seleccion = ASSIGNMENT_STRATEGIES[regla.estrategia].select(
+      candidatos,
+      regla
+    );
+
+    await this.assignmentPort.recordDecision({
+      incidenciaId: id,
+      categoriaId: incident.categoriaId,
+      estrategia: regla.estrategia,
+      soporteId: seleccion.soporteId ?? undefined,
+      candidatos,
+      motivo: seleccion.motivo,
+    });
+
+    if (seleccion.soporteId) {
+      await this.applyAssignment(
+        actorId,
+        workflow,
+        incident,
+        seleccion.soporteId
+      );
+      await this.assignmentPort.updateLastAssigned(
+        incident.categoriaId,
+        seleccion.soporteId
+      );
+    }
+  }
+
+  /**
+   * Guarda el técnico asignado y publica los cambios
+   * Si se asigna por primera vez, pasa al estado de trabajo cuando el flujo
+   * lo permite sin datos adicionales
+   */
+  private async applyAssignment(
+    actorId: number,
+    workflow: WorkflowEngine,
+    existingIncident: Incident,
+    soporteId: number | null
+  ): Promise<boolean> {
+    const id = existingIncident.id;
+    const assigned = await this.port.assignIncident(id, soporteId, actorId);
+
+    const cambios: Partial<Incident> = { soporteId: soporteId ?? undefined };
+    let estadoFinal = false;
+    if (assigned && soporteId && !existingIncident.soporteId) {
+      const cambioEstado = this.tryAutomaticTransition(
+        workflow,
+        existingIncident,
+        ASSIGNED_STATUS,
+        { ...existingIncident, soporteId }
+      );
+      if (cambioEstado) {
+        await this.port.changeIncidentStatus(id, cambioEstado, actorId);
+        cambios.estado = cambioEstado.estado;
+        estadoFinal = cambioEstado.tipoNuevo === "final";
+      }
+    }
+
+    if (assigned) {
+      this.publishChanges(actorId, existingIncident, cambios, estadoFinal);
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Lista las incidencias activas en riesgo de incumplir su SLA
+   * (algún plazo vence en las próximas horasUmbral horas) o ya incumplidas
+   */
+  async getIncidentsBySla(
+    caller: AuthUser,
+    estadoSla: SlaStatus,
+    horasUmbral: number = 4,
+    includeRelations: boolean = false
+  ): Promise<Incident[]> {
+    if (horasUmbral <= 0) {
+      throw new Error("El umbral de horas debe ser un número positivo");
+    }
+
+    const ahora = new Date();
+    const limiteRiesgo = new Date(ahora.getTime() + horasUmbral * 3600 * 1000);
+    const estadosFinales = (await this.loadWorkflow()).getFinalStates();
+
+    return await this.port.getIncidentsBySla(
+      estadoSla,
+      { ahora, limiteRiesgo, estadosFinales },
+      this.applyVisibilityScope(caller, {}),
+      includeRelations
+    );
+  }
+
+  /**
+   * Devuelve la línea de tiempo de cambios de una incidencia
+   * Solo accesible si la incidencia está dentro del alcance del usuario
+   */
+  async getIncidentHistory(
+    caller: AuthUser,
+    id: number
+  ): Promise<HistorialIncidencia[]> {
+    const incident = await this.getIncidentById(caller, id);
+    if (!incident) {
+      throw new Error("Incidencia no encontrada");
     }
 
-    return await this.port.assignIncident(id, soporteId);
+    return await this.historyPort.getHistoryByIncident(id);
   }
 
-  async getIncidentStatistics(filters?: {
-    fechaDesde?: Date;
-    fechaHasta?: Date;
-    usuarioId?: number;
-    categoriaId?: number;
-  }): Promise<{
-    total: number;
-    abiertas: number;
-    enProgreso: number;
-    cerradas: number;
-    porCategoria: { [key: string]: number };
-    porPrioridad: { [key: string]: number };
-    tiempoPromedioResolucion?: number;
-  }> {
+  /**
+   * Obtiene las estadísticas de incidencias visibles para el usuario
+   * Los tiempos de primera respuesta y de resolución se expresan en horas
+   * laborables según el calendario laboral configurado
+   * Los totales de abiertas, en progreso y cerradas agrupan los estados del
+   * flujo de trabajo por su tipo (inicial, intermedio y final)
+   */
+  async getIncidentStatistics(
+    caller: AuthUser,
+    filters?: IncidentStatisticsFilters
+  ): Promise<IncidentStatistics> {
     if (filters) {
       this.validateStatisticsFilters(filters);
     }
 
-    return await this.port.getIncidentStatistics(filters);
+    const scopedFilters = this.applyVisibilityScope(caller, filters ?? {});
+    const statistics = await this.port.getIncidentStatistics(scopedFilters);
+    const lifecycleTimes = await this.port.getIncidentLifecycleTimes(
+      scopedFilters
+    );
+    const businessTime = await this.loadBusinessTime();
+    const workflow = await this.loadWorkflow();
+
+    let abiertas = 0;
+    let enProgreso = 0;
+    let cerradas = 0;
+    Object.entries(statistics.porEstado).forEach(([estado, cantidad]) => {
+      const tipo = workflow.getState(estado)?.tipo;
+      if (tipo === "inicial") {
+        abiertas += cantidad;
+      } else if (tipo === "final") {
+        cerradas += cantidad;
+      } else {
+        enProgreso += cantidad;
+      }
+    });
+
+    const horasResolucion = lifecycleTimes
+      .filter((times) => workflow.isFinal(times.estado) && times.fechaCierre)
+      .map((times) =>
+        businessTime.businessHoursBetween(times.creadoEn, times.fechaCierre!)
+      );
+    const horasPrimeraRespuesta = lifecycleTimes
+      .filter((times) => times.fechaPrimeraRespuesta)
+      .map((times) =>
+        businessTime.businessHoursBetween(
+          times.creadoEn,
+          times.fechaPrimeraRespuesta!
+        )
+      );
+
+    const tiemposResolucion = summarizeDurations(horasResolucion);
+    const tiemposPrimeraRespuesta = summarizeDurations(horasPrimeraRespuesta);
+
+    return {
+      ...statistics,
+      abiertas,
+      enProgreso,
+      cerradas,
+      tiempoPromedioResolucion: tiemposResolucion?.promedio,
+      tiemposResolucion,
+      tiemposPrimeraRespuesta,
+    };
   }
 
   private validateIncidentData(
@@ -273,11 +1122,8 @@ export class IncidentApplicationService {
       throw new Error("El ID del técnico de soporte debe ser válido");
     }
 
-    if (
-      incident.estado &&
-      !["abierta", "en_progreso", "cerrada"].includes(incident.estado)
-    ) {
-      throw new Error("El estado debe ser: abierta, en_progreso o cerrada");
+    if (incident.estado && !isValidStatusKey(incident.estado)) {
+      throw new Error("El estado no es válido");
     }
   }
 
@@ -301,34 +1147,450 @@ export class IncidentApplicationService {
     if (descripcion && descripcion.length > 5000) {
       throw new Error("La descripción no puede exceder los 5000 caracteres");
     }
+
+    if (descripcion) {
+      validateMarkdown(descripcion, "la descripción");
+    }
   }
 
-  private validateStatusTransition(
-    estadoActual: "abierta" | "en_progreso" | "cerrada",
-    nuevoEstado: "abierta" | "en_progreso" | "cerrada"
+  private async respondToResolution(
+    caller: AuthUser,
+    id: number,
+    nuevoEstado: IncidentStatus
+  ): Promise<boolean> {
+    const existingIncident = await this.port.getIncidentById(id);
+    if (!existingIncident || !canViewIncident(caller, existingIncident)) {
+      throw new Error("Incidencia no encontrada");
+    }
+
+    if (existingIncident.estado !== RESOLVED_STATUS) {
+      throw new Error("La incidencia no tiene una resolución pendiente de confirmar");
+    }
+
+    return await this.changeIncidentStatus(caller, id, nuevoEstado);
+  }
+
+  private isWithinReopenWindow(incident: Incident): boolean {
+    if (!incident.fechaCierre) {
+      return true;
+    }
+
+    const limite =
+      new Date(incident.fechaCierre).getTime() +
+      this.resolutionPolicy.diasReapertura * MS_POR_DIA;
+    return Date.now() <= limite;
+  }
+
+  /**
+   * Crea una incidencia de seguimiento de otra cerrada fuera del plazo de
+   * reapertura, con el mismo reportador, categoría y prioridad
+   */
+  private async createFollowUp(
+    caller: AuthUser,
+    original: Incident,
+    estadoInicial: IncidentStatus,
+    motivo?: string
+  ): Promise<number> {
+    const titulo = `Seguimiento de la incidencia ${original.id}: ${original.titulo}`
+      .slice(0, 150)
+      .trim();
+    const descripcion =
+      motivo?.trim() ||
+      `Reapertura de la incidencia ${original.id} fuera del plazo de ${this.resolutionPolicy.diasReapertura} días`;
+
+    const plazosSla = await this.calculateSlaDueDates(
+      original.prioridadId,
+      new Date()
+    );
+
+    const id = await this.port.createIncident({
+      titulo,
+      descripcion,
+      estado: estadoInicial,
+      usuarioId: original.usuarioId,
+      creadoPorId: caller.id !== original.usuarioId ? caller.id : undefined,
+      categoriaId: original.categoriaId,
+      grupoSoporteId: original.grupoSoporteId,
+      prioridadId: original.prioridadId,
+      incidenciaOrigenId: original.id,
+      ...plazosSla,
+    });
+
+    this.eventBus.publish({
+      tipo: "incident.created",
+      incidenciaId: id,
+      actorId: caller.id,
+      fecha: new Date(),
+    });
+
+    await this.autoAssignIncident(caller.id, id).catch((error) =>
+      console.error("Error auto-assigning incident:", error)
+    );
+
+    return id;
+  }
+
+  /**
+   * Valida la transición con el flujo de trabajo y construye el cambio de
+   * estado con los tipos de origen y destino que necesita la persistencia
+   * Toda incidencia que entra en un estado final debe quedar con nota de
+   * resolución y código de cierre, aportados ahora o en una transición previa
+   */
+  private async buildStatusChange(
+    workflow: WorkflowEngine,
+    caller: AuthUser,
+    incident: Incident,
+    nuevoEstado: IncidentStatus,
+    datos: TransitionData
+  ): Promise<IncidentStatusChange> {
+    // Solo el reportador (o un administrador) responde a una resolución
+    if (
+      incident.estado === RESOLVED_STATUS &&
+      caller.rol !== "administrador" &&
+      caller.id !== incident.usuarioId
+    ) {
+      throw new Error(
+        "No tiene permisos para responder a la resolución: solo puede hacerlo el usuario que reportó la incidencia"
+      );
+    }
+
+    const tipoAnterior = workflow.getState(incident.estado)?.tipo ?? "intermedio";
+    const destino = workflow.getState(nuevoEstado);
+    if (
+      tipoAnterior === "final" &&
+      destino &&
+      destino.tipo !== "final" &&
+      !this.isWithinReopenWindow(incident)
+    ) {
+      throw new Error(
+        `El plazo de reapertura de ${this.resolutionPolicy.diasReapertura} días ha vencido; reabra la incidencia para crear una de seguimiento`
+      );
+    }
+
+    const transicion = workflow.assertTransition(
+      incident.estado,
+      nuevoEstado,
+      caller.rol,
+      incident,
+      datos
+    );
+
+    const notaResolucion = datos.notaResolucion?.trim();
+    if (notaResolucion && notaResolucion.length > 5000) {
+      throw new Error(
+        "La nota de resolución no puede exceder los 5000 caracteres"
+      );
+    }
+
+    if (datos.codigoCierreId !== undefined) {
+      const codigoCierre = await this.closureCodePort.getClosureCodeById(
+        datos.codigoCierreId
+      );
+      if (!codigoCierre || codigoCierre.estado !== 1) {
+        throw new Error("El código de cierre indicado no existe o no está activo");
+      }
+    }
+
+    const tipoNuevo = workflow.getState(transicion.estadoDestino)!.tipo;
+    if (tipoNuevo === "final") {
+      if (!notaResolucion && !incident.notaResolucion) {
+        throw new Error(
+          "Para cerrar la incidencia se requiere una nota de resolución"
+        );
+      }
+
+      if (!datos.codigoCierreId && !incident.codigoCierreId) {
+        throw new Error("Para cerrar la incidencia se requiere un código de cierre");
+      }
+    }
+
+    const cambio: IncidentStatusChange = {
+      estadoAnterior: incident.estado,
+      estado: nuevoEstado,
+      tipoAnterior,
+      tipoNuevo,
+      notaResolucion: notaResolucion || undefined,
+      codigoCierreId: datos.codigoCierreId,
+    };
+
+    // La resolución propuesta queda pendiente de confirmar desde que se entra
+    // en el estado resuelta; si se rechaza, se descartan su nota y su código
+    if (nuevoEstado === RESOLVED_STATUS) {
+      cambio.fechaResolucion = new Date();
+    } else if (incident.estado === RESOLVED_STATUS) {
+      cambio.fechaResolucion = null;
+      cambio.descartarResolucion = tipoNuevo !== "final";
+    }
+
+    return cambio;
+  }
+
+  /**
+   * Cambio de estado realizado por el sistema: solo se aplica si la transición
+   * existe, no exige datos que la incidencia no tenga y no cierra la incidencia
+   */
+  private tryAutomaticTransition(
+    workflow: WorkflowEngine,
+    existingIncident: Incident,
+    nuevoEstado: IncidentStatus,
+    incidente: { soporteId?: number }
+  ): IncidentStatusChange | undefined {
+    const transicion = workflow.findTransition(
+      existingIncident.estado,
+      nuevoEstado
+    );
+    if (
+      !transicion ||
+      workflow.isFinal(nuevoEstado) ||
+      transicion.camposRequeridos.includes("notaResolucion") ||
+      transicion.camposRequeridos.includes("codigoCierre") ||
+      (transicion.camposRequeridos.includes("soporteId") && !incidente.soporteId)
+    ) {
+      return undefined;
+    }
+
+    return {
+      estadoAnterior: existingIncident.estado,
+      estado: nuevoEstado,
+      tipoAnterior:
+        workflow.getState(existingIncident.estado)?.tipo ?? "intermedio",
+      tipoNuevo: workflow.getState(nuevoEstado)!.tipo,
+    };
+  }
+
+  /**
+   * Calcula los vencimientos del SLA a partir de los objetivos de la prioridad
+   * Los objetivos se expresan en horas laborables desde la fecha de inicio
+   */
+  private async calculateSlaDueDates(
+    prioridadId: number,
+    inicio: Date
+  ): Promise<Pick<Incident, "fechaLimiteRespuesta" | "fechaLimiteResolucion">> {
+    const priority = await this.priorityPort.getPriorityById(prioridadId);
+    if (!priority) {
+      throw new Error("La prioridad indicada no existe");
+    }
+
+    if (!priority.horasRespuesta && !priority.horasResolucion) {
+      return {
+        fechaLimiteRespuesta: undefined,
+        fechaLimiteResolucion: undefined,
+      };
+    }
+
+    const businessTime = await this.loadBusinessTime();
+
+    return {
+      fechaLimiteRespuesta: priority.horasRespuesta
+        ? businessTime.addBusinessHours(inicio, priority.horasRespuesta)
+        : undefined,
+      fechaLimiteResolucion: priority.horasResolucion
+        ? businessTime.addBusinessHours(inicio, priority.horasResolucion)
+        : undefined,
+    };
+  }
+
+  /**
+   * Publica los eventos de dominio correspondientes a los campos modificados:
+   * incident.status_changed y incident.assigned para estado y técnico,
+   * e incident.updated para el resto de campos
+   */
+  private publishChanges(
+    actorId: number,
+    existingIncident: Incident,
+    cambios: Partial<Incident>,
+    estadoFinal?: boolean
   ): void {
-    const transicionesValidas = {
-      abierta: ["en_progreso", "cerrada"],
-      en_progreso: ["abierta", "cerrada"],
-      cerrada: ["abierta"],
+    const base = {
+      incidenciaId: existingIncident.id,
+      actorId,
+      fecha: new Date(),
     };
 
-    if (!transicionesValidas[estadoActual].includes(nuevoEstado)) {
+    if (cambios.estado && cambios.estado !== existingIncident.estado) {
+      this.eventBus.publish({
+        ...base,
+        tipo: "incident.status_changed",
+        estadoAnterior: existingIncident.estado,
+        estadoNuevo: cambios.estado,
+        estadoFinal: estadoFinal ?? false,
+      });
+    }
+
+    if (
+      "soporteId" in cambios &&
+      (cambios.soporteId ?? null) !== (existingIncident.soporteId ?? null)
+    ) {
+      this.eventBus.publish({
+        ...base,
+        tipo: "incident.assigned",
+        soporteAnteriorId: existingIncident.soporteId,
+        soporteId: cambios.soporteId ?? null,
+      });
+    }
+
+    const campos = [
+      "titulo",
+      "descripcion",
+      "categoriaId",
+      "prioridadId",
+      "grupoSoporteId",
+    ].filter(
+      (campo) =>
+        campo in cambios &&
+        cambios[campo as keyof Incident] !==
+          existingIncident[campo as keyof Incident]
+    );
+    if (campos.length > 0) {
+      this.eventBus.publish({ ...base, tipo: "incident.updated", campos });
+    }
+  }
+
+  /**
+   * Construye el servicio de tiempo laborable con el calendario configurado
+   * (o el calendario por defecto si aún no existe) y sus días festivos
+   */
+  private async loadBusinessTime(): Promise<BusinessTimeService> {
+    const calendar =
+      (await this.calendarPort.getCalendar()) ?? DEFAULT_BUSINESS_CALENDAR;
+    const holidays = await this.calendarPort.getHolidays();
+
+    return new BusinessTimeService(
+      calendar,
+      holidays.map((holiday) => holiday.fecha)
+    );
+  }
+
+  /**
+   * Construye el motor del flujo de trabajo configurado
+   * (o el flujo por defecto si aún no existe)
+   */
+  private async loadWorkflow(): Promise<WorkflowEngine> {
+    const workflow =
+      (await this.workflowPort.getWorkflow()) ?? DEFAULT_WORKFLOW;
+    return new WorkflowEngine(workflow);
+  }
+
+  /**
+   * Completa las opciones de paginación con los valores por defecto y las valida
+   * La ordenación por estado sigue el orden de los estados del flujo de trabajo
+   */
+  private async resolvePagination(
+    pagination: Partial<IncidentPagination> = {}
+  ): Promise<IncidentPagination> {
+    const resolved: IncidentPagination = {
+      pagina: pagination.pagina,
+      cursor: pagination.cursor,
+      limite: pagination.limite ?? DEFAULT_PAGE_SIZE,
+      ordenarPor: pagination.ordenarPor ?? "creadoEn",
+      orden: pagination.orden ?? "DESC",
+    };
+
+    if (resolved.pagina !== undefined && resolved.cursor !== undefined) {
+      throw new Error(
+        "No se puede combinar la paginación por página y por cursor"
+      );
+    }
+
+    if (
+      resolved.pagina !== undefined &&
+      (!Number.isInteger(resolved.pagina) || resolved.pagina <= 0)
+    ) {
+      throw new Error("El número de página debe ser un entero positivo");
+    }
+
+    if (
+      !Number.isInteger(resolved.limite) ||
+      resolved.limite <= 0 ||
+      resolved.limite > MAX_PAGE_SIZE
+    ) {
+      throw new Error(
+        `El límite de la página debe ser un entero entre 1 y ${MAX_PAGE_SIZE}`
+      );
+    }
+
+    if (
+      !["creadoEn", "actualizadoEn", "prioridad", "estado"].includes(
+        resolved.ordenarPor
+      )
+    ) {
       throw new Error(
-        `No se puede cambiar de estado "${estadoActual}" a "${nuevoEstado}"`
+        "El criterio de ordenación debe ser: creadoEn, actualizadoEn, prioridad o estado"
       );
     }
+
+    if (!["ASC", "DESC"].includes(resolved.orden)) {
+      throw new Error("El sentido de ordenación debe ser: asc o desc");
+    }
+
+    if (resolved.ordenarPor === "estado") {
+      resolved.ordenEstados = (await this.loadWorkflow()).getStatusOrder();
+    }
+
+    return resolved;
   }
 
-  private validateFilters(filters: {
-    estado?: "abierta" | "en_progreso" | "cerrada";
-    usuarioId?: number;
-    soporteId?: number;
-    categoriaId?: number;
-    prioridadId?: number;
-    fechaDesde?: Date;
-    fechaHasta?: Date;
-  }): void {
+  private resolveReporter(caller: AuthUser, enNombreDe?: number): number {
+    if (enNombreDe === undefined || enNombreDe === caller.id) {
+      return caller.id;
+    }
+
+    if (caller.rol !== "administrador") {
+      throw new Error(
+        "No tiene permisos para registrar incidencias en nombre de otro usuario"
+      );
+    }
+
+    return enNombreDe;
+  }
+
+  /**
+   * Restringe los filtros de consulta al alcance de visibilidad del rol:
+   * - empleado: solo las incidencias que ha reportado
+   * - soporte: su cola asignada más las incidencias sin asignar
+   * - administrador: todas las incidencias
+   */
+  private applyVisibilityScope<T extends IncidentFilters>(
+    caller: AuthUser,
+    filters: T
+  ): T {
+    if (caller.rol === "administrador") {
+      return filters;
+    }
+
+    if (caller.rol === "soporte") {
+      if (filters.soporteId !== undefined && filters.soporteId !== caller.id) {
+        throw new Error(
+          "No tiene permisos para consultar incidencias de otro técnico"
+        );
+      }
+      return { ...filters, colaSoporteId: caller.id };
+    }
+
+    if (filters.usuarioId !== undefined && filters.usuarioId !== caller.id) {
+      throw new Error(
+        "No tiene permisos para consultar incidencias de otro usuario"
+      );
+    }
+    return { ...filters, usuarioId: caller.id };
+  }
+
+  /**
+   * Obtiene una incidencia que el usuario puede consultar; las que quedan
+   * fuera de su alcance se tratan como inexistentes
+   */
+  private async getVisibleIncident(
+    caller: AuthUser,
+    id: number
+  ): Promise<Incident> {
+    const incident = await this.port.getIncidentById(id);
+    if (!incident || !canViewIncident(caller, incident)) {
+      throw new Error("Incidencia no encontrada");
+    }
+    return incident;
+  }
+
+  private validateFilters(filters: IncidentFilters): void {
     if (filters.usuarioId !== undefined && filters.usuarioId <= 0) {
       throw new Error("El ID del usuario debe ser un número positivo");
     }
@@ -355,20 +1617,12 @@ export class IncidentApplicationService {
       }
     }
 
-    if (
-      filters.estado &&
-      !["abierta", "en_progreso", "cerrada"].includes(filters.estado)
-    ) {
-      throw new Error("El estado debe ser: abierta, en_progreso o cerrada");
+    if (filters.estado && !isValidStatusKey(filters.estado)) {
+      throw new Error("El estado no es válido");
     }
   }
 
-  private validateStatisticsFilters(filters: {
-    fechaDesde?: Date;
-    fechaHasta?: Date;
-    usuarioId?: number;
-    categoriaId?: number;
-  }): void {
+  private validateStatisticsFilters(filters: IncidentStatisticsFilters): void {
     if (filters.usuarioId !== undefined && filters.usuarioId <= 0) {
       throw new Error("El ID del usuario debe ser un número positivo");
     }
@@ -386,6 +1640,39 @@ export class IncidentApplicationService {
     }
   }
 
+  /**
+   * Grupo de soporte de una incidencia nueva: el indicado, que debe estar
+   * activo, o el grupo por defecto de la categoría si sigue activo
+   */
+  private async resolveSupportGroup(
+    grupoSoporteId: number | undefined,
+    categoriaId: number
+  ): Promise<number | undefined> {
+    if (grupoSoporteId) {
+      await this.validateSupportGroup(grupoSoporteId);
+      return grupoSoporteId;
+    }
+
+    const category = await this.categoryPort.getCategoryById(categoriaId);
+    if (!category?.grupoSoporteId) {
+      return undefined;
+    }
+
+    const group = await this.supportGroupPort.getSupportGroupById(
+      category.grupoSoporteId
+    );
+    return group && group.estado === 1 ? group.id : undefined;
+  }
+
+  private async validateSupportGroup(grupoSoporteId: number): Promise<void> {
+    const group = await this.supportGroupPort.getSupportGroupById(
+      grupoSoporteId
+    );
+    if (!group || group.estado !== 1) {
+      throw new Error("El grupo de soporte no existe o está inactivo");
+    }
+  }
+
   private async validateReferences(
     incident: Omit<Incident, "id" | "creadoEn" | "actualizadoEn">
   ): Promise<void> {
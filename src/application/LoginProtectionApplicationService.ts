@@ -0,0 +1,208 @@
+import {
+  LoginAttempt,
+  LoginAttemptFilters,
+  LoginFailureReason,
+  LoginProtectionPolicy,
+  LoginThrottle,
+} from "../domain/LoginAttempt";
+import { LoginAttemptPort } from "../domain/LoginAttemptPort";
+
+/**
+ * Servicio de aplicación para la protección del inicio de sesión
+ * frente a ataques de fuerza bruta
+ *
+ * Responsabilidades:
+ * - Contar los fallos consecutivos por cuenta (email) y por IP, y descontar
+ *   de la IP los fallos de quien acaba iniciando sesión
+ * - Exigir una espera creciente entre intentos y bloquear temporalmente
+ *   al alcanzar el máximo de fallos
+ * - Registrar todos los intentos para su consulta por los administradores
+ */
+export class LoginProtectionApplicationService {
+  private port: LoginAttemptPort;
+  private policy: LoginProtectionPolicy;
+
+  constructor(port: LoginAttemptPort, policy: LoginProtectionPolicy) {
+    this.port = port;
+    this.policy = policy;
+  }
+
+  /**
+   * Comprueba que la cuenta y la IP puedan intentar iniciar sesión
+   * Los intentos rechazados se registran pero no cuentan como fallo
+   */
+  async assertCanAttempt(email: string, ip: string): Promise<void> {
+    const ahora = Date.now();
+    const esperas = await Promise.all([
+      this.getRequiredWait("cuenta", this.accountKey(email), ahora),
+      this.getRequiredWait("ip", ip, ahora),
+    ]);
+    const espera = Math.max(...esperas);
+
+    if (espera > 0) {
+      await this.port.recordAttempt({
+        email: this.accountKey(email),
+        ip,
+        exito: false,
+        motivo: "bloqueado",
+      });
+      throw new Error(
+        `Demasiados intentos fallidos. Inténtelo de nuevo en ${Math.ceil(espera / 1000)} segundos`
+      );
+    }
+  }
+
+  async recordFailure(
+    email: string,
+    ip: string,
+    motivo: LoginFailureReason,
+    usuarioId?: number
+  ): Promise<void> {
+    await this.port.recordAttempt({
+      email: this.accountKey(email),
+      usuarioId,
+      ip,
+      exito: false,
+      motivo,
+    });
+
+    await this.incrementFailures("cuenta", this.accountKey(email), this.policy.maxFallosCuenta);
+    await this.incrementFailures("ip", ip, this.policy.maxFallosIp);
+  }
+
+  /**
+   * Registra un inicio de sesión correcto y reinicia el contador de la cuenta
+   * Del contador de la IP solo se descuentan los fallos de esta cuenta, de
+   * modo que los errores de un usuario no bloqueen a los demás que comparten
+   * la IP (por ejemplo, una oficina tras un NAT) pero una cuenta válida no
+   * sirva para borrar los fallos de otras cuentas probadas desde la misma IP
+   */
+  async recordSuccess(email: string, ip: string, usuarioId: number): Promise<void> {
+    await this.port.recordAttempt({
+      email: this.accountKey(email),
+      usuarioId,
+      ip,
+      exito: true,
+    });
+
+    const cuenta = await this.port.getThrottle("cuenta", this.accountKey(email));
+    await this.port.clearThrottle("cuenta", this.accountKey(email));
+
+    if (cuenta && !this.isExpired(cuenta, new Date())) {
+      await this.forgiveIpFailures(ip, cuenta.fallos);
+    }
+  }
+
+  /**
+   * Desbloquea una cuenta eliminando su contador de fallos
+   * Devuelve false si la cuenta no tenía fallos registrados
+   */
+  async unlockAccount(email: string): Promise<boolean> {
+    return await this.port.clearThrottle("cuenta", this.accountKey(email));
+  }
+
+  async getAccountThrottle(email: string): Promise<LoginThrottle | null> {
+    return await this.port.getThrottle("cuenta", this.accountKey(email));
+  }
+
+  async getAttempts(
+    filters: LoginAttemptFilters,
+    limite: number = 100
+  ): Promise<LoginAttempt[]> {
+    if (!Number.isInteger(limite) || limite <= 0 || limite > 500) {
+      throw new Error("El límite debe ser un entero entre 1 y 500");
+    }
+
+    if (filters.desde && filters.hasta && filters.desde > filters.hasta) {
+      throw new Error("La fecha desde no puede ser posterior a la fecha hasta");
+    }
+
+    return await this.port.getAttempts(
+      { ...filters, email: filters.email ? this.accountKey(filters.email) : undefined },
+      limite
+    );
+  }
+
+  /**
+   * Milisegundos que quedan hasta que se permita el siguiente intento
+   */
+  private async getRequiredWait(
+    tipo: LoginThrottle["tipo"],
+    clave: string,
+    ahora: number
+  ): Promise<number> {
+    const throttle = await this.port.getThrottle(tipo, clave);
+    if (!throttle) {
+      return 0;
+    }
+
+    if (throttle.bloqueadoHasta) {
+      return Math.max(0, throttle.bloqueadoHasta.getTime() - ahora);
+    }
+
+    if (throttle.fallos < this.policy.fallosAntesDeEspera) {
+      return 0;
+    }
+
+    // Espera progresiva: 1 s, 2 s, 4 s... hasta el máximo configurado
+    const segundos = Math.min(
+      Math.pow(2, throttle.fallos - this.policy.fallosAntesDeEspera),
+      this.policy.esperaMaximaSegundos
+    );
+    return Math.max(0, throttle.ultimoFallo.getTime() + segundos * 1000 - ahora);
+  }
+
+  private async incrementFailures(
+    tipo: LoginThrottle["tipo"],
+    clave: string,
+    maxFallos: number
+  ): Promise<void> {
+    const ahora = new Date();
+
+    await this.port.updateThrottle(tipo, clave, (throttle) => {
+      const fallos =
+        throttle && !this.isExpired(throttle, ahora) ? throttle.fallos + 1 : 1;
+
+      return {
+        tipo,
+        clave,
+        fallos,
+        ultimoFallo: ahora,
+        bloqueadoHasta:
+          fallos >= maxFallos
+            ? new Date(ahora.getTime() + this.policy.bloqueoMinutos * 60 * 1000)
+            : undefined,
+      };
+    });
+  }
+
+  private async forgiveIpFailures(ip: string, fallos: number): Promise<void> {
+    if (!(await this.port.getThrottle("ip", ip))) {
+      return;
+    }
+
+    await this.port.updateThrottle("ip", ip, (throttle) =>
+      throttle
+        ? { ...throttle, fallos: Math.max(0, throttle.fallos - fallos) }
+        : { tipo: "ip", clave: ip, fallos: 0, ultimoFallo: new Date() }
+    );
+  }
+
+  /**
+   * Los fallos fuera de la ventana y los anteriores a un bloqueo ya
+   * cumplido no cuentan
+   */
+  private isExpired(throttle: LoginThrottle, ahora: Date): boolean {
+    if (throttle.bloqueadoHasta) {
+      return throttle.bloqueadoHasta <= ahora;
+    }
+    return (
+      ahora.getTime() - throttle.ultimoFallo.getTime() >
+      this.policy.ventanaMinutos * 60 * 1000
+    );
+  }
+
+  private accountKey(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,227 @@
+import { AuthUser } from "../domain/AuthUser";
+import { canViewComment } from "../domain/Comments";
+import { CommentsPort } from "../domain/CommentsPort";
+import {
+  CommentCreatedEvent,
+  IncidentAssignedEvent,
+  IncidentStatusChangedEvent,
+} from "../domain/DomainEvent";
+import { EventBusPort } from "../domain/EventBusPort";
+import { canViewIncident, Incident } from "../domain/Incident";
+import { IncidentPort } from "../domain/IncidentPort";
+import { MailPort } from "../domain/MailPort";
+import {
+  NOTIFICATION_TYPES,
+  NotificationPreference,
+  NotificationType,
+} from "../domain/NotificationPreference";
+import { NotificationPreferencePort } from "../domain/NotificationPreferencePort";
+import { User } from "../domain/User";
+import { UserPort } from "../domain/UserPort";
+import { WatcherPort } from "../domain/WatcherPort";
+import {
+  assignmentTemplate,
+  closureTemplate,
+  commentTemplate,
+  NotificationContent,
+} from "./NotificationTemplates";
+
+/**
+ * Servicio de aplicación para las notificaciones por correo electrónico
+ * Reacciona a los eventos de dominio de incidencias y comentarios
+ *
+ * Responsabilidades:
+ * - Determinar los destinatarios: reportador, técnico asignado y seguidores,
+ *   excluyendo a quien realizó la acción, a los usuarios inactivos y a
+ *   quienes ya no pueden consultar la incidencia
+ * - Respetar las preferencias de notificación de cada usuario
+ * - Gestionar las preferencias de notificación del usuario autenticado
+ */
+export class NotificationApplicationService {
+  private incidentPort: IncidentPort;
+  private commentsPort: CommentsPort;
+  private userPort: UserPort;
+  private watcherPort: WatcherPort;
+  private preferencePort: NotificationPreferencePort;
+  private mailPort: MailPort;
+
+  constructor(
+    incidentPort: IncidentPort,
+    commentsPort: CommentsPort,
+    userPort: UserPort,
+    watcherPort: WatcherPort,
+    preferencePort: NotificationPreferencePort,
+    mailPort: MailPort
+  ) {
+    this.incidentPort = incidentPort;
+    this.commentsPort = commentsPort;
+    this.userPort = userPort;
+    this.watcherPort = watcherPort;
+    this.preferencePort = preferencePort;
+    this.mailPort = mailPort;
+  }
+
+  /**
+   * Suscribe el servicio a los eventos que generan notificaciones
+   */
+  registerHandlers(eventBus: EventBusPort): void {
+    eventBus.subscribe("incident.assigned", (event) =>
+      this.notifyAssignment(event)
+    );
+    eventBus.subscribe("incident.status_changed", (event) =>
+      this.notifyClosure(event)
+    );
+    eventBus.subscribe("comment.created", (event) =>
+      this.notifyComment(event)
+    );
+  }
+
+  async getPreferences(caller: AuthUser): Promise<NotificationPreference> {
+    return (
+      (await this.preferencePort.getPreferences(caller.id)) ?? {
+        usuarioId: caller.id,
+        emailHabilitado: true,
+        tiposDesactivados: [],
+      }
+    );
+  }
+
+  async updatePreferences(
+    caller: AuthUser,
+    preferences: Partial<Omit<NotificationPreference, "usuarioId">>
+  ): Promise<NotificationPreference> {
+    const current = await this.getPreferences(caller);
+
+    if (
+      preferences.tiposDesactivados !== undefined &&
+      (!Array.isArray(preferences.tiposDesactivados) ||
+        preferences.tiposDesactivados.some(
+          (tipo) => !NOTIFICATION_TYPES.includes(tipo)
+        ))
+    ) {
+      throw new Error(
+        `Los tipos de notificación deben ser: ${NOTIFICATION_TYPES.join(", ")}`
+      );
+    }
+
+    const updated: NotificationPreference = {
+      usuarioId: caller.id,
+      emailHabilitado: preferences.emailHabilitado ?? current.emailHabilitado,
+      tiposDesactivados: [
+        ...new Set(preferences.tiposDesactivados ?? current.tiposDesactivados),
+      ],
+    };
+
+    await this.preferencePort.savePreferences(updated);
+    return updated;
+  }
+
+  private async notifyAssignment(event: IncidentAssignedEvent): Promise<void> {
+    if (!event.soporteId) {
+      return;
+    }
+
+    const incident = await this.incidentPort.getIncidentById(event.incidenciaId);
+    const tecnico = await this.userPort.getUserById(event.soporteId);
+    if (!incident || !tecnico) {
+      return;
+    }
+
+    await this.deliver(
+      incident,
+      event.actorId,
+      "asignacion",
+      assignmentTemplate(incident, tecnico.name)
+    );
+  }
+
+  private async notifyClosure(event: IncidentStatusChangedEvent): Promise<void> {
+    if (!event.estadoFinal) {
+      return;
+    }
+
+    const incident = await this.incidentPort.getIncidentById(event.incidenciaId);
+    const actor = await this.userPort.getUserById(event.actorId);
+    if (!incident) {
+      return;
+    }
+
+    await this.deliver(
+      incident,
+      event.actorId,
+      "cierre",
+      closureTemplate(incident, actor?.name ?? "Un usuario")
+    );
+  }
+
+  private async notifyComment(event: CommentCreatedEvent): Promise<void> {
+    const incident = await this.incidentPort.getIncidentById(event.incidenciaId);
+    const comment = await this.commentsPort.getCommentsById(event.comentarioId);
+    if (!incident || !comment) {
+      return;
+    }
+
+    const autor = await this.userPort.getUserById(comment.usuario);
+
+    await this.deliver(
+      incident,
+      event.actorId,
+      "comentario",
+      commentTemplate(incident, autor?.name ?? "Un usuario", comment.comentario),
+      (user) => canViewComment(user.rol, comment)
+    );
+  }
+
+  /**
+   * Envía el correo a cada destinatario que no haya desactivado el tipo
+   * de notificación; un envío fallido no impide los siguientes
+   * puedeVer permite excluir a quien no debe conocer el contenido, como
+   * los empleados en las notas internas
+   */
+  private async deliver(
+    incident: Incident,
+    actorId: number,
+    tipo: NotificationType,
+    content: NotificationContent,
+    puedeVer: (user: User) => boolean = () => true
+  ): Promise<void> {
+    const destinatarios = new Set<number>([incident.usuarioId]);
+    if (incident.soporteId) {
+      destinatarios.add(incident.soporteId);
+    }
+    for (const watcherId of await this.watcherPort.getWatcherIds(incident.id)) {
+      destinatarios.add(watcherId);
+    }
+    destinatarios.delete(actorId);
+
+    for (const usuarioId of destinatarios) {
+      try {
+        const user = await this.userPort.getUserById(usuarioId);
+        if (
+          !user ||
+          user.status === 0 ||
+          !canViewIncident(user, incident) ||
+          !puedeVer(user)
+        ) {
+          continue;
+        }
+
+        const preferences = await this.preferencePort.getPreferences(usuarioId);
+        if (
+          preferences &&
+          (!preferences.emailHabilitado ||
+            preferences.tiposDesactivados.includes(tipo))
+        ) {
+          continue;
+        }
+
+        await this.mailPort.sendMail({ para: user.email, ...content });
+      } catch (error) {
+        console.error(
+          `Error sending ${tipo} notification to user ${usuarioId}:`,
+          error
+        );
+      }
+    }
+  }
+}
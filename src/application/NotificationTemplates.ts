@@ -0,0 +1,117 @@
+import { escapeHtml } from "../domain/Html";
+import { Incident } from "../domain/Incident";
+
+/**
+ * Plantillas de los correos de notificación de incidencias
+ * Cada plantilla genera el asunto y el cuerpo en texto plano y en HTML;
+ * todo el contenido variable se escapa en la versión HTML
+ */
+export interface NotificationContent {
+  asunto: string;
+  texto: string;
+  html: string;
+}
+
+export function assignmentTemplate(
+  incident: Incident,
+  tecnico: string
+): NotificationContent {
+  const encabezado = `La incidencia #${incident.id} "${incident.titulo}" ha sido asignada a ${tecnico}.`;
+
+  return {
+    asunto: `[Incidencia #${incident.id}] Asignada a ${tecnico}`,
+    texto: `${encabezado}\n\nEstado actual: ${incident.estado}`,
+    html: layout(
+      `<p>${escapeHtml(encabezado)}</p>` +
+        `<p>Estado actual: <strong>${escapeHtml(incident.estado)}</strong></p>`
+    ),
+  };
+}
+
+export function commentTemplate(
+  incident: Incident,
+  autor: string,
+  comentario: string
+): NotificationContent {
+  const encabezado = `${autor} ha comentado en la incidencia #${incident.id} "${incident.titulo}":`;
+
+  return {
+    asunto: `[Incidencia #${incident.id}] Nuevo comentario de ${autor}`,
+    texto: `${encabezado}\n\n${comentario}`,
+    html: layout(
+      `<p>${escapeHtml(encabezado)}</p>` +
+        `<blockquote style="white-space: pre-wrap">${escapeHtml(comentario)}</blockquote>`
+    ),
+  };
+}
+
+/**
+ * Redacción del aviso según el estado final en que queda la incidencia
+ * Los demás estados finales que defina el flujo de trabajo usan una
+ * redacción genérica que indica la clave del estado
+ */
+const FINAL_STATE_WORDING: {
+  [estado: string]: { accion: string; asunto: string };
+} = {
+  cerrada: { accion: "ha cerrado", asunto: "Cerrada" },
+  cancelada: { accion: "ha cancelado", asunto: "Cancelada" },
+};
+
+export function closureTemplate(
+  incident: Incident,
+  actor: string
+): NotificationContent {
+  const redaccion = FINAL_STATE_WORDING[incident.estado] ?? {
+    accion: `ha finalizado (${incident.estado})`,
+    asunto: "Finalizada",
+  };
+  const encabezado = `${actor} ${redaccion.accion} la incidencia #${incident.id} "${incident.titulo}".`;
+  const resolucion = incident.notaResolucion
+    ? `Resolución: ${incident.notaResolucion}`
+    : "";
+
+  return {
+    asunto: `[Incidencia #${incident.id}] ${redaccion.asunto}`,
+    texto:
+      `${encabezado}\n\n` +
+      (resolucion ? `${resolucion}\n\n` : "") +
+      "Si el problema persiste, puede solicitar su reapertura.",
+    html: layout(
+      `<p>${escapeHtml(encabezado)}</p>` +
+        (resolucion ? `<p>${escapeHtml(resolucion)}</p>` : "") +
+        "<p>Si el problema persiste, puede solicitar su reapertura.</p>"
+    ),
+  };
+}
+
+/**
+ * Correo de restablecimiento de contraseña
+ * No lleva el pie de preferencias: se envía siempre que se solicita
+ */
+export function passwordResetTemplate(
+  enlace: string,
+  minutosValidez: number
+): NotificationContent {
+  const encabezado =
+    "Se ha solicitado restablecer la contraseña de su cuenta.";
+  const aviso = `El enlace es válido durante ${minutosValidez} minutos y solo puede usarse una vez. Si no ha realizado esta solicitud, ignore este correo.`;
+
+  return {
+    asunto: "Restablecimiento de contraseña",
+    texto: `${encabezado}\n\n${enlace}\n\n${aviso}`,
+    html:
+      '<div style="font-family: sans-serif; font-size: 14px">' +
+      `<p>${escapeHtml(encabezado)}</p>` +
+      `<p><a href="${escapeHtml(enlace)}">Restablecer contraseña</a></p>` +
+      `<p>${escapeHtml(aviso)}</p></div>`,
+  };
+}
+
+function layout(contenido: string): string {
+  return (
+    '<div style="font-family: sans-serif; font-size: 14px">' +
+    contenido +
+    '<hr><p style="color: #777; font-size: 12px">Puede desactivar estas ' +
+    "notificaciones desde sus preferencias de notificación.</p></div>"
+  );
+}
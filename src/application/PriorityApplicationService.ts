@@ -119,12 +119,26 @@ export class PriorityApplicationService {
 
     const priorityToUpdate: Partial<Priority> = {};
 
+    if (
+      priority.horasRespuesta !== undefined ||
+      priority.horasResolucion !== undefined
+    ) {
+      this.validateSlaTargets(
+        priority.horasRespuesta ?? existingPriority.horasRespuesta,
+        priority.horasResolucion ?? existingPriority.horasResolucion
+      );
+    }
+
     if (priority.nombre) priorityToUpdate.nombre = priority.nombre.trim();
     if (priority.descripcion !== undefined)
       priorityToUpdate.descripcion = priority.descripcion?.trim();
     if (priority.nivel) priorityToUpdate.nivel = priority.nivel;
     if (priority.color !== undefined)
       priorityToUpdate.color = this.validateAndFormatColor(priority.color);
+    if (priority.horasRespuesta !== undefined)
+      priorityToUpdate.horasRespuesta = priority.horasRespuesta;
+    if (priority.horasResolucion !== undefined)
+      priorityToUpdate.horasResolucion = priority.horasResolucion;
     if (priority.estado !== undefined)
       priorityToUpdate.estado = priority.estado;
 
@@ -157,6 +171,31 @@ export class PriorityApplicationService {
     if (priority.estado !== undefined && ![0, 1].includes(priority.estado)) {
       throw new Error("El estado debe ser 0 (inactiva) o 1 (activa)");
     }
+
+    this.validateSlaTargets(priority.horasRespuesta, priority.horasResolucion);
+  }
+
+  private validateSlaTargets(
+    horasRespuesta?: number,
+    horasResolucion?: number
+  ): void {
+    for (const horas of [horasRespuesta, horasResolucion]) {
+      if (horas !== undefined && (!Number.isInteger(horas) || horas <= 0)) {
+        throw new Error(
+          "Las horas objetivo del SLA deben ser un número entero positivo"
+        );
+      }
+    }
+
+    if (
+      horasRespuesta !== undefined &&
+      horasResolucion !== undefined &&
+      horasRespuesta > horasResolucion
+    ) {
+      throw new Error(
+        "Las horas objetivo de respuesta del SLA no pueden superar las de resolución"
+      );
+    }
   }
 
   private validatePriorityName(nombre: string): void {
@@ -0,0 +1,134 @@
+import { AuthUser } from "../domain/AuthUser";
+import { SessionTokens } from "../domain/RefreshToken";
+import { RefreshTokenPort } from "../domain/RefreshTokenPort";
+import { User } from "../domain/User";
+import { UserPort } from "../domain/UserPort";
+import { AuthService } from "./AuthService";
+
+/**
+ * Servicio de aplicación para las sesiones de usuario
+ * Emite los access tokens (JWT de corta duración) junto con refresh tokens
+ * persistidos, que se rotan en cada renovación
+ *
+ * Responsabilidades:
+ * - Iniciar, renovar y cerrar sesiones
+ * - Detectar la reutilización de un refresh token ya rotado y revocar la sesión
+ * - Validar los access tokens frente a sesiones revocadas y usuarios dados de baja
+ */
+export class SessionApplicationService {
+  private port: RefreshTokenPort;
+  private userPort: UserPort;
+  private refreshTtlDays: number;
+
+  constructor(port: RefreshTokenPort, userPort: UserPort, refreshTtlDays: number) {
+    this.port = port;
+    this.userPort = userPort;
+    this.refreshTtlDays = refreshTtlDays;
+  }
+
+  async startSession(user: User): Promise<SessionTokens> {
+    return await this.issueTokens(user, AuthService.generateSessionId());
+  }
+
+  /**
+   * Canjea un refresh token por un par de tokens nuevo
+   * Si el token ya había sido rotado se asume que ha sido robado
+   * y se revoca la sesión completa
+   */
+  async refreshSession(refreshToken: string): Promise<SessionTokens> {
+    const stored = await this.port.getTokenByHash(
+      AuthService.hashToken(refreshToken)
+    );
+    if (!stored) {
+      throw new Error("Refresh token inválido");
+    }
+
+    if (stored.revocadoEn) {
+      await this.port.revokeSession(stored.sesionId);
+      throw new Error("Refresh token inválido");
+    }
+
+    if (stored.expiraEn.getTime() <= Date.now()) {
+      throw new Error("Refresh token expirado");
+    }
+
+    const user = await this.userPort.getUserById(stored.usuarioId);
+    if (!user || user.status === 0) {
+      await this.port.revokeSession(stored.sesionId);
+      throw new Error("Usuario desactivado");
+    }
+
+    const revoked = await this.port.revokeToken(stored.id);
+    if (!revoked) {
+      await this.port.revokeSession(stored.sesionId);
+      throw new Error("Refresh token inválido");
+    }
+
+    return await this.issueTokens(user, stored.sesionId);
+  }
+
+  /**
+   * Cierra la sesión a la que pertenece el refresh token
+   * Los access tokens de la sesión dejan de aceptarse de inmediato
+   */
+  async endSession(refreshToken: string): Promise<void> {
+    const stored = await this.port.getTokenByHash(
+      AuthService.hashToken(refreshToken)
+    );
+    if (!stored) {
+      throw new Error("Refresh token inválido");
+    }
+
+    await this.port.revokeSession(stored.sesionId);
+  }
+
+  async revokeUserSessions(usuarioId: number): Promise<void> {
+    await this.port.revokeUserSessions(usuarioId);
+  }
+
+  /**
+   * Valida un access token y devuelve la identidad del usuario autenticado
+   */
+  async authenticate(token: string): Promise<AuthUser> {
+    let payload: any;
+    try {
+      payload = AuthService.verifyToken(token);
+    } catch {
+      throw new Error("Token inválido o expirado");
+    }
+
+    if (!payload?.sid || !(await this.port.isSessionActive(payload.sid, new Date()))) {
+      throw new Error("Token revocado");
+    }
+
+    const user = await this.userPort.getUserById(payload.id);
+    if (!user || user.status === 0) {
+      throw new Error("Usuario desactivado");
+    }
+
+    return { id: user.id, email: user.email, rol: user.rol };
+  }
+
+  private async issueTokens(user: User, sesionId: string): Promise<SessionTokens> {
+    const refreshToken = AuthService.generateOpaqueToken();
+    const refreshExpiraEn = new Date(
+      Date.now() + this.refreshTtlDays * 24 * 60 * 60 * 1000
+    );
+
+    await this.port.createToken({
+      usuarioId: user.id,
+      sesionId,
+      tokenHash: AuthService.hashToken(refreshToken),
+      expiraEn: refreshExpiraEn,
+    });
+
+    const token = AuthService.generateToken({
+      id: user.id,
+      email: user.email,
+      rol: user.rol,
+      sid: sesionId,
+    });
+
+    return { token, refreshToken, refreshExpiraEn };
+  }
+}
@@ -0,0 +1,187 @@
+import { SupportGroup, SupportGroupMember } from "../domain/SupportGroup";
+import { SupportGroupPort } from "../domain/SupportGroupPort";
+import { UserPort } from "../domain/UserPort";
+
+/**
+ * Servicio de aplicación para la gestión de grupos de soporte
+ * Implementa los casos de uso de alta, consulta, modificación y baja lógica
+ * de los grupos, y de la gestión de sus miembros
+ *
+ * Responsabilidades:
+ * - Validación de reglas de negocio
+ * - Unicidad del nombre del grupo
+ * - Solo los técnicos de soporte y administradores activos pueden ser miembros
+ */
+export class SupportGroupApplicationService {
+  private port: SupportGroupPort;
+  private userPort: UserPort;
+
+  constructor(port: SupportGroupPort, userPort: UserPort) {
+    this.port = port;
+    this.userPort = userPort;
+  }
+
+  async createSupportGroup(
+    group: Omit<SupportGroup, "id" | "fechaCreacion">
+  ): Promise<number> {
+    this.validateSupportGroupData(group);
+
+    const existingGroup = await this.port.getSupportGroupByName(
+      group.nombre.trim()
+    );
+    if (existingGroup) {
+      throw new Error("Ya existe un grupo de soporte con este nombre");
+    }
+
+    return await this.port.createSupportGroup({
+      nombre: group.nombre.trim(),
+      descripcion: group.descripcion?.trim(),
+      estado: group.estado ?? 1, // Por defecto activo
+    });
+  }
+
+  async getSupportGroupById(id: number): Promise<SupportGroup | null> {
+    if (!id || id <= 0) {
+      throw new Error("El ID del grupo de soporte debe ser un número positivo");
+    }
+
+    return await this.port.getSupportGroupById(id);
+  }
+
+  async getAllActiveSupportGroups(): Promise<SupportGroup[]> {
+    return await this.port.getAllActiveSupportGroups();
+  }
+
+  async getAllSupportGroups(): Promise<SupportGroup[]> {
+    return await this.port.getAllSupportGroups();
+  }
+
+  async updateSupportGroup(
+    id: number,
+    group: Partial<SupportGroup>
+  ): Promise<boolean> {
+    const existingGroup = await this.port.getSupportGroupById(id);
+    if (!existingGroup) {
+      throw new Error("Grupo de soporte no encontrado");
+    }
+
+    if (group.nombre) {
+      this.validateName(group.nombre.trim());
+
+      const groupWithSameName = await this.port.getSupportGroupByName(
+        group.nombre.trim()
+      );
+      if (groupWithSameName && groupWithSameName.id !== id) {
+        throw new Error("Ya existe otro grupo de soporte con este nombre");
+      }
+    }
+
+    if (group.descripcion && group.descripcion.length > 1000) {
+      throw new Error("La descripción no puede exceder los 1000 caracteres");
+    }
+
+    if (group.estado !== undefined && ![0, 1].includes(group.estado)) {
+      throw new Error("El estado debe ser 0 (inactivo) o 1 (activo)");
+    }
+
+    const groupToUpdate: Partial<SupportGroup> = {};
+    if (group.nombre) groupToUpdate.nombre = group.nombre.trim();
+    if (group.descripcion !== undefined)
+      groupToUpdate.descripcion = group.descripcion?.trim();
+    if (group.estado !== undefined) groupToUpdate.estado = group.estado;
+
+    return await this.port.updateSupportGroup(id, groupToUpdate);
+  }
+
+  /**
+   * Baja lógica: el grupo deja de ofrecerse para asignar incidencias, pero
+   * las incidencias ya asignadas lo conservan
+   */
+  async deleteSupportGroup(id: number): Promise<boolean> {
+    const existingGroup = await this.port.getSupportGroupById(id);
+    if (!existingGroup) {
+      throw new Error("Grupo de soporte no encontrado");
+    }
+
+    return await this.port.deleteSupportGroup(id);
+  }
+
+  async getMembers(grupoId: number): Promise<SupportGroupMember[]> {
+    const existingGroup = await this.port.getSupportGroupById(grupoId);
+    if (!existingGroup) {
+      throw new Error("Grupo de soporte no encontrado");
+    }
+
+    return await this.port.getMembers(grupoId);
+  }
+
+  async addMember(grupoId: number, usuarioId: number): Promise<boolean> {
+    const existingGroup = await this.port.getSupportGroupById(grupoId);
+    if (!existingGroup) {
+      throw new Error("Grupo de soporte no encontrado");
+    }
+
+    const user = await this.userPort.getUserById(usuarioId);
+    if (!user) {
+      throw new Error("Usuario no encontrado");
+    }
+
+    if (user.rol === "empleado" || user.status !== 1) {
+      throw new Error(
+        "Solo los técnicos de soporte y administradores activos pueden ser miembros de un grupo"
+      );
+    }
+
+    if (await this.port.isMember(grupoId, usuarioId)) {
+      throw new Error("El usuario ya es miembro del grupo de soporte");
+    }
+
+    return await this.port.addMember(grupoId, usuarioId);
+  }
+
+  async removeMember(grupoId: number, usuarioId: number): Promise<boolean> {
+    const existingGroup = await this.port.getSupportGroupById(grupoId);
+    if (!existingGroup) {
+      throw new Error("Grupo de soporte no encontrado");
+    }
+
+    if (!(await this.port.isMember(grupoId, usuarioId))) {
+      throw new Error("El usuario no es miembro del grupo de soporte");
+    }
+
+    return await this.port.removeMember(grupoId, usuarioId);
+  }
+
+  private validateSupportGroupData(
+    group: Omit<SupportGroup, "id" | "fechaCreacion">
+  ): void {
+    if (!group.nombre || group.nombre.trim().length === 0) {
+      throw new Error("El nombre del grupo de soporte es obligatorio");
+    }
+
+    this.validateName(group.nombre.trim());
+
+    if (group.descripcion && group.descripcion.length > 1000) {
+      throw new Error("La descripción no puede exceder los 1000 caracteres");
+    }
+
+    if (group.estado !== undefined && ![0, 1].includes(group.estado)) {
+      throw new Error("El estado debe ser 0 (inactivo) o 1 (activo)");
+    }
+  }
+
+  private validateName(nombre: string): void {
+    if (nombre.length < 3 || nombre.length > 100) {
+      throw new Error(
+        "El nombre del grupo de soporte debe tener entre 3 y 100 caracteres"
+      );
+    }
+
+    const nameRegex = /^[A-Za-zÁÉÍÓÚáéíóúÑñ0-9\s\-_']+$/;
+    if (!nameRegex.test(nombre)) {
+      throw new Error(
+        "El nombre del grupo de soporte contiene caracteres no válidos"
+      );
+    }
+  }
+}
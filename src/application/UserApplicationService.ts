@@ -1,29 +1,134 @@
 import { User } from "../domain/User";
 import { UserPort } from "../domain/UserPort";
+import { SessionTokens } from "../domain/RefreshToken";
+import { PasswordResetTokenPort } from "../domain/PasswordResetTokenPort";
+import { MailPort } from "../domain/MailPort";
+import { AuthUser } from "../domain/AuthUser";
+import { LoginAttempt, LoginAttemptFilters } from "../domain/LoginAttempt";
+import { SessionApplicationService } from "./SessionApplicationService";
+import { LoginProtectionApplicationService } from "./LoginProtectionApplicationService";
 import { AuthService } from "./AuthService";
+import { passwordResetTemplate } from "./NotificationTemplates";
 import bcrypt from 'bcryptjs';
 
+/**
+ * Opciones del flujo de restablecimiento de contraseña
+ */
+export interface PasswordResetOptions {
+    ttlMinutos: number;
+    // URL del frontend a la que se añade el token como parámetro ?token=
+    url: string;
+}
+
 export class UserApplicationService {
 private port: UserPort;
-    constructor(port: UserPort) {
+private sessionService: SessionApplicationService;
+private resetTokenPort: PasswordResetTokenPort;
+private mailPort: MailPort;
+private resetOptions: PasswordResetOptions;
+private loginProtection: LoginProtectionApplicationService;
+    constructor(
+        port: UserPort,
+        sessionService: SessionApplicationService,
+        resetTokenPort: PasswordResetTokenPort,
+        mailPort: MailPort,
+        resetOptions: PasswordResetOptions,
+        loginProtection: LoginProtectionApplicationService
+    ) {
     this.port = port;
+    this.sessionService = sessionService;
+    this.resetTokenPort = resetTokenPort;
+    this.mailPort = mailPort;
+    this.resetOptions = resetOptions;
+    this.loginProtection = loginProtection;
     }
 
-    async login(email: string, password: string): Promise<string> {
+    async login(email: string, password: string, ip: string): Promise<SessionTokens> {
+        // Rechaza el intento si la cuenta o la IP están en espera o bloqueadas
+        await this.loginProtection.assertCanAttempt(email, ip);
+
         const existingUser = await this.port.getUserByEmail(email);
         if (!existingUser) {
+            await this.loginProtection.recordFailure(email, ip, "credenciales");
             throw new Error("Credenciales invalidas");
         }
         const passwordMatch = await bcrypt.compare(password, existingUser.password);
         if (!passwordMatch) {
+            await this.loginProtection.recordFailure(email, ip, "credenciales", existingUser.id);
             throw new Error("Credenciales invalidas");
         }
-        // Generate JWT token here
-        const token = AuthService.generateToken({
-            id: existingUser.id,
-            email: existingUser.email
-        });
-        return token;
+        if (existingUser.status === 0) {
+            await this.loginProtection.recordFailure(email, ip, "desactivado", existingUser.id);
+            throw new Error("Credenciales invalidas");
+        }
+        await this.loginProtection.recordSuccess(email, ip, existingUser.id);
+        // Access token + refresh token de una sesión nueva
+        return await this.sessionService.startSession(existingUser);
+    }
+
+    async refreshSession(refreshToken: string): Promise<SessionTokens> {
+        return await this.sessionService.refreshSession(refreshToken);
+    }
+
+    async logout(refreshToken: string): Promise<void> {
+        await this.sessionService.endSession(refreshToken);
+    }
+
+    /**
+     * Cambia la contraseña del usuario autenticado verificando la actual
+     * Cierra todas sus sesiones y devuelve una sesión nueva
+     */
+    async changePassword(caller: AuthUser, actual: string, nueva: string): Promise<SessionTokens> {
+        const existingUser = await this.port.getUserById(caller.id);
+        if (!existingUser) {
+            throw new Error("User not found");
+        }
+        const passwordMatch = await bcrypt.compare(actual, existingUser.password);
+        if (!passwordMatch) {
+            throw new Error("La contraseña actual es incorrecta");
+        }
+        if (actual === nueva) {
+            throw new Error("La nueva contraseña debe ser distinta de la actual");
+        }
+        await this.setPassword(existingUser.id, nueva);
+        return await this.sessionService.startSession(existingUser);
+    }
+
+    /**
+     * Envía por correo un enlace de restablecimiento de contraseña
+     * No informa de si el email existe para no permitir enumerar cuentas:
+     * el enlace se genera y se envía en segundo plano, de modo que la
+     * respuesta tarda lo mismo exista o no la cuenta
+     */
+    async requestPasswordReset(email: string): Promise<void> {
+        const existingUser = await this.port.getUserByEmail(email);
+        if (!existingUser || existingUser.status === 0) {
+            return;
+        }
+
+        this.sendPasswordReset(existingUser).catch((error) =>
+            console.error("Error sending password reset email:", error)
+        );
+    }
+
+    /**
+     * Establece una contraseña nueva a partir de un token de restablecimiento
+     * El token se consume y se cierran todas las sesiones del usuario
+     */
+    async resetPassword(token: string, nueva: string): Promise<void> {
+        const stored = await this.resetTokenPort.getTokenByHash(AuthService.hashToken(token));
+        if (!stored || stored.usadoEn || stored.expiraEn.getTime() <= Date.now()) {
+            throw new Error("El token de restablecimiento no es válido o ha expirado");
+        }
+        const existingUser = await this.port.getUserById(stored.usuarioId);
+        if (!existingUser || existingUser.status === 0) {
+            throw new Error("El token de restablecimiento no es válido o ha expirado");
+        }
+        const consumed = await this.resetTokenPort.markTokenUsed(stored.id);
+        if (!consumed) {
+            throw new Error("El token de restablecimiento no es válido o ha expirado");
+        }
+        await this.setPassword(stored.usuarioId, nueva);
     }
 
     async createUser(user: Omit<User, "id">): Promise<number> {
@@ -61,7 +166,15 @@ private port: UserPort;
                 throw new Error("Email already in use");
             }
         }
-        return await this.port.updateUser(id, user);
+        if (user.password) {
+            // Nunca se guarda una contraseña en claro
+            user.password = await bcrypt.hash(user.password, 10);
+        }
+        const updated = await this.port.updateUser(id, user);
+        if (user.password) {
+            await this.sessionService.revokeUserSessions(id);
+        }
+        return updated;
     }
     
     async deleteUser(id: number): Promise<boolean> {
@@ -69,6 +182,51 @@ private port: UserPort;
         if (!existingUser) {
             throw new Error("User not found");
         }
-        return await this.port.deleteUser(id);
+        const deleted = await this.port.deleteUser(id);
+        // Un usuario dado de baja no conserva ninguna sesión abierta
+        await this.sessionService.revokeUserSessions(id);
+        await this.resetTokenPort.invalidateUserTokens(id);
+        return deleted;
+    }
+
+    /**
+     * Desbloquea una cuenta bloqueada por intentos fallidos de inicio de sesión
+     */
+    async unlockUser(id: number): Promise<boolean> {
+        const existingUser = await this.port.getUserById(id);
+        if (!existingUser) {
+            throw new Error("User not found");
+        }
+        return await this.loginProtection.unlockAccount(existingUser.email);
+    }
+
+    async getLoginAttempts(filters: LoginAttemptFilters, limite?: number): Promise<LoginAttempt[]> {
+        return await this.loginProtection.getAttempts(filters, limite);
+    }
+
+    private async setPassword(usuarioId: number, password: string): Promise<void> {
+        const hashedPassword = await bcrypt.hash(password, 10);
+        await this.port.updateUser(usuarioId, { password: hashedPassword });
+        await this.sessionService.revokeUserSessions(usuarioId);
+        await this.resetTokenPort.invalidateUserTokens(usuarioId);
+    }
+
+    private async sendPasswordReset(user: User): Promise<void> {
+        // Solo el último enlace solicitado es válido
+        await this.resetTokenPort.invalidateUserTokens(user.id);
+
+        const token = AuthService.generateOpaqueToken();
+        await this.resetTokenPort.createToken({
+            usuarioId: user.id,
+            tokenHash: AuthService.hashToken(token),
+            expiraEn: new Date(Date.now() + this.resetOptions.ttlMinutos * 60 * 1000),
+        });
+
+        const separador = this.resetOptions.url.includes("?") ? "&" : "?";
+        const enlace = `${this.resetOptions.url}${separador}token=${encodeURIComponent(token)}`;
+        await this.mailPort.sendMail({
+            para: user.email,
+            ...passwordResetTemplate(enlace, this.resetOptions.ttlMinutos),
+        });
     }
 }
\ No newline at end of file
@@ -0,0 +1,332 @@
+import {
+  DOMAIN_EVENT_TYPES,
+  DomainEvent,
+  DomainEventType,
+} from "../domain/DomainEvent";
+import { EventBusPort } from "../domain/EventBusPort";
+import { IncidentPort } from "../domain/IncidentPort";
+import { Webhook, WebhookDelivery } from "../domain/Webhook";
+import { WebhookPort } from "../domain/WebhookPort";
+import { WebhookSenderPort } from "../domain/WebhookSenderPort";
+
+/**
+ * Política de reintentos de las entregas: hasta MAX_ATTEMPTS intentos,
+ * con una espera que se duplica tras cada fallo (30 s, 1 min, 2 min...)
+ */
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Tiempo que una entrega queda reservada mientras se intenta, holgado
+ * respecto al tiempo máximo de una petición; si el proceso cae a mitad
+ * del intento, la entrega vuelve a estar disponible al vencer
+ */
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+/**
+ * Servicio de aplicación para los webhooks salientes
+ * Implementa el registro de endpoints y la entrega de eventos de incidencias
+ *
+ * Responsabilidades:
+ * - Validación de la configuración de los webhooks
+ * - Generar el payload de cada evento y registrar cada entrega
+ * - Reintentar con espera exponencial las entregas fallidas
+ * - Reproducir entregas anteriores bajo petición
+ */
+export class WebhookApplicationService {
+  private port: WebhookPort;
+  private senderPort: WebhookSenderPort;
+  private incidentPort: IncidentPort;
+  private processing = false;
+
+  constructor(
+    port: WebhookPort,
+    senderPort: WebhookSenderPort,
+    incidentPort: IncidentPort
+  ) {
+    this.port = port;
+    this.senderPort = senderPort;
+    this.incidentPort = incidentPort;
+  }
+
+  /**
+   * Suscribe el servicio a todos los eventos de dominio
+   */
+  registerHandlers(eventBus: EventBusPort): void {
+    for (const tipo of DOMAIN_EVENT_TYPES) {
+      eventBus.subscribe(tipo, (event) => this.dispatch(event));
+    }
+  }
+
+  /**
+   * Revisa periódicamente las entregas pendientes cuyo reintento ha vencido
+   * El temporizador no mantiene vivo el proceso por sí solo
+   */
+  startRetryWorker(intervaloMs: number = 15000): void {
+    setInterval(() => {
+      this.processDueDeliveries().catch((error) =>
+        console.error("Error processing webhook retries:", error)
+      );
+    }, intervaloMs).unref();
+  }
+
+  async createWebhook(
+    webhook: Omit<Webhook, "id" | "creadoEn" | "activo"> & { activo?: boolean }
+  ): Promise<number> {
+    this.validateUrl(webhook.url);
+    this.validateSecret(webhook.secreto);
+    this.validateEvents(webhook.eventos);
+
+    return await this.port.createWebhook({
+      url: webhook.url.trim(),
+      secreto: webhook.secreto,
+      eventos: [...new Set(webhook.eventos)],
+      activo: webhook.activo ?? true,
+    });
+  }
+
+  async getAllWebhooks(): Promise<Webhook[]> {
+    return await this.port.getAllWebhooks();
+  }
+
+  async getWebhookById(id: number): Promise<Webhook | null> {
+    if (!id || id <= 0) {
+      throw new Error("El ID del webhook debe ser un número positivo");
+    }
+
+    return await this.port.getWebhookById(id);
+  }
+
+  async updateWebhook(
+    id: number,
+    webhook: Partial<Omit<Webhook, "id" | "creadoEn">>
+  ): Promise<boolean> {
+    const existingWebhook = await this.getWebhookById(id);
+    if (!existingWebhook) {
+      throw new Error("Webhook no encontrado");
+    }
+
+    if (webhook.url !== undefined) this.validateUrl(webhook.url);
+    if (webhook.secreto !== undefined) this.validateSecret(webhook.secreto);
+    if (webhook.eventos !== undefined) this.validateEvents(webhook.eventos);
+
+    return await this.port.updateWebhook(id, {
+      ...webhook,
+      url: webhook.url?.trim(),
+      eventos: webhook.eventos ? [...new Set(webhook.eventos)] : undefined,
+    });
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    const existingWebhook = await this.getWebhookById(id);
+    if (!existingWebhook) {
+      throw new Error("Webhook no encontrado");
+    }
+
+    return await this.port.deleteWebhook(id);
+  }
+
+  async getDeliveries(
+    webhookId: number,
+    limite: number = 50
+  ): Promise<WebhookDelivery[]> {
+    const existingWebhook = await this.getWebhookById(webhookId);
+    if (!existingWebhook) {
+      throw new Error("Webhook no encontrado");
+    }
+
+    if (!Number.isInteger(limite) || limite <= 0 || limite > 200) {
+      throw new Error("El límite debe ser un entero entre 1 y 200");
+    }
+
+    return await this.port.getDeliveriesByWebhook(webhookId, limite);
+  }
+
+  /**
+   * Vuelve a enviar el payload de una entrega anterior como una entrega nueva,
+   * enlazada con la original, y la intenta de inmediato
+   */
+  async replayDelivery(id: number): Promise<WebhookDelivery> {
+    if (!id || id <= 0) {
+      throw new Error("El ID de la entrega debe ser un número positivo");
+    }
+
+    const original = await this.port.getDeliveryById(id);
+    if (!original) {
+      throw new Error("Entrega no encontrada");
+    }
+
+    const webhook = await this.port.getWebhookById(original.webhookId);
+    if (!webhook) {
+      throw new Error("Webhook no encontrado");
+    }
+
+    const delivery = await this.createDelivery(
+      webhook,
+      original.evento,
+      original.payload,
+      original.id
+    );
+    return await this.attempt(webhook, delivery);
+  }
+
+  async processDueDeliveries(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+
+    this.processing = true;
+    try {
+      const ahora = new Date();
+      const deliveries = await this.port.getDueDeliveries(ahora);
+
+      for (const delivery of deliveries) {
+        // Otra instancia pudo reclamarla entre la consulta y este punto
+        const claimed = await this.port.claimDelivery(
+          delivery.id,
+          ahora,
+          new Date(Date.now() + DELIVERY_LEASE_MS)
+        );
+        if (!claimed) {
+          continue;
+        }
+
+        const webhook = await this.port.getWebhookById(delivery.webhookId);
+        if (!webhook || !webhook.activo) {
+          await this.port.updateDelivery(delivery.id, {
+            estado: "fallido",
+            ultimoError: "Webhook desactivado",
+            proximoIntento: undefined,
+          });
+          continue;
+        }
+
+        await this.attempt(webhook, delivery);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async dispatch(event: DomainEvent): Promise<void> {
+    const webhooks = await this.port.getWebhooksByEvent(event.tipo);
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const { tipo, fecha, ...datos } = event;
+    const incidencia = await this.incidentPort.getIncidentById(
+      event.incidenciaId
+    );
+    const payload = JSON.stringify({ evento: tipo, fecha, datos, incidencia });
+
+    for (const webhook of webhooks) {
+      const delivery = await this.createDelivery(webhook, tipo, payload);
+      await this.attempt(webhook, delivery);
+    }
+  }
+
+  /**
+   * Registra una entrega pendiente ya reservada para el intento inmediato
+   * que hace quien la crea, de forma que el trabajador de reintentos no la
+   * envíe a la vez
+   */
+  private async createDelivery(
+    webhook: Webhook,
+    evento: DomainEventType,
+    payload: string,
+    entregaOriginalId?: number
+  ): Promise<WebhookDelivery> {
+    const delivery: Omit<WebhookDelivery, "id" | "creadoEn"> = {
+      webhookId: webhook.id,
+      evento,
+      payload,
+      estado: "pendiente",
+      intentos: 0,
+      proximoIntento: new Date(Date.now() + DELIVERY_LEASE_MS),
+      entregaOriginalId,
+    };
+
+    const id = await this.port.createDelivery(delivery);
+    return { ...delivery, id, creadoEn: new Date() };
+  }
+
+  /**
+   * Realiza un intento de entrega y registra su resultado
+   */
+  private async attempt(
+    webhook: Webhook,
+    delivery: WebhookDelivery
+  ): Promise<WebhookDelivery> {
+    const result = await this.senderPort.send(
+      webhook.url,
+      webhook.secreto,
+      delivery.payload,
+      { evento: delivery.evento, entregaId: delivery.id }
+    );
+
+    const intentos = delivery.intentos + 1;
+    let cambios: Partial<WebhookDelivery>;
+
+    if (result.exito) {
+      cambios = {
+        estado: "entregado",
+        entregadoEn: new Date(),
+        proximoIntento: undefined,
+      };
+    } else if (intentos >= MAX_ATTEMPTS) {
+      cambios = { estado: "fallido", proximoIntento: undefined };
+    } else {
+      const espera = BASE_RETRY_DELAY_MS * Math.pow(2, intentos - 1);
+      cambios = {
+        estado: "pendiente",
+        proximoIntento: new Date(Date.now() + espera),
+      };
+    }
+
+    cambios = {
+      ...cambios,
+      intentos,
+      codigoRespuesta: result.codigo,
+      ultimoError: result.error,
+    };
+
+    await this.port.updateDelivery(delivery.id, cambios);
+    return { ...delivery, ...cambios };
+  }
+
+  private validateUrl(url: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error("La URL del webhook no es válida");
+    }
+
+    if (!["http:", "https:"].includes(parsed.protocol)) {
+      throw new Error("La URL del webhook debe usar http o https");
+    }
+
+    if (url.length > 500) {
+      throw new Error("La URL del webhook no puede exceder los 500 caracteres");
+    }
+  }
+
+  private validateSecret(secreto: string): void {
+    if (!secreto || secreto.length < 16 || secreto.length > 255) {
+      throw new Error("El secreto del webhook debe tener entre 16 y 255 caracteres");
+    }
+  }
+
+  private validateEvents(eventos: DomainEventType[]): void {
+    if (
+      !Array.isArray(eventos) ||
+      eventos.length === 0 ||
+      eventos.some((evento) => !DOMAIN_EVENT_TYPES.includes(evento))
+    ) {
+      throw new Error(
+        `Los eventos del webhook deben ser uno o varios de: ${DOMAIN_EVENT_TYPES.join(", ")}`
+      );
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { IncidentPort } from "../domain/IncidentPort";
+import { User } from "../domain/User";
+import {
+  CONFIRMED_STATUS,
+  DEFAULT_WORKFLOW,
+  isValidStatusKey,
+  REJECTED_STATUS,
+  RESOLVED_STATUS,
+  TRANSITION_REQUIRED_FIELDS,
+  Workflow,
+  WORKFLOW_STATE_TYPES,
+} from "../domain/Workflow";
+import { WorkflowPort } from "../domain/WorkflowPort";
+
+const ROLES: User["rol"][] = ["empleado", "soporte", "administrador"];
+
+/**
+ * Servicio de aplicación para la configuración del flujo de trabajo
+ * Implementa los casos de uso de consulta y sustitución de los estados
+ * y transiciones que siguen las incidencias
+ *
+ * Responsabilidades:
+ * - Validación de la coherencia del flujo (estados, tipos y transiciones)
+ * - Impedir la eliminación de estados con incidencias asociadas
+ * - Conservar los estados y transiciones de la confirmación de resoluciones
+ * - Aplicar el flujo por defecto mientras no se haya configurado uno
+ */
+export class WorkflowApplicationService {
+  private port: WorkflowPort;
+  private incidentPort: IncidentPort;
+
+  constructor(port: WorkflowPort, incidentPort: IncidentPort) {
+    this.port = port;
+    this.incidentPort = incidentPort;
+  }
+
+  async getWorkflow(): Promise<Workflow> {
+    return (await this.port.getWorkflow()) ?? DEFAULT_WORKFLOW;
+  }
+
+  /**
+   * Sustituye el flujo de trabajo completo
+   * Los estados que desaparecen no pueden tener incidencias asociadas
+   */
+  async updateWorkflow(workflow: Workflow): Promise<boolean> {
+    const workflowToSave: Workflow = {
+      estados: workflow.estados.map((estado) => ({
+        ...estado,
+        clave: estado.clave?.trim(),
+        nombre: estado.nombre?.trim(),
+      })),
+      transiciones: workflow.transiciones.map((transicion) => ({
+        ...transicion,
+        roles: [...new Set(transicion.roles)],
+        camposRequeridos: [...new Set(transicion.camposRequeridos ?? [])],
+      })),
+    };
+
+    this.validateWorkflow(workflowToSave);
+
+    const claves = new Set(workflowToSave.estados.map((estado) => estado.clave));
+    const conteo = await this.incidentPort.countIncidentsByStatus();
+    const enUso = Object.keys(conteo).filter(
+      (estado) => conteo[estado] > 0 && !claves.has(estado)
+    );
+    if (enUso.length > 0) {
+      throw new Error(
+        `No se pueden eliminar estados con incidencias asociadas: ${enUso.join(", ")}`
+      );
+    }
+
+    return await this.port.saveWorkflow(workflowToSave);
+  }
+
+  private validateWorkflow(workflow: Workflow): void {
+    if (workflow.estados.length === 0) {
+      throw new Error("El flujo de trabajo debe tener al menos un estado");
+    }
+
+    const claves = new Set<string>();
+    for (const estado of workflow.estados) {
+      if (!estado.clave || !isValidStatusKey(estado.clave)) {
+        throw new Error(
+          "La clave de cada estado debe tener entre 3 y 50 letras minúsculas o guiones bajos"
+        );
+      }
+
+      if (claves.has(estado.clave)) {
+        throw new Error(`El estado "${estado.clave}" está duplicado`);
+      }
+      claves.add(estado.clave);
+
+      if (!estado.nombre || estado.nombre.length > 100) {
+        throw new Error(
+          `El nombre del estado "${estado.clave}" es obligatorio y no puede exceder los 100 caracteres`
+        );
+      }
+
+      if (!WORKFLOW_STATE_TYPES.includes(estado.tipo)) {
+        throw new Error("El tipo de estado debe ser: inicial, intermedio o final");
+      }
+
+      if (!Number.isInteger(estado.orden) || estado.orden < 0) {
+        throw new Error(
+          `El orden del estado "${estado.clave}" debe ser un entero no negativo`
+        );
+      }
+    }
+
+    const iniciales = workflow.estados.filter(
+      (estado) => estado.tipo === "inicial"
+    );
+    if (iniciales.length !== 1) {
+      throw new Error("El flujo de trabajo debe tener exactamente un estado inicial");
+    }
+
+    if (!workflow.estados.some((estado) => estado.tipo === "final")) {
+      throw new Error("El flujo de trabajo debe tener al menos un estado final");
+    }
+
+    this.validateResolutionStates(workflow);
+
+    const pares = new Set<string>();
+    for (const transicion of workflow.transiciones) {
+      const { estadoOrigen, estadoDestino } = transicion;
+      if (!claves.has(estadoOrigen) || !claves.has(estadoDestino)) {
+        throw new Error(
+          `La transición de "${estadoOrigen}" a "${estadoDestino}" hace referencia a un estado que no existe`
+        );
+      }
+
+      if (estadoOrigen === estadoDestino) {
+        throw new Error(
+          `La transición del estado "${estadoOrigen}" debe llevar a un estado distinto`
+        );
+      }
+
+      const par = `${estadoOrigen}->${estadoDestino}`;
+      if (pares.has(par)) {
+        throw new Error(
+          `La transición de "${estadoOrigen}" a "${estadoDestino}" está duplicada`
+        );
+      }
+      pares.add(par);
+
+      if (
+        transicion.roles.length === 0 ||
+        transicion.roles.some((rol) => !ROLES.includes(rol))
+      ) {
+        throw new Error(
+          "Los roles de cada transición deben ser: empleado, soporte o administrador"
+        );
+      }
+
+      if (
+        transicion.camposRequeridos.some(
+          (campo) => !TRANSITION_REQUIRED_FIELDS.includes(campo)
+        )
+      ) {
+        throw new Error(
+          "Los campos requeridos de cada transición deben ser: notaResolucion, codigoCierre o soporteId"
+        );
+      }
+    }
+  }
+
+  /**
+   * La confirmación, el rechazo y el cierre automático de las resoluciones
+   * dependen de RESOLVED_STATUS, CONFIRMED_STATUS y REJECTED_STATUS: deben
+   * existir con un tipo coherente y con las transiciones entre ellos
+   */
+  private validateResolutionStates(workflow: Workflow): void {
+    const tipoDe = (clave: string) =>
+      workflow.estados.find((estado) => estado.clave === clave)?.tipo;
+
+    for (const clave of [RESOLVED_STATUS, CONFIRMED_STATUS, REJECTED_STATUS]) {
+      if (!tipoDe(clave)) {
+        throw new Error(
+          `El estado "${clave}" es obligatorio: se usa al confirmar o rechazar resoluciones`
+        );
+      }
+    }
+
+    if (tipoDe(RESOLVED_STATUS) === "final" || tipoDe(REJECTED_STATUS) === "final") {
+      throw new Error(
+        `Los estados "${RESOLVED_STATUS}" y "${REJECTED_STATUS}" deben ser de tipo inicial o intermedio`
+      );
+    }
+
+    if (tipoDe(CONFIRMED_STATUS) !== "final") {
+      throw new Error(`El estado "${CONFIRMED_STATUS}" debe ser final`);
+    }
+
+    for (const destino of [CONFIRMED_STATUS, REJECTED_STATUS]) {
+      const existe = workflow.transiciones.some(
+        (transicion) =>
+          transicion.estadoOrigen === RESOLVED_STATUS &&
+          transicion.estadoDestino === destino
+      );
+      if (!existe) {
+        throw new Error(
+          `La transición de "${RESOLVED_STATUS}" a "${destino}" es obligatoria: se usa al responder a una resolución`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Estrategias de asignación automática de incidencias nuevas
+ * - round_robin: reparte por turnos entre los técnicos de soporte activos
+ * - menor_carga: elige el técnico con menos incidencias abiertas asignadas
+ * - habilidades: elige, entre los técnicos con la habilidad de la categoría,
+ *   el que tiene menos incidencias abiertas
+ */
+export type AssignmentStrategyName = "round_robin" | "menor_carga" | "habilidades";
+
+export const ASSIGNMENT_STRATEGY_NAMES: AssignmentStrategyName[] = [
+  "round_robin",
+  "menor_carga",
+  "habilidades",
+];
+
+/**
+ * Regla de asignación automática configurada para una categoría
+ * soporteIds son los técnicos con la habilidad de la categoría; solo
+ * los usa la estrategia habilidades
+ * ultimoSoporteId es el turno de la estrategia round_robin
+ */
+export interface AssignmentRule {
+  categoriaId: number;
+  estrategia: AssignmentStrategyName;
+  soporteIds: number[];
+  activa: boolean;
+  ultimoSoporteId?: number;
+  actualizadoEn: Date;
+}
+
+/**
+ * Técnico de soporte candidato a recibir una incidencia, con el número de
+ * incidencias no finalizadas que tiene asignadas
+ */
+export interface AssignmentCandidate {
+  soporteId: number;
+  incidenciasAbiertas: number;
+}
+
+/**
+ * Resultado de aplicar una estrategia: el técnico elegido (o null si
+ * no había candidatos) y el motivo de la elección
+ */
+export interface AssignmentSelection {
+  soporteId: number | null;
+  motivo: string;
+}
+
+/**
+ * Registro de auditoría de cada decisión de asignación automática
+ */
+export interface AssignmentDecision {
+  id: number;
+  incidenciaId: number;
+  categoriaId: number;
+  estrategia: AssignmentStrategyName;
+  soporteId?: number; // Sin valor si ningún técnico era elegible
+  candidatos: AssignmentCandidate[];
+  motivo: string;
+  fecha: Date;
+}
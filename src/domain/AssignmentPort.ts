@@ -0,0 +1,22 @@
+import { AssignmentDecision, AssignmentRule } from "./Assignment";
+
+/**
+ * Puerto (interface) que define las operaciones disponibles para la
+ * asignación automática de incidencias
+ * Implementa el patrón Port en la arquitectura hexagonal
+ *
+ * Cada categoría tiene como mucho una regla; saveRule la crea o la reemplaza
+ */
+export interface AssignmentPort {
+  getRuleByCategory(categoriaId: number): Promise<AssignmentRule | null>;
+  getAllRules(): Promise<AssignmentRule[]>;
+  saveRule(
+    rule: Omit<AssignmentRule, "ultimoSoporteId" | "actualizadoEn">
+  ): Promise<boolean>;
+  deleteRule(categoriaId: number): Promise<boolean>;
+  updateLastAssigned(categoriaId: number, soporteId: number): Promise<void>;
+  recordDecision(
+    decision: Omit<AssignmentDecision, "id" | "fecha">
+  ): Promise<number>;
+  getDecisionsByIncident(incidenciaId: number): Promise<AssignmentDecision[]>;
+}
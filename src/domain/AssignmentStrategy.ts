@@ -0,0 +1,113 @@
+import {
+  AssignmentCandidate,
+  AssignmentRule,
+  AssignmentSelection,
+  AssignmentStrategyName,
+} from "./Assignment";
+
+/**
+ * Estrategia de asignación automática
+ * Recibe los técnicos de soporte activos con su carga de trabajo y la regla
+ * de la categoría, y decide a quién se asigna la incidencia
+ */
+export interface AssignmentStrategy {
+  select(
+    candidatos: AssignmentCandidate[],
+    regla: AssignmentRule
+  ): AssignmentSelection;
+}
+
+/**
+ * Elige el candidato con menos incidencias abiertas; a igual carga,
+ * el de menor ID para que el resultado sea determinista
+ */
+function leastLoaded(
+  candidatos: AssignmentCandidate[]
+): AssignmentCandidate | null {
+  return candidatos.reduce<AssignmentCandidate | null>(
+    (elegido, candidato) =>
+      !elegido ||
+      candidato.incidenciasAbiertas < elegido.incidenciasAbiertas ||
+      (candidato.incidenciasAbiertas === elegido.incidenciasAbiertas &&
+        candidato.soporteId < elegido.soporteId)
+        ? candidato
+        : elegido,
+    null
+  );
+}
+
+export class RoundRobinStrategy implements AssignmentStrategy {
+  select(
+    candidatos: AssignmentCandidate[],
+    regla: AssignmentRule
+  ): AssignmentSelection {
+    if (candidatos.length === 0) {
+      return { soporteId: null, motivo: "No hay técnicos de soporte activos" };
+    }
+
+    // El turno pasa al siguiente ID tras el último asignado, volviendo
+    // al primero al llegar al final
+    const ordenados = [...candidatos].sort((a, b) => a.soporteId - b.soporteId);
+    const siguiente =
+      ordenados.find(
+        (candidato) => candidato.soporteId > (regla.ultimoSoporteId ?? 0)
+      ) ?? ordenados[0];
+
+    return {
+      soporteId: siguiente.soporteId,
+      motivo: regla.ultimoSoporteId
+        ? `Turno siguiente al técnico ${regla.ultimoSoporteId}`
+        : "Primer turno del reparto",
+    };
+  }
+}
+
+export class LeastWorkloadStrategy implements AssignmentStrategy {
+  select(candidatos: AssignmentCandidate[]): AssignmentSelection {
+    const elegido = leastLoaded(candidatos);
+    if (!elegido) {
+      return { soporteId: null, motivo: "No hay técnicos de soporte activos" };
+    }
+
+    return {
+      soporteId: elegido.soporteId,
+      motivo: `Menor carga de trabajo (${elegido.incidenciasAbiertas} incidencias abiertas)`,
+    };
+  }
+}
+
+export class SkillBasedStrategy implements AssignmentStrategy {
+  select(
+    candidatos: AssignmentCandidate[],
+    regla: AssignmentRule
+  ): AssignmentSelection {
+    const elegido = leastLoaded(
+      candidatos.filter((candidato) =>
+        regla.soporteIds.includes(candidato.soporteId)
+      )
+    );
+    if (!elegido) {
+      return {
+        soporteId: null,
+        motivo: "Ningún técnico activo tiene la habilidad de la categoría",
+      };
+    }
+
+    return {
+      soporteId: elegido.soporteId,
+      motivo: `Técnico con la habilidad de la categoría y menor carga (${elegido.incidenciasAbiertas} incidencias abiertas)`,
+    };
+  }
+}
+
+/**
+ * Registro de estrategias disponibles por nombre
+ */
+export const ASSIGNMENT_STRATEGIES: Record<
+  AssignmentStrategyName,
+  AssignmentStrategy
+> = {
+  round_robin: new RoundRobinStrategy(),
+  menor_carga: new LeastWorkloadStrategy(),
+  habilidades: new SkillBasedStrategy(),
+};
@@ -0,0 +1,106 @@
+/**
+ * Interfaz que define la estructura del dominio Attachment
+ * Representa un archivo adjunto a una incidencia o a uno de sus comentarios
+ * El contenido del archivo se guarda aparte, en el almacenamiento de archivos,
+ * identificado por claveAlmacenamiento
+ */
+export interface Attachment {
+  id: number;
+  incidenciaId: number;
+  comentarioId?: number; // Solo si el adjunto pertenece a un comentario
+  nombreOriginal: string;
+  tipoMime: string;
+  tamano: number; // en bytes
+  claveAlmacenamiento: string;
+  usuarioId: number;
+  fechaCreacion: Date;
+}
+
+/**
+ * Tipos de archivo admitidos como adjuntos: capturas de pantalla, documentos
+ * y registros (logs) en texto o comprimidos
+ * Para cada tipo se indican las extensiones aceptadas y, en los formatos
+ * binarios, las firmas (bytes iniciales, null para cualquier byte) con que
+ * puede empezar el contenido; los formatos de texto no tienen firma y no
+ * pueden contener bytes nulos
+ */
+const ATTACHMENT_FILE_TYPES: {
+  [tipoMime: string]: { extensiones: string[]; firmas?: (number | null)[][] };
+} = {
+  "image/png": {
+    extensiones: ["png"],
+    firmas: [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  },
+  "image/jpeg": { extensiones: ["jpg", "jpeg"], firmas: [[0xff, 0xd8, 0xff]] },
+  "image/gif": {
+    extensiones: ["gif"],
+    firmas: [
+      [0x47, 0x49, 0x46, 0x38, 0x37, 0x61],
+      [0x47, 0x49, 0x46, 0x38, 0x39, 0x61],
+    ],
+  },
+  "image/webp": {
+    extensiones: ["webp"],
+    firmas: [
+      [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+    ],
+  },
+  "application/pdf": {
+    extensiones: ["pdf"],
+    firmas: [[0x25, 0x50, 0x44, 0x46, 0x2d]],
+  },
+  "text/plain": { extensiones: ["txt", "log"] },
+  "text/csv": { extensiones: ["csv"] },
+  "application/json": { extensiones: ["json"] },
+  "application/zip": {
+    extensiones: ["zip"],
+    firmas: [
+      [0x50, 0x4b, 0x03, 0x04],
+      [0x50, 0x4b, 0x05, 0x06],
+    ],
+  },
+  "application/gzip": { extensiones: ["gz", "tgz"], firmas: [[0x1f, 0x8b]] },
+};
+
+export const ATTACHMENT_ALLOWED_MIME_TYPES = Object.keys(ATTACHMENT_FILE_TYPES);
+
+/**
+ * Comprueba que la extensión del nombre y el contenido del archivo
+ * corresponden al tipo declarado, que puede no ser fiable
+ */
+export function matchesAttachmentType(archivo: AttachmentUpload): boolean {
+  const tipo = ATTACHMENT_FILE_TYPES[archivo.tipoMime];
+  if (!tipo) {
+    return false;
+  }
+
+  const extension = archivo.nombreOriginal.includes(".")
+    ? archivo.nombreOriginal.split(".").pop()!.toLowerCase()
+    : "";
+  if (!tipo.extensiones.includes(extension)) {
+    return false;
+  }
+
+  if (!tipo.firmas) {
+    return !archivo.contenido.subarray(0, 8192).includes(0);
+  }
+
+  return tipo.firmas.some(
+    (firma) =>
+      archivo.contenido.length >= firma.length &&
+      firma.every(
+        (byte, posicion) => byte === null || archivo.contenido[posicion] === byte
+      )
+  );
+}
+
+export const DEFAULT_ATTACHMENT_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Archivo recibido para adjuntar, antes de almacenarse
+ */
+export interface AttachmentUpload {
+  nombreOriginal: string;
+  tipoMime: string;
+  contenido: Buffer;
+}
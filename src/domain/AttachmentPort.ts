@@ -0,0 +1,17 @@
+import { Attachment } from "./Attachment";
+
+/**
+ * Puerto (interface) que define las operaciones disponibles para los
+ * metadatos de los adjuntos
+ * Implementa el patrón Port en la arquitectura hexagonal
+ */
+export interface AttachmentPort {
+  createAttachment(
+    attachment: Omit<Attachment, "id" | "fechaCreacion">
+  ): Promise<number>;
+  getAttachmentById(id: number): Promise<Attachment | null>;
+  // Incluye tanto los adjuntos de la incidencia como los de sus comentarios
+  getAttachmentsByIncident(incidenciaId: number): Promise<Attachment[]>;
+  getAttachmentsByComment(comentarioId: number): Promise<Attachment[]>;
+  deleteAttachment(id: number): Promise<boolean>;
+}
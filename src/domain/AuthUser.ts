@@ -0,0 +1,12 @@
+import { User } from "./User";
+
+/**
+ * Interfaz que define la identidad del usuario autenticado
+ * Corresponde al payload firmado en el JWT y es lo que el middleware
+ * de autenticación deja disponible en cada petición
+ */
+export interface AuthUser {
+  id: number;
+  email: string;
+  rol: User["rol"];
+}
@@ -0,0 +1,46 @@
+/**
+ * Interfaz que define la estructura del dominio BusinessCalendar
+ * Representa la jornada laboral usada para calcular plazos y tiempos en horas laborables
+ * - diasLaborables usa la numeración de Date.getDay (0 = domingo ... 6 = sábado)
+ * - horaInicio y horaFin se expresan como "HH:MM" en la zona horaria indicada
+ * - zonaHoraria es un identificador IANA (por ejemplo "Europe/Madrid")
+ */
+export interface BusinessCalendar {
+  diasLaborables: number[];
+  horaInicio: string;
+  horaFin: string;
+  zonaHoraria: string;
+}
+
+/**
+ * Interfaz que define un día festivo del calendario laboral
+ * La fecha se expresa como "YYYY-MM-DD" en la zona horaria del calendario
+ */
+export interface Holiday {
+  id: number;
+  fecha: string;
+  descripcion?: string;
+}
+
+/**
+ * Calendario aplicado mientras no se haya configurado uno:
+ * lunes a viernes de 09:00 a 18:00 en la zona horaria del servidor
+ */
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  diasLaborables: [1, 2, 3, 4, 5],
+  horaInicio: "09:00",
+  horaFin: "18:00",
+  zonaHoraria: Intl.DateTimeFormat().resolvedOptions().timeZone,
+};
+
+/**
+ * Indica si una zona horaria es un identificador IANA reconocido
+ */
+export function isValidTimeZone(zonaHoraria: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zonaHoraria });
+    return true;
+  } catch {
+    return false;
+  }
+}
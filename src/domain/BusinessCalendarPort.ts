@@ -0,0 +1,18 @@
+import { BusinessCalendar, Holiday } from "./BusinessCalendar";
+
+/**
+ * Puerto (interface) que define las operaciones disponibles para el calendario laboral
+ * Implementa el patrón Port en la arquitectura hexagonal
+ *
+ * El calendario es único en el sistema: getCalendar devuelve null mientras
+ * no se haya configurado y saveCalendar lo crea o lo reemplaza
+ */
+export interface BusinessCalendarPort {
+  getCalendar(): Promise<BusinessCalendar | null>;
+  saveCalendar(calendar: BusinessCalendar): Promise<boolean>;
+  getHolidays(desde?: string, hasta?: string): Promise<Holiday[]>;
+  getHolidayById(id: number): Promise<Holiday | null>;
+  getHolidayByDate(fecha: string): Promise<Holiday | null>;
+  createHoliday(holiday: Omit<Holiday, "id">): Promise<number>;
+  deleteHoliday(id: number): Promise<boolean>;
+}
@@ -0,0 +1,157 @@
+import { BusinessCalendar } from "./BusinessCalendar";
+
+const HORA_MS = 60 * 60 * 1000;
+
+// Límite de días recorridos en un cálculo, para no iterar indefinidamente
+// con calendarios sin días laborables o intervalos desproporcionados
+const MAX_DIAS = 3660;
+
+/**
+ * Servicio de dominio para cálculos en tiempo laborable
+ * Aplica el calendario laboral (días, horario y zona horaria) y los festivos
+ * para sumar horas laborables a una fecha o medir las transcurridas entre dos fechas
+ */
+export class BusinessTimeService {
+  private calendar: BusinessCalendar;
+  private festivos: Set<string>;
+  private formatter: Intl.DateTimeFormat;
+
+  constructor(calendar: BusinessCalendar, festivos: string[] = []) {
+    this.calendar = calendar;
+    this.festivos = new Set(festivos);
+    this.formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: calendar.zonaHoraria,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+  }
+
+  /**
+   * Horas laborables transcurridas entre dos instantes
+   */
+  businessHoursBetween(inicio: Date, fin: Date): number {
+    if (fin.getTime() <= inicio.getTime()) {
+      return 0;
+    }
+
+    let total = 0;
+    let dia = this.localDate(inicio);
+    const ultimoDia = this.localDate(fin);
+
+    for (let i = 0; i < MAX_DIAS && dia <= ultimoDia; i++) {
+      const jornada = this.workingWindow(dia);
+      if (jornada) {
+        const desde = Math.max(jornada.inicio, inicio.getTime());
+        const hasta = Math.min(jornada.fin, fin.getTime());
+        if (hasta > desde) {
+          total += hasta - desde;
+        }
+      }
+      dia = this.nextDay(dia);
+    }
+
+    return total / HORA_MS;
+  }
+
+  /**
+   * Instante en que se cumplen las horas laborables indicadas desde el inicio
+   */
+  addBusinessHours(inicio: Date, horas: number): Date {
+    let restante = horas * HORA_MS;
+    let dia = this.localDate(inicio);
+
+    for (let i = 0; i < MAX_DIAS; i++) {
+      const jornada = this.workingWindow(dia);
+      if (jornada) {
+        const desde = Math.max(jornada.inicio, inicio.getTime());
+        const disponible = jornada.fin - desde;
+        if (disponible > 0) {
+          if (restante <= disponible) {
+            return new Date(desde + restante);
+          }
+          restante -= disponible;
+        }
+      }
+      dia = this.nextDay(dia);
+    }
+
+    throw new Error(
+      "No se pudo calcular el plazo: el calendario laboral no tiene días laborables"
+    );
+  }
+
+  /**
+   * Inicio y fin (en milisegundos UTC) de la jornada de un día local,
+   * o null si el día no es laborable o es festivo
+   */
+  private workingWindow(dia: string): { inicio: number; fin: number } | null {
+    if (this.festivos.has(dia)) {
+      return null;
+    }
+
+    const [anio, mes, diaMes] = dia.split("-").map(Number);
+    const diaSemana = new Date(Date.UTC(anio, mes - 1, diaMes)).getUTCDay();
+    if (!this.calendar.diasLaborables.includes(diaSemana)) {
+      return null;
+    }
+
+    return {
+      inicio: this.toInstant(anio, mes, diaMes, this.calendar.horaInicio),
+      fin: this.toInstant(anio, mes, diaMes, this.calendar.horaFin),
+    };
+  }
+
+  /**
+   * Convierte una hora local del calendario en un instante UTC
+   * El segundo ajuste corrige los días con cambio de horario
+   */
+  private toInstant(anio: number, mes: number, dia: number, hora: string): number {
+    const [horas, minutos] = hora.split(":").map(Number);
+    const local = Date.UTC(anio, mes - 1, dia, horas, minutos);
+    const aproximado = local - this.offset(local);
+    return local - this.offset(aproximado);
+  }
+
+  private offset(instante: number): number {
+    const partes = this.parts(new Date(instante));
+    const local = Date.UTC(
+      partes.year,
+      partes.month - 1,
+      partes.day,
+      partes.hour,
+      partes.minute,
+      partes.second
+    );
+    return local - Math.floor(instante / 1000) * 1000;
+  }
+
+  private localDate(fecha: Date): string {
+    const partes = this.parts(fecha);
+    return `${partes.year}-${this.pad(partes.month)}-${this.pad(partes.day)}`;
+  }
+
+  private nextDay(dia: string): string {
+    const [anio, mes, diaMes] = dia.split("-").map(Number);
+    const siguiente = new Date(Date.UTC(anio, mes - 1, diaMes + 1));
+    return siguiente.toISOString().substring(0, 10);
+  }
+
+  private parts(fecha: Date): { [tipo: string]: number } {
+    const partes: { [tipo: string]: number } = {};
+    this.formatter.formatToParts(fecha).forEach((parte) => {
+      if (parte.type !== "literal") {
+        partes[parte.type] = parseInt(parte.value, 10);
+      }
+    });
+    return partes;
+  }
+
+  private pad(valor: number): string {
+    return String(valor).padStart(2, "0");
+  }
+}
@@ -9,5 +9,6 @@ export interface Category {
   nombre: string;
   descripcion?: string;
   estado: number;
+  grupoSoporteId?: number | null; // Grupo que recibe por defecto sus incidencias
   fechaCreacion: Date;
 }
@@ -0,0 +1,14 @@
+/**
+ * Interfaz que define la estructura del dominio ClosureCode
+ * Representa un código de cierre del catálogo que indica cómo terminó una
+ * incidencia (por ejemplo: solucionada, duplicada, no se corregirá o
+ * cancelada por el usuario)
+ * Esta interfaz es independiente de la implementación de base de datos
+ */
+export interface ClosureCode {
+  id: number;
+  nombre: string;
+  descripcion?: string;
+  estado: number;
+  fechaCreacion: Date;
+}
@@ -0,0 +1,23 @@
+import { ClosureCode } from "./ClosureCode";
+
+/**
+ * Puerto (interface) que define las operaciones disponibles para el catálogo
+ * de códigos de cierre
+ * Implementa el patrón Port en la arquitectura hexagonal
+ * Esta interfaz define el contrato que debe cumplir cualquier adaptador
+ * que quiera implementar la persistencia de códigos de cierre
+ */
+export interface ClosureCodePort {
+  createClosureCode(
+    closureCode: Omit<ClosureCode, "id" | "fechaCreacion">
+  ): Promise<number>;
+  getClosureCodeById(id: number): Promise<ClosureCode | null>;
+  getClosureCodeByName(nombre: string): Promise<ClosureCode | null>;
+  updateClosureCode(
+    id: number,
+    closureCode: Partial<ClosureCode>
+  ): Promise<boolean>;
+  deleteClosureCode(id: number): Promise<boolean>;
+  getAllActiveClosureCodes(): Promise<ClosureCode[]>;
+  getAllClosureCodes(): Promise<ClosureCode[]>;
+}
@@ -1,3 +1,18 @@
+import { User } from "./User";
+
+/**
+ * Visibilidad de un comentario: los internos son notas del personal de
+ * soporte que los empleados no pueden ver
+ */
+export type CommentVisibility = "publico" | "interno";
+
+export const COMMENT_VISIBILITIES: CommentVisibility[] = ["publico", "interno"];
+
+/**
+ * Minutos desde su creación durante los que el autor puede editar un comentario
+ */
+export const DEFAULT_COMMENT_EDIT_WINDOW_MINUTES = 15;
+
 /**
  * Interfaz que define la estructura del dominio Comments
  * Representa una categoría de incidencia en el contexto de negocio
@@ -8,6 +23,106 @@ export interface Comments {
   id: number;
   incidencia: number;
   usuario: number;
-  comentario: string;
+  comentario: string; // Texto fuente en el subconjunto de Markdown admitido
+  comentarioHtml?: string; // HTML saneado generado a partir del comentario
+  creadoPorId?: number; // Usuario que registró el comentario si no es el autor
+  comentarioPadreId?: number; // Comentario al que responde
+  menciones?: number[]; // Usuarios mencionados con @ en el texto
+  visibilidad: CommentVisibility;
+  editado: boolean;
+  fechaEdicion?: Date; // Última edición del texto
   fechaCreacion: Date;
 }
+
+/**
+ * Versión anterior del texto de un comentario, guardada en cada edición
+ */
+export interface CommentRevision {
+  id: number;
+  comentarioId: number;
+  comentario: string;
+  editadoPorId: number;
+  fecha: Date;
+}
+
+/**
+ * Comentario con sus respuestas anidadas
+ */
+export interface CommentThread extends Comments {
+  respuestas: CommentThread[];
+}
+
+/**
+ * Agrupa los comentarios en hilos conservando el orden recibido
+ * Una respuesta cuyo comentario padre no está en la lista (por ejemplo,
+ * una nota interna oculta) se muestra como un hilo independiente
+ */
+export function buildCommentThreads(comments: Comments[]): CommentThread[] {
+  const threads = new Map<number, CommentThread>();
+  comments.forEach((comment) =>
+    threads.set(comment.id, { ...comment, respuestas: [] })
+  );
+
+  const roots: CommentThread[] = [];
+  for (const comment of comments) {
+    const thread = threads.get(comment.id)!;
+    const parent =
+      comment.comentarioPadreId !== undefined
+        ? threads.get(comment.comentarioPadreId)
+        : undefined;
+
+    if (parent) {
+      parent.respuestas.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Extrae las menciones (@usuario o @correo completo) de un texto,
+ * en minúsculas y sin repetir
+ * Una arroba precedida de letras o números forma parte de un correo
+ * escrito en el texto y no se considera mención
+ */
+export function extractMentions(texto: string): string[] {
+  const patron =
+    /(^|[^A-Za-z0-9._%+-])@([A-Za-z0-9._%+-]+(?:@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)?)/g;
+  const menciones = new Set<string>();
+
+  let coincidencia: RegExpExecArray | null;
+  while ((coincidencia = patron.exec(texto)) !== null) {
+    // El punto final de una frase no forma parte de la mención
+    const mencion = coincidencia[2].replace(/\.+$/, "").toLowerCase();
+    if (mencion) {
+      menciones.add(mencion);
+    }
+  }
+
+  return [...menciones];
+}
+
+/**
+ * Los empleados solo ven los comentarios públicos; el personal de soporte
+ * y los administradores ven también las notas internas
+ */
+export function canViewComment(
+  rol: User["rol"],
+  comment: Pick<Comments, "visibilidad">
+): boolean {
+  return comment.visibilidad !== "interno" || rol !== "empleado";
+}
+
+/**
+ * Auditoría de un cambio de visibilidad de un comentario
+ */
+export interface CommentVisibilityChange {
+  id: number;
+  comentarioId: number;
+  visibilidadAnterior: CommentVisibility;
+  visibilidadNueva: CommentVisibility;
+  usuarioId: number;
+  fecha: Date;
+}
@@ -1,4 +1,9 @@
-import { Comments } from "./Comments";
+import {
+  CommentRevision,
+  Comments,
+  CommentVisibility,
+  CommentVisibilityChange,
+} from "./Comments";
 
 /**
  * Puerto (interfaz) que define las operaciones disponibles para comentarios
@@ -7,11 +12,43 @@ import { Comments } from "./Comments";
  */
 export interface CommentsPort {
   createComments(
-    comments: Omit<Comments, "id" | "fechaCreacion">
+    comments: Omit<
+      Comments,
+      "id" | "fechaCreacion" | "editado" | "fechaEdicion" | "menciones"
+    >
   ): Promise<number>;
   getCommentsById(id: number): Promise<Comments | null>;
-  updateComments(id: number, comments: Partial<Comments>): Promise<boolean>;
+  /**
+   * Reemplaza el texto del comentario guardando el anterior como revisión
+   * en una misma transacción
+   */
+  updateComments(
+    id: number,
+    comentario: string,
+    editadoPorId: number
+  ): Promise<boolean>;
+  getRevisions(comentarioId: number): Promise<CommentRevision[]>;
   getAllComments(): Promise<Comments[]>;
   getCommentsByIncidencia(incidenciaId: number): Promise<Comments[]>;
+  /**
+   * Comentarios en los que se menciona al usuario, del más reciente al más antiguo
+   */
+  getCommentsMentioningUser(usuarioId: number): Promise<Comments[]>;
+  /**
+   * Reemplaza los usuarios mencionados en un comentario
+   */
+  setMentions(comentarioId: number, usuarioIds: number[]): Promise<void>;
   deleteComments(id: number): Promise<boolean>;
+  /**
+   * Cambia la visibilidad del comentario y registra el cambio en la auditoría
+   * en una misma transacción
+   * Al pasar a interno convierte también las respuestas públicas del hilo, y
+   * falla si se hace pública una respuesta cuyo padre es interno
+   */
+  changeVisibility(
+    id: number,
+    visibilidad: CommentVisibility,
+    usuarioId: number
+  ): Promise<boolean>;
+  getVisibilityChanges(comentarioId: number): Promise<CommentVisibilityChange[]>;
 }
@@ -0,0 +1,58 @@
+import { Incident } from "./Incident";
+import { CommentVisibility } from "./Comments";
+
+/**
+ * Eventos de dominio emitidos por los casos de uso de incidencias y comentarios
+ * Se publican una vez persistido el cambio; actorId es el usuario que lo realizó
+ */
+interface DomainEventBase {
+  incidenciaId: number;
+  actorId: number;
+  fecha: Date;
+}
+
+export interface IncidentCreatedEvent extends DomainEventBase {
+  tipo: "incident.created";
+}
+
+export interface IncidentUpdatedEvent extends DomainEventBase {
+  tipo: "incident.updated";
+  campos: string[];
+}
+
+export interface IncidentStatusChangedEvent extends DomainEventBase {
+  tipo: "incident.status_changed";
+  estadoAnterior: Incident["estado"];
+  estadoNuevo: Incident["estado"];
+  // Indica si el nuevo estado es final en el flujo de trabajo vigente
+  estadoFinal: boolean;
+}
+
+export interface IncidentAssignedEvent extends DomainEventBase {
+  tipo: "incident.assigned";
+  soporteAnteriorId?: number;
+  soporteId: number | null;
+}
+
+export interface CommentCreatedEvent extends DomainEventBase {
+  tipo: "comment.created";
+  comentarioId: number;
+  visibilidad: CommentVisibility;
+}
+
+export type DomainEvent =
+  | IncidentCreatedEvent
+  | IncidentUpdatedEvent
+  | IncidentStatusChangedEvent
+  | IncidentAssignedEvent
+  | CommentCreatedEvent;
+
+export type DomainEventType = DomainEvent["tipo"];
+
+export const DOMAIN_EVENT_TYPES: DomainEventType[] = [
+  "incident.created",
+  "incident.updated",
+  "incident.status_changed",
+  "incident.assigned",
+  "comment.created",
+];
@@ -0,0 +1,42 @@
+/**
+ * Resumen estadístico de una serie de duraciones, expresado en horas
+ */
+export interface DurationStatistics {
+  promedio: number;
+  mediana: number;
+  p90: number;
+  muestras: number;
+}
+
+/**
+ * Calcula promedio, mediana y percentil 90 de una serie de duraciones en horas
+ * Devuelve undefined si la serie está vacía
+ * El percentil se obtiene por el método del rango más cercano
+ */
+export function summarizeDurations(
+  horas: number[]
+): DurationStatistics | undefined {
+  if (horas.length === 0) {
+    return undefined;
+  }
+
+  const ordenadas = [...horas].sort((a, b) => a - b);
+  const suma = ordenadas.reduce((acc, valor) => acc + valor, 0);
+  const mitad = Math.floor(ordenadas.length / 2);
+  const mediana =
+    ordenadas.length % 2 === 0
+      ? (ordenadas[mitad - 1] + ordenadas[mitad]) / 2
+      : ordenadas[mitad];
+  const p90 = ordenadas[Math.ceil(0.9 * ordenadas.length) - 1];
+
+  return {
+    promedio: round(suma / ordenadas.length),
+    mediana: round(mediana),
+    p90: round(p90),
+    muestras: ordenadas.length,
+  };
+}
+
+function round(valor: number): number {
+  return Math.round(valor * 100) / 100;
+}
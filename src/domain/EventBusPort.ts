@@ -0,0 +1,20 @@
+import { DomainEvent, DomainEventType } from "./DomainEvent";
+
+export type DomainEventHandler<T extends DomainEvent = DomainEvent> = (
+  event: T
+) => Promise<void> | void;
+
+/**
+ * Puerto (interface) del bus de eventos de dominio
+ * Implementa el patrón Port en la arquitectura hexagonal
+ *
+ * publish no espera a los suscriptores: un fallo al procesar un evento
+ * (por ejemplo, al enviar un correo) no afecta al caso de uso que lo emitió
+ */
+export interface EventBusPort {
+  publish(event: DomainEvent): void;
+  subscribe<K extends DomainEventType>(
+    tipo: K,
+    handler: DomainEventHandler<Extract<DomainEvent, { tipo: K }>>
+  ): void;
+}
@@ -0,0 +1,13 @@
+/**
+ * Puerto (interface) para el almacenamiento del contenido de los archivos
+ * Implementa el patrón Port en la arquitectura hexagonal
+ *
+ * Cada archivo se identifica por la clave que devuelve saveFile; la clave es
+ * opaca para el resto de la aplicación
+ */
+export interface FileStoragePort {
+  saveFile(contenido: Buffer): Promise<string>;
+  readFile(clave: string): Promise<Buffer>;
+  // Elimina los archivos indicados; los que no existan se ignoran
+  deleteFiles(claves: string[]): Promise<void>;
+}
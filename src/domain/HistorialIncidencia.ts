@@ -0,0 +1,20 @@
+/**
+ * Interfaz que define la estructura del dominio HistorialIncidencia
+ * Representa un cambio registrado sobre un campo de una incidencia:
+ * qué campo cambió, su valor anterior y nuevo, quién lo hizo y cuándo
+ */
+export interface HistorialIncidencia {
+  id: number;
+  incidenciaId: number;
+  campo: string;
+  valorAnterior?: string;
+  valorNuevo?: string;
+  usuarioId: number;
+  fecha: Date;
+  usuario?: {
+    id: number;
+    nombre: string;
+    email: string;
+    rol: string;
+  };
+}
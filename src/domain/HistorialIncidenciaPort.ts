@@ -0,0 +1,10 @@
+import { HistorialIncidencia } from "./HistorialIncidencia";
+
+/**
+ * Puerto (interface) que define las operaciones de consulta del historial de incidencias
+ * Los registros se escriben desde el adaptador de incidencias dentro de la misma
+ * transacción que la actualización, por lo que este puerto es de solo lectura
+ */
+export interface HistorialIncidenciaPort {
+  getHistoryByIncident(incidenciaId: number): Promise<HistorialIncidencia[]>;
+}
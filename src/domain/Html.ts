@@ -0,0 +1,12 @@
+/**
+ * Escapa los caracteres especiales de HTML para mostrar un texto como
+ * contenido o valor de atributo sin que se interprete como marcado
+ */
+export function escapeHtml(texto: string): string {
+  return texto
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
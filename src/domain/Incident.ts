@@ -1,3 +1,8 @@
+import { DurationStatistics } from "./DurationStatistics";
+import { PaginationOptions } from "./Pagination";
+import { User } from "./User";
+import { IncidentStatus, WorkflowStateType } from "./Workflow";
+
 /**
  * Interfaz que define la estructura del dominio Incident
  * Representa una incidencia en el contexto de negocio del sistema de gestión
@@ -7,14 +12,27 @@
 export interface Incident {
   id: number;
   titulo: string;
-  descripcion?: string;
-  estado: "abierta" | "en_progreso" | "cerrada";
+  descripcion?: string; // Texto fuente en el subconjunto de Markdown admitido
+  descripcionHtml?: string; // HTML saneado generado a partir de la descripción
+  estado: IncidentStatus;
   usuarioId: number;
   soporteId?: number;
+  grupoSoporteId?: number; // Grupo de soporte en cuya cola está la incidencia
   categoriaId: number;
   prioridadId: number;
+  creadoPorId?: number; // Usuario que registró la incidencia si no es el reportador
   creadoEn: Date;
   actualizadoEn: Date;
+  fechaPrimeraRespuesta?: Date; // Primera salida del estado inicial
+  fechaCierre?: Date; // Última entrada en un estado final; se limpia al reabrir
+  fechaReapertura?: Date; // Última reapertura
+  reaperturas?: number;
+  fechaLimiteRespuesta?: Date; // Vencimiento del SLA de primera respuesta
+  fechaLimiteResolucion?: Date; // Vencimiento del SLA de resolución
+  notaResolucion?: string; // Última nota aportada en una transición que la exige
+  codigoCierreId?: number; // Código del catálogo que indica cómo se cerró
+  fechaResolucion?: Date; // Entrada en el estado resuelta, pendiente de confirmar
+  incidenciaOrigenId?: number; // Incidencia cerrada de la que es seguimiento
   usuario?: {
     id: number;
     nombre: string;
@@ -27,6 +45,10 @@ export interface Incident {
     email: string;
     rol: string;
   };
+  grupoSoporte?: {
+    id: number;
+    nombre: string;
+  };
   categoria?: {
     id: number;
     nombre: string;
@@ -38,4 +60,153 @@ export interface Incident {
     nivel: number;
     color?: string;
   };
+  codigoCierre?: {
+    id: number;
+    nombre: string;
+  };
+}
+
+/**
+ * Indica si un usuario puede consultar una incidencia y todo lo que cuelga
+ * de ella (comentarios, adjuntos, seguidores):
+ * - administrador: cualquier incidencia
+ * - soporte: las que tiene asignadas y las que aún no tienen técnico
+ * - empleado: las que ha reportado
+ */
+export function canViewIncident(
+  usuario: Pick<User, "id" | "rol">,
+  incident: Pick<Incident, "usuarioId" | "soporteId">
+): boolean {
+  switch (usuario.rol) {
+    case "administrador":
+      return true;
+    case "soporte":
+      return !incident.soporteId || incident.soporteId === usuario.id;
+    default:
+      return incident.usuarioId === usuario.id;
+  }
 }
+
+/**
+ * Filtros disponibles para la consulta de incidencias
+ * colaSoporteId limita el resultado a la cola de un técnico:
+ * incidencias asignadas a él más las que aún no tienen técnico
+ * seguidorId limita el resultado a las incidencias que sigue un usuario
+ */
+export interface IncidentFilters {
+  estado?: IncidentStatus;
+  usuarioId?: number;
+  soporteId?: number;
+  colaSoporteId?: number;
+  grupoSoporteId?: number;
+  seguidorId?: number;
+  categoriaId?: number;
+  prioridadId?: number;
+  fechaDesde?: Date;
+  fechaHasta?: Date;
+}
+
+/**
+ * Criterios de ordenación de los listados de incidencias
+ * prioridad ordena por el nivel de la prioridad; estado sigue el orden
+ * de los estados en el flujo de trabajo
+ */
+export type IncidentSortField =
+  | "creadoEn"
+  | "actualizadoEn"
+  | "prioridad"
+  | "estado";
+
+export type IncidentPagination = PaginationOptions<IncidentSortField> & {
+  // Claves de los estados en el orden del flujo, para ordenar por estado
+  ordenEstados?: IncidentStatus[];
+};
+
+/**
+ * Cambio de estado ya validado contra el flujo de trabajo
+ * Los tipos de estado determinan las marcas de ciclo de vida
+ * (primera respuesta, cierre y reapertura)
+ */
+export interface IncidentStatusChange {
+  // Estado desde el que se validó la transición: el cambio solo se aplica
+  // si la incidencia sigue en él al guardarlo
+  estadoAnterior: IncidentStatus;
+  estado: IncidentStatus;
+  tipoAnterior: WorkflowStateType;
+  tipoNuevo: WorkflowStateType;
+  notaResolucion?: string;
+  codigoCierreId?: number;
+  // Marca de entrada en el estado resuelta (null al salir de él)
+  fechaResolucion?: Date | null;
+  // Descarta la nota y el código de cierre de una resolución rechazada
+  descartarResolucion?: boolean;
+}
+
+/**
+ * Resultado de reabrir una incidencia: la propia incidencia si seguía dentro
+ * del plazo de reapertura, o la incidencia de seguimiento creada en su lugar
+ */
+export interface IncidentReopenResult {
+  incidenciaId: number;
+  seguimiento: boolean;
+}
+
+/**
+ * Filtros disponibles para las estadísticas de incidencias
+ */
+export interface IncidentStatisticsFilters {
+  fechaDesde?: Date;
+  fechaHasta?: Date;
+  usuarioId?: number;
+  colaSoporteId?: number;
+  categoriaId?: number;
+}
+
+/**
+ * Estadísticas agregadas de incidencias
+ * abiertas, enProgreso y cerradas agrupan los estados según su tipo en el
+ * flujo de trabajo (inicial, intermedio y final); porEstado detalla cada estado
+ * porCodigoCierre cuenta las incidencias con código de cierre por su nombre
+ * reaperturas suma todas las reaperturas, incidenciasReabiertas cuenta las
+ * incidencias reabiertas al menos una vez y seguimientos las creadas al
+ * reabrir fuera de plazo
+ * tiempoPromedioResolucion se mantiene por compatibilidad y equivale
+ * al promedio de tiemposResolucion
+ */
+export interface IncidentStatistics {
+  total: number;
+  abiertas: number;
+  enProgreso: number;
+  cerradas: number;
+  reaperturas: number;
+  incidenciasReabiertas: number;
+  seguimientos: number;
+  porEstado: { [key: string]: number };
+  porCategoria: { [key: string]: number };
+  porPrioridad: { [key: string]: number };
+  porCodigoCierre: { [key: string]: number };
+  tiempoPromedioResolucion?: number; // en horas
+  tiemposResolucion?: DurationStatistics;
+  tiemposPrimeraRespuesta?: DurationStatistics;
+  cumplimientoSla?: {
+    porPrioridad: { [key: string]: SlaCompliance };
+    porCategoria: { [key: string]: SlaCompliance };
+  };
+}
+
+/**
+ * Porcentaje de incidencias que cumplieron cada objetivo del SLA
+ * Solo se evalúan las incidencias cuyo objetivo ya se ha resuelto o vencido;
+ * el valor es undefined si no hay ninguna evaluable
+ */
+export interface SlaCompliance {
+  respuesta?: number;
+  resolucion?: number;
+}
+
+/**
+ * Situación de una incidencia activa respecto a sus plazos de SLA
+ * - en_riesgo: algún plazo pendiente vence dentro del umbral indicado
+ * - incumplida: algún plazo pendiente ya ha vencido
+ */
+export type SlaStatus = "en_riesgo" | "incumplida";
@@ -1,4 +1,14 @@
-import { Incident } from "./Incident";
+import {
+  Incident,
+  IncidentFilters,
+  IncidentPagination,
+  IncidentStatistics,
+  IncidentStatisticsFilters,
+  IncidentStatusChange,
+  SlaStatus,
+} from "./Incident";
+import { PaginatedResult } from "./Pagination";
+import { IncidentStatus } from "./Workflow";
 
 /**
  * Puerto (interface) que define las operaciones disponibles para las incidencias
@@ -20,59 +30,83 @@ export interface IncidentPort {
     includeRelations?: boolean
   ): Promise<Incident | null>;
   getAllIncidents(
-    filters?: {
-      estado?: "abierta" | "en_progreso" | "cerrada";
-      usuarioId?: number;
-      soporteId?: number;
-      categoriaId?: number;
-      prioridadId?: number;
-      fechaDesde?: Date;
-      fechaHasta?: Date;
-    },
+    filters?: IncidentFilters,
+    includeRelations?: boolean
+  ): Promise<Incident[]>;
+  getIncidentsPage(
+    filters: IncidentFilters,
+    pagination: IncidentPagination,
+    includeRelations?: boolean
+  ): Promise<PaginatedResult<Incident>>;
+  // Solo se consideran activas las incidencias fuera de los estados finales
+  getIncidentsBySla(
+    estadoSla: SlaStatus,
+    referencia: { ahora: Date; limiteRiesgo: Date; estadosFinales: IncidentStatus[] },
+    filters?: IncidentFilters,
     includeRelations?: boolean
   ): Promise<Incident[]>;
   getIncidentsBySupport(
     soporteId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
     includeRelations?: boolean
   ): Promise<Incident[]>;
   getIncidentsByUser(
     usuarioId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
     includeRelations?: boolean
   ): Promise<Incident[]>;
   getIncidentsByCategory(
     categoriaId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
     includeRelations?: boolean
   ): Promise<Incident[]>;
   getIncidentsByPriority(
     prioridadId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
     includeRelations?: boolean
   ): Promise<Incident[]>;
+  // Las operaciones de modificación registran en el historial cada campo
+  // modificado, atribuido a actorId, dentro de la misma transacción
+  // Un cambio de estado falla si la incidencia ya no está en su estadoAnterior
   updateIncident(
     id: number,
-    incident: Partial<Omit<Incident, "id" | "creadoEn">>
+    incident: Partial<Omit<Incident, "id" | "creadoEn">>,
+    actorId: number,
+    cambioEstado?: IncidentStatusChange
   ): Promise<boolean>;
   changeIncidentStatus(
     id: number,
-    estado: "abierta" | "en_progreso" | "cerrada"
+    cambio: IncidentStatusChange,
+    actorId: number
+  ): Promise<boolean>;
+  assignIncident(
+    id: number,
+    soporteId: number | null,
+    actorId: number
+  ): Promise<boolean>;
+  assignIncidentGroup(
+    id: number,
+    grupoSoporteId: number | null,
+    actorId: number
   ): Promise<boolean>;
-  assignIncident(id: number, soporteId: number | null): Promise<boolean>;
   deleteIncident(id: number): Promise<boolean>;
-  getIncidentStatistics(filters?: {
-    fechaDesde?: Date;
-    fechaHasta?: Date;
-    usuarioId?: number;
-    categoriaId?: number;
-  }): Promise<{
-    total: number;
-    abiertas: number;
-    enProgreso: number;
-    cerradas: number;
-    porCategoria: { [key: string]: number };
-    porPrioridad: { [key: string]: number };
-    tiempoPromedioResolucion?: number; // en horas
-  }>;
+  // Incidencias en el estado indicado cuya resolución es anterior al límite
+  getIncidentsResolvedBefore(
+    estado: IncidentStatus,
+    limite: Date
+  ): Promise<Incident[]>;
+  // Número de incidencias en cada estado, sin filtros
+  countIncidentsByStatus(): Promise<{ [estado: string]: number }>;
+  // Los totales agrupados por tipo de estado los calcula el servicio,
+  // que conoce el flujo de trabajo configurado
+  getIncidentStatistics(
+    filters?: IncidentStatisticsFilters
+  ): Promise<Omit<IncidentStatistics, "abiertas" | "enProgreso" | "cerradas">>;
+  // Marcas de tiempo de las incidencias con primera respuesta o cierre,
+  // para calcular duraciones en horas laborables fuera de la base de datos
+  getIncidentLifecycleTimes(
+    filters?: IncidentStatisticsFilters
+  ): Promise<
+    Pick<Incident, "estado" | "creadoEn" | "fechaPrimeraRespuesta" | "fechaCierre">[]
+  >;
 }
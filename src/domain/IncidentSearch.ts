@@ -0,0 +1,123 @@
+import { escapeHtml } from "./Html";
+import { Incident } from "./Incident";
+
+/**
+ * Longitud mínima de las palabras que se tienen en cuenta en la búsqueda
+ * Coincide con el tamaño mínimo de token del índice FULLTEXT de MySQL
+ */
+export const SEARCH_MIN_TERM_LENGTH = 3;
+
+/**
+ * Texto de una incidencia en el que se ha encontrado la búsqueda
+ */
+export interface SearchMatch {
+  campo: "titulo" | "descripcion" | "comentario";
+  texto: string;
+  comentarioId?: number;
+}
+
+/**
+ * Coincidencia devuelta por el puerto de búsqueda, ordenada por relevancia
+ */
+export interface IncidentSearchHit {
+  incidenciaId: number;
+  puntuacion: number;
+  coincidencias: SearchMatch[];
+}
+
+/**
+ * Fragmento de texto con los términos buscados resaltados con <mark>
+ * El resto del texto se escapa para poder mostrarse como HTML
+ */
+export interface SearchSnippet {
+  campo: SearchMatch["campo"];
+  comentarioId?: number;
+  fragmento: string;
+}
+
+export interface IncidentSearchResult {
+  incident: Incident;
+  puntuacion: number;
+  fragmentos: SearchSnippet[];
+}
+
+/**
+ * Extrae las palabras de la búsqueda, normalizadas y sin repetir
+ */
+export function extractSearchTerms(texto: string): string[] {
+  const terminos = normalizeForSearch(texto)
+    .split(/[^a-z0-9]+/)
+    .filter((termino) => termino.length >= SEARCH_MIN_TERM_LENGTH);
+
+  return [...new Set(terminos)];
+}
+
+/**
+ * Normaliza un texto para compararlo sin distinguir mayúsculas ni tildes
+ * Cada carácter se normaliza por separado para conservar las posiciones
+ */
+export function normalizeForSearch(texto: string): string {
+  return Array.from(texto, (caracter) => {
+    const normalizado = caracter
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase();
+    return normalizado.charAt(0) || caracter;
+  }).join("");
+}
+
+/**
+ * Construye un fragmento de como máximo `longitud` caracteres alrededor
+ * de la primera aparición de un término, con todos los términos resaltados
+ * Devuelve null si el texto no contiene ninguno de los términos
+ */
+export function highlightSnippet(
+  texto: string,
+  terminos: string[],
+  longitud: number = 160
+): string | null {
+  const caracteres = Array.from(texto);
+  const normalizado = normalizeForSearch(texto);
+  const apariciones: { inicio: number; fin: number }[] = [];
+
+  for (const termino of terminos) {
+    let posicion = normalizado.indexOf(termino);
+    while (posicion !== -1) {
+      apariciones.push({ inicio: posicion, fin: posicion + termino.length });
+      posicion = normalizado.indexOf(termino, posicion + termino.length);
+    }
+  }
+
+  if (apariciones.length === 0) {
+    return null;
+  }
+
+  apariciones.sort((a, b) => a.inicio - b.inicio);
+
+  const inicio = Math.max(
+    0,
+    Math.min(
+      apariciones[0].inicio - Math.floor(longitud / 3),
+      caracteres.length - longitud
+    )
+  );
+  const fin = Math.min(caracteres.length, inicio + longitud);
+
+  let fragmento = "";
+  let posicion = inicio;
+  for (const aparicion of apariciones) {
+    if (aparicion.inicio < posicion || aparicion.fin > fin) {
+      continue;
+    }
+    fragmento += escapeHtml(caracteres.slice(posicion, aparicion.inicio).join(""));
+    fragmento += `<mark>${escapeHtml(
+      caracteres.slice(aparicion.inicio, aparicion.fin).join("")
+    )}</mark>`;
+    posicion = aparicion.fin;
+  }
+  fragmento += escapeHtml(caracteres.slice(posicion, fin).join(""));
+
+  return `${inicio > 0 ? "…" : ""}${fragmento.trim()}${
+    fin < caracteres.length ? "…" : ""
+  }`;
+}
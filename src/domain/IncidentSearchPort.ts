@@ -0,0 +1,20 @@
+import { IncidentFilters } from "./Incident";
+import { IncidentSearchHit } from "./IncidentSearch";
+
+/**
+ * Puerto (interface) para la búsqueda de texto completo en incidencias
+ * Implementa el patrón Port en la arquitectura hexagonal
+ *
+ * La búsqueda abarca el título, la descripción y los comentarios de cada
+ * incidencia; los resultados se devuelven ordenados por relevancia y
+ * limitados a las incidencias que cumplen los filtros
+ * Las notas internas solo se tienen en cuenta si incluirInternos es true
+ */
+export interface IncidentSearchPort {
+  searchIncidents(
+    texto: string,
+    filters: IncidentFilters,
+    limite: number,
+    incluirInternos: boolean
+  ): Promise<IncidentSearchHit[]>;
+}
@@ -0,0 +1,16 @@
+/**
+ * Interfaz que define la estructura del dominio IncidentWatcher
+ * Representa a un usuario que sigue una incidencia para recibir sus
+ * notificaciones, ya sea por suscripción propia o añadido por un gestor
+ */
+export interface IncidentWatcher {
+  incidenciaId: number;
+  usuarioId: number;
+  agregadoPorId?: number; // Gestor que lo añadió; vacío si se suscribió él mismo
+  creadoEn: Date;
+  usuario?: {
+    id: number;
+    nombre: string;
+    email: string;
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Motivos por los que se rechaza un intento de inicio de sesión
+ */
+export type LoginFailureReason = "credenciales" | "desactivado" | "bloqueado";
+
+/**
+ * Interfaz que define un intento de inicio de sesión registrado
+ */
+export interface LoginAttempt {
+  id: number;
+  email: string;
+  usuarioId?: number;
+  ip: string;
+  exito: boolean;
+  motivo?: LoginFailureReason;
+  fecha: Date;
+}
+
+/**
+ * Filtros para consultar el registro de intentos de inicio de sesión
+ */
+export interface LoginAttemptFilters {
+  email?: string;
+  ip?: string;
+  exito?: boolean;
+  desde?: Date;
+  hasta?: Date;
+}
+
+/**
+ * Contador de fallos consecutivos de una cuenta o de una IP
+ * bloqueadoHasta se informa cuando se alcanza el máximo de fallos permitido
+ */
+export interface LoginThrottle {
+  tipo: "cuenta" | "ip";
+  clave: string;
+  fallos: number;
+  ultimoFallo: Date;
+  bloqueadoHasta?: Date;
+}
+
+/**
+ * Política de protección frente a ataques de fuerza bruta
+ */
+export interface LoginProtectionPolicy {
+  maxFallosCuenta: number;
+  maxFallosIp: number;
+  // A partir de este número de fallos cada intento exige una espera creciente
+  fallosAntesDeEspera: number;
+  esperaMaximaSegundos: number;
+  ventanaMinutos: number;
+  bloqueoMinutos: number;
+}
@@ -0,0 +1,33 @@
+import {
+  LoginAttempt,
+  LoginAttemptFilters,
+  LoginThrottle,
+} from "./LoginAttempt";
+
+/**
+ * Puerto (interface) para el registro de intentos de inicio de sesión
+ * y los contadores de fallos por cuenta e IP
+ * Implementa el patrón Port en la arquitectura hexagonal
+ */
+export interface LoginAttemptPort {
+  recordAttempt(attempt: Omit<LoginAttempt, "id" | "fecha">): Promise<number>;
+  getAttempts(
+    filters: LoginAttemptFilters,
+    limite: number
+  ): Promise<LoginAttempt[]>;
+  getThrottle(
+    tipo: LoginThrottle["tipo"],
+    clave: string
+  ): Promise<LoginThrottle | null>;
+  /**
+   * Actualiza el contador de forma atómica: la fila queda bloqueada
+   * mientras se calcula su nuevo valor a partir del actual, de modo que
+   * los fallos simultáneos no se pierden
+   */
+  updateThrottle(
+    tipo: LoginThrottle["tipo"],
+    clave: string,
+    actualizar: (actual: LoginThrottle | null) => LoginThrottle
+  ): Promise<LoginThrottle>;
+  clearThrottle(tipo: LoginThrottle["tipo"], clave: string): Promise<boolean>;
+}
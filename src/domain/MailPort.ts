@@ -0,0 +1,17 @@
+/**
+ * Mensaje de correo electrónico a enviar
+ */
+export interface MailMessage {
+  para: string;
+  asunto: string;
+  texto: string;
+  html?: string;
+}
+
+/**
+ * Puerto (interface) para el envío de correo electrónico
+ * Implementa el patrón Port en la arquitectura hexagonal
+ */
+export interface MailPort {
+  sendMail(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,212 @@
+import { escapeHtml } from "./Html";
+
+/**
+ * Subconjunto de Markdown admitido en las descripciones de incidencias
+ * y en los comentarios:
+ * - Párrafos, separados por una línea en blanco, y saltos de línea
+ * - Encabezados de nivel 1 a 3 (#, ## y ###)
+ * - Negrita (**texto**), cursiva (*texto* o _texto_) y código (`código`)
+ * - Bloques de código delimitados por ```
+ * - Listas con viñetas (- o *) y numeradas (1.)
+ * - Citas (>)
+ * - Enlaces [texto](url) con protocolo http, https o mailto
+ *
+ * No se admite HTML ni imágenes fuera del código; el HTML generado escapa
+ * todo el texto, por lo que es seguro mostrarlo en el cliente web
+ */
+export const MARKDOWN_ALLOWED_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const BULLET_ITEM = /^\s*[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const INLINE_TOKEN = /`([^`\n]+)`|\[([^\]\n]+)\]\(([^()\s]+)\)/;
+const HTML_TAG = /<\/?[A-Za-z][^<>]*>|<!--/;
+const IMAGE = /!\[[^\]\n]*\]\([^)\n]*\)/;
+const LINK = /\[[^\]\n]+\]\(([^)\s]*)/;
+
+/**
+ * Comprueba que el texto solo usa el subconjunto admitido
+ * campo identifica el texto en los mensajes de error (p. ej. "la descripción")
+ */
+export function validateMarkdown(texto: string, campo: string): void {
+  const sinCodigo = stripCode(texto);
+
+  if (HTML_TAG.test(sinCodigo)) {
+    throw new Error(
+      `Contenido no válido en ${campo}: no se admite HTML, use Markdown`
+    );
+  }
+
+  if (IMAGE.test(sinCodigo)) {
+    throw new Error(
+      `Contenido no válido en ${campo}: no se admiten imágenes, use archivos adjuntos`
+    );
+  }
+
+  const enlaces = new RegExp(LINK.source, "g");
+  let enlace: RegExpExecArray | null;
+  while ((enlace = enlaces.exec(sinCodigo)) !== null) {
+    if (!isSafeUrl(enlace[1])) {
+      throw new Error(
+        `Enlace no válido en ${campo}: solo se admiten enlaces http, https o mailto`
+      );
+    }
+  }
+}
+
+/**
+ * Convierte el texto Markdown en HTML saneado
+ * Cualquier construcción fuera del subconjunto se muestra como texto
+ */
+export function renderMarkdown(texto: string): string {
+  const lineas = texto
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, "")
+    .split("\n");
+  const bloques: string[] = [];
+  let parrafo: string[] = [];
+
+  const cerrarParrafo = () => {
+    if (parrafo.length > 0) {
+      bloques.push(`<p>${parrafo.map(renderInline).join("<br>")}</p>`);
+      parrafo = [];
+    }
+  };
+
+  for (let i = 0; i < lineas.length; i++) {
+    const linea = lineas[i];
+
+    if (FENCE.test(linea)) {
+      cerrarParrafo();
+      const codigo: string[] = [];
+      while (i + 1 < lineas.length && !FENCE.test(lineas[i + 1])) {
+        codigo.push(lineas[++i]);
+      }
+      i++; // Cierre del bloque, si existe
+      bloques.push(
+        `<pre><code>${escapeHtml(codigo.join("\n"))}</code></pre>`
+      );
+      continue;
+    }
+
+    if (linea.trim() === "") {
+      cerrarParrafo();
+      continue;
+    }
+
+    const encabezado = HEADING.exec(linea);
+    if (encabezado) {
+      cerrarParrafo();
+      const nivel = encabezado[1].length;
+      bloques.push(`<h${nivel}>${renderInline(encabezado[2])}</h${nivel}>`);
+      continue;
+    }
+
+    if (QUOTE.test(linea)) {
+      cerrarParrafo();
+      const cita: string[] = [];
+      while (i < lineas.length && QUOTE.test(lineas[i])) {
+        cita.push(QUOTE.exec(lineas[i])![1]);
+        i++;
+      }
+      i--;
+      bloques.push(
+        `<blockquote>${renderMarkdown(cita.join("\n"))}</blockquote>`
+      );
+      continue;
+    }
+
+    const lista = BULLET_ITEM.test(linea)
+      ? { etiqueta: "ul", patron: BULLET_ITEM }
+      : ORDERED_ITEM.test(linea)
+      ? { etiqueta: "ol", patron: ORDERED_ITEM }
+      : null;
+    if (lista) {
+      cerrarParrafo();
+      const elementos: string[] = [];
+      while (i < lineas.length && lista.patron.test(lineas[i])) {
+        const elemento = lista.patron.exec(lineas[i])![1];
+        elementos.push(`<li>${renderInline(elemento)}</li>`);
+        i++;
+      }
+      i--;
+      bloques.push(
+        `<${lista.etiqueta}>${elementos.join("")}</${lista.etiqueta}>`
+      );
+      continue;
+    }
+
+    parrafo.push(linea.trim());
+  }
+
+  cerrarParrafo();
+  return bloques.join("\n");
+}
+
+/**
+ * Formato en línea: el código y los enlaces se separan antes de escapar
+ * el resto del texto y aplicar negrita y cursiva
+ */
+function renderInline(texto: string): string {
+  const tokens = new RegExp(INLINE_TOKEN.source, "g");
+  let html = "";
+  let posicion = 0;
+  let token: RegExpExecArray | null;
+
+  while ((token = tokens.exec(texto)) !== null) {
+    html += renderEmphasis(escapeHtml(texto.slice(posicion, token.index)));
+
+    if (token[1] !== undefined) {
+      html += `<code>${escapeHtml(token[1])}</code>`;
+    } else if (isSafeUrl(token[3])) {
+      html +=
+        `<a href="${escapeHtml(token[3])}" rel="noopener noreferrer nofollow">` +
+        `${renderEmphasis(escapeHtml(token[2]))}</a>`;
+    } else {
+      html += escapeHtml(token[0]);
+    }
+
+    posicion = token.index + token[0].length;
+  }
+
+  return html + renderEmphasis(escapeHtml(texto.slice(posicion)));
+}
+
+function renderEmphasis(texto: string): string {
+  return texto
+    .replace(/\*\*(?=\S)(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/\*(?=\S)([^*]+?)\*/g, "<em>$1</em>")
+    .replace(
+      /(^|[^A-Za-z0-9_])_(?=\S)([^_]+?)_(?![A-Za-z0-9_])/g,
+      "$1<em>$2</em>"
+    );
+}
+
+function isSafeUrl(url: string): boolean {
+  try {
+    return MARKDOWN_ALLOWED_PROTOCOLS.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Elimina los bloques y fragmentos de código, en los que el HTML se
+ * muestra como texto y no se valida
+ */
+function stripCode(texto: string): string {
+  const sinBloques: string[] = [];
+  let enBloque = false;
+
+  for (const linea of texto.replace(/\r\n?/g, "\n").split("\n")) {
+    if (FENCE.test(linea)) {
+      enBloque = !enBloque;
+    } else if (!enBloque) {
+      sinBloques.push(linea.replace(/`[^`\n]+`/g, ""));
+    }
+  }
+
+  return sinBloques.join("\n");
+}
@@ -0,0 +1,20 @@
+/**
+ * Tipos de notificación por correo que un usuario puede desactivar
+ */
+export type NotificationType = "asignacion" | "comentario" | "cierre";
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "asignacion",
+  "comentario",
+  "cierre",
+];
+
+/**
+ * Preferencias de notificación de un usuario
+ * Mientras el usuario no las configure recibe todas las notificaciones
+ */
+export interface NotificationPreference {
+  usuarioId: number;
+  emailHabilitado: boolean;
+  tiposDesactivados: NotificationType[];
+}
@@ -0,0 +1,10 @@
+import { NotificationPreference } from "./NotificationPreference";
+
+/**
+ * Puerto (interface) para las preferencias de notificación de los usuarios
+ * Implementa el patrón Port en la arquitectura hexagonal
+ */
+export interface NotificationPreferencePort {
+  getPreferences(usuarioId: number): Promise<NotificationPreference | null>;
+  savePreferences(preferences: NotificationPreference): Promise<boolean>;
+}
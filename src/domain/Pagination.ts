@@ -0,0 +1,27 @@
+/**
+ * Opciones de paginación y ordenación para los listados
+ * Se admite paginación por número de página (pagina) o por cursor;
+ * el cursor es un valor opaco devuelto por la página anterior
+ */
+export interface PaginationOptions<TSortField extends string> {
+  pagina?: number;
+  cursor?: string;
+  limite: number;
+  ordenarPor: TSortField;
+  orden: "ASC" | "DESC";
+}
+
+/**
+ * Resultado paginado de un listado
+ * total es el número de elementos que cumplen los filtros, sin paginar
+ * En la paginación por página se informan pagina y totalPaginas;
+ * siguienteCursor es null cuando no quedan más elementos
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  limite: number;
+  pagina?: number;
+  totalPaginas?: number;
+  siguienteCursor: string | null;
+}
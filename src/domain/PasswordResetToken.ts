@@ -0,0 +1,12 @@
+/**
+ * Interfaz que define un token de restablecimiento de contraseña
+ * Solo se guarda el hash del token; es de un solo uso y caduca en expiraEn
+ */
+export interface PasswordResetToken {
+  id: number;
+  usuarioId: number;
+  tokenHash: string;
+  expiraEn: Date;
+  usadoEn?: Date;
+  creadoEn: Date;
+}
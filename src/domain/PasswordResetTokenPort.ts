@@ -0,0 +1,21 @@
+import { PasswordResetToken } from "./PasswordResetToken";
+
+/**
+ * Puerto (interface) para la persistencia de los tokens de restablecimiento
+ * de contraseña
+ * Implementa el patrón Port en la arquitectura hexagonal
+ */
+export interface PasswordResetTokenPort {
+  createToken(
+    token: Omit<PasswordResetToken, "id" | "creadoEn" | "usadoEn">
+  ): Promise<number>;
+  getTokenByHash(tokenHash: string): Promise<PasswordResetToken | null>;
+  /**
+   * Marca el token como usado; devuelve false si ya lo estaba
+   */
+  markTokenUsed(id: number): Promise<boolean>;
+  /**
+   * Invalida todos los tokens pendientes de un usuario
+   */
+  invalidateUserTokens(usuarioId: number): Promise<void>;
+}
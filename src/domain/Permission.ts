@@ -0,0 +1,155 @@
+import { User } from "./User";
+
+/**
+ * Permisos disponibles en el sistema
+ * Cada permiso representa un caso de uso (o grupo de casos de uso)
+ * que puede ser protegido en las rutas de la aplicación
+ */
+export type Permission =
+  | "users:read"
+  | "users:manage"
+  | "users:change_password"
+  | "categories:read"
+  | "categories:manage"
+  | "priorities:read"
+  | "priorities:manage"
+  | "closure_codes:read"
+  | "closure_codes:manage"
+  | "support_groups:read"
+  | "support_groups:manage"
+  | "incidents:create"
+  | "incidents:read"
+  | "incidents:update"
+  | "incidents:change_status"
+  | "incidents:assign"
+  | "incidents:delete"
+  | "incidents:statistics"
+  | "incidents:watch"
+  | "incidents:manage_watchers"
+  | "comments:create"
+  | "comments:read"
+  | "comments:read_all"
+  | "comments:update"
+  | "comments:change_visibility"
+  | "comments:delete"
+  | "calendar:read"
+  | "calendar:manage"
+  | "attachments:create"
+  | "attachments:read"
+  | "attachments:delete"
+  | "notifications:preferences"
+  | "webhooks:manage"
+  | "workflow:read"
+  | "workflow:manage"
+  | "assignment:manage";
+
+/**
+ * Política de permisos por rol
+ * Define qué casos de uso puede ejecutar cada rol del sistema:
+ * - empleado: reporta incidencias, consulta catálogos y comenta; puede cambiar
+ *   el estado de sus incidencias en las transiciones que el flujo le permita
+ * - soporte: además gestiona el ciclo de vida de las incidencias, sus
+ *   seguidores, las notas internas y consulta los grupos de soporte
+ * - administrador: acceso completo, incluida la gestión de catálogos, usuarios
+ *   calendario laboral, webhooks, flujo de trabajo y asignación automática
+ */
+export const ROLE_PERMISSIONS: Record<User["rol"], Permission[]> = {
+  empleado: [
+    "users:change_password",
+    "categories:read",
+    "priorities:read",
+    "closure_codes:read",
+    "incidents:create",
+    "incidents:read",
+    "incidents:change_status",
+    "incidents:statistics",
+    "incidents:watch",
+    "comments:create",
+    "comments:read",
+    "comments:update",
+    "calendar:read",
+    "attachments:create",
+    "attachments:read",
+    "attachments:delete",
+    "notifications:preferences",
+    "workflow:read",
+  ],
+  soporte: [
+    "users:read",
+    "users:change_password",
+    "categories:read",
+    "priorities:read",
+    "closure_codes:read",
+    "support_groups:read",
+    "incidents:create",
+    "incidents:read",
+    "incidents:update",
+    "incidents:change_status",
+    "incidents:assign",
+    "incidents:statistics",
+    "incidents:watch",
+    "incidents:manage_watchers",
+    "comments:create",
+    "comments:read",
+    "comments:read_all",
+    "comments:update",
+    "comments:change_visibility",
+    "calendar:read",
+    "attachments:create",
+    "attachments:read",
+    "attachments:delete",
+    "notifications:preferences",
+    "workflow:read",
+  ],
+  administrador: [
+    "users:read",
+    "users:manage",
+    "users:change_password",
+    "categories:read",
+    "categories:manage",
+    "priorities:read",
+    "closure_codes:read",
+    "priorities:manage",
+    "closure_codes:manage",
+    "support_groups:read",
+    "support_groups:manage",
+    "incidents:create",
+    "incidents:read",
+    "incidents:update",
+    "incidents:change_status",
+    "incidents:assign",
+    "incidents:delete",
+    "incidents:statistics",
+    "incidents:watch",
+    "incidents:manage_watchers",
+    "comments:create",
+    "comments:read",
+    "comments:read_all",
+    "comments:update",
+    "comments:change_visibility",
+    "comments:delete",
+    "calendar:read",
+    "calendar:manage",
+    "attachments:create",
+    "attachments:read",
+    "attachments:delete",
+    "notifications:preferences",
+    "webhooks:manage",
+    "workflow:read",
+    "workflow:manage",
+    "assignment:manage",
+  ],
+};
+
+/**
+ * Indica si un rol tiene concedido un permiso según la política vigente
+ */
+export function hasPermission(
+  rol: User["rol"] | undefined,
+  permission: Permission
+): boolean {
+  if (!rol || !ROLE_PERMISSIONS[rol]) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[rol].includes(permission);
+}
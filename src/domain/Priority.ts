@@ -10,6 +10,8 @@ export interface Priority {
   descripcion?: string;
   nivel: number;
   color?: string;
+  horasRespuesta?: number; // Objetivo de primera respuesta (SLA) en horas laborables
+  horasResolucion?: number; // Objetivo de resolución (SLA) en horas laborables
   estado: number;
   fechaCreacion: Date;
 }
@@ -0,0 +1,23 @@
+/**
+ * Interfaz que define un refresh token emitido al iniciar sesión
+ * Solo se guarda el hash del token; todos los tokens obtenidos por rotación
+ * a partir del mismo inicio de sesión comparten sesionId
+ */
+export interface RefreshToken {
+  id: number;
+  usuarioId: number;
+  sesionId: string;
+  tokenHash: string;
+  expiraEn: Date;
+  revocadoEn?: Date;
+  creadoEn: Date;
+}
+
+/**
+ * Credenciales devueltas al iniciar sesión o al renovar la sesión
+ */
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  refreshExpiraEn: Date;
+}
@@ -0,0 +1,22 @@
+import { RefreshToken } from "./RefreshToken";
+
+/**
+ * Puerto (interface) para la persistencia de los refresh tokens
+ * Implementa el patrón Port en la arquitectura hexagonal
+ */
+export interface RefreshTokenPort {
+  createToken(
+    token: Omit<RefreshToken, "id" | "creadoEn" | "revocadoEn">
+  ): Promise<number>;
+  getTokenByHash(tokenHash: string): Promise<RefreshToken | null>;
+  /**
+   * Revoca un token que siga vigente; devuelve false si ya estaba revocado
+   */
+  revokeToken(id: number): Promise<boolean>;
+  revokeSession(sesionId: string): Promise<void>;
+  revokeUserSessions(usuarioId: number): Promise<void>;
+  /**
+   * Indica si la sesión conserva algún token sin revocar ni expirar
+   */
+  isSessionActive(sesionId: string, ahora: Date): Promise<boolean>;
+}
@@ -0,0 +1,11 @@
+/**
+ * Política de confirmación de resoluciones y de reapertura de incidencias
+ * - diasConfirmacion: días que una incidencia puede permanecer resuelta sin
+ *   respuesta del usuario antes de cerrarse automáticamente
+ * - diasReapertura: días tras el cierre durante los que la incidencia se puede
+ *   reabrir; pasado ese plazo, reabrirla crea una incidencia de seguimiento
+ */
+export interface ResolutionPolicy {
+  diasConfirmacion: number;
+  diasReapertura: number;
+}
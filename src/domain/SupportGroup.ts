@@ -0,0 +1,23 @@
+/**
+ * Interfaz que define la estructura del dominio SupportGroup
+ * Representa un grupo de soporte (Redes, Hardware, Aplicaciones...) formado
+ * por técnicos, al que se asignan incidencias para que formen su cola
+ */
+export interface SupportGroup {
+  id: number;
+  nombre: string;
+  descripcion?: string;
+  estado: number;
+  fechaCreacion: Date;
+}
+
+/**
+ * Miembro de un grupo de soporte
+ */
+export interface SupportGroupMember {
+  grupoId: number;
+  usuarioId: number;
+  nombre: string;
+  email: string;
+  fechaAlta: Date;
+}
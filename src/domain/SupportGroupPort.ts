@@ -0,0 +1,24 @@
+import { SupportGroup, SupportGroupMember } from "./SupportGroup";
+
+/**
+ * Puerto (interface) que define las operaciones disponibles para los grupos
+ * de soporte y sus miembros
+ * Implementa el patrón Port en la arquitectura hexagonal
+ * Esta interfaz define el contrato que debe cumplir cualquier adaptador
+ * que quiera implementar la persistencia de grupos de soporte
+ */
+export interface SupportGroupPort {
+  createSupportGroup(
+    group: Omit<SupportGroup, "id" | "fechaCreacion">
+  ): Promise<number>;
+  getSupportGroupById(id: number): Promise<SupportGroup | null>;
+  getSupportGroupByName(nombre: string): Promise<SupportGroup | null>;
+  updateSupportGroup(id: number, group: Partial<SupportGroup>): Promise<boolean>;
+  deleteSupportGroup(id: number): Promise<boolean>;
+  getAllActiveSupportGroups(): Promise<SupportGroup[]>;
+  getAllSupportGroups(): Promise<SupportGroup[]>;
+  getMembers(grupoId: number): Promise<SupportGroupMember[]>;
+  isMember(grupoId: number, usuarioId: number): Promise<boolean>;
+  addMember(grupoId: number, usuarioId: number): Promise<boolean>;
+  removeMember(grupoId: number, usuarioId: number): Promise<boolean>;
+}
@@ -0,0 +1,20 @@
+import { IncidentWatcher } from "./IncidentWatcher";
+
+/**
+ * Puerto (interface) para los seguidores de las incidencias
+ * Implementa el patrón Port en la arquitectura hexagonal
+ *
+ * Los seguidores reciben las notificaciones de la incidencia además
+ * del reportador y del técnico asignado
+ */
+export interface WatcherPort {
+  getWatcherIds(incidenciaId: number): Promise<number[]>;
+  getWatchers(incidenciaId: number): Promise<IncidentWatcher[]>;
+  isWatching(incidenciaId: number, usuarioId: number): Promise<boolean>;
+  addWatcher(
+    incidenciaId: number,
+    usuarioId: number,
+    agregadoPorId?: number
+  ): Promise<boolean>;
+  removeWatcher(incidenciaId: number, usuarioId: number): Promise<boolean>;
+}
@@ -0,0 +1,38 @@
+import { DomainEventType } from "./DomainEvent";
+
+/**
+ * Interfaz que define la estructura del dominio Webhook
+ * Representa un endpoint externo que recibe los eventos de incidencias
+ * a los que está suscrito, firmados con su secreto (HMAC-SHA256)
+ */
+export interface Webhook {
+  id: number;
+  url: string;
+  secreto: string;
+  eventos: DomainEventType[];
+  activo: boolean;
+  creadoEn: Date;
+}
+
+/**
+ * Registro de cada entrega de un evento a un webhook
+ * - pendiente: aún no entregado; se reintentará en proximoIntento. Mientras
+ *   un intento está en curso, proximoIntento se adelanta lo suficiente para
+ *   que nadie más lo reclame
+ * - entregado: el endpoint respondió con un código 2xx
+ * - fallido: se agotaron los reintentos
+ */
+export interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  evento: DomainEventType;
+  payload: string; // Cuerpo JSON enviado, tal cual se firmó
+  estado: "pendiente" | "entregado" | "fallido";
+  intentos: number;
+  codigoRespuesta?: number;
+  ultimoError?: string;
+  proximoIntento?: Date;
+  entregaOriginalId?: number; // Si es una reproducción de otra entrega
+  creadoEn: Date;
+  entregadoEn?: Date;
+}
@@ -0,0 +1,38 @@
+import { DomainEventType } from "./DomainEvent";
+import { Webhook, WebhookDelivery } from "./Webhook";
+
+/**
+ * Puerto (interface) para la persistencia de webhooks y de su registro
+ * de entregas
+ * Implementa el patrón Port en la arquitectura hexagonal
+ */
+export interface WebhookPort {
+  createWebhook(webhook: Omit<Webhook, "id" | "creadoEn">): Promise<number>;
+  getWebhookById(id: number): Promise<Webhook | null>;
+  getAllWebhooks(): Promise<Webhook[]>;
+  // Webhooks activos suscritos al tipo de evento indicado
+  getWebhooksByEvent(evento: DomainEventType): Promise<Webhook[]>;
+  updateWebhook(
+    id: number,
+    webhook: Partial<Omit<Webhook, "id" | "creadoEn">>
+  ): Promise<boolean>;
+  deleteWebhook(id: number): Promise<boolean>;
+
+  createDelivery(
+    delivery: Omit<WebhookDelivery, "id" | "creadoEn">
+  ): Promise<number>;
+  getDeliveryById(id: number): Promise<WebhookDelivery | null>;
+  getDeliveriesByWebhook(
+    webhookId: number,
+    limite: number
+  ): Promise<WebhookDelivery[]>;
+  // Entregas pendientes cuyo siguiente intento ya ha vencido
+  getDueDeliveries(ahora: Date): Promise<WebhookDelivery[]>;
+  // Reclama una entrega vencida aplazando su siguiente intento hasta la
+  // fecha indicada; devuelve false si ya no estaba vencida
+  claimDelivery(id: number, ahora: Date, hasta: Date): Promise<boolean>;
+  updateDelivery(
+    id: number,
+    delivery: Partial<Omit<WebhookDelivery, "id" | "webhookId" | "creadoEn">>
+  ): Promise<boolean>;
+}
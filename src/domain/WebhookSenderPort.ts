@@ -0,0 +1,25 @@
+/**
+ * Resultado de un intento de entrega de un webhook
+ * codigo no se informa si no se obtuvo respuesta (timeout, error de red)
+ */
+export interface WebhookSendResult {
+  exito: boolean;
+  codigo?: number;
+  error?: string;
+}
+
+/**
+ * Puerto (interface) para el envío de los payloads de webhooks
+ * Implementa el patrón Port en la arquitectura hexagonal
+ *
+ * El adaptador firma el cuerpo con el secreto del webhook y añade
+ * las cabeceras del evento y de la entrega
+ */
+export interface WebhookSenderPort {
+  send(
+    url: string,
+    secreto: string,
+    payload: string,
+    cabeceras: { evento: string; entregaId: number }
+  ): Promise<WebhookSendResult>;
+}
@@ -0,0 +1,139 @@
+import { User } from "./User";
+
+/**
+ * Clave de un estado de incidencia definido en el flujo de trabajo
+ * (por ejemplo "abierta", "pendiente_usuario" o "cerrada")
+ */
+export type IncidentStatus = string;
+
+/**
+ * Papel de un estado en el ciclo de vida de la incidencia:
+ * - inicial: estado con el que se crean las incidencias (solo uno)
+ * - intermedio: la incidencia está en tratamiento; salir del estado inicial
+ *   marca la primera respuesta
+ * - final: la incidencia queda cerrada; entrar marca el cierre y salir
+ *   cuenta como reapertura
+ */
+export type WorkflowStateType = "inicial" | "intermedio" | "final";
+
+export const WORKFLOW_STATE_TYPES: WorkflowStateType[] = [
+  "inicial",
+  "intermedio",
+  "final",
+];
+
+/**
+ * Campos que una transición puede exigir:
+ * - notaResolucion: se debe aportar una nota al realizar la transición
+ * - codigoCierre: se debe indicar un código del catálogo de códigos de cierre
+ * - soporteId: la incidencia debe tener un técnico asignado
+ */
+export type TransitionRequiredField =
+  | "notaResolucion"
+  | "codigoCierre"
+  | "soporteId";
+
+export const TRANSITION_REQUIRED_FIELDS: TransitionRequiredField[] = [
+  "notaResolucion",
+  "codigoCierre",
+  "soporteId",
+];
+
+/**
+ * Interfaz que define un estado del flujo de trabajo
+ * orden determina la posición del estado al ordenar listados por estado
+ */
+export interface WorkflowState {
+  clave: IncidentStatus;
+  nombre: string;
+  tipo: WorkflowStateType;
+  orden: number;
+}
+
+/**
+ * Interfaz que define una transición permitida entre dos estados
+ * Solo los roles indicados pueden realizarla
+ */
+export interface WorkflowTransition {
+  estadoOrigen: IncidentStatus;
+  estadoDestino: IncidentStatus;
+  roles: User["rol"][];
+  camposRequeridos: TransitionRequiredField[];
+}
+
+/**
+ * Definición completa del flujo de trabajo de las incidencias
+ */
+export interface Workflow {
+  estados: WorkflowState[];
+  transiciones: WorkflowTransition[];
+}
+
+/**
+ * Datos aportados al realizar una transición
+ */
+export interface TransitionData {
+  notaResolucion?: string;
+  codigoCierreId?: number;
+}
+
+const TODOS: User["rol"][] = ["empleado", "soporte", "administrador"];
+const GESTORES: User["rol"][] = ["soporte", "administrador"];
+const CIERRE: TransitionRequiredField[] = ["notaResolucion", "codigoCierre"];
+
+/**
+ * Flujo aplicado mientras no se haya configurado uno
+ * Amplía el ciclo original (abierta, en_progreso, cerrada) con la espera
+ * de respuesta del usuario, la resolución pendiente de confirmar
+ * y la cancelación; resolver, cerrar y cancelar exigen nota y código de cierre
+ */
+export const DEFAULT_WORKFLOW: Workflow = {
+  estados: [
+    { clave: "abierta", nombre: "Abierta", tipo: "inicial", orden: 1 },
+    { clave: "en_progreso", nombre: "En progreso", tipo: "intermedio", orden: 2 },
+    { clave: "pendiente_usuario", nombre: "Pendiente del usuario", tipo: "intermedio", orden: 3 },
+    { clave: "resuelta", nombre: "Resuelta", tipo: "intermedio", orden: 4 },
+    { clave: "cerrada", nombre: "Cerrada", tipo: "final", orden: 5 },
+    { clave: "cancelada", nombre: "Cancelada", tipo: "final", orden: 6 },
+  ],
+  transiciones: [
+    { estadoOrigen: "abierta", estadoDestino: "en_progreso", roles: GESTORES, camposRequeridos: [] },
+    { estadoOrigen: "abierta", estadoDestino: "cerrada", roles: GESTORES, camposRequeridos: CIERRE },
+    { estadoOrigen: "abierta", estadoDestino: "cancelada", roles: TODOS, camposRequeridos: CIERRE },
+    { estadoOrigen: "en_progreso", estadoDestino: "abierta", roles: GESTORES, camposRequeridos: [] },
+    { estadoOrigen: "en_progreso", estadoDestino: "pendiente_usuario", roles: GESTORES, camposRequeridos: ["soporteId"] },
+    { estadoOrigen: "en_progreso", estadoDestino: "resuelta", roles: GESTORES, camposRequeridos: ["soporteId", ...CIERRE] },
+    { estadoOrigen: "en_progreso", estadoDestino: "cerrada", roles: GESTORES, camposRequeridos: CIERRE },
+    { estadoOrigen: "pendiente_usuario", estadoDestino: "en_progreso", roles: TODOS, camposRequeridos: [] },
+    { estadoOrigen: "pendiente_usuario", estadoDestino: "cancelada", roles: TODOS, camposRequeridos: CIERRE },
+    { estadoOrigen: "resuelta", estadoDestino: "cerrada", roles: TODOS, camposRequeridos: [] },
+    { estadoOrigen: "resuelta", estadoDestino: "en_progreso", roles: TODOS, camposRequeridos: [] },
+    { estadoOrigen: "cerrada", estadoDestino: "abierta", roles: TODOS, camposRequeridos: [] },
+    { estadoOrigen: "cancelada", estadoDestino: "abierta", roles: GESTORES, camposRequeridos: [] },
+  ],
+};
+
+/**
+ * Estado al que pasa una incidencia al asignarle técnico por primera vez,
+ * siempre que el flujo lo permita desde su estado actual
+ */
+export const ASSIGNED_STATUS: IncidentStatus = "en_progreso";
+
+/**
+ * Estado en el que la resolución queda pendiente de que el usuario que
+ * reportó la incidencia la confirme (pasa a CONFIRMED_STATUS) o la rechace
+ * (vuelve a REJECTED_STATUS)
+ * El flujo de trabajo configurado debe conservar estos estados y las
+ * transiciones desde RESOLVED_STATUS a los otros dos
+ */
+export const RESOLVED_STATUS: IncidentStatus = "resuelta";
+export const CONFIRMED_STATUS: IncidentStatus = "cerrada";
+export const REJECTED_STATUS: IncidentStatus = "en_progreso";
+
+/**
+ * Indica si una clave de estado tiene un formato válido:
+ * minúsculas y guiones bajos, entre 3 y 50 caracteres
+ */
+export function isValidStatusKey(clave: string): boolean {
+  return /^[a-z][a-z_]{2,49}$/.test(clave);
+}
@@ -0,0 +1,130 @@
+import { User } from "./User";
+import {
+  IncidentStatus,
+  TransitionData,
+  Workflow,
+  WorkflowState,
+  WorkflowTransition,
+} from "./Workflow";
+
+/**
+ * Servicio de dominio que aplica un flujo de trabajo a las incidencias
+ * Resuelve los estados y comprueba si una transición está permitida
+ * para un rol y con los datos aportados
+ */
+export class WorkflowEngine {
+  private workflow: Workflow;
+  private estados: Map<IncidentStatus, WorkflowState>;
+
+  constructor(workflow: Workflow) {
+    this.workflow = workflow;
+    this.estados = new Map(
+      workflow.estados.map((estado) => [estado.clave, estado])
+    );
+  }
+
+  getState(clave: IncidentStatus): WorkflowState | undefined {
+    return this.estados.get(clave);
+  }
+
+  getInitialState(): WorkflowState {
+    const inicial = this.workflow.estados.find(
+      (estado) => estado.tipo === "inicial"
+    );
+    if (!inicial) {
+      throw new Error("El flujo de trabajo no tiene un estado inicial");
+    }
+    return inicial;
+  }
+
+  isFinal(clave: IncidentStatus): boolean {
+    return this.estados.get(clave)?.tipo === "final";
+  }
+
+  getFinalStates(): IncidentStatus[] {
+    return this.workflow.estados
+      .filter((estado) => estado.tipo === "final")
+      .map((estado) => estado.clave);
+  }
+
+  /**
+   * Claves de los estados en el orden configurado, para ordenar listados
+   */
+  getStatusOrder(): IncidentStatus[] {
+    return [...this.workflow.estados]
+      .sort((a, b) => a.orden - b.orden)
+      .map((estado) => estado.clave);
+  }
+
+  findTransition(
+    origen: IncidentStatus,
+    destino: IncidentStatus
+  ): WorkflowTransition | undefined {
+    return this.workflow.transiciones.find(
+      (transicion) =>
+        transicion.estadoOrigen === origen &&
+        transicion.estadoDestino === destino
+    );
+  }
+
+  getAvailableTransitions(
+    origen: IncidentStatus,
+    rol: User["rol"]
+  ): WorkflowTransition[] {
+    return this.workflow.transiciones.filter(
+      (transicion) =>
+        transicion.estadoOrigen === origen && transicion.roles.includes(rol)
+    );
+  }
+
+  /**
+   * Comprueba que la transición exista, que el rol pueda realizarla
+   * y que se cumplan sus campos requeridos
+   */
+  assertTransition(
+    origen: IncidentStatus,
+    destino: IncidentStatus,
+    rol: User["rol"],
+    incidente: { soporteId?: number },
+    datos: TransitionData = {}
+  ): WorkflowTransition {
+    if (!this.estados.has(destino)) {
+      throw new Error(`El estado "${destino}" no existe en el flujo de trabajo`);
+    }
+
+    const transicion = this.findTransition(origen, destino);
+    if (!transicion) {
+      throw new Error(
+        `No existe una transición de "${origen}" a "${destino}" en el flujo de trabajo`
+      );
+    }
+
+    if (!transicion.roles.includes(rol)) {
+      throw new Error(
+        `No tiene permisos para realizar la transición de "${origen}" a "${destino}"`
+      );
+    }
+
+    for (const campo of transicion.camposRequeridos) {
+      if (campo === "soporteId" && !incidente.soporteId) {
+        throw new Error(
+          `La transición de "${origen}" a "${destino}" requiere un técnico asignado`
+        );
+      }
+
+      if (campo === "notaResolucion" && !datos.notaResolucion?.trim()) {
+        throw new Error(
+          `La transición de "${origen}" a "${destino}" requiere una nota de resolución`
+        );
+      }
+
+      if (campo === "codigoCierre" && !datos.codigoCierreId) {
+        throw new Error(
+          `La transición de "${origen}" a "${destino}" requiere un código de cierre`
+        );
+      }
+    }
+
+    return transicion;
+  }
+}
@@ -0,0 +1,14 @@
+import { Workflow } from "./Workflow";
+
+/**
+ * Puerto (interface) que define las operaciones disponibles para el flujo
+ * de trabajo de las incidencias
+ * Implementa el patrón Port en la arquitectura hexagonal
+ *
+ * El flujo es único en el sistema: getWorkflow devuelve null mientras
+ * no se haya configurado y saveWorkflow reemplaza la definición completa
+ */
+export interface WorkflowPort {
+  getWorkflow(): Promise<Workflow | null>;
+  saveWorkflow(workflow: Workflow): Promise<boolean>;
+}
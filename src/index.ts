@@ -2,6 +2,10 @@ import "./infraestructure/config/enviroment-vars"; // Importa las variables de e
 import app from './infraestructure/web/app';
 import { ServerBootstrap } from './infraestructure/boostrap/server.boostrap';
 import { connectDB } from "./infraestructure/config/data-base";
+import { eventBus } from "./infraestructure/config/events";
+import { incidentService } from "./infraestructure/routes/incidentRoutes";
+import { notificationService } from "./infraestructure/routes/notificationRoutes";
+import { webhookService } from "./infraestructure/routes/webhookRoutes";
 
 
 const server = new ServerBootstrap(app);
@@ -10,6 +14,12 @@ const server = new ServerBootstrap(app);
 (async () => {
     try {
         await connectDB(); // Conectar a la base de datos antes de iniciar el servidor
+        // Suscriptores de eventos y tareas periódicas: solo se inician con
+        // la base de datos disponible
+        notificationService.registerHandlers(eventBus);
+        webhookService.registerHandlers(eventBus);
+        incidentService.startAutoCloseWorker();
+        webhookService.startRetryWorker();
         const instances = [server.init()];
         await Promise.all(instances);
     } catch (error) {
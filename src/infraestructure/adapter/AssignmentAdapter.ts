@@ -0,0 +1,169 @@
+import { Repository } from "typeorm";
+import {
+  AssignmentCandidate,
+  AssignmentDecision as AssignmentDecisionDomain,
+  AssignmentRule as AssignmentRuleDomain,
+  AssignmentStrategyName,
+} from "../../domain/Assignment";
+import { AssignmentPort } from "../../domain/AssignmentPort";
+import { AssignmentRule as AssignmentRuleEntity } from "../entities/AssignmentRule";
+import { AssignmentDecision as AssignmentDecisionEntity } from "../entities/AssignmentDecision";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia de la asignación automática usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Traducir entre objetos de dominio y entidades de base de datos
+ * - Guardar las reglas por categoría y el turno del reparto round robin
+ * - Registrar las decisiones de asignación para su auditoría
+ */
+export class AssignmentAdapter implements AssignmentPort {
+  private ruleRepository: Repository<AssignmentRuleEntity>;
+  private decisionRepository: Repository<AssignmentDecisionEntity>;
+
+  constructor() {
+    this.ruleRepository = AppDataSource.getRepository(AssignmentRuleEntity);
+    this.decisionRepository = AppDataSource.getRepository(
+      AssignmentDecisionEntity
+    );
+  }
+
+  private toRuleDomain(entity: AssignmentRuleEntity): AssignmentRuleDomain {
+    return {
+      categoriaId: entity.categoria_id,
+      estrategia: entity.estrategia as AssignmentStrategyName,
+      soporteIds: (entity.soportes_ids ?? [])
+        .filter((id) => id !== "")
+        .map((id) => Number(id)),
+      activa: entity.activa,
+      ultimoSoporteId: entity.ultimo_soporte_id ?? undefined,
+      actualizadoEn: entity.actualizado_en,
+    };
+  }
+
+  private toDecisionDomain(
+    entity: AssignmentDecisionEntity
+  ): AssignmentDecisionDomain {
+    return {
+      id: entity.id_decision,
+      incidenciaId: entity.incidencia_id,
+      categoriaId: entity.categoria_id,
+      estrategia: entity.estrategia as AssignmentStrategyName,
+      soporteId: entity.soporte_id ?? undefined,
+      candidatos: JSON.parse(entity.candidatos) as AssignmentCandidate[],
+      motivo: entity.motivo,
+      fecha: entity.fecha,
+    };
+  }
+
+  async getRuleByCategory(
+    categoriaId: number
+  ): Promise<AssignmentRuleDomain | null> {
+    try {
+      const rule = await this.ruleRepository.findOne({
+        where: { categoria_id: categoriaId },
+      });
+      return rule ? this.toRuleDomain(rule) : null;
+    } catch (error) {
+      console.error("Error fetching assignment rule:", error);
+      throw new Error("Error al obtener la regla de asignación de la categoría");
+    }
+  }
+
+  async getAllRules(): Promise<AssignmentRuleDomain[]> {
+    try {
+      const rules = await this.ruleRepository.find({
+        order: { categoria_id: "ASC" },
+      });
+      return rules.map((rule) => this.toRuleDomain(rule));
+    } catch (error) {
+      console.error("Error fetching assignment rules:", error);
+      throw new Error("Error al obtener las reglas de asignación");
+    }
+  }
+
+  async saveRule(
+    rule: Omit<AssignmentRuleDomain, "ultimoSoporteId" | "actualizadoEn">
+  ): Promise<boolean> {
+    try {
+      // Se conserva el turno del reparto si la regla ya existía
+      await this.ruleRepository.upsert(
+        {
+          categoria_id: rule.categoriaId,
+          estrategia: rule.estrategia,
+          soportes_ids: rule.soporteIds.map((id) => String(id)),
+          activa: rule.activa,
+        },
+        ["categoria_id"]
+      );
+      return true;
+    } catch (error) {
+      console.error("Error saving assignment rule:", error);
+      throw new Error("Error al guardar la regla de asignación");
+    }
+  }
+
+  async deleteRule(categoriaId: number): Promise<boolean> {
+    try {
+      const result = await this.ruleRepository.delete({
+        categoria_id: categoriaId,
+      });
+      return result.affected !== 0;
+    } catch (error) {
+      console.error("Error deleting assignment rule:", error);
+      throw new Error("Error al eliminar la regla de asignación");
+    }
+  }
+
+  async updateLastAssigned(
+    categoriaId: number,
+    soporteId: number
+  ): Promise<void> {
+    try {
+      await this.ruleRepository.update(
+        { categoria_id: categoriaId },
+        { ultimo_soporte_id: soporteId }
+      );
+    } catch (error) {
+      console.error("Error updating round robin turn:", error);
+      throw new Error("Error al actualizar el turno de asignación");
+    }
+  }
+
+  async recordDecision(
+    decision: Omit<AssignmentDecisionDomain, "id" | "fecha">
+  ): Promise<number> {
+    try {
+      const entity = new AssignmentDecisionEntity();
+      entity.incidencia_id = decision.incidenciaId;
+      entity.categoria_id = decision.categoriaId;
+      entity.estrategia = decision.estrategia;
+      entity.soporte_id = decision.soporteId ?? null;
+      entity.candidatos = JSON.stringify(decision.candidatos);
+      entity.motivo = decision.motivo.slice(0, 255);
+
+      const saved = await this.decisionRepository.save(entity);
+      return saved.id_decision;
+    } catch (error) {
+      console.error("Error recording assignment decision:", error);
+      throw new Error("Error al registrar la decisión de asignación");
+    }
+  }
+
+  async getDecisionsByIncident(
+    incidenciaId: number
+  ): Promise<AssignmentDecisionDomain[]> {
+    try {
+      const decisions = await this.decisionRepository.find({
+        where: { incidencia_id: incidenciaId },
+        order: { fecha: "DESC", id_decision: "DESC" },
+      });
+      return decisions.map((decision) => this.toDecisionDomain(decision));
+    } catch (error) {
+      console.error("Error fetching assignment decisions:", error);
+      throw new Error("Error al obtener las decisiones de asignación");
+    }
+  }
+}
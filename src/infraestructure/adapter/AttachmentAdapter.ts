@@ -0,0 +1,115 @@
+import { Repository } from "typeorm";
+import { Attachment as AttachmentDomain } from "../../domain/Attachment";
+import { AttachmentPort } from "../../domain/AttachmentPort";
+import { Attachment as AttachmentEntity } from "../entities/Attachment";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia de los metadatos de adjuntos
+ * usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ */
+export class AttachmentAdapter implements AttachmentPort {
+  private attachmentRepository: Repository<AttachmentEntity>;
+
+  constructor() {
+    this.attachmentRepository = AppDataSource.getRepository(AttachmentEntity);
+  }
+
+  private toDomain(entity: AttachmentEntity): AttachmentDomain {
+    return {
+      id: entity.id_adjunto,
+      incidenciaId: entity.incidencia_id,
+      comentarioId: entity.comentario_id ?? undefined,
+      nombreOriginal: entity.nombre_original,
+      tipoMime: entity.tipo_mime,
+      tamano: entity.tamano,
+      claveAlmacenamiento: entity.clave_almacenamiento,
+      usuarioId: entity.usuario_id,
+      fechaCreacion: entity.creado_en,
+    };
+  }
+
+  private toEntity(
+    attachment: Omit<AttachmentDomain, "id" | "fechaCreacion">
+  ): AttachmentEntity {
+    const attachmentEntity = new AttachmentEntity();
+    attachmentEntity.incidencia_id = attachment.incidenciaId;
+    attachmentEntity.comentario_id = attachment.comentarioId;
+    attachmentEntity.nombre_original = attachment.nombreOriginal;
+    attachmentEntity.tipo_mime = attachment.tipoMime;
+    attachmentEntity.tamano = attachment.tamano;
+    attachmentEntity.clave_almacenamiento = attachment.claveAlmacenamiento;
+    attachmentEntity.usuario_id = attachment.usuarioId;
+    return attachmentEntity;
+  }
+
+  async createAttachment(
+    attachment: Omit<AttachmentDomain, "id" | "fechaCreacion">
+  ): Promise<number> {
+    try {
+      const newAttachment = this.toEntity(attachment);
+      const savedAttachment = await this.attachmentRepository.save(
+        newAttachment
+      );
+      return savedAttachment.id_adjunto;
+    } catch (error) {
+      console.error("Error creating attachment:", error);
+      throw new Error("Error al registrar el adjunto en la base de datos");
+    }
+  }
+
+  async getAttachmentById(id: number): Promise<AttachmentDomain | null> {
+    try {
+      const attachment = await this.attachmentRepository.findOne({
+        where: { id_adjunto: id },
+      });
+      return attachment ? this.toDomain(attachment) : null;
+    } catch (error) {
+      console.error("Error fetching attachment by ID:", error);
+      throw new Error("Error al obtener el adjunto por ID");
+    }
+  }
+
+  async getAttachmentsByIncident(
+    incidenciaId: number
+  ): Promise<AttachmentDomain[]> {
+    try {
+      const attachments = await this.attachmentRepository.find({
+        where: { incidencia_id: incidenciaId },
+        order: { creado_en: "ASC", id_adjunto: "ASC" },
+      });
+      return attachments.map((attachment) => this.toDomain(attachment));
+    } catch (error) {
+      console.error("Error fetching attachments by incident:", error);
+      throw new Error("Error al obtener los adjuntos de la incidencia");
+    }
+  }
+
+  async getAttachmentsByComment(
+    comentarioId: number
+  ): Promise<AttachmentDomain[]> {
+    try {
+      const attachments = await this.attachmentRepository.find({
+        where: { comentario_id: comentarioId },
+        order: { creado_en: "ASC", id_adjunto: "ASC" },
+      });
+      return attachments.map((attachment) => this.toDomain(attachment));
+    } catch (error) {
+      console.error("Error fetching attachments by comment:", error);
+      throw new Error("Error al obtener los adjuntos del comentario");
+    }
+  }
+
+  async deleteAttachment(id: number): Promise<boolean> {
+    try {
+      const result = await this.attachmentRepository.delete({
+        id_adjunto: id,
+      });
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      throw new Error("Error al eliminar el adjunto");
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { Repository } from "typeorm";
+import {
+  BusinessCalendar as BusinessCalendarDomain,
+  Holiday as HolidayDomain,
+} from "../../domain/BusinessCalendar";
+import { BusinessCalendarPort } from "../../domain/BusinessCalendarPort";
+import { BusinessCalendar as BusinessCalendarEntity } from "../entities/BusinessCalendar";
+import { Holiday as HolidayEntity } from "../entities/Holiday";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia del calendario laboral usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Traducir entre objetos de dominio y entidades de base de datos
+ * - Mantener la fila única del calendario y la lista de festivos
+ * - Gestionar errores de infraestructura
+ */
+export class BusinessCalendarAdapter implements BusinessCalendarPort {
+  private calendarRepository: Repository<BusinessCalendarEntity>;
+  private holidayRepository: Repository<HolidayEntity>;
+
+  constructor() {
+    this.calendarRepository = AppDataSource.getRepository(BusinessCalendarEntity);
+    this.holidayRepository = AppDataSource.getRepository(HolidayEntity);
+  }
+
+  private toCalendarDomain(entity: BusinessCalendarEntity): BusinessCalendarDomain {
+    return {
+      diasLaborables: entity.dias_laborables.map((dia) => parseInt(dia, 10)),
+      horaInicio: entity.hora_inicio,
+      horaFin: entity.hora_fin,
+      zonaHoraria: entity.zona_horaria,
+    };
+  }
+
+  private toHolidayDomain(entity: HolidayEntity): HolidayDomain {
+    return {
+      id: entity.id_festivo,
+      fecha: entity.fecha,
+      descripcion: entity.descripcion,
+    };
+  }
+
+  async getCalendar(): Promise<BusinessCalendarDomain | null> {
+    try {
+      const calendar = await this.calendarRepository.findOne({
+        where: {},
+        order: { id_calendario: "ASC" },
+      });
+      return calendar ? this.toCalendarDomain(calendar) : null;
+    } catch (error) {
+      console.error("Error fetching business calendar:", error);
+      throw new Error("Error al obtener el calendario laboral");
+    }
+  }
+
+  async saveCalendar(calendar: BusinessCalendarDomain): Promise<boolean> {
+    try {
+      const existingCalendar = await this.calendarRepository.findOne({
+        where: {},
+        order: { id_calendario: "ASC" },
+      });
+      const calendarEntity = existingCalendar ?? new BusinessCalendarEntity();
+
+      calendarEntity.dias_laborables = calendar.diasLaborables.map(String);
+      calendarEntity.hora_inicio = calendar.horaInicio;
+      calendarEntity.hora_fin = calendar.horaFin;
+      calendarEntity.zona_horaria = calendar.zonaHoraria;
+
+      await this.calendarRepository.save(calendarEntity);
+      return true;
+    } catch (error) {
+      console.error("Error saving business calendar:", error);
+      throw new Error("Error al guardar el calendario laboral");
+    }
+  }
+
+  async getHolidays(desde?: string, hasta?: string): Promise<HolidayDomain[]> {
+    try {
+      const queryBuilder = this.holidayRepository.createQueryBuilder("festivo");
+
+      if (desde) {
+        queryBuilder.andWhere("festivo.fecha >= :desde", { desde });
+      }
+      if (hasta) {
+        queryBuilder.andWhere("festivo.fecha <= :hasta", { hasta });
+      }
+
+      queryBuilder.orderBy("festivo.fecha", "ASC");
+
+      const holidays = await queryBuilder.getMany();
+      return holidays.map((holiday) => this.toHolidayDomain(holiday));
+    } catch (error) {
+      console.error("Error fetching holidays:", error);
+      throw new Error("Error al obtener los días festivos");
+    }
+  }
+
+  async getHolidayById(id: number): Promise<HolidayDomain | null> {
+    try {
+      const holiday = await this.holidayRepository.findOne({
+        where: { id_festivo: id },
+      });
+      return holiday ? this.toHolidayDomain(holiday) : null;
+    } catch (error) {
+      console.error("Error fetching holiday by ID:", error);
+      throw new Error("Error al obtener el día festivo por ID");
+    }
+  }
+
+  async getHolidayByDate(fecha: string): Promise<HolidayDomain | null> {
+    try {
+      const holiday = await this.holidayRepository.findOne({
+        where: { fecha },
+      });
+      return holiday ? this.toHolidayDomain(holiday) : null;
+    } catch (error) {
+      console.error("Error fetching holiday by date:", error);
+      throw new Error("Error al obtener el día festivo por fecha");
+    }
+  }
+
+  async createHoliday(holiday: Omit<HolidayDomain, "id">): Promise<number> {
+    try {
+      const holidayEntity = new HolidayEntity();
+      holidayEntity.fecha = holiday.fecha;
+      holidayEntity.descripcion = holiday.descripcion;
+      const savedHoliday = await this.holidayRepository.save(holidayEntity);
+      return savedHoliday.id_festivo;
+    } catch (error) {
+      console.error("Error creating holiday:", error);
+      throw new Error("Error al crear el día festivo en la base de datos");
+    }
+  }
+
+  async deleteHoliday(id: number): Promise<boolean> {
+    try {
+      const result = await this.holidayRepository.delete({ id_festivo: id });
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error deleting holiday:", error);
+      throw new Error("Error al eliminar el día festivo");
+    }
+  }
+}
@@ -27,6 +27,7 @@ export class CategoryAdapter implements CategoryPort {
       nombre: entity.nombre,
       descripcion: entity.descripcion,
       estado: entity.estado,
+      grupoSoporteId: entity.grupo_soporte_id ?? undefined,
       fechaCreacion: entity.fecha_creacion,
     };
   }
@@ -38,6 +39,7 @@ export class CategoryAdapter implements CategoryPort {
     categoryEntity.nombre = category.nombre;
     categoryEntity.descripcion = category.descripcion;
     categoryEntity.estado = category.estado || 1;
+    categoryEntity.grupo_soporte_id = category.grupoSoporteId;
     return categoryEntity;
   }
 
@@ -96,6 +98,10 @@ export class CategoryAdapter implements CategoryPort {
         nombre: category.nombre ?? existingCategory.nombre,
         descripcion: category.descripcion ?? existingCategory.descripcion,
         estado: category.estado ?? existingCategory.estado,
+        grupo_soporte_id:
+          category.grupoSoporteId !== undefined
+            ? category.grupoSoporteId
+            : existingCategory.grupo_soporte_id,
       });
 
       await this.categoryRepository.save(existingCategory);
@@ -0,0 +1,148 @@
+import { Repository } from "typeorm";
+import { ClosureCode as ClosureCodeDomain } from "../../domain/ClosureCode";
+import { ClosureCodePort } from "../../domain/ClosureCodePort";
+import { ClosureCode as ClosureCodeEntity } from "../entities/ClosureCode";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia de códigos de cierre usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Traducir entre objetos de dominio y entidades de base de datos
+ * - Implementar todas las operaciones definidas en ClosureCodePort
+ * - Gestionar errores de infraestructura
+ */
+export class ClosureCodeAdapter implements ClosureCodePort {
+  private closureCodeRepository: Repository<ClosureCodeEntity>;
+
+  constructor() {
+    this.closureCodeRepository = AppDataSource.getRepository(ClosureCodeEntity);
+  }
+
+  private toDomain(entity: ClosureCodeEntity): ClosureCodeDomain {
+    return {
+      id: entity.id_codigos_cierre,
+      nombre: entity.nombre,
+      descripcion: entity.descripcion,
+      estado: entity.estado,
+      fechaCreacion: entity.fecha_creacion,
+    };
+  }
+
+  private toEntity(
+    closureCode: Omit<ClosureCodeDomain, "id" | "fechaCreacion">
+  ): ClosureCodeEntity {
+    const closureCodeEntity = new ClosureCodeEntity();
+    closureCodeEntity.nombre = closureCode.nombre;
+    closureCodeEntity.descripcion = closureCode.descripcion;
+    closureCodeEntity.estado = closureCode.estado ?? 1;
+    return closureCodeEntity;
+  }
+
+  async createClosureCode(
+    closureCode: Omit<ClosureCodeDomain, "id" | "fechaCreacion">
+  ): Promise<number> {
+    try {
+      const savedClosureCode = await this.closureCodeRepository.save(
+        this.toEntity(closureCode)
+      );
+      return savedClosureCode.id_codigos_cierre;
+    } catch (error) {
+      console.error("Error creating closure code:", error);
+      throw new Error("Error al crear el código de cierre en la base de datos");
+    }
+  }
+
+  async getClosureCodeById(id: number): Promise<ClosureCodeDomain | null> {
+    try {
+      const closureCode = await this.closureCodeRepository.findOne({
+        where: { id_codigos_cierre: id },
+      });
+      return closureCode ? this.toDomain(closureCode) : null;
+    } catch (error) {
+      console.error("Error fetching closure code by ID:", error);
+      throw new Error("Error al obtener el código de cierre por ID");
+    }
+  }
+
+  async getClosureCodeByName(
+    nombre: string
+  ): Promise<ClosureCodeDomain | null> {
+    try {
+      const closureCode = await this.closureCodeRepository.findOne({
+        where: { nombre },
+      });
+      return closureCode ? this.toDomain(closureCode) : null;
+    } catch (error) {
+      console.error("Error fetching closure code by name:", error);
+      throw new Error("Error al obtener el código de cierre por nombre");
+    }
+  }
+
+  async updateClosureCode(
+    id: number,
+    closureCode: Partial<ClosureCodeDomain>
+  ): Promise<boolean> {
+    try {
+      const existingClosureCode = await this.closureCodeRepository.findOne({
+        where: { id_codigos_cierre: id },
+      });
+
+      if (!existingClosureCode) {
+        return false;
+      }
+
+      Object.assign(existingClosureCode, {
+        nombre: closureCode.nombre ?? existingClosureCode.nombre,
+        descripcion: closureCode.descripcion ?? existingClosureCode.descripcion,
+        estado: closureCode.estado ?? existingClosureCode.estado,
+      });
+
+      await this.closureCodeRepository.save(existingClosureCode);
+      return true;
+    } catch (error) {
+      console.error("Error updating closure code:", error);
+      throw new Error("Error al actualizar el código de cierre");
+    }
+  }
+
+  async deleteClosureCode(id: number): Promise<boolean> {
+    try {
+      // Eliminación lógica: las incidencias cerradas conservan su código
+      const result = await this.closureCodeRepository.update(
+        { id_codigos_cierre: id },
+        { estado: 0 }
+      );
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error deleting closure code:", error);
+      throw new Error("Error al eliminar el código de cierre");
+    }
+  }
+
+  async getAllActiveClosureCodes(): Promise<ClosureCodeDomain[]> {
+    try {
+      const closureCodes = await this.closureCodeRepository.find({
+        where: { estado: 1 },
+        order: { nombre: "ASC" },
+      });
+      return closureCodes.map((closureCode) => this.toDomain(closureCode));
+    } catch (error) {
+      console.error("Error fetching active closure codes:", error);
+      throw new Error("Error al obtener los códigos de cierre activos");
+    }
+  }
+
+  async getAllClosureCodes(): Promise<ClosureCodeDomain[]> {
+    try {
+      const closureCodes = await this.closureCodeRepository.find({
+        order: { nombre: "ASC" },
+      });
+      return closureCodes.map((closureCode) => this.toDomain(closureCode));
+    } catch (error) {
+      console.error("Error fetching all closure codes:", error);
+      throw new Error("Error al obtener todos los códigos de cierre");
+    }
+  }
+}
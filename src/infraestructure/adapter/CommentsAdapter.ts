@@ -1,9 +1,24 @@
-import { Repository } from "typeorm";
-import { Comments, Comments as CommentsDomain } from "../../domain/Comments";
+import { In, Repository } from "typeorm";
+import {
+  CommentRevision as CommentRevisionDomain,
+  Comments as CommentsDomain,
+  CommentVisibility,
+  CommentVisibilityChange as CommentVisibilityChangeDomain,
+} from "../../domain/Comments";
 import { CommentsPort } from "../../domain/CommentsPort";
+import { renderMarkdown } from "../../domain/Markdown";
 import { Comments as CommentsEntity } from "../entities/Comments";
+import { CommentVisibilityChange as CommentVisibilityChangeEntity } from "../entities/CommentVisibilityChange";
+import { CommentRevision as CommentRevisionEntity } from "../entities/CommentRevision";
+import { CommentMention as CommentMentionEntity } from "../entities/CommentMention";
 import { AppDataSource } from "../config/data-base";
 
+/**
+ * Error al hacer pública una respuesta cuyo comentario padre es interno,
+ * comprobado de nuevo con el padre bloqueado
+ */
+const REPLY_VISIBILITY_ERROR = "La respuesta a una nota interna debe ser interna";
+
 /**
  * Adaptador que implementa la persistencia de comentarios usando TypeORM
  * Implementa el patrón Adapter de la arquitectura hexagonal
@@ -16,9 +31,15 @@ import { AppDataSource } from "../config/data-base";
  */
 export class CommentsAdapter implements CommentsPort {
   private commentsRepository: Repository<CommentsEntity>;
+  private visibilityChangeRepository: Repository<CommentVisibilityChangeEntity>;
+  private revisionRepository: Repository<CommentRevisionEntity>;
 
   constructor() {
     this.commentsRepository = AppDataSource.getRepository(CommentsEntity);
+    this.visibilityChangeRepository = AppDataSource.getRepository(
+      CommentVisibilityChangeEntity
+    );
+    this.revisionRepository = AppDataSource.getRepository(CommentRevisionEntity);
   }
 
   private toDomain(entity: CommentsEntity): CommentsDomain {
@@ -27,22 +48,38 @@ export class CommentsAdapter implements CommentsPort {
       incidencia: entity.incidencia_id,
       usuario: entity.usuario_id,
       comentario: entity.comentario,
+      comentarioHtml: renderMarkdown(entity.comentario),
+      creadoPorId: entity.creado_por_id ?? undefined,
+      comentarioPadreId: entity.comentario_padre_id ?? undefined,
+      menciones: entity.menciones?.map((mention) => mention.usuario_id),
+      visibilidad: entity.visibilidad as CommentVisibility,
+      editado: !!entity.editado_en,
+      fechaEdicion: entity.editado_en ?? undefined,
       fechaCreacion: entity.creado_en,
     };
   }
 
   private toEntity(
-    comments: Omit<CommentsDomain, "id" | "fechaCreacion">
+    comments: Omit<
+      CommentsDomain,
+      "id" | "fechaCreacion" | "editado" | "fechaEdicion" | "menciones"
+    >
   ): CommentsEntity {
     const commentEntity = new CommentsEntity();
     commentEntity.incidencia_id = comments.incidencia;
     commentEntity.usuario_id = comments.usuario;
     commentEntity.comentario = comments.comentario;
+    commentEntity.creado_por_id = comments.creadoPorId;
+    commentEntity.comentario_padre_id = comments.comentarioPadreId;
+    commentEntity.visibilidad = comments.visibilidad;
     return commentEntity;
   }
 
   async createComments(
-    comments: Omit<CommentsDomain, "id" | "fechaCreacion">
+    comments: Omit<
+      CommentsDomain,
+      "id" | "fechaCreacion" | "editado" | "fechaEdicion" | "menciones"
+    >
   ): Promise<number> {
     try {
       const newComments = this.toEntity(comments);
@@ -58,6 +95,7 @@ export class CommentsAdapter implements CommentsPort {
     try {
       const comment = await this.commentsRepository.findOne({
         where: { id_comentarios: id },
+        relations: { menciones: true },
       });
       return comment ? this.toDomain(comment) : null;
     } catch (error) {
@@ -68,30 +106,31 @@ export class CommentsAdapter implements CommentsPort {
 
   async updateComments(
     id: number,
-    comments: Partial<Comments>
+    comentario: string,
+    editadoPorId: number
   ): Promise<boolean> {
     try {
-      const existingComments = await this.commentsRepository.findOne({
-        where: { id_comentarios: id },
-      });
+      return await AppDataSource.transaction(async (manager) => {
+        const commentsRepository = manager.getRepository(CommentsEntity);
+        const existingComments = await commentsRepository.findOne({
+          where: { id_comentarios: id },
+        });
 
-      if (!existingComments) {
-        return false;
-      }
+        if (!existingComments) {
+          return false;
+        }
 
-      // Actualizar solo los campos proporcionados
-      if (comments.incidencia !== undefined) {
-        existingComments.incidencia_id = comments.incidencia;
-      }
-      if (comments.usuario !== undefined) {
-        existingComments.usuario_id = comments.usuario;
-      }
-      if (comments.comentario !== undefined) {
-        existingComments.comentario = comments.comentario;
-      }
+        const revision = new CommentRevisionEntity();
+        revision.comentario_id = id;
+        revision.comentario = existingComments.comentario;
+        revision.editado_por_id = editadoPorId;
 
-      await this.commentsRepository.save(existingComments);
-      return true;
+        existingComments.comentario = comentario;
+        existingComments.editado_en = new Date();
+        await commentsRepository.save(existingComments);
+        await manager.getRepository(CommentRevisionEntity).save(revision);
+        return true;
+      });
     } catch (error) {
       console.error("Error updating comment:", error);
       throw new Error("Error al actualizar el comentario");
@@ -101,6 +140,7 @@ export class CommentsAdapter implements CommentsPort {
   async getAllComments(): Promise<CommentsDomain[]> {
     try {
       const comments = await this.commentsRepository.find({
+        relations: { menciones: true },
         order: { creado_en: "DESC" },
       });
       return comments.map((comment) => this.toDomain(comment));
@@ -116,6 +156,7 @@ export class CommentsAdapter implements CommentsPort {
     try {
       const comments = await this.commentsRepository.find({
         where: { incidencia_id: incidenciaId },
+        relations: { menciones: true },
         order: { creado_en: "ASC" },
       });
       return comments.map((comment) => this.toDomain(comment));
@@ -125,6 +166,71 @@ export class CommentsAdapter implements CommentsPort {
     }
   }
 
+  async getCommentsMentioningUser(usuarioId: number): Promise<CommentsDomain[]> {
+    try {
+      const comments = await this.commentsRepository
+        .createQueryBuilder("comentario")
+        .innerJoin(
+          "comentario.menciones",
+          "mencion",
+          "mencion.usuario_id = :usuarioId",
+          { usuarioId }
+        )
+        .leftJoinAndSelect("comentario.menciones", "menciones")
+        .orderBy("comentario.creado_en", "DESC")
+        .addOrderBy("comentario.id_comentarios", "DESC")
+        .getMany();
+      return comments.map((comment) => this.toDomain(comment));
+    } catch (error) {
+      console.error("Error fetching comments mentioning user:", error);
+      throw new Error(
+        "Error al obtener los comentarios en los que se menciona al usuario"
+      );
+    }
+  }
+
+  async setMentions(comentarioId: number, usuarioIds: number[]): Promise<void> {
+    try {
+      await AppDataSource.transaction(async (manager) => {
+        const mentionRepository = manager.getRepository(CommentMentionEntity);
+        await mentionRepository.delete({ comentario_id: comentarioId });
+
+        if (usuarioIds.length > 0) {
+          await mentionRepository.save(
+            usuarioIds.map((usuarioId) => {
+              const mention = new CommentMentionEntity();
+              mention.comentario_id = comentarioId;
+              mention.usuario_id = usuarioId;
+              return mention;
+            })
+          );
+        }
+      });
+    } catch (error) {
+      console.error("Error saving comment mentions:", error);
+      throw new Error("Error al guardar las menciones del comentario");
+    }
+  }
+
+  async getRevisions(comentarioId: number): Promise<CommentRevisionDomain[]> {
+    try {
+      const revisions = await this.revisionRepository.find({
+        where: { comentario_id: comentarioId },
+        order: { fecha: "DESC", id_revision: "DESC" },
+      });
+      return revisions.map((revision) => ({
+        id: revision.id_revision,
+        comentarioId: revision.comentario_id,
+        comentario: revision.comentario,
+        editadoPorId: revision.editado_por_id,
+        fecha: revision.fecha,
+      }));
+    } catch (error) {
+      console.error("Error fetching comment revisions:", error);
+      throw new Error("Error al obtener las revisiones del comentario");
+    }
+  }
+
   async deleteComments(id: number): Promise<boolean> {
     try {
       const result = await this.commentsRepository.delete({
@@ -136,4 +242,96 @@ export class CommentsAdapter implements CommentsPort {
       throw new Error("Error al eliminar el comentario");
     }
   }
+
+  async changeVisibility(
+    id: number,
+    visibilidad: CommentVisibility,
+    usuarioId: number
+  ): Promise<boolean> {
+    try {
+      return await AppDataSource.transaction(async (manager) => {
+        const commentsRepository = manager.getRepository(CommentsEntity);
+        const existingComment = await commentsRepository.findOne({
+          where: { id_comentarios: id },
+          lock: { mode: "pessimistic_write" },
+        });
+
+        if (!existingComment) {
+          return false;
+        }
+
+        if (visibilidad === "publico" && existingComment.comentario_padre_id) {
+          const parent = await commentsRepository.findOne({
+            where: { id_comentarios: existingComment.comentario_padre_id },
+            lock: { mode: "pessimistic_read" },
+          });
+          if (parent?.visibilidad === "interno") {
+            throw new Error(REPLY_VISIBILITY_ERROR);
+          }
+        }
+
+        // Al pasar a interno, las respuestas públicas de todo el hilo pasan
+        // también a internas; las que ya lo son tienen el resto del hilo interno
+        const changed = [existingComment];
+        if (visibilidad === "interno") {
+          let parentIds = [id];
+          while (parentIds.length > 0) {
+            const replies = await commentsRepository.find({
+              where: {
+                comentario_padre_id: In(parentIds),
+                visibilidad: "publico",
+              },
+              lock: { mode: "pessimistic_write" },
+            });
+            changed.push(...replies);
+            parentIds = replies.map((reply) => reply.id_comentarios);
+          }
+        }
+
+        const changes = changed.map((comment) => {
+          const change = new CommentVisibilityChangeEntity();
+          change.comentario_id = comment.id_comentarios;
+          change.visibilidad_anterior = comment.visibilidad;
+          change.visibilidad_nueva = visibilidad;
+          change.usuario_id = usuarioId;
+          comment.visibilidad = visibilidad;
+          return change;
+        });
+
+        await commentsRepository.save(changed);
+        await manager.getRepository(CommentVisibilityChangeEntity).save(changes);
+        return true;
+      });
+    } catch (error) {
+      console.error("Error changing comment visibility:", error);
+      if (error instanceof Error && error.message === REPLY_VISIBILITY_ERROR) {
+        throw error;
+      }
+      throw new Error("Error al cambiar la visibilidad del comentario");
+    }
+  }
+
+  async getVisibilityChanges(
+    comentarioId: number
+  ): Promise<CommentVisibilityChangeDomain[]> {
+    try {
+      const changes = await this.visibilityChangeRepository.find({
+        where: { comentario_id: comentarioId },
+        order: { fecha: "ASC", id_cambio: "ASC" },
+      });
+      return changes.map((change) => ({
+        id: change.id_cambio,
+        comentarioId: change.comentario_id,
+        visibilidadAnterior: change.visibilidad_anterior as CommentVisibility,
+        visibilidadNueva: change.visibilidad_nueva as CommentVisibility,
+        usuarioId: change.usuario_id,
+        fecha: change.fecha,
+      }));
+    } catch (error) {
+      console.error("Error fetching comment visibility changes:", error);
+      throw new Error(
+        "Error al obtener los cambios de visibilidad del comentario"
+      );
+    }
+  }
 }
@@ -0,0 +1,61 @@
+import { Repository } from "typeorm";
+import { HistorialIncidencia as HistorialIncidenciaDomain } from "../../domain/HistorialIncidencia";
+import { HistorialIncidenciaPort } from "../../domain/HistorialIncidenciaPort";
+import { HistorialIncidencia as HistorialIncidenciaEntity } from "../entities/HistorialIncidencia";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la consulta del historial de incidencias usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ */
+export class HistorialIncidenciaAdapter implements HistorialIncidenciaPort {
+  private historialRepository: Repository<HistorialIncidenciaEntity>;
+
+  constructor() {
+    this.historialRepository = AppDataSource.getRepository(
+      HistorialIncidenciaEntity
+    );
+  }
+
+  private toDomain(entity: HistorialIncidenciaEntity): HistorialIncidenciaDomain {
+    const historial: HistorialIncidenciaDomain = {
+      id: entity.id_historial,
+      incidenciaId: entity.incidencia_id,
+      campo: entity.campo,
+      valorAnterior: entity.valor_anterior ?? undefined,
+      valorNuevo: entity.valor_nuevo ?? undefined,
+      usuarioId: entity.usuario_id,
+      fecha: entity.fecha,
+    };
+
+    if (entity.usuario) {
+      historial.usuario = {
+        id: entity.usuario.id_usuarios,
+        nombre: entity.usuario.nombre,
+        email: entity.usuario.email,
+        rol: entity.usuario.rol,
+      };
+    }
+
+    return historial;
+  }
+
+  async getHistoryByIncident(
+    incidenciaId: number
+  ): Promise<HistorialIncidenciaDomain[]> {
+    try {
+      const historial = await this.historialRepository
+        .createQueryBuilder("historial")
+        .leftJoinAndSelect("historial.usuario", "usuario")
+        .where("historial.incidencia_id = :incidenciaId", { incidenciaId })
+        .orderBy("historial.fecha", "ASC")
+        .addOrderBy("historial.id_historial", "ASC")
+        .getMany();
+
+      return historial.map((entry) => this.toDomain(entry));
+    } catch (error) {
+      console.error("Error fetching incident history:", error);
+      throw new Error("Error al obtener el historial de la incidencia");
+    }
+  }
+}
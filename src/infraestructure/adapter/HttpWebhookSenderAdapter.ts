@@ -0,0 +1,63 @@
+import { createHmac } from "crypto";
+import {
+  WebhookSenderPort,
+  WebhookSendResult,
+} from "../../domain/WebhookSenderPort";
+
+/**
+ * Tiempo máximo de espera de la respuesta del endpoint
+ */
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Adaptador que envía los webhooks por HTTP POST
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * La firma se calcula como HMAC-SHA256 de "<timestamp>.<cuerpo>" con el
+ * secreto del webhook y se envía en X-Webhook-Signature como "sha256=<hex>";
+ * el receptor debe recalcularla y rechazar timestamps antiguos
+ */
+export class HttpWebhookSenderAdapter implements WebhookSenderPort {
+  async send(
+    url: string,
+    secreto: string,
+    payload: string,
+    cabeceras: { evento: string; entregaId: number }
+  ): Promise<WebhookSendResult> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const firma = createHmac("sha256", secreto)
+      .update(`${timestamp}.${payload}`)
+      .digest("hex");
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "gestion-incidencias-webhooks",
+          "X-Webhook-Event": cabeceras.evento,
+          "X-Webhook-Delivery": String(cabeceras.entregaId),
+          "X-Webhook-Timestamp": timestamp,
+          "X-Webhook-Signature": `sha256=${firma}`,
+        },
+        body: payload,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      return {
+        exito: response.status >= 200 && response.status < 300,
+        codigo: response.status,
+        error:
+          response.status >= 200 && response.status < 300
+            ? undefined
+            : `Respuesta HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        exito: false,
+        error: error instanceof Error ? error.message : "Error inesperado",
+      };
+    }
+  }
+}
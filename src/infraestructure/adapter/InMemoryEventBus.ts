@@ -0,0 +1,36 @@
+import { DomainEvent, DomainEventType } from "../../domain/DomainEvent";
+import { DomainEventHandler, EventBusPort } from "../../domain/EventBusPort";
+
+/**
+ * Bus de eventos de dominio en memoria, dentro del propio proceso
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * Los suscriptores se ejecutan después de que publish retorne y sus
+ * errores se registran sin propagarse al caso de uso que emitió el evento
+ */
+export class InMemoryEventBus implements EventBusPort {
+  private handlers = new Map<DomainEventType, DomainEventHandler<any>[]>();
+
+  publish(event: DomainEvent): void {
+    const handlers = this.handlers.get(event.tipo) ?? [];
+
+    for (const handler of handlers) {
+      setImmediate(async () => {
+        try {
+          await handler(event);
+        } catch (error) {
+          console.error(`Error handling domain event ${event.tipo}:`, error);
+        }
+      });
+    }
+  }
+
+  subscribe<K extends DomainEventType>(
+    tipo: K,
+    handler: DomainEventHandler<Extract<DomainEvent, { tipo: K }>>
+  ): void {
+    const handlers = this.handlers.get(tipo) ?? [];
+    handlers.push(handler);
+    this.handlers.set(tipo, handlers);
+  }
+}
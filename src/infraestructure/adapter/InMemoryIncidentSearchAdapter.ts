@@ -0,0 +1,122 @@
+import { Comments } from "../../domain/Comments";
+import { Incident, IncidentFilters } from "../../domain/Incident";
+import {
+  extractSearchTerms,
+  IncidentSearchHit,
+  normalizeForSearch,
+  SearchMatch,
+} from "../../domain/IncidentSearch";
+import { IncidentSearchPort } from "../../domain/IncidentSearchPort";
+
+/**
+ * Peso del título y la descripción frente a los comentarios en la relevancia
+ */
+const INCIDENT_WEIGHT = 2;
+
+/**
+ * Adaptador de búsqueda en memoria, sin base de datos
+ * Pensado para pruebas y entornos de desarrollo: la relevancia es el número
+ * de apariciones de cada término, ponderando título y descripción
+ */
+export class InMemoryIncidentSearchAdapter implements IncidentSearchPort {
+  private incidents: Incident[];
+  private comments: Comments[];
+
+  constructor(incidents: Incident[] = [], comments: Comments[] = []) {
+    this.incidents = incidents;
+    this.comments = comments;
+  }
+
+  async searchIncidents(
+    texto: string,
+    filters: IncidentFilters,
+    limite: number,
+    incluirInternos: boolean
+  ): Promise<IncidentSearchHit[]> {
+    const terminos = extractSearchTerms(texto);
+    if (terminos.length === 0) {
+      return [];
+    }
+
+    const hits: IncidentSearchHit[] = [];
+
+    for (const incident of this.incidents) {
+      if (!this.matchesFilters(incident, filters)) {
+        continue;
+      }
+
+      const candidatos: SearchMatch[] = [
+        { campo: "titulo", texto: incident.titulo },
+      ];
+      if (incident.descripcion) {
+        candidatos.push({ campo: "descripcion", texto: incident.descripcion });
+      }
+      this.comments
+        .filter(
+          (comment) =>
+            comment.incidencia === incident.id &&
+            (incluirInternos || comment.visibilidad !== "interno")
+        )
+        .forEach((comment) =>
+          candidatos.push({
+            campo: "comentario",
+            texto: comment.comentario,
+            comentarioId: comment.id,
+          })
+        );
+
+      let puntuacion = 0;
+      const coincidencias: SearchMatch[] = [];
+
+      for (const candidato of candidatos) {
+        const apariciones = this.countOccurrences(candidato.texto, terminos);
+        if (apariciones > 0) {
+          puntuacion +=
+            candidato.campo === "comentario"
+              ? apariciones
+              : apariciones * INCIDENT_WEIGHT;
+          coincidencias.push(candidato);
+        }
+      }
+
+      if (puntuacion > 0) {
+        hits.push({ incidenciaId: incident.id, puntuacion, coincidencias });
+      }
+    }
+
+    return hits
+      .sort(
+        (a, b) => b.puntuacion - a.puntuacion || b.incidenciaId - a.incidenciaId
+      )
+      .slice(0, limite);
+  }
+
+  private countOccurrences(texto: string, terminos: string[]): number {
+    const normalizado = normalizeForSearch(texto);
+
+    return terminos.reduce((total, termino) => {
+      let apariciones = 0;
+      let posicion = normalizado.indexOf(termino);
+      while (posicion !== -1) {
+        apariciones++;
+        posicion = normalizado.indexOf(termino, posicion + termino.length);
+      }
+      return total + apariciones;
+    }, 0);
+  }
+
+  private matchesFilters(incident: Incident, filters: IncidentFilters): boolean {
+    return (
+      (!filters.estado || incident.estado === filters.estado) &&
+      (!filters.usuarioId || incident.usuarioId === filters.usuarioId) &&
+      (!filters.soporteId || incident.soporteId === filters.soporteId) &&
+      (!filters.colaSoporteId ||
+        incident.soporteId === undefined ||
+        incident.soporteId === filters.colaSoporteId) &&
+      (!filters.categoriaId || incident.categoriaId === filters.categoriaId) &&
+      (!filters.prioridadId || incident.prioridadId === filters.prioridadId) &&
+      (!filters.fechaDesde || incident.creadoEn >= filters.fechaDesde) &&
+      (!filters.fechaHasta || incident.creadoEn <= filters.fechaHasta)
+    );
+  }
+}
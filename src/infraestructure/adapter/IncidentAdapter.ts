@@ -1,8 +1,65 @@
-import { Repository } from "typeorm";
-import { Incident as IncidentDomain } from "../../domain/Incident";
+import { EntityManager, Repository, SelectQueryBuilder } from "typeorm";
+import {
+  Incident as IncidentDomain,
+  IncidentFilters,
+  IncidentPagination,
+  IncidentSortField,
+  IncidentStatistics,
+  IncidentStatisticsFilters,
+  IncidentStatusChange,
+  SlaCompliance,
+  SlaStatus,
+} from "../../domain/Incident";
 import { IncidentPort } from "../../domain/IncidentPort";
+import { renderMarkdown } from "../../domain/Markdown";
+import { IncidentStatus } from "../../domain/Workflow";
+import { PaginatedResult } from "../../domain/Pagination";
 import { Incident as IncidentEntity } from "../entities/Incident";
+import { HistorialIncidencia as HistorialIncidenciaEntity } from "../entities/HistorialIncidencia";
 import { AppDataSource } from "../config/data-base";
+import { applyIncidentFilters } from "./IncidentQueryFilters";
+
+/**
+ * Columnas de la incidencia cuyo cambio se registra en el historial,
+ * junto con el nombre del campo de dominio con el que se exponen
+ */
+const HISTORY_FIELDS: { [column: string]: string } = {
+  titulo: "titulo",
+  descripcion: "descripcion",
+  estado: "estado",
+  soporte_id: "soporteId",
+  grupo_soporte_id: "grupoSoporteId",
+  categoria_id: "categoriaId",
+  prioridad_id: "prioridadId",
+  nota_resolucion: "notaResolucion",
+  codigo_cierre_id: "codigoCierreId",
+};
+
+/**
+ * Error de un cambio de estado validado contra un estado que otra operación
+ * ha modificado entretanto
+ */
+const STATUS_CONFLICT_ERROR =
+  "La incidencia ha cambiado de estado mientras se modificaba; la transición ya no es válida";
+
+/**
+ * Expresión SQL por la que se ordena cada criterio de los listados
+ * El estado se ordena según el orden de los estados en el flujo de trabajo
+ * y no alfabéticamente
+ */
+const SORT_EXPRESSIONS: {
+  [field in IncidentSortField]: (ordenEstados: IncidentStatus[]) => string;
+} = {
+  creadoEn: () => "incident.creado_en",
+  actualizadoEn: () => "incident.actualizado_en",
+  prioridad: () => "prioridad.nivel_prioridad",
+  estado: (ordenEstados) =>
+    ordenEstados.length > 0
+      ? `FIELD(incident.estado, ${ordenEstados
+          .map((estado) => `'${estado.replace(/[^a-z_]/g, "")}'`)
+          .join(", ")})`
+      : "0",
+};
 
 /**
  * Adaptador que implementa la persistencia de incidencias usando TypeORM
@@ -17,7 +74,6 @@ import { AppDataSource } from "../config/data-base";
  */
 export class IncidentAdapter implements IncidentPort {
   private incidentRepository: Repository<IncidentEntity>;
-  port: any;
 
   constructor() {
     this.incidentRepository = AppDataSource.getRepository(IncidentEntity);
@@ -31,13 +87,28 @@ export class IncidentAdapter implements IncidentPort {
       id: entity.id_incidencias,
       titulo: entity.titulo,
       descripcion: entity.descripcion,
+      descripcionHtml: entity.descripcion
+        ? renderMarkdown(entity.descripcion)
+        : undefined,
       estado: entity.estado,
       usuarioId: entity.usuario_id,
       soporteId: entity.soporte_id ?? undefined,
+      grupoSoporteId: entity.grupo_soporte_id ?? undefined,
       categoriaId: entity.categoria_id,
       prioridadId: entity.prioridad_id,
+      creadoPorId: entity.creado_por_id ?? undefined,
       creadoEn: entity.creado_en,
       actualizadoEn: entity.actualizado_en,
+      fechaPrimeraRespuesta: entity.fecha_primera_respuesta ?? undefined,
+      fechaCierre: entity.fecha_cierre ?? undefined,
+      fechaReapertura: entity.fecha_reapertura ?? undefined,
+      reaperturas: entity.reaperturas,
+      fechaLimiteRespuesta: entity.fecha_limite_respuesta ?? undefined,
+      fechaLimiteResolucion: entity.fecha_limite_resolucion ?? undefined,
+      notaResolucion: entity.nota_resolucion ?? undefined,
+      codigoCierreId: entity.codigo_cierre_id ?? undefined,
+      fechaResolucion: entity.fecha_resolucion ?? undefined,
+      incidenciaOrigenId: entity.incidencia_origen_id ?? undefined,
     };
 
     if (includeRelations) {
@@ -59,6 +130,13 @@ export class IncidentAdapter implements IncidentPort {
         };
       }
 
+      if (entity.grupoSoporte) {
+        incident.grupoSoporte = {
+          id: entity.grupoSoporte.id_grupos_soporte,
+          nombre: entity.grupoSoporte.nombre,
+        };
+      }
+
       if (entity.categoria) {
         incident.categoria = {
           id: entity.categoria.id_categorias,
@@ -75,6 +153,13 @@ export class IncidentAdapter implements IncidentPort {
           color: entity.prioridad.color_prioridad,
         };
       }
+
+      if (entity.codigoCierre) {
+        incident.codigoCierre = {
+          id: entity.codigoCierre.id_codigos_cierre,
+          nombre: entity.codigoCierre.nombre,
+        };
+      }
     }
 
     return incident;
@@ -89,8 +174,13 @@ export class IncidentAdapter implements IncidentPort {
     incidentEntity.estado = incident.estado || "abierta";
     incidentEntity.usuario_id = incident.usuarioId;
     incidentEntity.soporte_id = incident.soporteId;
+    incidentEntity.grupo_soporte_id = incident.grupoSoporteId;
     incidentEntity.categoria_id = incident.categoriaId;
     incidentEntity.prioridad_id = incident.prioridadId;
+    incidentEntity.creado_por_id = incident.creadoPorId;
+    incidentEntity.fecha_limite_respuesta = incident.fechaLimiteRespuesta;
+    incidentEntity.fecha_limite_resolucion = incident.fechaLimiteResolucion;
+    incidentEntity.incidencia_origen_id = incident.incidenciaOrigenId;
     return incidentEntity;
   }
 
@@ -120,7 +210,9 @@ export class IncidentAdapter implements IncidentPort {
           .leftJoinAndSelect("incident.usuario", "usuario")
           .leftJoinAndSelect("incident.soporte", "soporte")
           .leftJoinAndSelect("incident.categoria", "categoria")
-          .leftJoinAndSelect("incident.prioridad", "prioridad");
+          .leftJoinAndSelect("incident.prioridad", "prioridad")
+          .leftJoinAndSelect("incident.codigoCierre", "codigoCierre")
+          .leftJoinAndSelect("incident.grupoSoporte", "grupoSoporte");
       }
 
       const incident = await queryBuilder
@@ -135,15 +227,7 @@ export class IncidentAdapter implements IncidentPort {
   }
 
   async getAllIncidents(
-    filters?: {
-      estado?: "abierta" | "en_progreso" | "cerrada";
-      usuarioId?: number;
-      soporteId?: number;
-      categoriaId?: number;
-      prioridadId?: number;
-      fechaDesde?: Date;
-      fechaHasta?: Date;
-    },
+    filters?: IncidentFilters,
     includeRelations: boolean = false
   ): Promise<IncidentDomain[]> {
     try {
@@ -155,53 +239,13 @@ export class IncidentAdapter implements IncidentPort {
           .leftJoinAndSelect("incident.usuario", "usuario")
           .leftJoinAndSelect("incident.soporte", "soporte")
           .leftJoinAndSelect("incident.categoria", "categoria")
-          .leftJoinAndSelect("incident.prioridad", "prioridad");
+          .leftJoinAndSelect("incident.prioridad", "prioridad")
+          .leftJoinAndSelect("incident.codigoCierre", "codigoCierre")
+          .leftJoinAndSelect("incident.grupoSoporte", "grupoSoporte");
       }
 
       // Aplicar filtros si se proporcionan
-      if (filters) {
-        if (filters.estado) {
-          queryBuilder.andWhere("incident.estado = :estado", {
-            estado: filters.estado,
-          });
-        }
-
-        if (filters.usuarioId) {
-          queryBuilder.andWhere("incident.usuario_id = :usuarioId", {
-            usuarioId: filters.usuarioId,
-          });
-        }
-
-        if (filters.soporteId) {
-          queryBuilder.andWhere("incident.soporte_id = :soporteId", {
-            soporteId: filters.soporteId,
-          });
-        }
-
-        if (filters.categoriaId) {
-          queryBuilder.andWhere("incident.categoria_id = :categoriaId", {
-            categoriaId: filters.categoriaId,
-          });
-        }
-
-        if (filters.prioridadId) {
-          queryBuilder.andWhere("incident.prioridad_id = :prioridadId", {
-            prioridadId: filters.prioridadId,
-          });
-        }
-
-        if (filters.fechaDesde) {
-          queryBuilder.andWhere("incident.creado_en >= :fechaDesde", {
-            fechaDesde: filters.fechaDesde,
-          });
-        }
-
-        if (filters.fechaHasta) {
-          queryBuilder.andWhere("incident.creado_en <= :fechaHasta", {
-            fechaHasta: filters.fechaHasta,
-          });
-        }
-      }
+      applyIncidentFilters(queryBuilder, filters);
 
       // Ordenar por fecha de creación (más recientes primero)
       queryBuilder.orderBy("incident.creado_en", "DESC");
@@ -216,9 +260,161 @@ export class IncidentAdapter implements IncidentPort {
     }
   }
 
+  /**
+   * Obtiene una página de incidencias ordenada por el criterio indicado
+   * El cursor codifica el valor de ordenación y el ID de la última incidencia
+   * devuelta, que desempata los valores repetidos
+   */
+  async getIncidentsPage(
+    filters: IncidentFilters,
+    pagination: IncidentPagination,
+    includeRelations: boolean = false
+  ): Promise<PaginatedResult<IncidentDomain>> {
+    const cursor = pagination.cursor
+      ? this.decodeCursor(pagination.cursor, pagination.ordenarPor)
+      : undefined;
+
+    try {
+      const queryBuilder =
+        this.incidentRepository.createQueryBuilder("incident");
+
+      if (includeRelations) {
+        queryBuilder
+          .leftJoinAndSelect("incident.usuario", "usuario")
+          .leftJoinAndSelect("incident.soporte", "soporte")
+          .leftJoinAndSelect("incident.categoria", "categoria")
+          .leftJoinAndSelect("incident.prioridad", "prioridad")
+          .leftJoinAndSelect("incident.codigoCierre", "codigoCierre")
+          .leftJoinAndSelect("incident.grupoSoporte", "grupoSoporte");
+      } else if (pagination.ordenarPor === "prioridad") {
+        queryBuilder.leftJoinAndSelect("incident.prioridad", "prioridad");
+      }
+
+      applyIncidentFilters(queryBuilder, filters);
+
+      const total = await queryBuilder.getCount();
+
+      const sortExpression = SORT_EXPRESSIONS[pagination.ordenarPor](
+        pagination.ordenEstados ?? []
+      );
+      const comparator = pagination.orden === "DESC" ? "<" : ">";
+
+      if (cursor) {
+        queryBuilder.andWhere(
+          `(${sortExpression} ${comparator} :cursorValor OR ` +
+            `(${sortExpression} = :cursorValor AND incident.id_incidencias ${comparator} :cursorId))`,
+          {
+            cursorValor:
+              typeof cursor.valor === "string"
+                ? new Date(cursor.valor)
+                : cursor.valor,
+            cursorId: cursor.id,
+          }
+        );
+      }
+
+      queryBuilder
+        .orderBy(sortExpression, pagination.orden)
+        .addOrderBy("incident.id_incidencias", pagination.orden);
+
+      const offset = cursor
+        ? 0
+        : ((pagination.pagina ?? 1) - 1) * pagination.limite;
+
+      // Se pide un elemento de más para saber si existe una página siguiente
+      const incidents = await queryBuilder
+        .offset(offset)
+        .limit(pagination.limite + 1)
+        .getMany();
+
+      const hayMas = incidents.length > pagination.limite;
+      const pageItems = incidents.slice(0, pagination.limite);
+      const last = pageItems[pageItems.length - 1];
+
+      return {
+        items: pageItems.map((incident) =>
+          this.toDomain(incident, includeRelations)
+        ),
+        total,
+        limite: pagination.limite,
+        pagina: cursor ? undefined : pagination.pagina ?? 1,
+        totalPaginas: cursor
+          ? undefined
+          : Math.ceil(total / pagination.limite),
+        siguienteCursor:
+          hayMas && last
+            ? this.encodeCursor(last, pagination)
+            : null,
+      };
+    } catch (error) {
+      console.error("Error fetching incidents page:", error);
+      throw new Error("Error al obtener el listado de incidencias");
+    }
+  }
+
+  async getIncidentsBySla(
+    estadoSla: SlaStatus,
+    referencia: { ahora: Date; limiteRiesgo: Date; estadosFinales: IncidentStatus[] },
+    filters?: IncidentFilters,
+    includeRelations: boolean = false
+  ): Promise<IncidentDomain[]> {
+    try {
+      const queryBuilder = this.incidentRepository.createQueryBuilder("incident");
+
+      if (referencia.estadosFinales.length > 0) {
+        queryBuilder.where("incident.estado NOT IN (:...estadosFinales)", {
+          estadosFinales: referencia.estadosFinales,
+        });
+      }
+
+      if (includeRelations) {
+        queryBuilder
+          .leftJoinAndSelect("incident.usuario", "usuario")
+          .leftJoinAndSelect("incident.soporte", "soporte")
+          .leftJoinAndSelect("incident.categoria", "categoria")
+          .leftJoinAndSelect("incident.prioridad", "prioridad")
+          .leftJoinAndSelect("incident.codigoCierre", "codigoCierre")
+          .leftJoinAndSelect("incident.grupoSoporte", "grupoSoporte");
+      }
+
+      applyIncidentFilters(queryBuilder, filters);
+
+      // Un plazo está pendiente si la respuesta aún no se ha dado
+      // o si la incidencia aún no se ha cerrado (resolución)
+      // Los plazos nulos se descartan de forma explícita para que la
+      // condición nunca sea NULL y su negación siga siendo válida
+      const vencida =
+        "((incident.fecha_primera_respuesta IS NULL AND incident.fecha_limite_respuesta IS NOT NULL" +
+        " AND incident.fecha_limite_respuesta < :ahora)" +
+        " OR (incident.fecha_limite_resolucion IS NOT NULL AND incident.fecha_limite_resolucion < :ahora))";
+
+      if (estadoSla === "incumplida") {
+        queryBuilder.andWhere(vencida, { ahora: referencia.ahora });
+      } else {
+        queryBuilder
+          .andWhere(`NOT ${vencida}`, { ahora: referencia.ahora })
+          .andWhere(
+            "((incident.fecha_primera_respuesta IS NULL AND incident.fecha_limite_respuesta <= :limiteRiesgo)" +
+              " OR incident.fecha_limite_resolucion <= :limiteRiesgo)",
+            { limiteRiesgo: referencia.limiteRiesgo }
+          );
+      }
+
+      queryBuilder.orderBy("incident.fecha_limite_resolucion", "ASC");
+
+      const incidents = await queryBuilder.getMany();
+      return incidents.map((incident) =>
+        this.toDomain(incident, includeRelations)
+      );
+    } catch (error) {
+      console.error("Error fetching incidents by SLA status:", error);
+      throw new Error("Error al obtener las incidencias por estado de SLA");
+    }
+  }
+
   async getIncidentsBySupport(
     soporteId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
     includeRelations: boolean = false
   ): Promise<IncidentDomain[]> {
     try {
@@ -231,7 +427,9 @@ export class IncidentAdapter implements IncidentPort {
           .leftJoinAndSelect("incident.usuario", "usuario")
           .leftJoinAndSelect("incident.soporte", "soporte")
           .leftJoinAndSelect("incident.categoria", "categoria")
-          .leftJoinAndSelect("incident.prioridad", "prioridad");
+          .leftJoinAndSelect("incident.prioridad", "prioridad")
+          .leftJoinAndSelect("incident.codigoCierre", "codigoCierre")
+          .leftJoinAndSelect("incident.grupoSoporte", "grupoSoporte");
       }
 
       if (estado) {
@@ -254,7 +452,7 @@ export class IncidentAdapter implements IncidentPort {
 
   async getIncidentsByUser(
     usuarioId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
     includeRelations: boolean = false
   ): Promise<IncidentDomain[]> {
     try {
@@ -267,7 +465,9 @@ export class IncidentAdapter implements IncidentPort {
           .leftJoinAndSelect("incident.usuario", "usuario")
           .leftJoinAndSelect("incident.soporte", "soporte")
           .leftJoinAndSelect("incident.categoria", "categoria")
-          .leftJoinAndSelect("incident.prioridad", "prioridad");
+          .leftJoinAndSelect("incident.prioridad", "prioridad")
+          .leftJoinAndSelect("incident.codigoCierre", "codigoCierre")
+          .leftJoinAndSelect("incident.grupoSoporte", "grupoSoporte");
       }
 
       if (estado) {
@@ -288,7 +488,7 @@ export class IncidentAdapter implements IncidentPort {
 
   async getIncidentsByCategory(
     categoriaId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
     includeRelations: boolean = false
   ): Promise<IncidentDomain[]> {
     try {
@@ -301,7 +501,9 @@ export class IncidentAdapter implements IncidentPort {
           .leftJoinAndSelect("incident.usuario", "usuario")
           .leftJoinAndSelect("incident.soporte", "soporte")
           .leftJoinAndSelect("incident.categoria", "categoria")
-          .leftJoinAndSelect("incident.prioridad", "prioridad");
+          .leftJoinAndSelect("incident.prioridad", "prioridad")
+          .leftJoinAndSelect("incident.codigoCierre", "codigoCierre")
+          .leftJoinAndSelect("incident.grupoSoporte", "grupoSoporte");
       }
 
       if (estado) {
@@ -322,7 +524,7 @@ export class IncidentAdapter implements IncidentPort {
 
   async getIncidentsByPriority(
     prioridadId: number,
-    estado?: "abierta" | "en_progreso" | "cerrada",
+    estado?: IncidentStatus,
     includeRelations: boolean = false
   ): Promise<IncidentDomain[]> {
     try {
@@ -335,7 +537,9 @@ export class IncidentAdapter implements IncidentPort {
           .leftJoinAndSelect("incident.usuario", "usuario")
           .leftJoinAndSelect("incident.soporte", "soporte")
           .leftJoinAndSelect("incident.categoria", "categoria")
-          .leftJoinAndSelect("incident.prioridad", "prioridad");
+          .leftJoinAndSelect("incident.prioridad", "prioridad")
+          .leftJoinAndSelect("incident.codigoCierre", "codigoCierre")
+          .leftJoinAndSelect("incident.grupoSoporte", "grupoSoporte");
       }
 
       if (estado) {
@@ -356,164 +560,328 @@ export class IncidentAdapter implements IncidentPort {
 
   async updateIncident(
     id: number,
-    incident: Partial<Omit<IncidentDomain, "id" | "creadoEn">>
+    incident: Partial<Omit<IncidentDomain, "id" | "creadoEn">>,
+    actorId: number,
+    cambioEstado?: IncidentStatusChange
   ): Promise<boolean> {
     try {
-      const existingIncident = await this.incidentRepository.findOne({
-        where: { id_incidencias: id },
-      });
-
-      if (!existingIncident) {
-        return false;
-      }
-
-      const updatedFields: any = {};
+      const updatedFields: any = cambioEstado
+        ? this.statusChangeFields(cambioEstado)
+        : {};
 
       if (incident.titulo !== undefined) updatedFields.titulo = incident.titulo;
       if (incident.descripcion !== undefined)
         updatedFields.descripcion = incident.descripcion;
-      if (incident.estado !== undefined) updatedFields.estado = incident.estado;
       if (incident.soporteId !== undefined)
         updatedFields.soporte_id = incident.soporteId;
       if (incident.categoriaId !== undefined)
         updatedFields.categoria_id = incident.categoriaId;
       if (incident.prioridadId !== undefined)
         updatedFields.prioridad_id = incident.prioridadId;
-
-      if (Object.keys(updatedFields).length === 0) {
-        return true;
-      }
-
-      const updateResult = await this.incidentRepository.update(
-        { id_incidencias: id },
-        updatedFields
+      if (incident.fechaLimiteRespuesta !== undefined)
+        updatedFields.fecha_limite_respuesta = incident.fechaLimiteRespuesta;
+      if (incident.fechaLimiteResolucion !== undefined)
+        updatedFields.fecha_limite_resolucion = incident.fechaLimiteResolucion;
+
+      return await this.updateWithHistory(
+        id,
+        updatedFields,
+        actorId,
+        cambioEstado
       );
-
-      return updateResult.affected !== undefined && updateResult.affected > 0;
     } catch (error) {
       console.error("Error updating incident:", error);
+      if (error instanceof Error && error.message === STATUS_CONFLICT_ERROR) {
+        throw error;
+      }
       throw new Error("Error al actualizar la incidencia");
     }
   }
 
   async changeIncidentStatus(
     id: number,
-    estado: "abierta" | "en_progreso" | "cerrada"
+    cambio: IncidentStatusChange,
+    actorId: number
   ): Promise<boolean> {
     try {
-      const updateResult = await this.incidentRepository.update(
-        { id_incidencias: id },
-        { estado }
+      return await this.updateWithHistory(
+        id,
+        this.statusChangeFields(cambio),
+        actorId,
+        cambio
       );
-
-      return updateResult.affected !== undefined && updateResult.affected > 0;
     } catch (error) {
       console.error("Error changing incident status:", error);
+      if (error instanceof Error && error.message === STATUS_CONFLICT_ERROR) {
+        throw error;
+      }
       throw new Error("Error al cambiar el estado de la incidencia");
     }
   }
 
-  async assignIncident(id: number, soporteId: number | null): Promise<boolean> {
+  private statusChangeFields(
+    cambio: IncidentStatusChange
+  ): Partial<IncidentEntity> {
+    const updatedFields: Partial<IncidentEntity> = { estado: cambio.estado };
+    if (cambio.notaResolucion !== undefined)
+      updatedFields.nota_resolucion = cambio.notaResolucion;
+    if (cambio.codigoCierreId !== undefined)
+      updatedFields.codigo_cierre_id = cambio.codigoCierreId;
+    if (cambio.fechaResolucion !== undefined)
+      updatedFields.fecha_resolucion = cambio.fechaResolucion;
+    if (cambio.descartarResolucion) {
+      updatedFields.nota_resolucion = null;
+      updatedFields.codigo_cierre_id = null;
+    }
+    return updatedFields;
+  }
+
+  async assignIncident(
+    id: number,
+    soporteId: number | null,
+    actorId: number
+  ): Promise<boolean> {
     try {
-      const updateResult = await this.incidentRepository.update(
-        { id_incidencias: id },
-        { soporte_id: soporteId }
+      return await this.updateWithHistory(
+        id,
+        { soporte_id: soporteId },
+        actorId
       );
-
-      return updateResult.affected !== undefined && updateResult.affected > 0;
     } catch (error) {
       console.error("Error assigning incident:", error);
       throw new Error("Error al asignar la incidencia");
     }
   }
 
-  async deleteIncident(id: number): Promise<boolean> {
-    const existingIncident = await this.port.getIncidentById(id);
-    if (!existingIncident) {
-      throw new Error("Incidencia no encontrada");
+  async assignIncidentGroup(
+    id: number,
+    grupoSoporteId: number | null,
+    actorId: number
+  ): Promise<boolean> {
+    try {
+      return await this.updateWithHistory(
+        id,
+        { grupo_soporte_id: grupoSoporteId },
+        actorId
+      );
+    } catch (error) {
+      console.error("Error assigning incident group:", error);
+      throw new Error("Error al asignar el grupo de soporte de la incidencia");
     }
-    return await this.port.deleteIncident(id);
   }
 
-  async getIncidentStatistics(filters?: {
-    fechaDesde?: Date;
-    fechaHasta?: Date;
-    usuarioId?: number;
-    categoriaId?: number;
-  }): Promise<{
-    total: number;
-    abiertas: number;
-    enProgreso: number;
-    cerradas: number;
-    porCategoria: { [key: string]: number };
-    porPrioridad: { [key: string]: number };
-    tiempoPromedioResolucion?: number;
-  }> {
-    try {
-      console.log("Iniciando getIncidentStatistics con filtros:", filters);
-
-      let whereConditions = "1 = 1";
-      const queryParams: any = {};
-
-      if (filters) {
-        if (filters.fechaDesde) {
-          whereConditions += " AND incident.creado_en >= :fechaDesde";
-          queryParams.fechaDesde = filters.fechaDesde;
-        }
-        if (filters.fechaHasta) {
-          whereConditions += " AND incident.creado_en <= :fechaHasta";
-          queryParams.fechaHasta = filters.fechaHasta;
-        }
-        if (filters.usuarioId) {
-          whereConditions += " AND incident.usuario_id = :usuarioId";
-          queryParams.usuarioId = filters.usuarioId;
-        }
-        if (filters.categoriaId) {
-          whereConditions += " AND incident.categoria_id = :categoriaId";
-          queryParams.categoriaId = filters.categoriaId;
-        }
+  /**
+   * Aplica los cambios sobre la incidencia y registra en el historial cada
+   * campo cuyo valor cambia, todo dentro de una única transacción
+   * La fila queda bloqueada hasta el final de la transacción, de modo que un
+   * cambio de estado concurrente espera y se comprueba contra el estado ya
+   * actualizado
+   */
+  private async updateWithHistory(
+    id: number,
+    updatedFields: Partial<IncidentEntity>,
+    actorId: number,
+    cambioEstado?: IncidentStatusChange
+  ): Promise<boolean> {
+    return await AppDataSource.transaction(async (manager) => {
+      const repository = manager.getRepository(IncidentEntity);
+      const existingIncident = await repository.findOne({
+        where: { id_incidencias: id },
+        lock: { mode: "pessimistic_write" },
+      });
+
+      if (!existingIncident) {
+        return false;
       }
 
-      // 1. Estadísticas básicas por estado
-      const basicStatsQuery = `
-      SELECT 
-        COUNT(*) as total,
-        SUM(CASE WHEN estado = 'abierta' THEN 1 ELSE 0 END) as abiertas,
-        SUM(CASE WHEN estado = 'en_progreso' THEN 1 ELSE 0 END) as enProgreso,
-        SUM(CASE WHEN estado = 'cerrada' THEN 1 ELSE 0 END) as cerradas
-      FROM incidencias incident
-      WHERE ${whereConditions}
-    `;
-
-      const basicStats = await this.incidentRepository.manager.query(
-        basicStatsQuery,
-        queryParams
+      if (cambioEstado && existingIncident.estado !== cambioEstado.estadoAnterior) {
+        throw new Error(STATUS_CONFLICT_ERROR);
+      }
+
+      if (Object.keys(updatedFields).length === 0) {
+        return true;
+      }
+
+      if (cambioEstado && cambioEstado.estado !== existingIncident.estado) {
+        Object.assign(
+          updatedFields,
+          this.lifecycleChanges(existingIncident, cambioEstado)
+        );
+      }
+
+      const updateResult = await repository.update(
+        { id_incidencias: id },
+        updatedFields
       );
-      console.log("Basic stats result:", basicStats);
 
-      const stats = basicStats[0];
-      const total = parseInt(stats.total) || 0;
-      const abiertas = parseInt(stats.abiertas) || 0;
-      const enProgreso = parseInt(stats.enProgreso) || 0;
-      const cerradas = parseInt(stats.cerradas) || 0;
+      await this.recordHistory(manager, existingIncident, updatedFields, actorId);
+
+      return updateResult.affected !== undefined && updateResult.affected > 0;
+    });
+  }
+
+  /**
+   * Calcula las marcas de ciclo de vida que acompañan a un cambio de estado:
+   * - primera respuesta: la primera vez que la incidencia sale del estado inicial
+   * - cierre: cada vez que pasa a un estado final
+   * - reapertura: al salir de un estado final, se incrementa el contador y se
+   *   limpian el cierre, la nota de resolución y el código de cierre
+   */
+  private lifecycleChanges(
+    existingIncident: IncidentEntity,
+    cambio: IncidentStatusChange
+  ): Partial<IncidentEntity> {
+    const ahora = new Date();
+    const changes: Partial<IncidentEntity> = {};
+
+    if (cambio.tipoNuevo !== "inicial" && !existingIncident.fecha_primera_respuesta) {
+      changes.fecha_primera_respuesta = ahora;
+    }
+
+    if (cambio.tipoNuevo === "final") {
+      changes.fecha_cierre = ahora;
+    } else if (cambio.tipoAnterior === "final") {
+      changes.fecha_cierre = null;
+      changes.nota_resolucion = null;
+      changes.codigo_cierre_id = null;
+      changes.fecha_reapertura = ahora;
+      changes.reaperturas = (existingIncident.reaperturas || 0) + 1;
+    }
+
+    return changes;
+  }
+
+  private async recordHistory(
+    manager: EntityManager,
+    existingIncident: IncidentEntity,
+    updatedFields: Partial<IncidentEntity>,
+    actorId: number
+  ): Promise<void> {
+    const entries = Object.entries(updatedFields)
+      .filter(([column]) => HISTORY_FIELDS[column] !== undefined)
+      .map(([column, value]) => ({
+        campo: HISTORY_FIELDS[column],
+        valorAnterior: this.toHistoryValue((existingIncident as any)[column]),
+        valorNuevo: this.toHistoryValue(value),
+      }))
+      .filter((change) => change.valorAnterior !== change.valorNuevo)
+      .map((change) => {
+        const entry = new HistorialIncidenciaEntity();
+        entry.incidencia_id = existingIncident.id_incidencias;
+        entry.campo = change.campo;
+        entry.valor_anterior = change.valorAnterior;
+        entry.valor_nuevo = change.valorNuevo;
+        entry.usuario_id = actorId;
+        return entry;
+      });
+
+    if (entries.length > 0) {
+      await manager.getRepository(HistorialIncidenciaEntity).save(entries);
+    }
+  }
+
+  private toHistoryValue(value: unknown): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
+  async deleteIncident(id: number): Promise<boolean> {
+    try {
+      const result = await this.incidentRepository.delete({
+        id_incidencias: id,
+      });
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error deleting incident:", error);
+      throw new Error("Error al eliminar la incidencia");
+    }
+  }
+
+  async getIncidentsResolvedBefore(
+    estado: IncidentStatus,
+    limite: Date
+  ): Promise<IncidentDomain[]> {
+    try {
+      const incidents = await this.incidentRepository
+        .createQueryBuilder("incident")
+        .where("incident.estado = :estado", { estado })
+        .andWhere("incident.fecha_resolucion < :limite", { limite })
+        .orderBy("incident.fecha_resolucion", "ASC")
+        .getMany();
+
+      return incidents.map((incident) => this.toDomain(incident));
+    } catch (error) {
+      console.error("Error fetching resolved incidents:", error);
+      throw new Error("Error al obtener las incidencias resueltas");
+    }
+  }
+
+  async countIncidentsByStatus(): Promise<{ [estado: string]: number }> {
+    try {
+      const rows: { estado: string; cantidad: string }[] =
+        await this.incidentRepository
+          .createQueryBuilder("incident")
+          .select("incident.estado", "estado")
+          .addSelect("COUNT(*)", "cantidad")
+          .groupBy("incident.estado")
+          .getRawMany();
+
+      const conteo: { [estado: string]: number } = {};
+      rows.forEach((row) => {
+        conteo[row.estado] = parseInt(row.cantidad) || 0;
+      });
+      return conteo;
+    } catch (error) {
+      console.error("Error counting incidents by status:", error);
+      throw new Error("Error al contar las incidencias por estado");
+    }
+  }
+
+  async getIncidentStatistics(
+    filters?: IncidentStatisticsFilters
+  ): Promise<Omit<IncidentStatistics, "abiertas" | "enProgreso" | "cerradas">> {
+    try {
+      // 1. Estadísticas básicas por estado
+      const basicStats = await this.statisticsQuery(filters)
+        .select("incident.estado", "estado")
+        .addSelect("COUNT(*)", "cantidad")
+        .addSelect("SUM(incident.reaperturas)", "reaperturas")
+        .addSelect(
+          "SUM(CASE WHEN incident.reaperturas > 0 THEN 1 ELSE 0 END)",
+          "reabiertas"
+        )
+        .addSelect(
+          "SUM(CASE WHEN incident.incidencia_origen_id IS NOT NULL THEN 1 ELSE 0 END)",
+          "seguimientos"
+        )
+        .groupBy("incident.estado")
+        .getRawMany();
+
+      let total = 0;
+      let reaperturas = 0;
+      let incidenciasReabiertas = 0;
+      let seguimientos = 0;
+      const porEstado: { [key: string]: number } = {};
+      basicStats.forEach((stat: any) => {
+        const cantidad = parseInt(stat.cantidad) || 0;
+        porEstado[stat.estado] = cantidad;
+        total += cantidad;
+        reaperturas += parseInt(stat.reaperturas) || 0;
+        incidenciasReabiertas += parseInt(stat.reabiertas) || 0;
+        seguimientos += parseInt(stat.seguimientos) || 0;
+      });
 
       // 2. Estadísticas por categoría
-      const categoryStatsQuery = `
-      SELECT 
-        c.nombre as categoria_nombre,
-        COUNT(incident.id_incidencias) as cantidad
-      FROM incidencias incident
-      LEFT JOIN categorias c ON incident.categoria_id = c.id_categorias
-      WHERE ${whereConditions}
-      GROUP BY incident.categoria_id, c.nombre
-      ORDER BY cantidad DESC
-    `;
-
-      const categoryStats = await this.incidentRepository.manager.query(
-        categoryStatsQuery,
-        queryParams
-      );
-      console.log("Category stats result:", categoryStats);
+      const categoryStats = await this.statisticsQuery(filters)
+        .leftJoin("incident.categoria", "categoria")
+        .select("categoria.nombre", "categoria_nombre")
+        .addSelect("COUNT(incident.id_incidencias)", "cantidad")
+        .groupBy("incident.categoria_id")
+        .addGroupBy("categoria.nombre")
+        .orderBy("cantidad", "DESC")
+        .getRawMany();
 
       const porCategoria: { [key: string]: number } = {};
       categoryStats.forEach((stat: any) => {
@@ -522,22 +890,14 @@ export class IncidentAdapter implements IncidentPort {
       });
 
       // 3. Estadísticas por prioridad
-      const priorityStatsQuery = `
-      SELECT 
-        p.nombre_prioridad as prioridad_nombre,
-        COUNT(incident.id_incidencias) as cantidad
-      FROM incidencias incident
-      LEFT JOIN prioridades p ON incident.prioridad_id = p.id_prioridad
-      WHERE ${whereConditions}
-      GROUP BY incident.prioridad_id, p.nombre_prioridad
-      ORDER BY cantidad DESC
-    `;
-
-      const priorityStats = await this.incidentRepository.manager.query(
-        priorityStatsQuery,
-        queryParams
-      );
-      console.log("Priority stats result:", priorityStats);
+      const priorityStats = await this.statisticsQuery(filters)
+        .leftJoin("incident.prioridad", "prioridad")
+        .select("prioridad.nombre_prioridad", "prioridad_nombre")
+        .addSelect("COUNT(incident.id_incidencias)", "cantidad")
+        .groupBy("incident.prioridad_id")
+        .addGroupBy("prioridad.nombre_prioridad")
+        .orderBy("cantidad", "DESC")
+        .getRawMany();
 
       const porPrioridad: { [key: string]: number } = {};
       priorityStats.forEach((stat: any) => {
@@ -545,51 +905,212 @@ export class IncidentAdapter implements IncidentPort {
         porPrioridad[prioridad] = parseInt(stat.cantidad) || 0;
       });
 
-      // 4. Tiempo promedio de resolución (solo para incidencias cerradas)
-      let tiempoPromedioResolucion: number | undefined;
-      if (cerradas > 0) {
-        const resolutionTimeQuery = `
-        SELECT 
-          AVG(TIMESTAMPDIFF(HOUR, creado_en, actualizado_en)) as promedio_horas
-        FROM incidencias incident
-        WHERE estado = 'cerrada' AND ${whereConditions}
-      `;
-
-        const resolutionResult = await this.incidentRepository.manager.query(
-          resolutionTimeQuery,
-          queryParams
-        );
-        console.log("Resolution time result:", resolutionResult);
-
-        if (
-          resolutionResult[0] &&
-          resolutionResult[0].promedio_horas !== null
-        ) {
-          tiempoPromedioResolucion = parseFloat(
-            resolutionResult[0].promedio_horas
-          );
-        }
-      }
+      // 4. Estadísticas por código de cierre (solo incidencias con código)
+      const closureCodeStats = await this.statisticsQuery(filters)
+        .innerJoin("incident.codigoCierre", "codigo")
+        .select("codigo.nombre", "codigo_nombre")
+        .addSelect("COUNT(incident.id_incidencias)", "cantidad")
+        .groupBy("incident.codigo_cierre_id")
+        .addGroupBy("codigo.nombre")
+        .orderBy("cantidad", "DESC")
+        .getRawMany();
+
+      const porCodigoCierre: { [key: string]: number } = {};
+      closureCodeStats.forEach((stat: any) => {
+        porCodigoCierre[stat.codigo_nombre] = parseInt(stat.cantidad) || 0;
+      });
 
-      const finalResult = {
+      // 5. Cumplimiento de SLA por prioridad y por categoría
+      const slaByPriority = await this.withSlaColumns(
+        this.statisticsQuery(filters)
+          .leftJoin("incident.prioridad", "prioridad")
+          .select("prioridad.nombre_prioridad", "grupo")
+          .groupBy("incident.prioridad_id")
+          .addGroupBy("prioridad.nombre_prioridad")
+      ).getRawMany();
+
+      const slaByCategory = await this.withSlaColumns(
+        this.statisticsQuery(filters)
+          .leftJoin("incident.categoria", "categoria")
+          .select("categoria.nombre", "grupo")
+          .groupBy("incident.categoria_id")
+          .addGroupBy("categoria.nombre")
+      ).getRawMany();
+
+      const cumplimientoSla = {
+        porPrioridad: this.toSlaCompliance(slaByPriority, "Sin prioridad"),
+        porCategoria: this.toSlaCompliance(slaByCategory, "Sin categoría"),
+      };
+
+      return {
         total,
-        abiertas,
-        enProgreso,
-        cerradas,
+        reaperturas,
+        incidenciasReabiertas,
+        seguimientos,
+        porEstado,
         porCategoria,
         porPrioridad,
-        tiempoPromedioResolucion,
+        porCodigoCierre,
+        cumplimientoSla,
       };
-
-      console.log("Final statistics result:", finalResult);
-      return finalResult;
     } catch (error) {
       console.error("Error generating incident statistics:", error);
-      console.error(
-        "Stack trace:",
-        error instanceof Error ? error.stack : "No stack trace"
-      );
       throw new Error("Error al obtener estadísticas de incidencias");
     }
   }
+
+  async getIncidentLifecycleTimes(
+    filters?: IncidentStatisticsFilters
+  ): Promise<
+    Pick<IncidentDomain, "estado" | "creadoEn" | "fechaPrimeraRespuesta" | "fechaCierre">[]
+  > {
+    try {
+      const queryBuilder = this.incidentRepository
+        .createQueryBuilder("incident")
+        .select([
+          "incident.estado",
+          "incident.creado_en",
+          "incident.fecha_primera_respuesta",
+          "incident.fecha_cierre",
+        ])
+        .where(
+          "(incident.fecha_primera_respuesta IS NOT NULL OR incident.fecha_cierre IS NOT NULL)"
+        );
+
+      applyIncidentFilters(queryBuilder, filters);
+
+      const incidents = await queryBuilder.getMany();
+      return incidents.map((incident) => ({
+        estado: incident.estado,
+        creadoEn: incident.creado_en,
+        fechaPrimeraRespuesta: incident.fecha_primera_respuesta ?? undefined,
+        fechaCierre: incident.fecha_cierre ?? undefined,
+      }));
+    } catch (error) {
+      console.error("Error fetching incident lifecycle times:", error);
+      throw new Error("Error al obtener los tiempos de las incidencias");
+    }
+  }
+
+  private encodeCursor(
+    incident: IncidentEntity,
+    pagination: IncidentPagination
+  ): string {
+    let valor: string | number;
+    switch (pagination.ordenarPor) {
+      case "actualizadoEn":
+        valor = incident.actualizado_en.toISOString();
+        break;
+      case "prioridad":
+        valor = incident.prioridad.nivel_prioridad;
+        break;
+      case "estado":
+        // Misma posición que devuelve FIELD (0 si el estado no está en la lista)
+        valor = (pagination.ordenEstados ?? []).indexOf(incident.estado) + 1;
+        break;
+      default:
+        valor = incident.creado_en.toISOString();
+    }
+
+    return Buffer.from(
+      JSON.stringify({ valor, id: incident.id_incidencias })
+    ).toString("base64url");
+  }
+
+  private decodeCursor(
+    cursor: string,
+    ordenarPor: IncidentSortField
+  ): { valor: string | number; id: number } {
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(cursor, "base64url").toString("utf8")
+      );
+
+      // El cursor debe corresponder al mismo criterio de ordenación
+      const valorValido =
+        ordenarPor === "prioridad" || ordenarPor === "estado"
+          ? typeof decoded.valor === "number"
+          : typeof decoded.valor === "string" &&
+            !isNaN(new Date(decoded.valor).getTime());
+
+      if (valorValido && Number.isInteger(decoded.id) && decoded.id > 0) {
+        return { valor: decoded.valor, id: decoded.id };
+      }
+    } catch {
+      // Se trata igual que un cursor con contenido inesperado
+    }
+
+    throw new Error("El cursor de paginación no es válido");
+  }
+
+  /**
+   * Consulta base de las estadísticas con los filtros aplicados como
+   * parámetros enlazados; cada agregado parte de una consulta nueva
+   */
+  private statisticsQuery(
+    filters?: IncidentStatisticsFilters
+  ): SelectQueryBuilder<IncidentEntity> {
+    const queryBuilder = this.incidentRepository.createQueryBuilder("incident");
+    applyIncidentFilters(queryBuilder, filters);
+    return queryBuilder;
+  }
+
+  /**
+   * Incidencias evaluadas y cumplidas respecto a los plazos de respuesta y
+   * de resolución; un plazo se evalúa cuando se ha cumplido o ya ha vencido
+   */
+  private withSlaColumns(
+    queryBuilder: SelectQueryBuilder<IncidentEntity>
+  ): SelectQueryBuilder<IncidentEntity> {
+    return queryBuilder
+      .addSelect(
+        `SUM(CASE WHEN incident.fecha_limite_respuesta IS NOT NULL
+          AND (incident.fecha_primera_respuesta IS NOT NULL
+            OR incident.fecha_limite_respuesta < NOW())
+          THEN 1 ELSE 0 END)`,
+        "evaluadas_respuesta"
+      )
+      .addSelect(
+        `SUM(CASE WHEN incident.fecha_primera_respuesta <= incident.fecha_limite_respuesta
+          THEN 1 ELSE 0 END)`,
+        "cumplidas_respuesta"
+      )
+      .addSelect(
+        `SUM(CASE WHEN incident.fecha_limite_resolucion IS NOT NULL
+          AND (incident.fecha_cierre IS NOT NULL
+            OR incident.fecha_limite_resolucion < NOW())
+          THEN 1 ELSE 0 END)`,
+        "evaluadas_resolucion"
+      )
+      .addSelect(
+        `SUM(CASE WHEN incident.fecha_cierre <= incident.fecha_limite_resolucion
+          THEN 1 ELSE 0 END)`,
+        "cumplidas_resolucion"
+      );
+  }
+
+  private toSlaCompliance(
+    rows: any[],
+    sinGrupo: string
+  ): { [key: string]: SlaCompliance } {
+    const percentage = (cumplidas: any, evaluadas: any): number | undefined => {
+      const total = parseInt(evaluadas) || 0;
+      if (total === 0) {
+        return undefined;
+      }
+      return Math.round(((parseInt(cumplidas) || 0) / total) * 10000) / 100;
+    };
+
+    const compliance: { [key: string]: SlaCompliance } = {};
+    rows.forEach((row: any) => {
+      compliance[row.grupo || sinGrupo] = {
+        respuesta: percentage(row.cumplidas_respuesta, row.evaluadas_respuesta),
+        resolucion: percentage(
+          row.cumplidas_resolucion,
+          row.evaluadas_resolucion
+        ),
+      };
+    });
+    return compliance;
+  }
 }
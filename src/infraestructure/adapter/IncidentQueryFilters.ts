@@ -0,0 +1,81 @@
+import { SelectQueryBuilder } from "typeorm";
+import { IncidentFilters } from "../../domain/Incident";
+import { Incident as IncidentEntity } from "../entities/Incident";
+
+/**
+ * Aplica los filtros de incidencias a una consulta cuyo alias de la
+ * incidencia es "incident"
+ * Compartido por los adaptadores que consultan la tabla de incidencias
+ */
+export function applyIncidentFilters(
+  queryBuilder: SelectQueryBuilder<IncidentEntity>,
+  filters?: IncidentFilters
+): void {
+  if (!filters) {
+    return;
+  }
+
+  if (filters.estado) {
+    queryBuilder.andWhere("incident.estado = :estado", {
+      estado: filters.estado,
+    });
+  }
+
+  if (filters.usuarioId) {
+    queryBuilder.andWhere("incident.usuario_id = :usuarioId", {
+      usuarioId: filters.usuarioId,
+    });
+  }
+
+  if (filters.soporteId) {
+    queryBuilder.andWhere("incident.soporte_id = :soporteId", {
+      soporteId: filters.soporteId,
+    });
+  }
+
+  if (filters.colaSoporteId) {
+    queryBuilder.andWhere(
+      "(incident.soporte_id = :colaSoporteId OR incident.soporte_id IS NULL)",
+      { colaSoporteId: filters.colaSoporteId }
+    );
+  }
+
+  if (filters.grupoSoporteId) {
+    queryBuilder.andWhere("incident.grupo_soporte_id = :grupoSoporteId", {
+      grupoSoporteId: filters.grupoSoporteId,
+    });
+  }
+
+  if (filters.seguidorId) {
+    queryBuilder.andWhere(
+      `EXISTS (SELECT 1 FROM seguidores_incidencias seguidor
+        WHERE seguidor.incidencia_id = incident.id_incidencias
+        AND seguidor.usuario_id = :seguidorId)`,
+      { seguidorId: filters.seguidorId }
+    );
+  }
+
+  if (filters.categoriaId) {
+    queryBuilder.andWhere("incident.categoria_id = :categoriaId", {
+      categoriaId: filters.categoriaId,
+    });
+  }
+
+  if (filters.prioridadId) {
+    queryBuilder.andWhere("incident.prioridad_id = :prioridadId", {
+      prioridadId: filters.prioridadId,
+    });
+  }
+
+  if (filters.fechaDesde) {
+    queryBuilder.andWhere("incident.creado_en >= :fechaDesde", {
+      fechaDesde: filters.fechaDesde,
+    });
+  }
+
+  if (filters.fechaHasta) {
+    queryBuilder.andWhere("incident.creado_en <= :fechaHasta", {
+      fechaHasta: filters.fechaHasta,
+    });
+  }
+}
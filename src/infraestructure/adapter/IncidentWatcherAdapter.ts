@@ -0,0 +1,107 @@
+import { Repository } from "typeorm";
+import { IncidentWatcher as IncidentWatcherDomain } from "../../domain/IncidentWatcher";
+import { WatcherPort } from "../../domain/WatcherPort";
+import { IncidentWatcher as IncidentWatcherEntity } from "../entities/IncidentWatcher";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia de seguidores de incidencias usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ */
+export class IncidentWatcherAdapter implements WatcherPort {
+  private watcherRepository: Repository<IncidentWatcherEntity>;
+
+  constructor() {
+    this.watcherRepository = AppDataSource.getRepository(IncidentWatcherEntity);
+  }
+
+  private toDomain(entity: IncidentWatcherEntity): IncidentWatcherDomain {
+    const watcher: IncidentWatcherDomain = {
+      incidenciaId: entity.incidencia_id,
+      usuarioId: entity.usuario_id,
+      agregadoPorId: entity.agregado_por_id ?? undefined,
+      creadoEn: entity.creado_en,
+    };
+
+    if (entity.usuario) {
+      watcher.usuario = {
+        id: entity.usuario.id_usuarios,
+        nombre: entity.usuario.nombre,
+        email: entity.usuario.email,
+      };
+    }
+
+    return watcher;
+  }
+
+  async getWatcherIds(incidenciaId: number): Promise<number[]> {
+    try {
+      const watchers = await this.watcherRepository.find({
+        where: { incidencia_id: incidenciaId },
+      });
+      return watchers.map((watcher) => watcher.usuario_id);
+    } catch (error) {
+      console.error("Error fetching incident watchers:", error);
+      throw new Error("Error al obtener los seguidores de la incidencia");
+    }
+  }
+
+  async getWatchers(incidenciaId: number): Promise<IncidentWatcherDomain[]> {
+    try {
+      const watchers = await this.watcherRepository.find({
+        where: { incidencia_id: incidenciaId },
+        relations: { usuario: true },
+        order: { creado_en: "ASC" },
+      });
+      return watchers.map((watcher) => this.toDomain(watcher));
+    } catch (error) {
+      console.error("Error fetching incident watchers:", error);
+      throw new Error("Error al obtener los seguidores de la incidencia");
+    }
+  }
+
+  async isWatching(incidenciaId: number, usuarioId: number): Promise<boolean> {
+    try {
+      return await this.watcherRepository.exists({
+        where: { incidencia_id: incidenciaId, usuario_id: usuarioId },
+      });
+    } catch (error) {
+      console.error("Error checking incident watcher:", error);
+      throw new Error("Error al comprobar el seguimiento de la incidencia");
+    }
+  }
+
+  async addWatcher(
+    incidenciaId: number,
+    usuarioId: number,
+    agregadoPorId?: number
+  ): Promise<boolean> {
+    try {
+      const watcher = new IncidentWatcherEntity();
+      watcher.incidencia_id = incidenciaId;
+      watcher.usuario_id = usuarioId;
+      watcher.agregado_por_id = agregadoPorId ?? null;
+      await this.watcherRepository.save(watcher);
+      return true;
+    } catch (error) {
+      console.error("Error adding incident watcher:", error);
+      throw new Error("Error al añadir el seguidor de la incidencia");
+    }
+  }
+
+  async removeWatcher(
+    incidenciaId: number,
+    usuarioId: number
+  ): Promise<boolean> {
+    try {
+      const result = await this.watcherRepository.delete({
+        incidencia_id: incidenciaId,
+        usuario_id: usuarioId,
+      });
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error removing incident watcher:", error);
+      throw new Error("Error al quitar el seguidor de la incidencia");
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { FileStoragePort } from "../../domain/FileStoragePort";
+
+/**
+ * Formato de las claves generadas: año/mes/uuid
+ * Se valida al leer o eliminar para impedir rutas fuera del directorio base
+ */
+const KEY_PATTERN = /^\d{4}\/\d{2}\/[0-9a-f-]{36}$/;
+
+/**
+ * Adaptador de almacenamiento de archivos en el sistema de archivos local
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * Los archivos se guardan sin extensión bajo el directorio base, agrupados
+ * por año y mes de subida; el nombre original se conserva en los metadatos
+ */
+export class LocalFileStorageAdapter implements FileStoragePort {
+  private baseDir: string;
+
+  constructor(baseDir: string) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  async saveFile(contenido: Buffer): Promise<string> {
+    const ahora = new Date();
+    const clave = [
+      ahora.getFullYear(),
+      String(ahora.getMonth() + 1).padStart(2, "0"),
+      randomUUID(),
+    ].join("/");
+
+    try {
+      const ruta = this.resolvePath(clave);
+      await fs.mkdir(path.dirname(ruta), { recursive: true });
+      await fs.writeFile(ruta, contenido, { flag: "wx" });
+      return clave;
+    } catch (error) {
+      console.error("Error saving file:", error);
+      throw new Error("Error al guardar el archivo");
+    }
+  }
+
+  async readFile(clave: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolvePath(clave));
+    } catch (error) {
+      console.error("Error reading file:", error);
+      throw new Error("Archivo no encontrado en el almacenamiento");
+    }
+  }
+
+  async deleteFiles(claves: string[]): Promise<void> {
+    for (const clave of claves) {
+      try {
+        await fs.rm(this.resolvePath(clave), { force: true });
+      } catch (error) {
+        // Un archivo que no se pueda borrar no debe impedir borrar el resto
+        console.error(`Error deleting file ${clave}:`, error);
+      }
+    }
+  }
+
+  private resolvePath(clave: string): string {
+    if (!KEY_PATTERN.test(clave)) {
+      throw new Error("Clave de almacenamiento no válida");
+    }
+    return path.join(this.baseDir, ...clave.split("/"));
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  Between,
+  FindOptionsWhere,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from "typeorm";
+import {
+  LoginAttempt as LoginAttemptDomain,
+  LoginAttemptFilters,
+  LoginFailureReason,
+  LoginThrottle as LoginThrottleDomain,
+} from "../../domain/LoginAttempt";
+import { LoginAttemptPort } from "../../domain/LoginAttemptPort";
+import { LoginAttempt as LoginAttemptEntity } from "../entities/LoginAttempt";
+import { LoginThrottle as LoginThrottleEntity } from "../entities/LoginThrottle";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa el registro de intentos de inicio de sesión
+ * y los contadores de fallos usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ */
+export class LoginAttemptAdapter implements LoginAttemptPort {
+  private attemptRepository: Repository<LoginAttemptEntity>;
+  private throttleRepository: Repository<LoginThrottleEntity>;
+
+  constructor() {
+    this.attemptRepository = AppDataSource.getRepository(LoginAttemptEntity);
+    this.throttleRepository = AppDataSource.getRepository(LoginThrottleEntity);
+  }
+
+  private toAttemptDomain(entity: LoginAttemptEntity): LoginAttemptDomain {
+    return {
+      id: entity.id_intento,
+      email: entity.email,
+      usuarioId: entity.usuario_id ?? undefined,
+      ip: entity.ip,
+      exito: entity.exito,
+      motivo: (entity.motivo as LoginFailureReason | null) ?? undefined,
+      fecha: entity.fecha,
+    };
+  }
+
+  private toThrottleDomain(entity: LoginThrottleEntity): LoginThrottleDomain {
+    return {
+      tipo: entity.tipo,
+      clave: entity.clave,
+      fallos: entity.fallos,
+      ultimoFallo: entity.ultimo_fallo,
+      bloqueadoHasta: entity.bloqueado_hasta ?? undefined,
+    };
+  }
+
+  async recordAttempt(
+    attempt: Omit<LoginAttemptDomain, "id" | "fecha">
+  ): Promise<number> {
+    try {
+      const entity = new LoginAttemptEntity();
+      entity.email = attempt.email;
+      entity.usuario_id = attempt.usuarioId ?? null;
+      entity.ip = attempt.ip;
+      entity.exito = attempt.exito;
+      entity.motivo = attempt.motivo ?? null;
+      const saved = await this.attemptRepository.save(entity);
+      return saved.id_intento;
+    } catch (error) {
+      console.error("Error recording login attempt:", error);
+      throw new Error("Error al registrar el intento de inicio de sesión");
+    }
+  }
+
+  async getAttempts(
+    filters: LoginAttemptFilters,
+    limite: number
+  ): Promise<LoginAttemptDomain[]> {
+    try {
+      const where: FindOptionsWhere<LoginAttemptEntity> = {};
+      if (filters.email) where.email = filters.email;
+      if (filters.ip) where.ip = filters.ip;
+      if (filters.exito !== undefined) where.exito = filters.exito;
+      if (filters.desde && filters.hasta) {
+        where.fecha = Between(filters.desde, filters.hasta);
+      } else if (filters.desde) {
+        where.fecha = MoreThanOrEqual(filters.desde);
+      } else if (filters.hasta) {
+        where.fecha = LessThanOrEqual(filters.hasta);
+      }
+
+      const attempts = await this.attemptRepository.find({
+        where,
+        order: { fecha: "DESC", id_intento: "DESC" },
+        take: limite,
+      });
+      return attempts.map((attempt) => this.toAttemptDomain(attempt));
+    } catch (error) {
+      console.error("Error fetching login attempts:", error);
+      throw new Error("Error al obtener los intentos de inicio de sesión");
+    }
+  }
+
+  async getThrottle(
+    tipo: LoginThrottleDomain["tipo"],
+    clave: string
+  ): Promise<LoginThrottleDomain | null> {
+    try {
+      const throttle = await this.throttleRepository.findOne({
+        where: { tipo, clave },
+      });
+      return throttle ? this.toThrottleDomain(throttle) : null;
+    } catch (error) {
+      console.error("Error fetching login throttle:", error);
+      throw new Error("Error al obtener el contador de intentos fallidos");
+    }
+  }
+
+  async updateThrottle(
+    tipo: LoginThrottleDomain["tipo"],
+    clave: string,
+    actualizar: (actual: LoginThrottleDomain | null) => LoginThrottleDomain
+  ): Promise<LoginThrottleDomain> {
+    try {
+      return await AppDataSource.transaction(async (manager) => {
+        const repository = manager.getRepository(LoginThrottleEntity);
+
+        // La fila debe existir para poder bloquearla; un contador recién
+        // creado sin fallos equivale a no tener contador
+        await repository
+          .createQueryBuilder()
+          .insert()
+          .values({ tipo, clave, fallos: 0, ultimo_fallo: new Date() })
+          .orIgnore()
+          .execute();
+
+        const current = await repository
+          .createQueryBuilder("throttle")
+          .setLock("pessimistic_write")
+          .where("throttle.tipo = :tipo", { tipo })
+          .andWhere("throttle.clave = :clave", { clave })
+          .getOne();
+
+        const throttle = actualizar(
+          current && current.fallos > 0 ? this.toThrottleDomain(current) : null
+        );
+
+        await repository.update(
+          { tipo, clave },
+          {
+            fallos: throttle.fallos,
+            ultimo_fallo: throttle.ultimoFallo,
+            bloqueado_hasta: throttle.bloqueadoHasta ?? null,
+          }
+        );
+        return throttle;
+      });
+    } catch (error) {
+      console.error("Error updating login throttle:", error);
+      throw new Error("Error al guardar el contador de intentos fallidos");
+    }
+  }
+
+  async clearThrottle(
+    tipo: LoginThrottleDomain["tipo"],
+    clave: string
+  ): Promise<boolean> {
+    try {
+      const result = await this.throttleRepository.delete({ tipo, clave });
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error clearing login throttle:", error);
+      throw new Error("Error al desbloquear el contador de intentos fallidos");
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { Repository } from "typeorm";
+import { IncidentFilters } from "../../domain/Incident";
+import { IncidentSearchHit, SearchMatch } from "../../domain/IncidentSearch";
+import { IncidentSearchPort } from "../../domain/IncidentSearchPort";
+import { Incident as IncidentEntity } from "../entities/Incident";
+import { Comments as CommentsEntity } from "../entities/Comments";
+import { AppDataSource } from "../config/data-base";
+import { applyIncidentFilters } from "./IncidentQueryFilters";
+
+const INCIDENT_MATCH =
+  "MATCH(incident.titulo, incident.descripcion) AGAINST (:texto IN NATURAL LANGUAGE MODE)";
+const COMMENT_MATCH =
+  "MATCH(comentario.comentario) AGAINST (:texto IN NATURAL LANGUAGE MODE)";
+const PUBLIC_COMMENT = "comentario.visibilidad = 'publico'";
+
+/**
+ * Peso del título y la descripción frente a los comentarios en la relevancia
+ */
+const INCIDENT_WEIGHT = 2;
+
+/**
+ * Adaptador de búsqueda de texto completo sobre los índices FULLTEXT de MySQL
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * Requiere los índices FULLTEXT declarados en las entidades Incident
+ * (titulo, descripcion) y Comments (comentario)
+ */
+export class MySqlIncidentSearchAdapter implements IncidentSearchPort {
+  private incidentRepository: Repository<IncidentEntity>;
+  private commentsRepository: Repository<CommentsEntity>;
+
+  constructor() {
+    this.incidentRepository = AppDataSource.getRepository(IncidentEntity);
+    this.commentsRepository = AppDataSource.getRepository(CommentsEntity);
+  }
+
+  async searchIncidents(
+    texto: string,
+    filters: IncidentFilters,
+    limite: number,
+    incluirInternos: boolean
+  ): Promise<IncidentSearchHit[]> {
+    try {
+      const queryBuilder = this.incidentRepository
+        .createQueryBuilder("incident")
+        .select("incident.id_incidencias", "id")
+        .addSelect("incident.titulo", "titulo")
+        .addSelect("incident.descripcion", "descripcion")
+        .addSelect(
+          `${INCIDENT_MATCH} * ${INCIDENT_WEIGHT} + COALESCE(comentarios.puntuacion, 0)`,
+          "puntuacion"
+        )
+        .leftJoin(
+          (subQuery) => {
+            subQuery
+              .select("comentario.incidencia_id", "incidencia_id")
+              .addSelect(`SUM(${COMMENT_MATCH})`, "puntuacion")
+              .from(CommentsEntity, "comentario")
+              .where(COMMENT_MATCH)
+              .groupBy("comentario.incidencia_id");
+            if (!incluirInternos) {
+              subQuery.andWhere(PUBLIC_COMMENT);
+            }
+            return subQuery;
+          },
+          "comentarios",
+          "comentarios.incidencia_id = incident.id_incidencias"
+        )
+        .where(`(${INCIDENT_MATCH} OR comentarios.incidencia_id IS NOT NULL)`)
+        .setParameter("texto", texto);
+
+      applyIncidentFilters(queryBuilder, filters);
+
+      const rows = await queryBuilder
+        .orderBy("puntuacion", "DESC")
+        .addOrderBy("incident.id_incidencias", "DESC")
+        .limit(limite)
+        .getRawMany();
+
+      if (rows.length === 0) {
+        return [];
+      }
+
+      const ids = rows.map((row) => Number(row.id));
+      const commentsQuery = this.commentsRepository
+        .createQueryBuilder("comentario")
+        .where("comentario.incidencia_id IN (:...ids)", { ids })
+        .andWhere(COMMENT_MATCH, { texto });
+      if (!incluirInternos) {
+        commentsQuery.andWhere(PUBLIC_COMMENT);
+      }
+      const comments = await commentsQuery
+        .orderBy(COMMENT_MATCH, "DESC")
+        .getMany();
+
+      return rows.map((row) => {
+        const coincidencias: SearchMatch[] = [
+          { campo: "titulo", texto: row.titulo },
+        ];
+
+        if (row.descripcion) {
+          coincidencias.push({ campo: "descripcion", texto: row.descripcion });
+        }
+
+        comments
+          .filter((comment) => comment.incidencia_id === Number(row.id))
+          .forEach((comment) =>
+            coincidencias.push({
+              campo: "comentario",
+              texto: comment.comentario,
+              comentarioId: comment.id_comentarios,
+            })
+          );
+
+        return {
+          incidenciaId: Number(row.id),
+          puntuacion: parseFloat(row.puntuacion) || 0,
+          coincidencias,
+        };
+      });
+    } catch (error) {
+      console.error("Error searching incidents:", error);
+      throw new Error("Error al buscar incidencias");
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { Repository } from "typeorm";
+import {
+  NotificationPreference as NotificationPreferenceDomain,
+  NotificationType,
+} from "../../domain/NotificationPreference";
+import { NotificationPreferencePort } from "../../domain/NotificationPreferencePort";
+import { NotificationPreference as NotificationPreferenceEntity } from "../entities/NotificationPreference";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia de las preferencias de notificación
+ * usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ */
+export class NotificationPreferenceAdapter implements NotificationPreferencePort {
+  private preferenceRepository: Repository<NotificationPreferenceEntity>;
+
+  constructor() {
+    this.preferenceRepository = AppDataSource.getRepository(
+      NotificationPreferenceEntity
+    );
+  }
+
+  private toDomain(
+    entity: NotificationPreferenceEntity
+  ): NotificationPreferenceDomain {
+    return {
+      usuarioId: entity.usuario_id,
+      emailHabilitado: entity.email_habilitado,
+      tiposDesactivados: (entity.tipos_desactivados ?? []).filter(
+        (tipo) => tipo !== ""
+      ) as NotificationType[],
+    };
+  }
+
+  async getPreferences(
+    usuarioId: number
+  ): Promise<NotificationPreferenceDomain | null> {
+    try {
+      const preferences = await this.preferenceRepository.findOne({
+        where: { usuario_id: usuarioId },
+      });
+      return preferences ? this.toDomain(preferences) : null;
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      throw new Error("Error al obtener las preferencias de notificación");
+    }
+  }
+
+  async savePreferences(
+    preferences: NotificationPreferenceDomain
+  ): Promise<boolean> {
+    try {
+      const entity = new NotificationPreferenceEntity();
+      entity.usuario_id = preferences.usuarioId;
+      entity.email_habilitado = preferences.emailHabilitado;
+      entity.tipos_desactivados = preferences.tiposDesactivados;
+      await this.preferenceRepository.save(entity);
+      return true;
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      throw new Error("Error al guardar las preferencias de notificación");
+    }
+  }
+}
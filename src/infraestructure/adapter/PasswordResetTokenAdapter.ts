@@ -0,0 +1,84 @@
+import { IsNull, Repository } from "typeorm";
+import { PasswordResetToken as PasswordResetTokenDomain } from "../../domain/PasswordResetToken";
+import { PasswordResetTokenPort } from "../../domain/PasswordResetTokenPort";
+import { PasswordResetToken as PasswordResetTokenEntity } from "../entities/PasswordResetToken";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia de los tokens de restablecimiento
+ * de contraseña usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ */
+export class PasswordResetTokenAdapter implements PasswordResetTokenPort {
+  private tokenRepository: Repository<PasswordResetTokenEntity>;
+
+  constructor() {
+    this.tokenRepository = AppDataSource.getRepository(PasswordResetTokenEntity);
+  }
+
+  private toDomain(entity: PasswordResetTokenEntity): PasswordResetTokenDomain {
+    return {
+      id: entity.id_token,
+      usuarioId: entity.usuario_id,
+      tokenHash: entity.token_hash,
+      expiraEn: entity.expira_en,
+      usadoEn: entity.usado_en ?? undefined,
+      creadoEn: entity.creado_en,
+    };
+  }
+
+  async createToken(
+    token: Omit<PasswordResetTokenDomain, "id" | "creadoEn" | "usadoEn">
+  ): Promise<number> {
+    try {
+      const entity = new PasswordResetTokenEntity();
+      entity.usuario_id = token.usuarioId;
+      entity.token_hash = token.tokenHash;
+      entity.expira_en = token.expiraEn;
+      const saved = await this.tokenRepository.save(entity);
+      return saved.id_token;
+    } catch (error) {
+      console.error("Error creating password reset token:", error);
+      throw new Error("Error al crear el token de restablecimiento");
+    }
+  }
+
+  async getTokenByHash(
+    tokenHash: string
+  ): Promise<PasswordResetTokenDomain | null> {
+    try {
+      const token = await this.tokenRepository.findOne({
+        where: { token_hash: tokenHash },
+      });
+      return token ? this.toDomain(token) : null;
+    } catch (error) {
+      console.error("Error fetching password reset token:", error);
+      throw new Error("Error al obtener el token de restablecimiento");
+    }
+  }
+
+  async markTokenUsed(id: number): Promise<boolean> {
+    try {
+      const result = await this.tokenRepository.update(
+        { id_token: id, usado_en: IsNull() },
+        { usado_en: new Date() }
+      );
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error marking password reset token as used:", error);
+      throw new Error("Error al actualizar el token de restablecimiento");
+    }
+  }
+
+  async invalidateUserTokens(usuarioId: number): Promise<void> {
+    try {
+      await this.tokenRepository.update(
+        { usuario_id: usuarioId, usado_en: IsNull() },
+        { usado_en: new Date() }
+      );
+    } catch (error) {
+      console.error("Error invalidating password reset tokens:", error);
+      throw new Error("Error al invalidar los tokens de restablecimiento");
+    }
+  }
+}
@@ -28,6 +28,8 @@ export class PriorityAdapter implements PriorityPort {
       descripcion: entity.descripcion_prioridad,
       nivel: entity.nivel_prioridad,
       color: entity.color_prioridad,
+      horasRespuesta: entity.horas_respuesta ?? undefined,
+      horasResolucion: entity.horas_resolucion ?? undefined,
       estado: entity.estado_prioridad,
       fechaCreacion: entity.fecha_creacion,
     };
@@ -41,6 +43,8 @@ export class PriorityAdapter implements PriorityPort {
     priorityEntity.descripcion_prioridad = priority.descripcion;
     priorityEntity.nivel_prioridad = priority.nivel;
     priorityEntity.color_prioridad = priority.color;
+    priorityEntity.horas_respuesta = priority.horasRespuesta;
+    priorityEntity.horas_resolucion = priority.horasResolucion;
     priorityEntity.estado_prioridad = priority.estado || 1;
     return priorityEntity;
   }
@@ -114,6 +118,10 @@ export class PriorityAdapter implements PriorityPort {
           priority.descripcion ?? existingPriority.descripcion_prioridad,
         nivel_prioridad: priority.nivel ?? existingPriority.nivel_prioridad,
         color_prioridad: priority.color ?? existingPriority.color_prioridad,
+        horas_respuesta:
+          priority.horasRespuesta ?? existingPriority.horas_respuesta,
+        horas_resolucion:
+          priority.horasResolucion ?? existingPriority.horas_resolucion,
         estado_prioridad: priority.estado ?? existingPriority.estado_prioridad,
       });
 
@@ -0,0 +1,112 @@
+import { IsNull, MoreThan, Repository } from "typeorm";
+import { RefreshToken as RefreshTokenDomain } from "../../domain/RefreshToken";
+import { RefreshTokenPort } from "../../domain/RefreshTokenPort";
+import { RefreshToken as RefreshTokenEntity } from "../entities/RefreshToken";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia de los refresh tokens usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ */
+export class RefreshTokenAdapter implements RefreshTokenPort {
+  private tokenRepository: Repository<RefreshTokenEntity>;
+
+  constructor() {
+    this.tokenRepository = AppDataSource.getRepository(RefreshTokenEntity);
+  }
+
+  private toDomain(entity: RefreshTokenEntity): RefreshTokenDomain {
+    return {
+      id: entity.id_token,
+      usuarioId: entity.usuario_id,
+      sesionId: entity.sesion_id,
+      tokenHash: entity.token_hash,
+      expiraEn: entity.expira_en,
+      revocadoEn: entity.revocado_en ?? undefined,
+      creadoEn: entity.creado_en,
+    };
+  }
+
+  async createToken(
+    token: Omit<RefreshTokenDomain, "id" | "creadoEn" | "revocadoEn">
+  ): Promise<number> {
+    try {
+      const entity = new RefreshTokenEntity();
+      entity.usuario_id = token.usuarioId;
+      entity.sesion_id = token.sesionId;
+      entity.token_hash = token.tokenHash;
+      entity.expira_en = token.expiraEn;
+      const saved = await this.tokenRepository.save(entity);
+      return saved.id_token;
+    } catch (error) {
+      console.error("Error creating refresh token:", error);
+      throw new Error("Error al crear el refresh token");
+    }
+  }
+
+  async getTokenByHash(tokenHash: string): Promise<RefreshTokenDomain | null> {
+    try {
+      const token = await this.tokenRepository.findOne({
+        where: { token_hash: tokenHash },
+      });
+      return token ? this.toDomain(token) : null;
+    } catch (error) {
+      console.error("Error fetching refresh token:", error);
+      throw new Error("Error al obtener el refresh token");
+    }
+  }
+
+  async revokeToken(id: number): Promise<boolean> {
+    try {
+      // La condición sobre revocado_en evita que dos renovaciones
+      // simultáneas consuman el mismo token
+      const result = await this.tokenRepository.update(
+        { id_token: id, revocado_en: IsNull() },
+        { revocado_en: new Date() }
+      );
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error revoking refresh token:", error);
+      throw new Error("Error al revocar el refresh token");
+    }
+  }
+
+  async revokeSession(sesionId: string): Promise<void> {
+    try {
+      await this.tokenRepository.update(
+        { sesion_id: sesionId, revocado_en: IsNull() },
+        { revocado_en: new Date() }
+      );
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      throw new Error("Error al revocar la sesión");
+    }
+  }
+
+  async revokeUserSessions(usuarioId: number): Promise<void> {
+    try {
+      await this.tokenRepository.update(
+        { usuario_id: usuarioId, revocado_en: IsNull() },
+        { revocado_en: new Date() }
+      );
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      throw new Error("Error al revocar las sesiones del usuario");
+    }
+  }
+
+  async isSessionActive(sesionId: string, ahora: Date): Promise<boolean> {
+    try {
+      return await this.tokenRepository.exists({
+        where: {
+          sesion_id: sesionId,
+          revocado_en: IsNull(),
+          expira_en: MoreThan(ahora),
+        },
+      });
+    } catch (error) {
+      console.error("Error checking session:", error);
+      throw new Error("Error al comprobar la sesión");
+    }
+  }
+}
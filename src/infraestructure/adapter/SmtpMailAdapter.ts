@@ -0,0 +1,50 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { MailMessage, MailPort } from "../../domain/MailPort";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  remitente: string;
+}
+
+/**
+ * Adaptador de envío de correo mediante SMTP usando nodemailer
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * En desarrollo puede apuntarse a un servidor SMTP falso local
+ * (por ejemplo MailHog en el puerto 1025) sin autenticación
+ */
+export class SmtpMailAdapter implements MailPort {
+  private transporter: Transporter;
+  private remitente: string;
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user
+        ? { user: config.user, pass: config.password }
+        : undefined,
+    });
+    this.remitente = config.remitente;
+  }
+
+  async sendMail(message: MailMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: this.remitente,
+        to: message.para,
+        subject: message.asunto,
+        text: message.texto,
+        html: message.html,
+      });
+    } catch (error) {
+      console.error("Error sending email:", error);
+      throw new Error("Error al enviar el correo electrónico");
+    }
+  }
+}
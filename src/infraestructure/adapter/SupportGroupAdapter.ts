@@ -0,0 +1,209 @@
+import { Repository } from "typeorm";
+import {
+  SupportGroup as SupportGroupDomain,
+  SupportGroupMember as SupportGroupMemberDomain,
+} from "../../domain/SupportGroup";
+import { SupportGroupPort } from "../../domain/SupportGroupPort";
+import { SupportGroup as SupportGroupEntity } from "../entities/SupportGroup";
+import { SupportGroupMember as SupportGroupMemberEntity } from "../entities/SupportGroupMember";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia de grupos de soporte usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Traducir entre objetos de dominio y entidades de base de datos
+ * - Implementar todas las operaciones definidas en SupportGroupPort
+ * - Gestionar errores de infraestructura
+ */
+export class SupportGroupAdapter implements SupportGroupPort {
+  private groupRepository: Repository<SupportGroupEntity>;
+  private memberRepository: Repository<SupportGroupMemberEntity>;
+
+  constructor() {
+    this.groupRepository = AppDataSource.getRepository(SupportGroupEntity);
+    this.memberRepository = AppDataSource.getRepository(
+      SupportGroupMemberEntity
+    );
+  }
+
+  private toDomain(entity: SupportGroupEntity): SupportGroupDomain {
+    return {
+      id: entity.id_grupos_soporte,
+      nombre: entity.nombre,
+      descripcion: entity.descripcion,
+      estado: entity.estado,
+      fechaCreacion: entity.fecha_creacion,
+    };
+  }
+
+  private toEntity(
+    group: Omit<SupportGroupDomain, "id" | "fechaCreacion">
+  ): SupportGroupEntity {
+    const groupEntity = new SupportGroupEntity();
+    groupEntity.nombre = group.nombre;
+    groupEntity.descripcion = group.descripcion;
+    groupEntity.estado = group.estado ?? 1;
+    return groupEntity;
+  }
+
+  async createSupportGroup(
+    group: Omit<SupportGroupDomain, "id" | "fechaCreacion">
+  ): Promise<number> {
+    try {
+      const savedGroup = await this.groupRepository.save(this.toEntity(group));
+      return savedGroup.id_grupos_soporte;
+    } catch (error) {
+      console.error("Error creating support group:", error);
+      throw new Error("Error al crear el grupo de soporte en la base de datos");
+    }
+  }
+
+  async getSupportGroupById(id: number): Promise<SupportGroupDomain | null> {
+    try {
+      const group = await this.groupRepository.findOne({
+        where: { id_grupos_soporte: id },
+      });
+      return group ? this.toDomain(group) : null;
+    } catch (error) {
+      console.error("Error fetching support group by ID:", error);
+      throw new Error("Error al obtener el grupo de soporte por ID");
+    }
+  }
+
+  async getSupportGroupByName(
+    nombre: string
+  ): Promise<SupportGroupDomain | null> {
+    try {
+      const group = await this.groupRepository.findOne({ where: { nombre } });
+      return group ? this.toDomain(group) : null;
+    } catch (error) {
+      console.error("Error fetching support group by name:", error);
+      throw new Error("Error al obtener el grupo de soporte por nombre");
+    }
+  }
+
+  async updateSupportGroup(
+    id: number,
+    group: Partial<SupportGroupDomain>
+  ): Promise<boolean> {
+    try {
+      const existingGroup = await this.groupRepository.findOne({
+        where: { id_grupos_soporte: id },
+      });
+
+      if (!existingGroup) {
+        return false;
+      }
+
+      Object.assign(existingGroup, {
+        nombre: group.nombre ?? existingGroup.nombre,
+        descripcion: group.descripcion ?? existingGroup.descripcion,
+        estado: group.estado ?? existingGroup.estado,
+      });
+
+      await this.groupRepository.save(existingGroup);
+      return true;
+    } catch (error) {
+      console.error("Error updating support group:", error);
+      throw new Error("Error al actualizar el grupo de soporte");
+    }
+  }
+
+  async deleteSupportGroup(id: number): Promise<boolean> {
+    try {
+      // Eliminación lógica: las incidencias conservan su grupo
+      const result = await this.groupRepository.update(
+        { id_grupos_soporte: id },
+        { estado: 0 }
+      );
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error deleting support group:", error);
+      throw new Error("Error al eliminar el grupo de soporte");
+    }
+  }
+
+  async getAllActiveSupportGroups(): Promise<SupportGroupDomain[]> {
+    try {
+      const groups = await this.groupRepository.find({
+        where: { estado: 1 },
+        order: { nombre: "ASC" },
+      });
+      return groups.map((group) => this.toDomain(group));
+    } catch (error) {
+      console.error("Error fetching active support groups:", error);
+      throw new Error("Error al obtener los grupos de soporte activos");
+    }
+  }
+
+  async getAllSupportGroups(): Promise<SupportGroupDomain[]> {
+    try {
+      const groups = await this.groupRepository.find({
+        order: { nombre: "ASC" },
+      });
+      return groups.map((group) => this.toDomain(group));
+    } catch (error) {
+      console.error("Error fetching all support groups:", error);
+      throw new Error("Error al obtener todos los grupos de soporte");
+    }
+  }
+
+  async getMembers(grupoId: number): Promise<SupportGroupMemberDomain[]> {
+    try {
+      const members = await this.memberRepository.find({
+        where: { grupo_id: grupoId },
+        relations: { usuario: true },
+        order: { creado_en: "ASC" },
+      });
+      return members.map((member) => ({
+        grupoId: member.grupo_id,
+        usuarioId: member.usuario_id,
+        nombre: member.usuario.nombre,
+        email: member.usuario.email,
+        fechaAlta: member.creado_en,
+      }));
+    } catch (error) {
+      console.error("Error fetching support group members:", error);
+      throw new Error("Error al obtener los miembros del grupo de soporte");
+    }
+  }
+
+  async isMember(grupoId: number, usuarioId: number): Promise<boolean> {
+    try {
+      return await this.memberRepository.exists({
+        where: { grupo_id: grupoId, usuario_id: usuarioId },
+      });
+    } catch (error) {
+      console.error("Error checking support group membership:", error);
+      throw new Error("Error al comprobar la pertenencia al grupo de soporte");
+    }
+  }
+
+  async addMember(grupoId: number, usuarioId: number): Promise<boolean> {
+    try {
+      const member = new SupportGroupMemberEntity();
+      member.grupo_id = grupoId;
+      member.usuario_id = usuarioId;
+      await this.memberRepository.save(member);
+      return true;
+    } catch (error) {
+      console.error("Error adding support group member:", error);
+      throw new Error("Error al añadir el miembro al grupo de soporte");
+    }
+  }
+
+  async removeMember(grupoId: number, usuarioId: number): Promise<boolean> {
+    try {
+      const result = await this.memberRepository.delete({
+        grupo_id: grupoId,
+        usuario_id: usuarioId,
+      });
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error removing support group member:", error);
+      throw new Error("Error al quitar el miembro del grupo de soporte");
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { LessThanOrEqual, Repository } from "typeorm";
+import { DomainEventType } from "../../domain/DomainEvent";
+import {
+  Webhook as WebhookDomain,
+  WebhookDelivery as WebhookDeliveryDomain,
+} from "../../domain/Webhook";
+import { WebhookPort } from "../../domain/WebhookPort";
+import { Webhook as WebhookEntity } from "../entities/Webhook";
+import { WebhookDelivery as WebhookDeliveryEntity } from "../entities/WebhookDelivery";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia de webhooks y entregas usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ */
+export class WebhookAdapter implements WebhookPort {
+  private webhookRepository: Repository<WebhookEntity>;
+  private deliveryRepository: Repository<WebhookDeliveryEntity>;
+
+  constructor() {
+    this.webhookRepository = AppDataSource.getRepository(WebhookEntity);
+    this.deliveryRepository = AppDataSource.getRepository(WebhookDeliveryEntity);
+  }
+
+  private toWebhookDomain(entity: WebhookEntity): WebhookDomain {
+    return {
+      id: entity.id_webhook,
+      url: entity.url,
+      secreto: entity.secreto,
+      eventos: entity.eventos as DomainEventType[],
+      activo: entity.activo,
+      creadoEn: entity.creado_en,
+    };
+  }
+
+  private toDeliveryDomain(entity: WebhookDeliveryEntity): WebhookDeliveryDomain {
+    return {
+      id: entity.id_entrega,
+      webhookId: entity.webhook_id,
+      evento: entity.evento as DomainEventType,
+      payload: entity.payload,
+      estado: entity.estado,
+      intentos: entity.intentos,
+      codigoRespuesta: entity.codigo_respuesta ?? undefined,
+      ultimoError: entity.ultimo_error ?? undefined,
+      proximoIntento: entity.proximo_intento ?? undefined,
+      entregaOriginalId: entity.entrega_original_id ?? undefined,
+      creadoEn: entity.creado_en,
+      entregadoEn: entity.entregado_en ?? undefined,
+    };
+  }
+
+  async createWebhook(
+    webhook: Omit<WebhookDomain, "id" | "creadoEn">
+  ): Promise<number> {
+    try {
+      const entity = new WebhookEntity();
+      entity.url = webhook.url;
+      entity.secreto = webhook.secreto;
+      entity.eventos = webhook.eventos;
+      entity.activo = webhook.activo;
+      const saved = await this.webhookRepository.save(entity);
+      return saved.id_webhook;
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      throw new Error("Error al registrar el webhook en la base de datos");
+    }
+  }
+
+  async getWebhookById(id: number): Promise<WebhookDomain | null> {
+    try {
+      const webhook = await this.webhookRepository.findOne({
+        where: { id_webhook: id },
+      });
+      return webhook ? this.toWebhookDomain(webhook) : null;
+    } catch (error) {
+      console.error("Error fetching webhook by ID:", error);
+      throw new Error("Error al obtener el webhook por ID");
+    }
+  }
+
+  async getAllWebhooks(): Promise<WebhookDomain[]> {
+    try {
+      const webhooks = await this.webhookRepository.find({
+        order: { id_webhook: "ASC" },
+      });
+      return webhooks.map((webhook) => this.toWebhookDomain(webhook));
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      throw new Error("Error al obtener los webhooks");
+    }
+  }
+
+  async getWebhooksByEvent(evento: DomainEventType): Promise<WebhookDomain[]> {
+    try {
+      // simple-array guarda los eventos separados por comas
+      const webhooks = await this.webhookRepository
+        .createQueryBuilder("webhook")
+        .where("webhook.activo = :activo", { activo: true })
+        .andWhere("FIND_IN_SET(:evento, webhook.eventos) > 0", { evento })
+        .getMany();
+      return webhooks.map((webhook) => this.toWebhookDomain(webhook));
+    } catch (error) {
+      console.error("Error fetching webhooks by event:", error);
+      throw new Error("Error al obtener los webhooks del evento");
+    }
+  }
+
+  async updateWebhook(
+    id: number,
+    webhook: Partial<Omit<WebhookDomain, "id" | "creadoEn">>
+  ): Promise<boolean> {
+    try {
+      const updatedFields: Partial<WebhookEntity> = {};
+      if (webhook.url !== undefined) updatedFields.url = webhook.url;
+      if (webhook.secreto !== undefined) updatedFields.secreto = webhook.secreto;
+      if (webhook.eventos !== undefined) updatedFields.eventos = webhook.eventos;
+      if (webhook.activo !== undefined) updatedFields.activo = webhook.activo;
+
+      const result = await this.webhookRepository.update(
+        { id_webhook: id },
+        updatedFields
+      );
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      throw new Error("Error al actualizar el webhook");
+    }
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    try {
+      const result = await this.webhookRepository.delete({ id_webhook: id });
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      throw new Error("Error al eliminar el webhook");
+    }
+  }
+
+  async createDelivery(
+    delivery: Omit<WebhookDeliveryDomain, "id" | "creadoEn">
+  ): Promise<number> {
+    try {
+      const entity = new WebhookDeliveryEntity();
+      entity.webhook_id = delivery.webhookId;
+      entity.evento = delivery.evento;
+      entity.payload = delivery.payload;
+      entity.estado = delivery.estado;
+      entity.intentos = delivery.intentos;
+      entity.proximo_intento = delivery.proximoIntento;
+      entity.entrega_original_id = delivery.entregaOriginalId;
+      const saved = await this.deliveryRepository.save(entity);
+      return saved.id_entrega;
+    } catch (error) {
+      console.error("Error creating webhook delivery:", error);
+      throw new Error("Error al registrar la entrega del webhook");
+    }
+  }
+
+  async getDeliveryById(id: number): Promise<WebhookDeliveryDomain | null> {
+    try {
+      const delivery = await this.deliveryRepository.findOne({
+        where: { id_entrega: id },
+      });
+      return delivery ? this.toDeliveryDomain(delivery) : null;
+    } catch (error) {
+      console.error("Error fetching webhook delivery by ID:", error);
+      throw new Error("Error al obtener la entrega del webhook por ID");
+    }
+  }
+
+  async getDeliveriesByWebhook(
+    webhookId: number,
+    limite: number
+  ): Promise<WebhookDeliveryDomain[]> {
+    try {
+      const deliveries = await this.deliveryRepository.find({
+        where: { webhook_id: webhookId },
+        order: { id_entrega: "DESC" },
+        take: limite,
+      });
+      return deliveries.map((delivery) => this.toDeliveryDomain(delivery));
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      throw new Error("Error al obtener las entregas del webhook");
+    }
+  }
+
+  async getDueDeliveries(ahora: Date): Promise<WebhookDeliveryDomain[]> {
+    try {
+      const deliveries = await this.deliveryRepository.find({
+        where: { estado: "pendiente", proximo_intento: LessThanOrEqual(ahora) },
+        order: { proximo_intento: "ASC" },
+        take: 100,
+      });
+      return deliveries.map((delivery) => this.toDeliveryDomain(delivery));
+    } catch (error) {
+      console.error("Error fetching due webhook deliveries:", error);
+      throw new Error("Error al obtener las entregas pendientes");
+    }
+  }
+
+  async claimDelivery(id: number, ahora: Date, hasta: Date): Promise<boolean> {
+    try {
+      // La condición sobre el estado y la fecha hace que solo uno de los
+      // procesos que compiten por la entrega consiga actualizarla
+      const result = await this.deliveryRepository.update(
+        {
+          id_entrega: id,
+          estado: "pendiente",
+          proximo_intento: LessThanOrEqual(ahora),
+        },
+        { proximo_intento: hasta }
+      );
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error claiming webhook delivery:", error);
+      throw new Error("Error al reclamar la entrega del webhook");
+    }
+  }
+
+  async updateDelivery(
+    id: number,
+    delivery: Partial<Omit<WebhookDeliveryDomain, "id" | "webhookId" | "creadoEn">>
+  ): Promise<boolean> {
+    try {
+      const updatedFields: Partial<WebhookDeliveryEntity> = {};
+      if (delivery.estado !== undefined) updatedFields.estado = delivery.estado;
+      if (delivery.intentos !== undefined)
+        updatedFields.intentos = delivery.intentos;
+      if ("codigoRespuesta" in delivery)
+        updatedFields.codigo_respuesta = delivery.codigoRespuesta ?? null;
+      if ("ultimoError" in delivery)
+        updatedFields.ultimo_error = delivery.ultimoError ?? null;
+      if ("proximoIntento" in delivery)
+        updatedFields.proximo_intento = delivery.proximoIntento ?? null;
+      if ("entregadoEn" in delivery)
+        updatedFields.entregado_en = delivery.entregadoEn ?? null;
+
+      const result = await this.deliveryRepository.update(
+        { id_entrega: id },
+        updatedFields
+      );
+      return (result.affected ?? 0) > 0;
+    } catch (error) {
+      console.error("Error updating webhook delivery:", error);
+      throw new Error("Error al actualizar la entrega del webhook");
+    }
+  }
+}
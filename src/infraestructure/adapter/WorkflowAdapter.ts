@@ -0,0 +1,120 @@
+import { Repository } from "typeorm";
+import { User } from "../../domain/User";
+import {
+  TransitionRequiredField,
+  Workflow,
+  WorkflowState as WorkflowStateDomain,
+  WorkflowTransition as WorkflowTransitionDomain,
+} from "../../domain/Workflow";
+import { WorkflowPort } from "../../domain/WorkflowPort";
+import { WorkflowState as WorkflowStateEntity } from "../entities/WorkflowState";
+import { WorkflowTransition as WorkflowTransitionEntity } from "../entities/WorkflowTransition";
+import { AppDataSource } from "../config/data-base";
+
+/**
+ * Adaptador que implementa la persistencia del flujo de trabajo usando TypeORM
+ * Implementa el patrón Adapter de la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Traducir entre objetos de dominio y entidades de base de datos
+ * - Reemplazar estados y transiciones de forma atómica
+ * - Gestionar errores de infraestructura
+ */
+export class WorkflowAdapter implements WorkflowPort {
+  private stateRepository: Repository<WorkflowStateEntity>;
+  private transitionRepository: Repository<WorkflowTransitionEntity>;
+
+  constructor() {
+    this.stateRepository = AppDataSource.getRepository(WorkflowStateEntity);
+    this.transitionRepository = AppDataSource.getRepository(
+      WorkflowTransitionEntity
+    );
+  }
+
+  private toStateDomain(entity: WorkflowStateEntity): WorkflowStateDomain {
+    return {
+      clave: entity.clave,
+      nombre: entity.nombre,
+      tipo: entity.tipo,
+      orden: entity.orden,
+    };
+  }
+
+  private toTransitionDomain(
+    entity: WorkflowTransitionEntity
+  ): WorkflowTransitionDomain {
+    return {
+      estadoOrigen: entity.estado_origen,
+      estadoDestino: entity.estado_destino,
+      roles: entity.roles as User["rol"][],
+      camposRequeridos: (entity.campos_requeridos ?? []).filter(
+        (campo) => campo !== ""
+      ) as TransitionRequiredField[],
+    };
+  }
+
+  async getWorkflow(): Promise<Workflow | null> {
+    try {
+      const states = await this.stateRepository.find({
+        order: { orden: "ASC" },
+      });
+      if (states.length === 0) {
+        return null;
+      }
+
+      const transitions = await this.transitionRepository.find({
+        order: { id_transicion: "ASC" },
+      });
+
+      return {
+        estados: states.map((state) => this.toStateDomain(state)),
+        transiciones: transitions.map((transition) =>
+          this.toTransitionDomain(transition)
+        ),
+      };
+    } catch (error) {
+      console.error("Error fetching workflow:", error);
+      throw new Error("Error al obtener el flujo de trabajo");
+    }
+  }
+
+  async saveWorkflow(workflow: Workflow): Promise<boolean> {
+    try {
+      await AppDataSource.transaction(async (manager) => {
+        const stateRepository = manager.getRepository(WorkflowStateEntity);
+        const transitionRepository = manager.getRepository(
+          WorkflowTransitionEntity
+        );
+
+        await transitionRepository.createQueryBuilder().delete().execute();
+        await stateRepository.createQueryBuilder().delete().execute();
+
+        await stateRepository.save(
+          workflow.estados.map((estado) => {
+            const entity = new WorkflowStateEntity();
+            entity.clave = estado.clave;
+            entity.nombre = estado.nombre;
+            entity.tipo = estado.tipo;
+            entity.orden = estado.orden;
+            return entity;
+          })
+        );
+
+        await transitionRepository.save(
+          workflow.transiciones.map((transicion) => {
+            const entity = new WorkflowTransitionEntity();
+            entity.estado_origen = transicion.estadoOrigen;
+            entity.estado_destino = transicion.estadoDestino;
+            entity.roles = transicion.roles;
+            entity.campos_requeridos = transicion.camposRequeridos;
+            return entity;
+          })
+        );
+      });
+      return true;
+    } catch (error) {
+      console.error("Error saving workflow:", error);
+      throw new Error("Error al guardar el flujo de trabajo");
+    }
+  }
+}
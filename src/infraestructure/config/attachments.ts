@@ -0,0 +1,11 @@
+/*
+Configuración del almacenamiento de archivos adjuntos:
+    Directorio local donde se guardan los archivos (ATTACHMENTS_DIR).
+    Tamaño máximo de cada archivo en MB (ATTACHMENTS_MAX_SIZE_MB).
+*/
+
+export const attachmentsConfig = {
+  directorio: process.env.ATTACHMENTS_DIR || "uploads",
+  tamanoMaximoBytes:
+    (Number(process.env.ATTACHMENTS_MAX_SIZE_MB) || 10) * 1024 * 1024,
+};
@@ -0,0 +1,40 @@
+/*
+Configuración de las sesiones de usuario:
+    Vigencia de los refresh tokens en días (REFRESH_TOKEN_TTL_DAYS).
+    Vigencia de los enlaces de restablecimiento de contraseña en minutos
+    (PASSWORD_RESET_TTL_MINUTES) y URL del frontend a la que apuntan
+    (PASSWORD_RESET_URL).
+    Protección del inicio de sesión: fallos permitidos por cuenta
+    (LOGIN_MAX_ACCOUNT_FAILURES) y por IP (LOGIN_MAX_IP_FAILURES) dentro de
+    la ventana (LOGIN_FAILURE_WINDOW_MINUTES) y duración del bloqueo
+    (LOGIN_LOCKOUT_MINUTES).
+    La vigencia de los access tokens (ACCESS_TOKEN_TTL_MINUTES) la lee AuthService.
+    El servicio de sesiones es compartido por las rutas de usuario
+    y por el middleware de autenticación.
+*/
+
+import { SessionApplicationService } from "../../application/SessionApplicationService";
+import { RefreshTokenAdapter } from "../adapter/RefreshTokenAdapter";
+import { UserAdapter } from "../adapter/UserAdapter";
+
+export const authConfig = {
+  refreshTokenTtlDias: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 7,
+  passwordReset: {
+    ttlMinutos: Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30,
+    url: process.env.PASSWORD_RESET_URL || "http://localhost:5173/reset-password",
+  },
+  loginProtection: {
+    maxFallosCuenta: Number(process.env.LOGIN_MAX_ACCOUNT_FAILURES) || 5,
+    maxFallosIp: Number(process.env.LOGIN_MAX_IP_FAILURES) || 20,
+    fallosAntesDeEspera: 3,
+    esperaMaximaSegundos: 30,
+    ventanaMinutos: Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES) || 15,
+    bloqueoMinutos: Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15,
+  },
+};
+
+export const sessionService = new SessionApplicationService(
+  new RefreshTokenAdapter(),
+  new UserAdapter(),
+  authConfig.refreshTokenTtlDias
+);
@@ -0,0 +1,9 @@
+/*
+Configuración de la edición de comentarios:
+    Minutos desde su creación durante los que el autor puede editar
+    un comentario (COMMENT_EDIT_WINDOW_MINUTES).
+*/
+
+export const commentsConfig = {
+  minutosEdicion: Number(process.env.COMMENT_EDIT_WINDOW_MINUTES) || 15,
+};
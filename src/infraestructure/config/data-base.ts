@@ -5,6 +5,49 @@ import { Category } from "../entities/Category";
 import { Priority } from "../entities/Priority";
 import { Incident } from "../entities/Incident";
 import { Comments } from "../entities/Comments";
+import { HistorialIncidencia } from "../entities/HistorialIncidencia";
+import { BusinessCalendar } from "../entities/BusinessCalendar";
+import { Holiday } from "../entities/Holiday";
+import { Attachment } from "../entities/Attachment";
+import { NotificationPreference } from "../entities/NotificationPreference";
+import { IncidentWatcher } from "../entities/IncidentWatcher";
+import { Webhook } from "../entities/Webhook";
+import { WebhookDelivery } from "../entities/WebhookDelivery";
+import { RefreshToken } from "../entities/RefreshToken";
+import { PasswordResetToken } from "../entities/PasswordResetToken";
+import { LoginAttempt } from "../entities/LoginAttempt";
+import { LoginThrottle } from "../entities/LoginThrottle";
+import { WorkflowState } from "../entities/WorkflowState";
+import { WorkflowTransition } from "../entities/WorkflowTransition";
+import { ClosureCode } from "../entities/ClosureCode";
+import { AssignmentRule } from "../entities/AssignmentRule";
+import { AssignmentDecision } from "../entities/AssignmentDecision";
+import { SupportGroup } from "../entities/SupportGroup";
+import { SupportGroupMember } from "../entities/SupportGroupMember";
+import { CommentVisibilityChange } from "../entities/CommentVisibilityChange";
+import { CommentRevision } from "../entities/CommentRevision";
+import { CommentMention } from "../entities/CommentMention";
+import { AddCreatorToIncidentsAndComments1750000000003 } from "../migrations/1750000000003-AddCreatorToIncidentsAndComments";
+import { CreateIncidentHistory1750000000004 } from "../migrations/1750000000004-CreateIncidentHistory";
+import { AddIncidentLifecycleDates1750000000005 } from "../migrations/1750000000005-AddIncidentLifecycleDates";
+import { AddSlaTargets1750000000006 } from "../migrations/1750000000006-AddSlaTargets";
+import { CreateBusinessCalendar1750000000007 } from "../migrations/1750000000007-CreateBusinessCalendar";
+import { AddFullTextSearchIndexes1750000000009 } from "../migrations/1750000000009-AddFullTextSearchIndexes";
+import { CreateAttachments1750000000010 } from "../migrations/1750000000010-CreateAttachments";
+import { CreateNotificationTables1750000000011 } from "../migrations/1750000000011-CreateNotificationTables";
+import { CreateWebhooks1750000000012 } from "../migrations/1750000000012-CreateWebhooks";
+import { CreateRefreshTokens1750000000013 } from "../migrations/1750000000013-CreateRefreshTokens";
+import { CreatePasswordResetTokens1750000000014 } from "../migrations/1750000000014-CreatePasswordResetTokens";
+import { CreateLoginProtection1750000000015 } from "../migrations/1750000000015-CreateLoginProtection";
+import { CreateWorkflow1750000000016 } from "../migrations/1750000000016-CreateWorkflow";
+import { CreateClosureCodes1750000000017 } from "../migrations/1750000000017-CreateClosureCodes";
+import { AddResolutionFollowUp1750000000018 } from "../migrations/1750000000018-AddResolutionFollowUp";
+import { CreateAssignmentRules1750000000019 } from "../migrations/1750000000019-CreateAssignmentRules";
+import { CreateSupportGroups1750000000020 } from "../migrations/1750000000020-CreateSupportGroups";
+import { AddWatcherAddedBy1750000000021 } from "../migrations/1750000000021-AddWatcherAddedBy";
+import { AddCommentVisibility1750000000022 } from "../migrations/1750000000022-AddCommentVisibility";
+import { CreateCommentRevisions1750000000023 } from "../migrations/1750000000023-CreateCommentRevisions";
+import { AddCommentThreadsAndMentions1750000000024 } from "../migrations/1750000000024-AddCommentThreadsAndMentions";
 
 configDotenv.config();
 
@@ -16,8 +59,10 @@ export const AppDataSource = new DataSource ({
     password: process.env.DB_PASSWORD,
     database: process.env.DB_NAME,
     synchronize: false,//no se usa en produccion
+    migrationsRun: true,//aplica las migraciones pendientes al conectar
     logging: true,
-    entities: [User, Category, Priority, Incident , Comments],
+    entities: [User, Category, Priority, Incident , Comments, HistorialIncidencia, BusinessCalendar, Holiday, Attachment, NotificationPreference, IncidentWatcher, Webhook, WebhookDelivery, RefreshToken, PasswordResetToken, LoginAttempt, LoginThrottle, WorkflowState, WorkflowTransition, ClosureCode, AssignmentRule, AssignmentDecision, SupportGroup, SupportGroupMember, CommentVisibilityChange, CommentRevision, CommentMention],
+    migrations: [AddCreatorToIncidentsAndComments1750000000003, CreateIncidentHistory1750000000004, AddIncidentLifecycleDates1750000000005, AddSlaTargets1750000000006, CreateBusinessCalendar1750000000007, AddFullTextSearchIndexes1750000000009, CreateAttachments1750000000010, CreateNotificationTables1750000000011, CreateWebhooks1750000000012, CreateRefreshTokens1750000000013, CreatePasswordResetTokens1750000000014, CreateLoginProtection1750000000015, CreateWorkflow1750000000016, CreateClosureCodes1750000000017, AddResolutionFollowUp1750000000018, CreateAssignmentRules1750000000019, CreateSupportGroups1750000000020, AddWatcherAddedBy1750000000021, AddCommentVisibility1750000000022, CreateCommentRevisions1750000000023, AddCommentThreadsAndMentions1750000000024],
 });
 
 //conectar a la base de datos
@@ -11,11 +11,30 @@ import "dotenv/config";
 // ReturnEnvironmentVars: Define el tipo de las variables de entorno que la aplicación utilizará.
 export type ReturnEnvironmentVars = {
   PORT: number;
+  TRUST_PROXY: string;
   DB_HOST: string;
   DB_PORT: number;
   DB_USER: string;
   DB_PASSWORD: string;
   DB_NAME: string;
+  ATTACHMENTS_DIR: string;
+  ATTACHMENTS_MAX_SIZE_MB: number;
+  SMTP_HOST: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER?: string;
+  SMTP_PASSWORD?: string;
+  SMTP_FROM?: string;
+  ACCESS_TOKEN_TTL_MINUTES: number;
+  REFRESH_TOKEN_TTL_DAYS: number;
+  PASSWORD_RESET_TTL_MINUTES: number;
+  PASSWORD_RESET_URL: string;
+  LOGIN_MAX_ACCOUNT_FAILURES: number;
+  LOGIN_MAX_IP_FAILURES: number;
+  LOGIN_FAILURE_WINDOW_MINUTES: number;
+  LOGIN_LOCKOUT_MINUTES: number;
+  RESOLUTION_CONFIRMATION_DAYS: number;
+  REOPEN_WINDOW_DAYS: number;
 };
 /**
  * ValidationEnvironmentVars: Estructura que almacena el resultado de la validación de las variables de entorno.
@@ -29,11 +48,30 @@ function validateEnvVars(vars: NodeJS.ProcessEnv): ValidationEnvironmentVars {
   const envSchema = joi
     .object({
       PORT: joi.number().required(),
+      TRUST_PROXY: joi.string().default("false"),
       DB_HOST: joi.string().required(),
       DB_PORT: joi.number().default(3306),
       DB_USER: joi.string().required(),
       DB_PASSWORD: joi.string().allow("").optional(),
       DB_NAME: joi.string().required(),
+      ATTACHMENTS_DIR: joi.string().default("uploads"),
+      ATTACHMENTS_MAX_SIZE_MB: joi.number().positive().default(10),
+      SMTP_HOST: joi.string().default("localhost"),
+      SMTP_PORT: joi.number().port().default(1025),
+      SMTP_SECURE: joi.boolean().default(false),
+      SMTP_USER: joi.string().optional(),
+      SMTP_PASSWORD: joi.string().allow("").optional(),
+      SMTP_FROM: joi.string().optional(),
+      ACCESS_TOKEN_TTL_MINUTES: joi.number().integer().positive().default(15),
+      REFRESH_TOKEN_TTL_DAYS: joi.number().integer().positive().default(7),
+      PASSWORD_RESET_TTL_MINUTES: joi.number().integer().positive().default(30),
+      PASSWORD_RESET_URL: joi.string().uri().default("http://localhost:5173/reset-password"),
+      LOGIN_MAX_ACCOUNT_FAILURES: joi.number().integer().positive().default(5),
+      LOGIN_MAX_IP_FAILURES: joi.number().integer().positive().default(20),
+      LOGIN_FAILURE_WINDOW_MINUTES: joi.number().integer().positive().default(15),
+      LOGIN_LOCKOUT_MINUTES: joi.number().integer().positive().default(15),
+      RESOLUTION_CONFIRMATION_DAYS: joi.number().integer().positive().default(5),
+      REOPEN_WINDOW_DAYS: joi.number().integer().positive().default(14),
     })
     .unknown(true);
   const { error, value } = envSchema.validate(vars);
@@ -51,11 +89,30 @@ const loadEnvVars = (): ReturnEnvironmentVars => {
   const value = result.value;
   return {
     PORT: value.PORT,
+    TRUST_PROXY: value.TRUST_PROXY,
     DB_HOST: value.DB_HOST,
     DB_PORT: value.DB_PORT,
     DB_USER: value.DB_USER,
     DB_PASSWORD: value.DB_PASSWORD,
     DB_NAME: value.DB_NAME,
+    ATTACHMENTS_DIR: value.ATTACHMENTS_DIR,
+    ATTACHMENTS_MAX_SIZE_MB: value.ATTACHMENTS_MAX_SIZE_MB,
+    SMTP_HOST: value.SMTP_HOST,
+    SMTP_PORT: value.SMTP_PORT,
+    SMTP_SECURE: value.SMTP_SECURE,
+    SMTP_USER: value.SMTP_USER,
+    SMTP_PASSWORD: value.SMTP_PASSWORD,
+    SMTP_FROM: value.SMTP_FROM,
+    ACCESS_TOKEN_TTL_MINUTES: value.ACCESS_TOKEN_TTL_MINUTES,
+    REFRESH_TOKEN_TTL_DAYS: value.REFRESH_TOKEN_TTL_DAYS,
+    PASSWORD_RESET_TTL_MINUTES: value.PASSWORD_RESET_TTL_MINUTES,
+    PASSWORD_RESET_URL: value.PASSWORD_RESET_URL,
+    LOGIN_MAX_ACCOUNT_FAILURES: value.LOGIN_MAX_ACCOUNT_FAILURES,
+    LOGIN_MAX_IP_FAILURES: value.LOGIN_MAX_IP_FAILURES,
+    LOGIN_FAILURE_WINDOW_MINUTES: value.LOGIN_FAILURE_WINDOW_MINUTES,
+    LOGIN_LOCKOUT_MINUTES: value.LOGIN_LOCKOUT_MINUTES,
+    RESOLUTION_CONFIRMATION_DAYS: value.RESOLUTION_CONFIRMATION_DAYS,
+    REOPEN_WINDOW_DAYS: value.REOPEN_WINDOW_DAYS,
   };
 };
 const envs = loadEnvVars();
@@ -0,0 +1,9 @@
+/*
+Bus de eventos de dominio compartido por toda la aplicación:
+    Los servicios de aplicación publican en él y los suscriptores
+    (notificaciones, webhooks) se registran al arrancar el servidor.
+*/
+
+import { InMemoryEventBus } from "../adapter/InMemoryEventBus";
+
+export const eventBus = new InMemoryEventBus();
@@ -0,0 +1,15 @@
+/*
+Configuración del servidor SMTP para el envío de notificaciones:
+    Por defecto apunta a un servidor SMTP falso local (localhost:1025).
+*/
+
+import { SmtpConfig } from "../adapter/SmtpMailAdapter";
+
+export const mailConfig: SmtpConfig = {
+  host: process.env.SMTP_HOST || "localhost",
+  port: Number(process.env.SMTP_PORT) || 1025,
+  secure: process.env.SMTP_SECURE === "true",
+  user: process.env.SMTP_USER || undefined,
+  password: process.env.SMTP_PASSWORD || undefined,
+  remitente: process.env.SMTP_FROM || "Gestión de incidencias <incidencias@localhost>",
+};
@@ -0,0 +1,12 @@
+/*
+Configuración de la confirmación de resoluciones y de la reapertura:
+    Días sin respuesta del usuario tras los que una incidencia resuelta
+    se cierra automáticamente (RESOLUTION_CONFIRMATION_DAYS).
+    Días tras el cierre durante los que se puede reabrir una incidencia;
+    después se crea una incidencia de seguimiento (REOPEN_WINDOW_DAYS).
+*/
+
+export const resolutionConfig = {
+  diasConfirmacion: Number(process.env.RESOLUTION_CONFIRMATION_DAYS) || 5,
+  diasReapertura: Number(process.env.REOPEN_WINDOW_DAYS) || 14,
+};
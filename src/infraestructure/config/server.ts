@@ -0,0 +1,20 @@
+/*
+Configuración del servidor HTTP:
+    Proxies de confianza (TRUST_PROXY) de los que se aceptan las cabeceras
+    X-Forwarded-*, de modo que la IP del cliente sea la real y no la del
+    proxy o balanceador. Admite true/false, el número de saltos o una lista
+    de direcciones y subredes separadas por comas (por ejemplo
+    "loopback, 10.0.0.0/8"). Por defecto no se confía en ningún proxy.
+*/
+
+function parseTrustProxy(valor: string | undefined): boolean | number | string {
+  const texto = (valor ?? "").trim();
+  if (texto === "" || texto === "false") return false;
+  if (texto === "true") return true;
+  if (/^\d+$/.test(texto)) return Number(texto);
+  return texto;
+}
+
+export const serverConfig = {
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
+};
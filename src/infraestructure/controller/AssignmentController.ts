@@ -0,0 +1,232 @@
+import { AssignmentApplicationService } from "../../application/AssignmentApplicationService";
+import { AssignmentStrategyName } from "../../domain/Assignment";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para manejar las peticiones HTTP relacionadas con la asignación automática
+ * Actúa como capa de presentación en la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Recibir y validar peticiones HTTP de las reglas de asignación por categoría
+ * - Exponer las decisiones de asignación registradas de cada incidencia
+ * - Manejar errores y códigos de respuesta HTTP
+ */
+export class AssignmentController {
+  private app: AssignmentApplicationService;
+
+  constructor(app: AssignmentApplicationService) {
+    this.app = app;
+  }
+
+  async getAllRules(req: Request, res: Response): Promise<Response> {
+    try {
+      const rules = await this.app.getAllRules();
+
+      return res.status(200).json({
+        message: "Reglas de asignación obtenidas exitosamente",
+        count: rules.length,
+        rules,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener las reglas de asignación",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener las reglas de asignación",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getRuleByCategory(req: Request, res: Response): Promise<Response> {
+    try {
+      const categoriaId = parseInt(req.params.categoryId);
+
+      if (isNaN(categoriaId) || categoriaId <= 0) {
+        return res.status(400).json({
+          error: "El ID de la categoría debe ser un número positivo válido",
+        });
+      }
+
+      const rule = await this.app.getRuleByCategory(categoriaId);
+
+      if (!rule) {
+        return res.status(404).json({
+          error: "Regla de asignación no encontrada",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Regla de asignación encontrada",
+        rule,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async saveRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const categoriaId = parseInt(req.params.categoryId);
+      const { estrategia, soporteIds, activa } = req.body;
+
+      if (isNaN(categoriaId) || categoriaId <= 0) {
+        return res.status(400).json({
+          error: "El ID de la categoría debe ser un número positivo válido",
+        });
+      }
+
+      if (!estrategia || typeof estrategia !== "string") {
+        return res.status(400).json({
+          error: "La estrategia de asignación es obligatoria",
+        });
+      }
+
+      if (
+        soporteIds !== undefined &&
+        (!Array.isArray(soporteIds) ||
+          soporteIds.some(
+            (id: unknown) => !Number.isInteger(id) || (id as number) <= 0
+          ))
+      ) {
+        return res.status(400).json({
+          error: "Los técnicos de soporte deben ser una lista de IDs válidos",
+        });
+      }
+
+      if (activa !== undefined && typeof activa !== "boolean") {
+        return res.status(400).json({
+          error: "El campo activa debe ser verdadero o falso",
+        });
+      }
+
+      await this.app.saveRule({
+        categoriaId,
+        estrategia: estrategia as AssignmentStrategyName,
+        soporteIds: soporteIds ?? [],
+        activa: activa ?? true,
+      });
+
+      return res.status(200).json({
+        message: "Regla de asignación guardada exitosamente",
+        rule: await this.app.getRuleByCategory(categoriaId),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("estrategia") ||
+          error.message.includes("requiere") ||
+          error.message.includes("válido")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async deleteRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const categoriaId = parseInt(req.params.categoryId);
+
+      if (isNaN(categoriaId) || categoriaId <= 0) {
+        return res.status(400).json({
+          error: "El ID de la categoría debe ser un número positivo válido",
+        });
+      }
+
+      await this.app.deleteRule(categoriaId);
+
+      return res.status(200).json({
+        message: "Regla de asignación eliminada exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getDecisionsByIncident(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const decisions = await this.app.getDecisionsByIncident(id);
+
+      return res.status(200).json({
+        message: "Decisiones de asignación obtenidas exitosamente",
+        count: decisions.length,
+        decisions,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import { AttachmentApplicationService } from "../../application/AttachmentApplicationService";
+import { Attachment } from "../../domain/Attachment";
+import { AuthUser } from "../../domain/AuthUser";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para manejar las peticiones HTTP relacionadas con adjuntos
+ * Actúa como capa de presentación en la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Recibir los archivos subidos y los parámetros de las peticiones
+ * - Enviar el contenido de los archivos en las descargas
+ * - Manejar errores y códigos de respuesta HTTP
+ */
+export class AttachmentController {
+  private app: AttachmentApplicationService;
+
+  constructor(app: AttachmentApplicationService) {
+    this.app = app;
+  }
+
+  async uploadAttachment(req: Request, res: Response): Promise<Response> {
+    try {
+      const incidenciaId = parseInt(req.params.id);
+      const file = (req as any).file as Express.Multer.File | undefined;
+
+      if (isNaN(incidenciaId) || incidenciaId <= 0) {
+        return res.status(400).json({
+          error: "El ID de la incidencia debe ser un número positivo válido",
+        });
+      }
+
+      if (!file) {
+        return res.status(400).json({
+          error: "Debe enviar un archivo en el campo 'archivo'",
+        });
+      }
+
+      let comentarioId: number | undefined;
+      if (req.body?.comentarioId !== undefined && req.body.comentarioId !== "") {
+        comentarioId = parseInt(req.body.comentarioId);
+        if (isNaN(comentarioId) || comentarioId <= 0) {
+          return res.status(400).json({
+            error: "El ID del comentario debe ser un número positivo válido",
+          });
+        }
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const attachment = await this.app.uploadAttachment(
+        caller,
+        incidenciaId,
+        {
+          nombreOriginal: file.originalname,
+          tipoMime: file.mimetype,
+          contenido: file.buffer,
+        },
+        comentarioId
+      );
+
+      return res.status(201).json({
+        message: "Archivo adjuntado exitosamente",
+        attachment: this.toResponse(attachment),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("excede")) {
+          return res.status(413).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("no permitido") ||
+          error.message.includes("no corresponde") ||
+          error.message.includes("vacío") ||
+          error.message.includes("comentario")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al adjuntar el archivo",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al adjuntar el archivo",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getAttachmentsByIncident(req: Request, res: Response): Promise<Response> {
+    try {
+      const incidenciaId = parseInt(req.params.id);
+
+      if (isNaN(incidenciaId) || incidenciaId <= 0) {
+        return res.status(400).json({
+          error: "El ID de la incidencia debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const attachments = await this.app.getAttachmentsByIncident(
+        caller,
+        incidenciaId
+      );
+
+      return res.status(200).json({
+        message: "Adjuntos de la incidencia obtenidos exitosamente",
+        count: attachments.length,
+        attachments: attachments.map((attachment) =>
+          this.toResponse(attachment)
+        ),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener los adjuntos",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener los adjuntos",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async downloadAttachment(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const { attachment, contenido } = await this.app.downloadAttachment(
+        caller,
+        id
+      );
+
+      res.setHeader("Content-Type", attachment.tipoMime);
+      res.setHeader("Content-Length", contenido.length);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.attachment(attachment.nombreOriginal);
+
+      return res.status(200).send(contenido);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al descargar el adjunto",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al descargar el adjunto",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async deleteAttachment(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const deleted = await this.app.deleteAttachment(caller, id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Adjunto no encontrado",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Adjunto eliminado exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al eliminar el adjunto",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al eliminar el adjunto",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  // La clave de almacenamiento es un detalle interno y no se expone
+  private toResponse(attachment: Attachment) {
+    const { claveAlmacenamiento, ...publicAttachment } = attachment;
+    return publicAttachment;
+  }
+}
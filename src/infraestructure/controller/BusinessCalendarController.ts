@@ -0,0 +1,224 @@
+import { BusinessCalendarApplicationService } from "../../application/BusinessCalendarApplicationService";
+import { BusinessCalendar } from "../../domain/BusinessCalendar";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para manejar las peticiones HTTP relacionadas con el calendario laboral
+ * Actúa como capa de presentación en la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Recibir y validar peticiones HTTP de configuración del calendario y festivos
+ * - Manejar errores y códigos de respuesta HTTP
+ * - Delegar la lógica de negocio al servicio de aplicación
+ */
+export class BusinessCalendarController {
+  private app: BusinessCalendarApplicationService;
+
+  constructor(app: BusinessCalendarApplicationService) {
+    this.app = app;
+  }
+
+  async getCalendar(req: Request, res: Response): Promise<Response> {
+    try {
+      const calendar = await this.app.getCalendar();
+
+      return res.status(200).json({
+        message: "Calendario laboral obtenido exitosamente",
+        calendar,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener el calendario laboral",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener el calendario laboral",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async updateCalendar(req: Request, res: Response): Promise<Response> {
+    try {
+      const { diasLaborables, horaInicio, horaFin, zonaHoraria } = req.body;
+
+      if (
+        diasLaborables === undefined &&
+        horaInicio === undefined &&
+        horaFin === undefined &&
+        zonaHoraria === undefined
+      ) {
+        return res.status(400).json({
+          error: "Debe proporcionar al menos un campo para actualizar",
+        });
+      }
+
+      if (diasLaborables !== undefined && !Array.isArray(diasLaborables)) {
+        return res.status(400).json({
+          error: "Los días laborables deben ser una lista de números",
+        });
+      }
+
+      const calendarUpdate: Partial<BusinessCalendar> = {};
+      if (diasLaborables !== undefined)
+        calendarUpdate.diasLaborables = diasLaborables;
+      if (horaInicio !== undefined) calendarUpdate.horaInicio = horaInicio;
+      if (horaFin !== undefined) calendarUpdate.horaFin = horaFin;
+      if (zonaHoraria !== undefined) calendarUpdate.zonaHoraria = zonaHoraria;
+
+      await this.app.updateCalendar(calendarUpdate);
+
+      return res.status(200).json({
+        message: "Calendario laboral actualizado exitosamente",
+        calendar: await this.app.getCalendar(),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (
+          error.message.includes("Debe") ||
+          error.message.includes("deben") ||
+          error.message.includes("debe") ||
+          error.message.includes("válida")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getHolidays(req: Request, res: Response): Promise<Response> {
+    try {
+      let anio: number | undefined;
+
+      if (req.query.anio) {
+        anio = parseInt(req.query.anio as string);
+        if (isNaN(anio)) {
+          return res.status(400).json({
+            error: "El año debe ser un número entero válido",
+          });
+        }
+      }
+
+      const holidays = await this.app.getHolidays(anio);
+
+      return res.status(200).json({
+        message: "Días festivos obtenidos exitosamente",
+        count: holidays.length,
+        holidays,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("válido")) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener los días festivos",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener los días festivos",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async createHoliday(req: Request, res: Response): Promise<Response> {
+    const { fecha, descripcion } = req.body;
+
+    try {
+      if (!fecha || typeof fecha !== "string") {
+        return res.status(400).json({
+          error: "La fecha del festivo es obligatoria",
+        });
+      }
+
+      const holidayId = await this.app.createHoliday({
+        fecha: fecha.trim(),
+        descripcion: descripcion ? descripcion.trim() : undefined,
+      });
+
+      return res.status(201).json({
+        message: "Día festivo creado exitosamente",
+        holidayId,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (
+          error.message.includes("Ya existe") ||
+          error.message.includes("obligatoria") ||
+          error.message.includes("exceder")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async deleteHoliday(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      await this.app.deleteHoliday(id);
+
+      return res.status(200).json({
+        message: "Día festivo eliminado exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al eliminar el día festivo",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al eliminar el día festivo",
+        details: "Error inesperado",
+      });
+    }
+  }
+}
@@ -20,7 +20,7 @@ export class CategoryController {
   }
 
   async createCategory(req: Request, res: Response): Promise<Response> {
-    const { nombre, descripcion, estado } = req.body;
+    const { nombre, descripcion, estado, grupoSoporteId } = req.body;
 
     try {
       // Validaciones básicas de entrada
@@ -45,11 +45,18 @@ export class CategoryController {
         });
       }
 
+      if (!this.isValidGroupId(grupoSoporteId)) {
+        return res.status(400).json({
+          error: "El ID del grupo de soporte debe ser un número positivo válido",
+        });
+      }
+
       // Preparar objeto de categoría para crear
       const category: Omit<Category, "id" | "fechaCreacion"> = {
         nombre: nombre.trim(),
         descripcion: descripcion ? descripcion.trim() : undefined,
         estado: estado !== undefined ? estado : 1,
+        grupoSoporteId: grupoSoporteId ?? undefined,
       };
 
       // Delegar al servicio de aplicación
@@ -68,7 +75,8 @@ export class CategoryController {
         if (
           error.message.includes("ya existe") ||
           error.message.includes("obligatorio") ||
-          error.message.includes("válido")
+          error.message.includes("válido") ||
+          error.message.includes("grupo de soporte")
         ) {
           return res.status(400).json({
             error: error.message,
@@ -216,7 +224,7 @@ export class CategoryController {
   async updateCategory(req: Request, res: Response): Promise<Response> {
     try {
       const id = parseInt(req.params.id);
-      const { nombre, descripcion, estado } = req.body;
+      const { nombre, descripcion, estado, grupoSoporteId } = req.body;
 
       // Validación del parámetro ID
       if (isNaN(id) || id <= 0) {
@@ -226,7 +234,12 @@ export class CategoryController {
       }
 
       // Validar que al menos un campo se esté actualizando
-      if (!nombre && descripcion === undefined && estado === undefined) {
+      if (
+        !nombre &&
+        descripcion === undefined &&
+        estado === undefined &&
+        grupoSoporteId === undefined
+      ) {
         return res.status(400).json({
           error: "Debe proporcionar al menos un campo para actualizar",
         });
@@ -264,6 +277,14 @@ export class CategoryController {
           ? descripcion.trim()
           : undefined;
       if (estado !== undefined) categoryUpdate.estado = estado;
+      if (grupoSoporteId !== undefined) {
+        if (!this.isValidGroupId(grupoSoporteId)) {
+          return res.status(400).json({
+            error: "El ID del grupo de soporte debe ser un número positivo válido",
+          });
+        }
+        categoryUpdate.grupoSoporteId = grupoSoporteId;
+      }
 
       const updated = await this.app.updateCategory(id, categoryUpdate);
 
@@ -281,7 +302,8 @@ export class CategoryController {
         if (
           error.message.includes("ya existe") ||
           error.message.includes("no encontrada") ||
-          error.message.includes("válido")
+          error.message.includes("válido") ||
+          error.message.includes("grupo de soporte")
         ) {
           return res.status(400).json({
             error: error.message,
@@ -346,4 +368,15 @@ export class CategoryController {
       });
     }
   }
+
+  /**
+   * El grupo por defecto es opcional; null lo elimina de la categoría
+   */
+  private isValidGroupId(grupoSoporteId: unknown): boolean {
+    return (
+      grupoSoporteId === undefined ||
+      grupoSoporteId === null ||
+      (Number.isInteger(grupoSoporteId) && (grupoSoporteId as number) > 0)
+    );
+  }
 }
@@ -0,0 +1,279 @@
+import { ClosureCodeApplicationService } from "../../application/ClosureCodeApplicationService";
+import { ClosureCode } from "../../domain/ClosureCode";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para manejar las peticiones HTTP relacionadas con los códigos de cierre
+ * Actúa como capa de presentación en la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Recibir y validar peticiones HTTP del catálogo de códigos de cierre
+ * - Manejar errores y códigos de respuesta HTTP
+ * - Delegar la lógica de negocio al servicio de aplicación
+ */
+export class ClosureCodeController {
+  private app: ClosureCodeApplicationService;
+
+  constructor(app: ClosureCodeApplicationService) {
+    this.app = app;
+  }
+
+  async createClosureCode(req: Request, res: Response): Promise<Response> {
+    try {
+      const { nombre, descripcion, estado } = req.body;
+
+      if (!nombre || typeof nombre !== "string" || nombre.trim().length === 0) {
+        return res.status(400).json({
+          error: "El nombre del código de cierre es obligatorio",
+        });
+      }
+
+      const closureCode: Omit<ClosureCode, "id" | "fechaCreacion"> = {
+        nombre: nombre.trim(),
+        descripcion: descripcion ? descripcion.trim() : undefined,
+        estado: estado !== undefined ? estado : 1,
+      };
+
+      const closureCodeId = await this.app.createClosureCode(closureCode);
+
+      return res.status(201).json({
+        message: "Código de cierre creado exitosamente",
+        closureCodeId,
+        closureCode: {
+          id: closureCodeId,
+          ...closureCode,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Ya existe")) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("obligatorio") ||
+          error.message.includes("válido") ||
+          error.message.includes("caracteres") ||
+          error.message.includes("debe")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getClosureCodeById(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const closureCode = await this.app.getClosureCodeById(id);
+
+      if (!closureCode) {
+        return res.status(404).json({
+          error: "Código de cierre no encontrado",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Código de cierre encontrado",
+        closureCode,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getAllActiveClosureCodes(
+    req: Request,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const closureCodes = await this.app.getAllActiveClosureCodes();
+
+      return res.status(200).json({
+        message: "Códigos de cierre activos obtenidos exitosamente",
+        count: closureCodes.length,
+        closureCodes,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener los códigos de cierre activos",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener los códigos de cierre activos",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getAllClosureCodes(req: Request, res: Response): Promise<Response> {
+    try {
+      const closureCodes = await this.app.getAllClosureCodes();
+
+      return res.status(200).json({
+        message: "Todos los códigos de cierre obtenidos exitosamente",
+        count: closureCodes.length,
+        closureCodes,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener los códigos de cierre",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener los códigos de cierre",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async updateClosureCode(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      const { nombre, descripcion, estado } = req.body;
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      if (!nombre && descripcion === undefined && estado === undefined) {
+        return res.status(400).json({
+          error: "Debe proporcionar al menos un campo para actualizar",
+        });
+      }
+
+      const closureCodeUpdate: Partial<ClosureCode> = {};
+      if (nombre) closureCodeUpdate.nombre = nombre;
+      if (descripcion !== undefined)
+        closureCodeUpdate.descripcion = descripcion || undefined;
+      if (estado !== undefined) closureCodeUpdate.estado = estado;
+
+      const updated = await this.app.updateClosureCode(id, closureCodeUpdate);
+
+      if (!updated) {
+        return res.status(404).json({
+          error: "Código de cierre no encontrado o sin cambios",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Código de cierre actualizado exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("Ya existe")) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("válido") ||
+          error.message.includes("caracteres") ||
+          error.message.includes("debe")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async deleteClosureCode(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const deleted = await this.app.deleteClosureCode(id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Código de cierre no encontrado",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Código de cierre eliminado exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+}
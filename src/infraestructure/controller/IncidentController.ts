@@ -1,5 +1,13 @@
 import { IncidentApplicationService } from "../../application/IncidentApplicationService";
-import { Incident } from "../../domain/Incident";
+import { AuthUser } from "../../domain/AuthUser";
+import {
+  Incident,
+  IncidentPagination,
+  IncidentSortField,
+  SlaStatus,
+} from "../../domain/Incident";
+import { PaginatedResult } from "../../domain/Pagination";
+import { IncidentStatus, isValidStatusKey } from "../../domain/Workflow";
 import { Request, Response } from "express";
 
 /**
@@ -15,7 +23,6 @@ import { Request, Response } from "express";
  */
 export class IncidentController {
   private app: IncidentApplicationService;
-  incidentRepository: any;
 
   constructor(app: IncidentApplicationService) {
     this.app = app;
@@ -25,10 +32,10 @@ export class IncidentController {
     const {
       titulo,
       descripcion,
-      usuarioId,
       categoriaId,
       prioridadId,
-      soporteId,
+      grupoSoporteId,
+      enNombreDe,
     } = req.body;
 
     try {
@@ -39,10 +46,12 @@ export class IncidentController {
         });
       }
 
-      if (!usuarioId || !Number.isInteger(usuarioId) || usuarioId <= 0) {
+      if (
+        enNombreDe !== undefined &&
+        (!Number.isInteger(enNombreDe) || enNombreDe <= 0)
+      ) {
         return res.status(400).json({
-          error:
-            "El ID del usuario reportador es obligatorio y debe ser válido",
+          error: "El ID del usuario en cuyo nombre se registra debe ser válido",
         });
       }
 
@@ -71,26 +80,47 @@ export class IncidentController {
         });
       }
 
+      if (req.body.soporteId !== undefined) {
+        return res.status(400).json({
+          error:
+            "El técnico de soporte se asigna con PATCH /incidents/:id/assign",
+        });
+      }
+
       if (
-        soporteId !== undefined &&
-        (!Number.isInteger(soporteId) || soporteId <= 0)
+        grupoSoporteId !== undefined &&
+        (!Number.isInteger(grupoSoporteId) || grupoSoporteId <= 0)
       ) {
         return res.status(400).json({
-          error: "El ID del técnico de soporte debe ser válido",
+          error: "El ID del grupo de soporte debe ser válido",
         });
       }
 
-      const incident: Omit<Incident, "id" | "creadoEn" | "actualizadoEn"> = {
+      // El estado inicial lo determina el flujo de trabajo
+      const incident: Omit<
+        Incident,
+        | "id"
+        | "creadoEn"
+        | "actualizadoEn"
+        | "usuarioId"
+        | "creadoPorId"
+        | "estado"
+        | "soporteId"
+      > = {
         titulo: titulo.trim(),
         descripcion: descripcion ? descripcion.trim() : undefined,
-        estado: "abierta", // Por defecto abierta
-        usuarioId: usuarioId,
-        soporteId: soporteId || undefined,
+        grupoSoporteId: grupoSoporteId || undefined,
         categoriaId: categoriaId,
         prioridadId: prioridadId,
       };
 
-      const incidentId = await this.app.createIncident(incident);
+      const caller = (req as any).user as AuthUser;
+      const incidentId = await this.app.createIncident(
+        caller,
+        incident,
+        enNombreDe
+      );
+      const usuarioId = enNombreDe ?? caller.id;
 
       return res.status(201).json({
         message: "Incidencia creada exitosamente",
@@ -98,10 +128,18 @@ export class IncidentController {
         incident: {
           id: incidentId,
           ...incident,
+          usuarioId,
+          creadoPorId: usuarioId !== caller.id ? caller.id : undefined,
         },
       });
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
         if (
           error.message.includes("obligatorio") ||
           error.message.includes("válido") ||
@@ -138,7 +176,12 @@ export class IncidentController {
         });
       }
 
-      const incident = await this.app.getIncidentById(id, includeRelations);
+      const caller = (req as any).user as AuthUser;
+      const incident = await this.app.getIncidentById(
+        caller,
+        id,
+        includeRelations
+      );
 
       if (!incident) {
         return res.status(404).json({
@@ -173,9 +216,9 @@ export class IncidentController {
 
       if (req.query.estado) {
         const estado = req.query.estado as string;
-        if (!["abierta", "en_progreso", "cerrada"].includes(estado)) {
+        if (!isValidStatusKey(estado)) {
           return res.status(400).json({
-            error: "El estado debe ser: abierta, en_progreso o cerrada",
+            error: "El estado no es válido",
           });
         }
         filters.estado = estado;
@@ -241,18 +284,31 @@ export class IncidentController {
         filters.fechaHasta = fechaHasta;
       }
 
-      const incidents = await this.app.getAllIncidents(
+      const caller = (req as any).user as AuthUser;
+      const result = await this.app.getAllIncidents(
+        caller,
         Object.keys(filters).length > 0 ? filters : undefined,
+        this.parsePagination(req),
         includeRelations
       );
 
-      return res.status(200).json({
-        message: "Incidencias obtenidas exitosamente",
-        count: incidents.length,
-        incidents,
-      });
+      return res.status(200).json(
+        this.toPageResponse("Incidencias obtenidas exitosamente", result)
+      );
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (this.isPaginationError(error)) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
         return res.status(500).json({
           error: "Error al obtener las incidencias",
           details: error.message,
@@ -266,14 +322,122 @@ export class IncidentController {
     }
   }
 
+  async searchIncidents(req: Request, res: Response): Promise<Response> {
+    try {
+      const texto = req.query.q;
+      const includeRelations = req.query.include === "relations";
+
+      if (!texto || typeof texto !== "string" || texto.trim().length === 0) {
+        return res.status(400).json({
+          error: "El texto de búsqueda (q) es obligatorio",
+        });
+      }
+
+      const filters: any = {};
+
+      if (req.query.estado) {
+        const estado = req.query.estado as string;
+        if (!isValidStatusKey(estado)) {
+          return res.status(400).json({
+            error: "El estado no es válido",
+          });
+        }
+        filters.estado = estado;
+      }
+
+      if (req.query.categoriaId) {
+        const categoriaId = parseInt(req.query.categoriaId as string);
+        if (isNaN(categoriaId) || categoriaId <= 0) {
+          return res.status(400).json({
+            error: "El ID de la categoría debe ser un número positivo",
+          });
+        }
+        filters.categoriaId = categoriaId;
+      }
+
+      if (req.query.prioridadId) {
+        const prioridadId = parseInt(req.query.prioridadId as string);
+        if (isNaN(prioridadId) || prioridadId <= 0) {
+          return res.status(400).json({
+            error: "El ID de la prioridad debe ser un número positivo",
+          });
+        }
+        filters.prioridadId = prioridadId;
+      }
+
+      if (req.query.fechaDesde) {
+        const fechaDesde = new Date(req.query.fechaDesde as string);
+        if (isNaN(fechaDesde.getTime())) {
+          return res.status(400).json({
+            error: "La fecha desde no es válida",
+          });
+        }
+        filters.fechaDesde = fechaDesde;
+      }
+
+      if (req.query.fechaHasta) {
+        const fechaHasta = new Date(req.query.fechaHasta as string);
+        if (isNaN(fechaHasta.getTime())) {
+          return res.status(400).json({
+            error: "La fecha hasta no es válida",
+          });
+        }
+        filters.fechaHasta = fechaHasta;
+      }
+
+      const limite =
+        req.query.limite !== undefined ? Number(req.query.limite) : undefined;
+
+      const caller = (req as any).user as AuthUser;
+      const results = await this.app.searchIncidents(
+        caller,
+        texto,
+        Object.keys(filters).length > 0 ? filters : undefined,
+        limite,
+        includeRelations
+      );
+
+      return res.status(200).json({
+        message: "Búsqueda de incidencias realizada exitosamente",
+        query: texto,
+        count: results.length,
+        results,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("búsqueda") ||
+          error.message.includes("límite") ||
+          error.message.includes("fecha")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al buscar incidencias",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al buscar incidencias",
+        details: "Error inesperado",
+      });
+    }
+  }
+
   async getIncidentsByUser(req: Request, res: Response): Promise<Response> {
     try {
       const usuarioId = parseInt(req.params.usuarioId);
-      const estado = req.query.estado as
-        | "abierta"
-        | "en_progreso"
-        | "cerrada"
-        | undefined;
+      const estado = req.query.estado as IncidentStatus | undefined;
       const includeRelations = req.query.include === "relations";
 
       if (isNaN(usuarioId) || usuarioId <= 0) {
@@ -282,25 +446,38 @@ export class IncidentController {
         });
       }
 
-      if (estado && !["abierta", "en_progreso", "cerrada"].includes(estado)) {
+      if (estado && !isValidStatusKey(estado)) {
         return res.status(400).json({
-          error: "El estado debe ser: abierta, en_progreso o cerrada",
+          error: "El estado no es válido",
         });
       }
 
-      const incidents = await this.app.getIncidentsByUser(
+      const caller = (req as any).user as AuthUser;
+      const result = await this.app.getIncidentsByUser(
+        caller,
         usuarioId,
         estado,
+        this.parsePagination(req),
         includeRelations
       );
 
-      return res.status(200).json({
-        message: "Incidencias del usuario obtenidas exitosamente",
-        count: incidents.length,
-        incidents,
-      });
+      return res.status(200).json(
+        this.toPageResponse("Incidencias del usuario obtenidas exitosamente", result)
+      );
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (this.isPaginationError(error)) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
         return res.status(500).json({
           error: "Error al obtener las incidencias del usuario",
           details: error.message,
@@ -317,11 +494,7 @@ export class IncidentController {
   async getIncidentsBySupport(req: Request, res: Response): Promise<Response> {
     try {
       const soporteId = parseInt(req.params.soporteId);
-      const estado = req.query.estado as
-        | "abierta"
-        | "en_progreso"
-        | "cerrada"
-        | undefined;
+      const estado = req.query.estado as IncidentStatus | undefined;
       const includeRelations = req.query.include === "relations";
 
       if (isNaN(soporteId) || soporteId <= 0) {
@@ -331,25 +504,38 @@ export class IncidentController {
         });
       }
 
-      if (estado && !["abierta", "en_progreso", "cerrada"].includes(estado)) {
+      if (estado && !isValidStatusKey(estado)) {
         return res.status(400).json({
-          error: "El estado debe ser: abierta, en_progreso o cerrada",
+          error: "El estado no es válido",
         });
       }
 
-      const incidents = await this.app.getIncidentsBySupport(
+      const caller = (req as any).user as AuthUser;
+      const result = await this.app.getIncidentsBySupport(
+        caller,
         soporteId,
         estado,
+        this.parsePagination(req),
         includeRelations
       );
 
-      return res.status(200).json({
-        message: "Incidencias del técnico obtenidas exitosamente",
-        count: incidents.length,
-        incidents,
-      });
+      return res.status(200).json(
+        this.toPageResponse("Incidencias del técnico obtenidas exitosamente", result)
+      );
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (this.isPaginationError(error)) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
         return res.status(500).json({
           error: "Error al obtener las incidencias del técnico",
           details: error.message,
@@ -363,14 +549,79 @@ export class IncidentController {
     }
   }
 
+  async getIncidentsBySupportGroup(
+    req: Request,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const grupoSoporteId = parseInt(req.params.grupoSoporteId);
+      const estado = req.query.estado as IncidentStatus | undefined;
+      const includeRelations = req.query.include === "relations";
+
+      if (isNaN(grupoSoporteId) || grupoSoporteId <= 0) {
+        return res.status(400).json({
+          error: "El ID del grupo de soporte debe ser un número positivo válido",
+        });
+      }
+
+      if (estado && !isValidStatusKey(estado)) {
+        return res.status(400).json({
+          error: "El estado no es válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const result = await this.app.getIncidentsBySupportGroup(
+        caller,
+        grupoSoporteId,
+        estado,
+        this.parsePagination(req),
+        includeRelations
+      );
+
+      return res.status(200).json(
+        this.toPageResponse(
+          "Cola del grupo de soporte obtenida exitosamente",
+          result
+        )
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (this.isPaginationError(error)) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener la cola del grupo de soporte",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener la cola del grupo de soporte",
+        details: "Error inesperado",
+      });
+    }
+  }
+
   async getIncidentsByCategory(req: Request, res: Response): Promise<Response> {
     try {
       const categoriaId = parseInt(req.params.categoriaId);
-      const estado = req.query.estado as
-        | "abierta"
-        | "en_progreso"
-        | "cerrada"
-        | undefined;
+      const estado = req.query.estado as IncidentStatus | undefined;
       const includeRelations = req.query.include === "relations";
 
       if (isNaN(categoriaId) || categoriaId <= 0) {
@@ -379,25 +630,38 @@ export class IncidentController {
         });
       }
 
-      if (estado && !["abierta", "en_progreso", "cerrada"].includes(estado)) {
+      if (estado && !isValidStatusKey(estado)) {
         return res.status(400).json({
-          error: "El estado debe ser: abierta, en_progreso o cerrada",
+          error: "El estado no es válido",
         });
       }
 
-      const incidents = await this.app.getIncidentsByCategory(
+      const caller = (req as any).user as AuthUser;
+      const result = await this.app.getIncidentsByCategory(
+        caller,
         categoriaId,
         estado,
+        this.parsePagination(req),
         includeRelations
       );
 
-      return res.status(200).json({
-        message: "Incidencias de la categoría obtenidas exitosamente",
-        count: incidents.length,
-        incidents,
-      });
+      return res.status(200).json(
+        this.toPageResponse("Incidencias de la categoría obtenidas exitosamente", result)
+      );
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (this.isPaginationError(error)) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
         return res.status(500).json({
           error: "Error al obtener las incidencias de la categoría",
           details: error.message,
@@ -414,11 +678,7 @@ export class IncidentController {
   async getIncidentsByPriority(req: Request, res: Response): Promise<Response> {
     try {
       const prioridadId = parseInt(req.params.prioridadId);
-      const estado = req.query.estado as
-        | "abierta"
-        | "en_progreso"
-        | "cerrada"
-        | undefined;
+      const estado = req.query.estado as IncidentStatus | undefined;
       const includeRelations = req.query.include === "relations";
 
       if (isNaN(prioridadId) || prioridadId <= 0) {
@@ -427,25 +687,38 @@ export class IncidentController {
         });
       }
 
-      if (estado && !["abierta", "en_progreso", "cerrada"].includes(estado)) {
+      if (estado && !isValidStatusKey(estado)) {
         return res.status(400).json({
-          error: "El estado debe ser: abierta, en_progreso o cerrada",
+          error: "El estado no es válido",
         });
       }
 
-      const incidents = await this.app.getIncidentsByPriority(
+      const caller = (req as any).user as AuthUser;
+      const result = await this.app.getIncidentsByPriority(
+        caller,
         prioridadId,
         estado,
+        this.parsePagination(req),
         includeRelations
       );
 
-      return res.status(200).json({
-        message: "Incidencias de la prioridad obtenidas exitosamente",
-        count: incidents.length,
-        incidents,
-      });
+      return res.status(200).json(
+        this.toPageResponse("Incidencias de la prioridad obtenidas exitosamente", result)
+      );
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (this.isPaginationError(error)) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
         return res.status(500).json({
           error: "Error al obtener las incidencias de la prioridad",
           details: error.message,
@@ -466,7 +739,8 @@ export class IncidentController {
         titulo,
         descripcion,
         estado,
-        soporteId,
+        notaResolucion,
+        codigoCierreId,
         categoriaId,
         prioridadId,
       } = req.body;
@@ -483,7 +757,6 @@ export class IncidentController {
         !titulo &&
         descripcion === undefined &&
         !estado &&
-        soporteId === undefined &&
         !categoriaId &&
         !prioridadId
       ) {
@@ -505,19 +778,25 @@ export class IncidentController {
         });
       }
 
-      if (estado && !["abierta", "en_progreso", "cerrada"].includes(estado)) {
+      if (estado && !isValidStatusKey(estado)) {
         return res.status(400).json({
-          error: "El estado debe ser: abierta, en_progreso o cerrada",
+          error: "El estado no es válido",
         });
       }
 
       if (
-        soporteId !== undefined &&
-        soporteId !== null &&
-        (!Number.isInteger(soporteId) || soporteId <= 0)
+        codigoCierreId !== undefined &&
+        (!Number.isInteger(codigoCierreId) || codigoCierreId <= 0)
       ) {
         return res.status(400).json({
-          error: "El ID del técnico de soporte debe ser válido",
+          error: "El ID del código de cierre debe ser válido",
+        });
+      }
+
+      if (req.body.soporteId !== undefined) {
+        return res.status(400).json({
+          error:
+            "El técnico de soporte se asigna con PATCH /incidents/:id/assign",
         });
       }
 
@@ -533,7 +812,9 @@ export class IncidentController {
         });
       }
 
-      const incidentUpdate: Partial<Omit<Incident, "id" | "creadoEn">> = {};
+      const incidentUpdate: Partial<
+        Omit<Incident, "id" | "creadoEn" | "soporteId">
+      > = {};
 
       if (titulo) incidentUpdate.titulo = titulo.trim();
       if (descripcion !== undefined)
@@ -541,11 +822,19 @@ export class IncidentController {
           ? descripcion.trim()
           : undefined;
       if (estado) incidentUpdate.estado = estado;
-      if (soporteId !== undefined) incidentUpdate.soporteId = soporteId;
+      if (notaResolucion !== undefined)
+        incidentUpdate.notaResolucion = notaResolucion;
+      if (codigoCierreId !== undefined)
+        incidentUpdate.codigoCierreId = codigoCierreId;
       if (categoriaId) incidentUpdate.categoriaId = categoriaId;
       if (prioridadId) incidentUpdate.prioridadId = prioridadId;
 
-      const updated = await this.app.updateIncident(id, incidentUpdate);
+      const caller = (req as any).user as AuthUser;
+      const updated = await this.app.updateIncident(
+        caller,
+        id,
+        incidentUpdate
+      );
 
       if (!updated) {
         return res.status(404).json({
@@ -558,10 +847,26 @@ export class IncidentController {
       });
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("ha cambiado de estado")) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
         if (
           error.message.includes("no encontrada") ||
           error.message.includes("transición") ||
-          error.message.includes("válido")
+          error.message.includes("válido") ||
+          error.message.includes("no existe") ||
+          error.message.includes("caracteres") ||
+          error.message.includes("requiere") ||
+          error.message.includes("plazo de reapertura")
         ) {
           return res.status(400).json({
             error: error.message,
@@ -584,7 +889,7 @@ export class IncidentController {
   async changeIncidentStatus(req: Request, res: Response): Promise<Response> {
     try {
       const id = parseInt(req.params.id);
-      const { estado } = req.body;
+      const { estado, notaResolucion, codigoCierreId } = req.body;
 
       if (isNaN(id) || id <= 0) {
         return res.status(400).json({
@@ -592,13 +897,32 @@ export class IncidentController {
         });
       }
 
-      if (!estado || !["abierta", "en_progreso", "cerrada"].includes(estado)) {
+      if (!estado || typeof estado !== "string" || !isValidStatusKey(estado)) {
+        return res.status(400).json({
+          error: "El estado no es válido",
+        });
+      }
+
+      if (notaResolucion !== undefined && typeof notaResolucion !== "string") {
+        return res.status(400).json({
+          error: "La nota de resolución debe ser un texto",
+        });
+      }
+
+      if (
+        codigoCierreId !== undefined &&
+        (!Number.isInteger(codigoCierreId) || codigoCierreId <= 0)
+      ) {
         return res.status(400).json({
-          error: "El estado debe ser: abierta, en_progreso o cerrada",
+          error: "El ID del código de cierre debe ser válido",
         });
       }
 
-      const updated = await this.app.changeIncidentStatus(id, estado);
+      const caller = (req as any).user as AuthUser;
+      const updated = await this.app.changeIncidentStatus(caller, id, estado, {
+        notaResolucion,
+        codigoCierreId,
+      });
 
       if (!updated) {
         return res.status(404).json({
@@ -611,19 +935,41 @@ export class IncidentController {
       });
     } catch (error) {
       if (error instanceof Error) {
-        if (
-          error.message.includes("transición") ||
-          error.message.includes("no encontrada")
-        ) {
-          return res.status(400).json({
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
             error: error.message,
           });
         }
 
-        return res.status(500).json({
-          error: "Error interno del servidor",
-          details: error.message,
-        });
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("ha cambiado de estado")) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("transición") ||
+          error.message.includes("no existe") ||
+          error.message.includes("válido") ||
+          error.message.includes("caracteres") ||
+          error.message.includes("requiere") ||
+          error.message.includes("plazo de reapertura")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
       }
 
       return res.status(500).json({
@@ -633,6 +979,246 @@ export class IncidentController {
     }
   }
 
+  async confirmResolution(req: Request, res: Response): Promise<Response> {
+    return await this.respondToResolution(req, res, true);
+  }
+
+  async rejectResolution(req: Request, res: Response): Promise<Response> {
+    return await this.respondToResolution(req, res, false);
+  }
+
+  async reopenIncident(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      const { motivo } = req.body ?? {};
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      if (motivo !== undefined && typeof motivo !== "string") {
+        return res.status(400).json({
+          error: "El motivo debe ser un texto",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const result = await this.app.reopenIncident(caller, id, motivo);
+
+      if (result.seguimiento) {
+        return res.status(201).json({
+          message:
+            "El plazo de reapertura ha vencido; se ha creado una incidencia de seguimiento",
+          incidentId: result.incidenciaId,
+          incidenciaOrigenId: id,
+        });
+      }
+
+      return res.status(200).json({
+        message: "Incidencia reabierta exitosamente",
+        incidentId: result.incidenciaId,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("Solo se pueden") ||
+          error.message.includes("transición") ||
+          error.message.includes("caracteres") ||
+          error.message.includes("no válido")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getWatchedIncidents(req: Request, res: Response): Promise<Response> {
+    try {
+      const estado = req.query.estado as IncidentStatus | undefined;
+      const includeRelations = req.query.include === "relations";
+
+      if (estado && !isValidStatusKey(estado)) {
+        return res.status(400).json({
+          error: "El estado no es válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const result = await this.app.getWatchedIncidents(
+        caller,
+        estado,
+        this.parsePagination(req),
+        includeRelations
+      );
+
+      return res.status(200).json(
+        this.toPageResponse(
+          "Incidencias seguidas obtenidas exitosamente",
+          result
+        )
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        if (this.isPaginationError(error)) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener las incidencias seguidas",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener las incidencias seguidas",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getWatchers(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const watchers = await this.app.getWatchers(caller, id);
+
+      return res.status(200).json({
+        message: "Seguidores de la incidencia obtenidos exitosamente",
+        count: watchers.length,
+        watchers,
+      });
+    } catch (error) {
+      return this.watcherErrorResponse(res, error);
+    }
+  }
+
+  async watchIncident(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      await this.app.watchIncident(caller, id);
+
+      return res.status(201).json({
+        message: "Ahora sigue la incidencia",
+      });
+    } catch (error) {
+      return this.watcherErrorResponse(res, error);
+    }
+  }
+
+  async unwatchIncident(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      await this.app.unwatchIncident(caller, id);
+
+      return res.status(200).json({
+        message: "Ha dejado de seguir la incidencia",
+      });
+    } catch (error) {
+      return this.watcherErrorResponse(res, error);
+    }
+  }
+
+  async addWatcher(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      const { usuarioId } = req.body;
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      if (!Number.isInteger(usuarioId) || usuarioId <= 0) {
+        return res.status(400).json({
+          error: "El ID del usuario debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      await this.app.addWatcher(caller, id, usuarioId);
+
+      return res.status(201).json({
+        message: `Usuario ${usuarioId} añadido como seguidor de la incidencia`,
+      });
+    } catch (error) {
+      return this.watcherErrorResponse(res, error);
+    }
+  }
+
+  async removeWatcher(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      const usuarioId = parseInt(req.params.userId);
+
+      if (isNaN(id) || id <= 0 || isNaN(usuarioId) || usuarioId <= 0) {
+        return res.status(400).json({
+          error: "Los IDs deben ser números positivos válidos",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      await this.app.removeWatcher(caller, id, usuarioId);
+
+      return res.status(200).json({
+        message: `Usuario ${usuarioId} quitado de los seguidores de la incidencia`,
+      });
+    } catch (error) {
+      return this.watcherErrorResponse(res, error);
+    }
+  }
+
   async assignIncident(req: Request, res: Response): Promise<Response> {
     try {
       const id = parseInt(req.params.id);
@@ -654,7 +1240,8 @@ export class IncidentController {
         });
       }
 
-      const assigned = await this.app.assignIncident(id, soporteId);
+      const caller = (req as any).user as AuthUser;
+      const assigned = await this.app.assignIncident(caller, id, soporteId);
 
       if (!assigned) {
         return res.status(404).json({
@@ -693,6 +1280,277 @@ export class IncidentController {
     }
   }
 
+  async assignIncidentGroup(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      const { grupoSoporteId } = req.body;
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      if (
+        grupoSoporteId !== null &&
+        (!Number.isInteger(grupoSoporteId) || grupoSoporteId <= 0)
+      ) {
+        return res.status(400).json({
+          error:
+            "El ID del grupo de soporte debe ser válido o null para quitar el grupo",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const assigned = await this.app.assignIncidentGroup(
+        caller,
+        id,
+        grupoSoporteId
+      );
+
+      if (!assigned) {
+        return res.status(404).json({
+          error: "Incidencia no encontrada",
+        });
+      }
+
+      const message = grupoSoporteId
+        ? `Incidencia asignada al grupo de soporte ${grupoSoporteId} exitosamente`
+        : "Incidencia retirada de la cola del grupo de soporte exitosamente";
+
+      return res.status(200).json({
+        message,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (
+          error.message.includes("no encontrada") ||
+          error.message.includes("cerrada") ||
+          error.message.includes("no existe")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getIncidentsBySla(
+    req: Request,
+    res: Response,
+    estadoSla: SlaStatus
+  ): Promise<Response> {
+    try {
+      const includeRelations = req.query.include === "relations";
+      let horasUmbral: number | undefined;
+
+      if (req.query.horas) {
+        horasUmbral = parseFloat(req.query.horas as string);
+        if (isNaN(horasUmbral) || horasUmbral <= 0) {
+          return res.status(400).json({
+            error: "El umbral de horas debe ser un número positivo",
+          });
+        }
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const incidents = await this.app.getIncidentsBySla(
+        caller,
+        estadoSla,
+        horasUmbral,
+        includeRelations
+      );
+
+      return res.status(200).json({
+        message:
+          estadoSla === "incumplida"
+            ? "Incidencias con SLA incumplido obtenidas exitosamente"
+            : "Incidencias en riesgo de SLA obtenidas exitosamente",
+        count: incidents.length,
+        incidents,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener las incidencias por estado de SLA",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener las incidencias por estado de SLA",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getIncidentHistory(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const history = await this.app.getIncidentHistory(caller, id);
+
+      return res.status(200).json({
+        message: "Historial de la incidencia obtenido exitosamente",
+        incidentId: id,
+        count: history.length,
+        history,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener el historial de la incidencia",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener el historial de la incidencia",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  private async respondToResolution(
+    req: Request,
+    res: Response,
+    confirmar: boolean
+  ): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const updated = confirmar
+        ? await this.app.confirmResolution(caller, id)
+        : await this.app.rejectResolution(caller, id);
+
+      if (!updated) {
+        return res.status(404).json({
+          error: "Incidencia no encontrada",
+        });
+      }
+
+      return res.status(200).json({
+        message: confirmar
+          ? "Resolución confirmada; la incidencia se ha cerrado"
+          : "Resolución rechazada; la incidencia vuelve a estar en tratamiento",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("pendiente de confirmar") ||
+          error.message.includes("transición") ||
+          error.message.includes("requiere")
+        ) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getAvailableTransitions(
+    req: Request,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const transitions = await this.app.getAvailableTransitions(caller, id);
+
+      return res.status(200).json({
+        message: "Transiciones disponibles obtenidas exitosamente",
+        incidentId: id,
+        count: transitions.length,
+        transitions,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener las transiciones disponibles",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener las transiciones disponibles",
+        details: "Error inesperado",
+      });
+    }
+  }
+
   async getIncidentStatistics(req: Request, res: Response): Promise<Response> {
     try {
       const filters: any = {};
@@ -737,7 +1595,9 @@ export class IncidentController {
         filters.categoriaId = categoriaId;
       }
 
+      const caller = (req as any).user as AuthUser;
       const statistics = await this.app.getIncidentStatistics(
+        caller,
         Object.keys(filters).length > 0 ? filters : undefined
       );
 
@@ -747,6 +1607,12 @@ export class IncidentController {
       });
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
         return res.status(500).json({
           error: "Error al obtener las estadísticas",
           details: error.message,
@@ -760,28 +1626,144 @@ export class IncidentController {
     }
   }
 
-  async deleteIncident(
-    req: Request,
-    res: Response,
-    id: number
-  ): Promise<boolean> {
-    try {
-      const existingIncident = await this.incidentRepository.findOne({
-        where: { id_incidencias: id },
-      });
+  /**
+   * Lee los parámetros de paginación y ordenación de la consulta
+   * La validación de los valores se realiza en el servicio de aplicación
+   */
+  private parsePagination(req: Request): Partial<IncidentPagination> {
+    const pagination: Partial<IncidentPagination> = {};
+
+    if (req.query.pagina !== undefined) {
+      pagination.pagina = Number(req.query.pagina);
+    }
+
+    if (req.query.limite !== undefined) {
+      pagination.limite = Number(req.query.limite);
+    }
+
+    if (req.query.cursor !== undefined) {
+      pagination.cursor = String(req.query.cursor);
+    }
+
+    if (req.query.ordenarPor !== undefined) {
+      pagination.ordenarPor = req.query.ordenarPor as IncidentSortField;
+    }
+
+    if (req.query.orden !== undefined) {
+      pagination.orden = String(req.query.orden).toUpperCase() as
+        | "ASC"
+        | "DESC";
+    }
 
-      if (!existingIncident) {
-        throw new Error("Incidencia no encontrada");
+    return pagination;
+  }
+
+  private toPageResponse(message: string, result: PaginatedResult<Incident>) {
+    return {
+      message,
+      count: result.items.length,
+      total: result.total,
+      pagination: {
+        limite: result.limite,
+        pagina: result.pagina,
+        totalPaginas: result.totalPaginas,
+        siguienteCursor: result.siguienteCursor,
+      },
+      incidents: result.items,
+    };
+  }
+
+  /**
+   * Respuesta de error común a las operaciones sobre seguidores
+   */
+  private watcherErrorResponse(res: Response, error: unknown): Response {
+    if (error instanceof Error) {
+      if (
+        error.message.includes("no encontrad") ||
+        error.message.includes("no sigue")
+      ) {
+        return res.status(404).json({
+          error: error.message,
+        });
+      }
+
+      if (error.message.includes("no tiene acceso")) {
+        return res.status(400).json({
+          error: error.message,
+        });
+      }
+
+      if (error.message.includes("ya sigue") || error.message.includes("Ya sigue")) {
+        return res.status(409).json({
+          error: error.message,
+        });
       }
 
-      const deleteResult = await this.incidentRepository.delete({
-        id_incidencias: id,
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: error.message,
       });
+    }
+
+    return res.status(500).json({
+      error: "Error interno del servidor",
+      details: "Error inesperado",
+    });
+  }
+
+  private isPaginationError(error: Error): boolean {
+    return (
+      error.message.includes("paginación") ||
+      error.message.includes("página") ||
+      error.message.includes("ordenación")
+    );
+  }
 
-      return deleteResult.affected !== undefined && deleteResult.affected > 0;
+  async deleteIncident(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const deleted = await this.app.deleteIncident(id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Incidencia no encontrada",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Incidencia eliminada exitosamente",
+      });
     } catch (error) {
-      console.error("Error deleting incident:", error);
-      throw new Error("Error al eliminar la incidencia");
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("cerradas")) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al eliminar la incidencia",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al eliminar la incidencia",
+        details: "Error inesperado",
+      });
     }
   }
 }
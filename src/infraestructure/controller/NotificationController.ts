@@ -0,0 +1,93 @@
+import { NotificationApplicationService } from "../../application/NotificationApplicationService";
+import { AuthUser } from "../../domain/AuthUser";
+import { NotificationPreference } from "../../domain/NotificationPreference";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para manejar las peticiones HTTP de preferencias de notificación
+ * Actúa como capa de presentación en la arquitectura hexagonal
+ */
+export class NotificationController {
+  private app: NotificationApplicationService;
+
+  constructor(app: NotificationApplicationService) {
+    this.app = app;
+  }
+
+  async getPreferences(req: Request, res: Response): Promise<Response> {
+    try {
+      const caller = (req as any).user as AuthUser;
+      const preferences = await this.app.getPreferences(caller);
+
+      return res.status(200).json({
+        message: "Preferencias de notificación obtenidas exitosamente",
+        preferences,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener las preferencias de notificación",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener las preferencias de notificación",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async updatePreferences(req: Request, res: Response): Promise<Response> {
+    try {
+      const { emailHabilitado, tiposDesactivados } = req.body;
+
+      if (emailHabilitado === undefined && tiposDesactivados === undefined) {
+        return res.status(400).json({
+          error: "Debe proporcionar al menos un campo para actualizar",
+        });
+      }
+
+      if (emailHabilitado !== undefined && typeof emailHabilitado !== "boolean") {
+        return res.status(400).json({
+          error: "El campo emailHabilitado debe ser booleano",
+        });
+      }
+
+      const preferencesUpdate: Partial<Omit<NotificationPreference, "usuarioId">> = {};
+      if (emailHabilitado !== undefined)
+        preferencesUpdate.emailHabilitado = emailHabilitado;
+      if (tiposDesactivados !== undefined)
+        preferencesUpdate.tiposDesactivados = tiposDesactivados;
+
+      const caller = (req as any).user as AuthUser;
+      const preferences = await this.app.updatePreferences(
+        caller,
+        preferencesUpdate
+      );
+
+      return res.status(200).json({
+        message: "Preferencias de notificación actualizadas exitosamente",
+        preferences,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("deben ser")) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al actualizar las preferencias de notificación",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al actualizar las preferencias de notificación",
+        details: "Error inesperado",
+      });
+    }
+  }
+}
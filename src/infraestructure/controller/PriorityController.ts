@@ -20,7 +20,15 @@ export class PriorityController {
   }
 
   async createPriority(req: Request, res: Response): Promise<Response> {
-    const { nombre, descripcion, nivel, color, estado } = req.body;
+    const {
+      nombre,
+      descripcion,
+      nivel,
+      color,
+      horasRespuesta,
+      horasResolucion,
+      estado,
+    } = req.body;
 
     try {
       // Validaciones básicas de entrada
@@ -70,6 +78,8 @@ export class PriorityController {
         descripcion: descripcion ? descripcion.trim() : undefined,
         nivel: nivel,
         color: color ? color.trim().toLowerCase() : undefined,
+        horasRespuesta,
+        horasResolucion,
         estado: estado !== undefined ? estado : 1,
       };
 
@@ -89,7 +99,8 @@ export class PriorityController {
           error.message.includes("ya existe") ||
           error.message.includes("obligatorio") ||
           error.message.includes("válido") ||
-          error.message.includes("nivel")
+          error.message.includes("nivel") ||
+          error.message.includes("SLA")
         ) {
           return res.status(400).json({
             error: error.message,
@@ -274,7 +285,15 @@ export class PriorityController {
   async updatePriority(req: Request, res: Response): Promise<Response> {
     try {
       const id = parseInt(req.params.id);
-      const { nombre, descripcion, nivel, color, estado } = req.body;
+      const {
+        nombre,
+        descripcion,
+        nivel,
+        color,
+        horasRespuesta,
+        horasResolucion,
+        estado,
+      } = req.body;
 
       // Validación del parámetro ID
       if (isNaN(id) || id <= 0) {
@@ -289,6 +308,8 @@ export class PriorityController {
         descripcion === undefined &&
         !nivel &&
         color === undefined &&
+        horasRespuesta === undefined &&
+        horasResolucion === undefined &&
         estado === undefined
       ) {
         return res.status(400).json({
@@ -342,6 +363,10 @@ export class PriorityController {
       if (nivel) priorityUpdate.nivel = nivel;
       if (color !== undefined)
         priorityUpdate.color = color ? color.trim().toLowerCase() : undefined;
+      if (horasRespuesta !== undefined)
+        priorityUpdate.horasRespuesta = horasRespuesta;
+      if (horasResolucion !== undefined)
+        priorityUpdate.horasResolucion = horasResolucion;
       if (estado !== undefined) priorityUpdate.estado = estado;
 
       const updated = await this.app.updatePriority(id, priorityUpdate);
@@ -361,7 +386,8 @@ export class PriorityController {
           error.message.includes("ya existe") ||
           error.message.includes("no encontrada") ||
           error.message.includes("válido") ||
-          error.message.includes("nivel")
+          error.message.includes("nivel") ||
+          error.message.includes("SLA")
         ) {
           return res.status(400).json({
             error: error.message,
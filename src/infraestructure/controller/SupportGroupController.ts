@@ -0,0 +1,412 @@
+import { SupportGroupApplicationService } from "../../application/SupportGroupApplicationService";
+import { SupportGroup } from "../../domain/SupportGroup";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para manejar las peticiones HTTP relacionadas con los grupos de soporte
+ * Actúa como capa de presentación en la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Recibir y validar peticiones HTTP de grupos de soporte y sus miembros
+ * - Manejar errores y códigos de respuesta HTTP
+ * - Delegar la lógica de negocio al servicio de aplicación
+ */
+export class SupportGroupController {
+  private app: SupportGroupApplicationService;
+
+  constructor(app: SupportGroupApplicationService) {
+    this.app = app;
+  }
+
+  async createSupportGroup(req: Request, res: Response): Promise<Response> {
+    try {
+      const { nombre, descripcion, estado } = req.body;
+
+      if (!nombre || typeof nombre !== "string" || nombre.trim().length === 0) {
+        return res.status(400).json({
+          error: "El nombre del grupo de soporte es obligatorio",
+        });
+      }
+
+      const group: Omit<SupportGroup, "id" | "fechaCreacion"> = {
+        nombre: nombre.trim(),
+        descripcion: descripcion ? descripcion.trim() : undefined,
+        estado: estado !== undefined ? estado : 1,
+      };
+
+      const groupId = await this.app.createSupportGroup(group);
+
+      return res.status(201).json({
+        message: "Grupo de soporte creado exitosamente",
+        groupId,
+        group: {
+          id: groupId,
+          ...group,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Ya existe")) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("obligatorio") ||
+          error.message.includes("válido") ||
+          error.message.includes("caracteres") ||
+          error.message.includes("debe")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getSupportGroupById(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const group = await this.app.getSupportGroupById(id);
+
+      if (!group) {
+        return res.status(404).json({
+          error: "Grupo de soporte no encontrado",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Grupo de soporte encontrado",
+        group,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getAllActiveSupportGroups(
+    req: Request,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const groups = await this.app.getAllActiveSupportGroups();
+
+      return res.status(200).json({
+        message: "Grupos de soporte activos obtenidos exitosamente",
+        count: groups.length,
+        groups,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener los grupos de soporte activos",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener los grupos de soporte activos",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getAllSupportGroups(req: Request, res: Response): Promise<Response> {
+    try {
+      const groups = await this.app.getAllSupportGroups();
+
+      return res.status(200).json({
+        message: "Todos los grupos de soporte obtenidos exitosamente",
+        count: groups.length,
+        groups,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener los grupos de soporte",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener los grupos de soporte",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async updateSupportGroup(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      const { nombre, descripcion, estado } = req.body;
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      if (!nombre && descripcion === undefined && estado === undefined) {
+        return res.status(400).json({
+          error: "Debe proporcionar al menos un campo para actualizar",
+        });
+      }
+
+      const groupUpdate: Partial<SupportGroup> = {};
+      if (nombre) groupUpdate.nombre = nombre;
+      if (descripcion !== undefined)
+        groupUpdate.descripcion = descripcion || undefined;
+      if (estado !== undefined) groupUpdate.estado = estado;
+
+      const updated = await this.app.updateSupportGroup(id, groupUpdate);
+
+      if (!updated) {
+        return res.status(404).json({
+          error: "Grupo de soporte no encontrado o sin cambios",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Grupo de soporte actualizado exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("Ya existe")) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("válido") ||
+          error.message.includes("caracteres") ||
+          error.message.includes("debe")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async deleteSupportGroup(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const deleted = await this.app.deleteSupportGroup(id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          error: "Grupo de soporte no encontrado",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Grupo de soporte eliminado exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getMembers(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const members = await this.app.getMembers(id);
+
+      return res.status(200).json({
+        message: "Miembros del grupo de soporte obtenidos exitosamente",
+        count: members.length,
+        members,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async addMember(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      const { usuarioId } = req.body;
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      if (!Number.isInteger(usuarioId) || usuarioId <= 0) {
+        return res.status(400).json({
+          error: "El ID del usuario debe ser un número positivo válido",
+        });
+      }
+
+      await this.app.addMember(id, usuarioId);
+
+      return res.status(201).json({
+        message: "Miembro añadido al grupo de soporte exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("ya es miembro")) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("Solo los técnicos")) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async removeMember(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      const usuarioId = parseInt(req.params.userId);
+
+      if (isNaN(id) || id <= 0 || isNaN(usuarioId) || usuarioId <= 0) {
+        return res.status(400).json({
+          error: "Los IDs deben ser números positivos válidos",
+        });
+      }
+
+      await this.app.removeMember(id, usuarioId);
+
+      return res.status(200).json({
+        message: "Miembro quitado del grupo de soporte exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (
+          error.message.includes("no encontrado") ||
+          error.message.includes("no es miembro")
+        ) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+}
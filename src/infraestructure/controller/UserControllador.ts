@@ -1,6 +1,7 @@
 import { parse } from "dotenv";
 import { UserApplicationService } from "../../application/UserApplicationService";
 import { User } from "../../domain/User";
+import { AuthUser } from "../../domain/AuthUser";
 import { Request, Response } from "express";
 
 export class UserController {
@@ -28,13 +29,217 @@ export class UserController {
             "La contraseña debe tener al menos 6 caracteres y máximo 25, incluyendo al menos una letra y un número",
         });
 
-      const token = await this.app.login(email, password);
-      return res.status(200).json({ token });
-    } catch {
+      const ip = req.ip ?? req.socket.remoteAddress ?? "desconocida";
+      const session = await this.app.login(email, password, ip);
+      return res.status(200).json(session);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("Demasiados intentos")) {
+        return res.status(429).json({ error: error.message });
+      }
       return res.status(401).json({ error: "Credenciales inválidas" });
     }
   }
 
+  async refresh(req: Request, res: Response): Promise<Response> {
+    try {
+      const { refreshToken } = req.body;
+      if (!refreshToken || typeof refreshToken !== "string")
+        return res.status(400).json({ error: "El refreshToken es requerido" });
+
+      const session = await this.app.refreshSession(refreshToken);
+      return res.status(200).json(session);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message.includes("Refresh token") ||
+          error.message.includes("desactivado"))
+      ) {
+        return res.status(401).json({ error: error.message });
+      }
+      return res.status(500).json({
+        error: "Error al renovar la sesión",
+        details: error instanceof Error ? error.message : "Error inesperado",
+      });
+    }
+  }
+
+  async logout(req: Request, res: Response): Promise<Response> {
+    try {
+      const { refreshToken } = req.body;
+      if (!refreshToken || typeof refreshToken !== "string")
+        return res.status(400).json({ error: "El refreshToken es requerido" });
+
+      await this.app.logout(refreshToken);
+      return res.status(200).json({ message: "Sesión cerrada exitosamente" });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("Refresh token")) {
+        return res.status(401).json({ error: error.message });
+      }
+      return res.status(500).json({
+        error: "Error al cerrar la sesión",
+        details: error instanceof Error ? error.message : "Error inesperado",
+      });
+    }
+  }
+
+  async changePassword(req: Request, res: Response): Promise<Response> {
+    try {
+      const { actual, nueva } = req.body;
+      if (!actual || !nueva)
+        return res
+          .status(400)
+          .json({ error: "La contraseña actual y la nueva son requeridas" });
+
+      if (!/^(?=.*[A-Za-z])(?=.*\d)[A-Za-z\d]{6,25}$/.test(nueva))
+        return res.status(400).json({
+          error:
+            "La contraseña debe tener al menos 6 caracteres y máximo 25, incluyendo al menos una letra y un número",
+        });
+
+      const caller = (req as any).user as AuthUser;
+      const session = await this.app.changePassword(caller, actual, nueva);
+      return res.status(200).json({
+        message: "Contraseña actualizada exitosamente",
+        ...session,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("incorrecta")) {
+          return res.status(401).json({ error: error.message });
+        }
+        if (error.message.includes("distinta")) {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({
+          error: "Error al cambiar la contraseña",
+          details: error.message,
+        });
+      }
+      return res.status(500).json({
+        error: "Error al cambiar la contraseña",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async forgotPassword(req: Request, res: Response): Promise<Response> {
+    try {
+      const { email } = req.body;
+      if (!email || !/^[\w.-]+@[a-zA-Z\d.-]+\.[a-zA-Z]{2,}$/.test(email))
+        return res.status(400).json({ error: "Correo electrónico no válido" });
+
+      await this.app.requestPasswordReset(email);
+      // La respuesta es la misma exista o no la cuenta
+      return res.status(200).json({
+        message:
+          "Si el correo corresponde a una cuenta activa, recibirá un enlace para restablecer la contraseña",
+      });
+    } catch (error) {
+      return res.status(500).json({
+        error: "Error al solicitar el restablecimiento de contraseña",
+        details: error instanceof Error ? error.message : "Error inesperado",
+      });
+    }
+  }
+
+  async resetPassword(req: Request, res: Response): Promise<Response> {
+    try {
+      const { token, nueva } = req.body;
+      if (!token || !nueva)
+        return res
+          .status(400)
+          .json({ error: "El token y la nueva contraseña son requeridos" });
+
+      if (!/^(?=.*[A-Za-z])(?=.*\d)[A-Za-z\d]{6,25}$/.test(nueva))
+        return res.status(400).json({
+          error:
+            "La contraseña debe tener al menos 6 caracteres y máximo 25, incluyendo al menos una letra y un número",
+        });
+
+      await this.app.resetPassword(token, nueva);
+      return res
+        .status(200)
+        .json({ message: "Contraseña restablecida exitosamente" });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("no es válido")) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(500).json({
+        error: "Error al restablecer la contraseña",
+        details: error instanceof Error ? error.message : "Error inesperado",
+      });
+    }
+  }
+
+  async unlockUser(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "ID inválido" });
+
+      const unlocked = await this.app.unlockUser(id);
+      return res.status(200).json({
+        message: unlocked
+          ? "Usuario desbloqueado exitosamente"
+          : "El usuario no tenía intentos fallidos registrados",
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ error: "Usuario no encontrado" });
+      }
+      return res.status(500).json({
+        error: "Error al desbloquear el usuario",
+        details: error instanceof Error ? error.message : "Error inesperado",
+      });
+    }
+  }
+
+  async getLoginAttempts(req: Request, res: Response): Promise<Response> {
+    try {
+      const { email, ip, exito, desde, hasta, limite } = req.query;
+
+      if (exito !== undefined && exito !== "true" && exito !== "false")
+        return res
+          .status(400)
+          .json({ error: "El parámetro exito debe ser true o false" });
+
+      const fechaDesde = desde ? new Date(String(desde)) : undefined;
+      const fechaHasta = hasta ? new Date(String(hasta)) : undefined;
+      if (
+        (fechaDesde && isNaN(fechaDesde.getTime())) ||
+        (fechaHasta && isNaN(fechaHasta.getTime()))
+      )
+        return res.status(400).json({ error: "Las fechas deben tener un formato válido" });
+
+      const attempts = await this.app.getLoginAttempts(
+        {
+          email: email ? String(email) : undefined,
+          ip: ip ? String(ip) : undefined,
+          exito: exito === undefined ? undefined : exito === "true",
+          desde: fechaDesde,
+          hasta: fechaHasta,
+        },
+        limite ? Number(limite) : undefined
+      );
+
+      return res.status(200).json({
+        message: "Intentos de inicio de sesión obtenidos exitosamente",
+        count: attempts.length,
+        attempts,
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message.includes("límite") || error.message.includes("fecha"))
+      ) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(500).json({
+        error: "Error al obtener los intentos de inicio de sesión",
+        details: error instanceof Error ? error.message : "Error inesperado",
+      });
+    }
+  }
+
   async createUser(req: Request, res: Response): Promise<Response> {
     const { name, email, password, rol } = req.body;
     try {
@@ -0,0 +1,344 @@
+import { WebhookApplicationService } from "../../application/WebhookApplicationService";
+import { Webhook } from "../../domain/Webhook";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para manejar las peticiones HTTP de webhooks salientes
+ * Actúa como capa de presentación en la arquitectura hexagonal
+ */
+export class WebhookController {
+  private app: WebhookApplicationService;
+
+  constructor(app: WebhookApplicationService) {
+    this.app = app;
+  }
+
+  async createWebhook(req: Request, res: Response): Promise<Response> {
+    try {
+      const { url, secreto, eventos, activo } = req.body;
+
+      if (!url || !secreto || !eventos) {
+        return res.status(400).json({
+          error: "Faltan campos requeridos: url, secreto, eventos",
+        });
+      }
+
+      if (activo !== undefined && typeof activo !== "boolean") {
+        return res.status(400).json({
+          error: "El campo activo debe ser booleano",
+        });
+      }
+
+      const webhookId = await this.app.createWebhook({
+        url,
+        secreto,
+        eventos,
+        activo,
+      });
+
+      // El secreto solo se devuelve en la respuesta de creación
+      return res.status(201).json({
+        message: "Webhook creado exitosamente",
+        webhook: { id: webhookId, url, secreto, eventos, activo: activo ?? true },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (this.isValidationError(error)) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al crear el webhook",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al crear el webhook",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getAllWebhooks(req: Request, res: Response): Promise<Response> {
+    try {
+      const webhooks = await this.app.getAllWebhooks();
+
+      return res.status(200).json({
+        message: "Webhooks obtenidos exitosamente",
+        count: webhooks.length,
+        webhooks: webhooks.map((webhook) => this.toResponse(webhook)),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener los webhooks",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener los webhooks",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getWebhookById(req: Request, res: Response): Promise<Response> {
+    try {
+      const webhookId = parseInt(req.params.id);
+
+      if (isNaN(webhookId)) {
+        return res.status(400).json({
+          error: "El ID del webhook debe ser un número válido",
+        });
+      }
+
+      const webhook = await this.app.getWebhookById(webhookId);
+
+      if (!webhook) {
+        return res.status(404).json({
+          error: "Webhook no encontrado",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Webhook obtenido exitosamente",
+        webhook: this.toResponse(webhook),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("número positivo")) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener el webhook",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener el webhook",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async updateWebhook(req: Request, res: Response): Promise<Response> {
+    try {
+      const webhookId = parseInt(req.params.id);
+
+      if (isNaN(webhookId)) {
+        return res.status(400).json({
+          error: "El ID del webhook debe ser un número válido",
+        });
+      }
+
+      const { url, secreto, eventos, activo } = req.body;
+
+      if (
+        url === undefined &&
+        secreto === undefined &&
+        eventos === undefined &&
+        activo === undefined
+      ) {
+        return res.status(400).json({
+          error: "Debe proporcionar al menos un campo para actualizar",
+        });
+      }
+
+      if (activo !== undefined && typeof activo !== "boolean") {
+        return res.status(400).json({
+          error: "El campo activo debe ser booleano",
+        });
+      }
+
+      const webhookUpdate: Partial<Omit<Webhook, "id" | "creadoEn">> = {};
+      if (url !== undefined) webhookUpdate.url = url;
+      if (secreto !== undefined) webhookUpdate.secreto = secreto;
+      if (eventos !== undefined) webhookUpdate.eventos = eventos;
+      if (activo !== undefined) webhookUpdate.activo = activo;
+
+      const updated = await this.app.updateWebhook(webhookId, webhookUpdate);
+
+      if (!updated) {
+        return res.status(500).json({
+          error: "No se pudo actualizar el webhook",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Webhook actualizado exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (this.isValidationError(error)) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al actualizar el webhook",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al actualizar el webhook",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async deleteWebhook(req: Request, res: Response): Promise<Response> {
+    try {
+      const webhookId = parseInt(req.params.id);
+
+      if (isNaN(webhookId)) {
+        return res.status(400).json({
+          error: "El ID del webhook debe ser un número válido",
+        });
+      }
+
+      const deleted = await this.app.deleteWebhook(webhookId);
+
+      if (!deleted) {
+        return res.status(500).json({
+          error: "No se pudo eliminar el webhook",
+        });
+      }
+
+      return res.status(200).json({
+        message: "Webhook eliminado exitosamente",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al eliminar el webhook",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al eliminar el webhook",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getDeliveries(req: Request, res: Response): Promise<Response> {
+    try {
+      const webhookId = parseInt(req.params.id);
+
+      if (isNaN(webhookId)) {
+        return res.status(400).json({
+          error: "El ID del webhook debe ser un número válido",
+        });
+      }
+
+      const limite = req.query.limite ? Number(req.query.limite) : undefined;
+      const deliveries = await this.app.getDeliveries(webhookId, limite);
+
+      return res.status(200).json({
+        message: "Entregas del webhook obtenidas exitosamente",
+        count: deliveries.length,
+        deliveries,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("límite")) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener las entregas del webhook",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener las entregas del webhook",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async replayDelivery(req: Request, res: Response): Promise<Response> {
+    try {
+      const deliveryId = parseInt(req.params.id);
+
+      if (isNaN(deliveryId)) {
+        return res.status(400).json({
+          error: "El ID de la entrega debe ser un número válido",
+        });
+      }
+
+      const delivery = await this.app.replayDelivery(deliveryId);
+
+      return res.status(201).json({
+        message: "Entrega reenviada",
+        delivery,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrad")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al reenviar la entrega",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al reenviar la entrega",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  /**
+   * Omite el secreto de firma en las respuestas de consulta
+   */
+  private toResponse(webhook: Webhook): Omit<Webhook, "secreto"> {
+    const { secreto, ...rest } = webhook;
+    return rest;
+  }
+
+  private isValidationError(error: Error): boolean {
+    return (
+      error.message.includes("URL") ||
+      error.message.includes("secreto") ||
+      error.message.includes("eventos")
+    );
+  }
+}
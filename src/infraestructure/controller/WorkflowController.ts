@@ -0,0 +1,103 @@
+import { WorkflowApplicationService } from "../../application/WorkflowApplicationService";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para manejar las peticiones HTTP relacionadas con el flujo de trabajo
+ * Actúa como capa de presentación en la arquitectura hexagonal
+ *
+ * Responsabilidades:
+ * - Recibir y validar peticiones HTTP de configuración de estados y transiciones
+ * - Manejar errores y códigos de respuesta HTTP
+ * - Delegar la lógica de negocio al servicio de aplicación
+ */
+export class WorkflowController {
+  private app: WorkflowApplicationService;
+
+  constructor(app: WorkflowApplicationService) {
+    this.app = app;
+  }
+
+  async getWorkflow(req: Request, res: Response): Promise<Response> {
+    try {
+      const workflow = await this.app.getWorkflow();
+
+      return res.status(200).json({
+        message: "Flujo de trabajo obtenido exitosamente",
+        workflow,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener el flujo de trabajo",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener el flujo de trabajo",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async updateWorkflow(req: Request, res: Response): Promise<Response> {
+    try {
+      const { estados, transiciones } = req.body;
+
+      if (!Array.isArray(estados) || !Array.isArray(transiciones)) {
+        return res.status(400).json({
+          error: "Debe proporcionar la lista de estados y la lista de transiciones",
+        });
+      }
+
+      if (
+        transiciones.some(
+          (transicion: any) =>
+            !Array.isArray(transicion?.roles) ||
+            (transicion.camposRequeridos !== undefined &&
+              !Array.isArray(transicion.camposRequeridos))
+        )
+      ) {
+        return res.status(400).json({
+          error: "Los roles y campos requeridos de cada transición deben ser listas",
+        });
+      }
+
+      await this.app.updateWorkflow({ estados, transiciones });
+
+      return res.status(200).json({
+        message: "Flujo de trabajo actualizado exitosamente",
+        workflow: await this.app.getWorkflow(),
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("incidencias asociadas")) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("debe") ||
+          error.message.includes("duplicad") ||
+          error.message.includes("no existe") ||
+          error.message.includes("obligatorio")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+}
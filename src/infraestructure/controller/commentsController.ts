@@ -1,5 +1,6 @@
 import { CommentsApplicationService } from "../../application/CommentsApplicationService";
-import { Comments } from "../../domain/Comments";
+import { AuthUser } from "../../domain/AuthUser";
+import { COMMENT_VISIBILITIES, CommentVisibility } from "../../domain/Comments";
 import { Request, Response } from "express";
 
 /**
@@ -20,7 +21,8 @@ export class CommentsController {
   }
 
   async createComments(req: Request, res: Response): Promise<Response> {
-    const { comentario, incidencia, usuario } = req.body;
+    const { comentario, incidencia, enNombreDe, visibilidad, comentarioPadreId } =
+      req.body;
 
     try {
       // Validaciones básicas de entrada
@@ -30,38 +32,79 @@ export class CommentsController {
         });
       }
 
+      if (isNaN(incidencia) || incidencia <= 0) {
+        return res.status(400).json({
+          error: "El ID de incidencia debe ser un número positivo",
+        });
+      }
+
+      if (enNombreDe !== undefined && (isNaN(enNombreDe) || enNombreDe <= 0)) {
+        return res.status(400).json({
+          error: "El ID del usuario en cuyo nombre se comenta debe ser un número positivo",
+        });
+      }
+
       if (
-        isNaN(incidencia) ||
-        incidencia <= 0 ||
-        isNaN(usuario) ||
-        usuario <= 0
+        visibilidad !== undefined &&
+        !COMMENT_VISIBILITIES.includes(visibilidad)
       ) {
         return res.status(400).json({
-          error: "Los IDs de incidencia y usuario deben ser números positivos",
+          error: `La visibilidad debe ser: ${COMMENT_VISIBILITIES.join(" o ")}`,
         });
       }
 
-      const commentsId = await this.app.createComments({
-        comentario: comentario.trim(),
-        incidencia: parseInt(incidencia),
-        usuario: parseInt(usuario),
-      });
+      if (
+        comentarioPadreId !== undefined &&
+        (!Number.isInteger(comentarioPadreId) || comentarioPadreId <= 0)
+      ) {
+        return res.status(400).json({
+          error: "El ID del comentario al que se responde debe ser un número positivo",
+        });
+      }
 
-      return res.status(201).json({
-        message: "Comentario creado correctamente",
-        commentsId,
-        comments: {
+      const caller = (req as any).user as AuthUser;
+      const autorId =
+        enNombreDe !== undefined ? parseInt(enNombreDe) : undefined;
+
+      const commentsId = await this.app.createComments(
+        caller,
+        {
           comentario: comentario.trim(),
           incidencia: parseInt(incidencia),
-          usuario: parseInt(usuario),
+          comentarioPadreId,
+          visibilidad: visibilidad as CommentVisibility | undefined,
         },
+        autorId
+      );
+
+      return res.status(201).json({
+        message: "Comentario creado correctamente",
+        commentsId,
+        comments: await this.app.getCommentsById(caller, commentsId),
       });
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("no pertenece") ||
+          error.message.includes("no encontrada")
+        ) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
         if (
           error.message.includes("obligatorio") ||
           error.message.includes("positivo") ||
-          error.message.includes("exceder")
+          error.message.includes("exceder") ||
+          error.message.includes("debe ser interna") ||
+          error.message.includes("no válido")
         ) {
           return res.status(400).json({
             error: error.message,
@@ -92,7 +135,8 @@ export class CommentsController {
         });
       }
 
-      const comment = await this.app.getCommentsById(id);
+      const caller = (req as any).user as AuthUser;
+      const comment = await this.app.getCommentsById(caller, id);
 
       if (!comment) {
         return res.status(404).json({
@@ -122,6 +166,7 @@ export class CommentsController {
   async updateComments(req: Request, res: Response): Promise<Response> {
     try {
       const id = parseInt(req.params.id);
+      const { comentario } = req.body;
 
       // Validación del parámetro ID
       if (isNaN(id) || id <= 0) {
@@ -130,44 +175,40 @@ export class CommentsController {
         });
       }
 
-      const updateData = req.body as Partial<Comments>;
-
-      // Validar que al menos un campo esté presente para actualizar
-      if (
-        !updateData.comentario &&
-        !updateData.incidencia &&
-        !updateData.usuario
-      ) {
+      // Solo el texto es editable: la incidencia y el autor no cambian
+      if (typeof comentario !== "string" || comentario.trim().length === 0) {
         return res.status(400).json({
-          error: "Debe proporcionar al menos un campo para actualizar",
+          error: "El comentario no puede estar vacío",
         });
       }
 
-      // Convertir strings a números si es necesario
-      if (updateData.incidencia) {
-        updateData.incidencia = parseInt(updateData.incidencia.toString());
-      }
-      if (updateData.usuario) {
-        updateData.usuario = parseInt(updateData.usuario.toString());
-      }
-
-      const updated = await this.app.updateComments(id, updateData);
-
-      if (!updated) {
-        return res.status(404).json({
-          error: "Comentario no encontrado",
-        });
-      }
+      const caller = (req as any).user as AuthUser;
+      await this.app.updateComments(caller, id, comentario);
 
       return res.status(200).json({
         message: "Comentario actualizado correctamente",
+        comment: await this.app.getCommentsById(caller, id),
       });
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
         if (
           error.message.includes("positivo") ||
           error.message.includes("vacío") ||
-          error.message.includes("exceder")
+          error.message.includes("exceder") ||
+          error.message.includes("plazo de edición") ||
+          error.message.includes("no válido")
         ) {
           return res.status(400).json({
             error: error.message,
@@ -187,9 +228,49 @@ export class CommentsController {
     }
   }
 
+  async getRevisions(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const revisions = await this.app.getRevisions(caller, id);
+
+      return res.status(200).json({
+        message: "Revisiones del comentario obtenidas correctamente",
+        count: revisions.length,
+        revisions,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener las revisiones del comentario",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener las revisiones del comentario",
+        details: "Error inesperado",
+      });
+    }
+  }
+
   async getAllComments(req: Request, res: Response): Promise<Response> {
     try {
-      const comments = await this.app.getAllComments();
+      const caller = (req as any).user as AuthUser;
+      const comments = await this.app.getAllComments(caller);
 
       return res.status(200).json({
         message: "Comentarios obtenidos correctamente",
@@ -225,7 +306,27 @@ export class CommentsController {
         });
       }
 
-      const comments = await this.app.getCommentsByIncidencia(incidenciaId);
+      const caller = (req as any).user as AuthUser;
+
+      // Con view=threads las respuestas se anidan bajo su comentario
+      if (req.query.view === "threads") {
+        const threads = await this.app.getCommentThreadsByIncidencia(
+          caller,
+          incidenciaId
+        );
+
+        return res.status(200).json({
+          message: "Hilos de comentarios de la incidencia obtenidos correctamente",
+          incidenciaId,
+          count: threads.length,
+          threads,
+        });
+      }
+
+      const comments = await this.app.getCommentsByIncidencia(
+        caller,
+        incidenciaId
+      );
 
       return res.status(200).json({
         message: "Comentarios de la incidencia obtenidos correctamente",
@@ -235,6 +336,12 @@ export class CommentsController {
       });
     } catch (error) {
       if (error instanceof Error) {
+        if (error.message.includes("no encontrada")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
         return res.status(500).json({
           error: "Error al obtener los comentarios de la incidencia",
           details: error.message,
@@ -248,6 +355,136 @@ export class CommentsController {
     }
   }
 
+  async getMentions(req: Request, res: Response): Promise<Response> {
+    try {
+      const caller = (req as any).user as AuthUser;
+      const comments = await this.app.getMentions(caller);
+
+      return res.status(200).json({
+        message: "Menciones obtenidas correctamente",
+        count: comments.length,
+        comments,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(500).json({
+          error: "Error al obtener las menciones",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener las menciones",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async changeVisibility(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+      const { visibilidad } = req.body;
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      if (!COMMENT_VISIBILITIES.includes(visibilidad)) {
+        return res.status(400).json({
+          error: `La visibilidad debe ser: ${COMMENT_VISIBILITIES.join(" o ")}`,
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      await this.app.changeVisibility(caller, id, visibilidad);
+
+      return res.status(200).json({
+        message: `Comentario convertido a ${visibilidad} correctamente`,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("permisos")) {
+          return res.status(403).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        if (error.message.includes("ya es")) {
+          return res.status(409).json({
+            error: error.message,
+          });
+        }
+
+        if (
+          error.message.includes("positivo") ||
+          error.message.includes("visibilidad debe") ||
+          error.message.includes("debe ser interna")
+        ) {
+          return res.status(400).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error interno del servidor",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error interno del servidor",
+        details: "Error inesperado",
+      });
+    }
+  }
+
+  async getVisibilityChanges(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({
+          error: "El ID debe ser un número positivo válido",
+        });
+      }
+
+      const caller = (req as any).user as AuthUser;
+      const changes = await this.app.getVisibilityChanges(caller, id);
+
+      return res.status(200).json({
+        message: "Cambios de visibilidad obtenidos correctamente",
+        count: changes.length,
+        changes,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("no encontrado")) {
+          return res.status(404).json({
+            error: error.message,
+          });
+        }
+
+        return res.status(500).json({
+          error: "Error al obtener los cambios de visibilidad",
+          details: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "Error al obtener los cambios de visibilidad",
+        details: "Error inesperado",
+      });
+    }
+  }
+
   async deleteComments(req: Request, res: Response): Promise<Response> {
     try {
       const id = parseInt(req.params.id);
@@ -0,0 +1,44 @@
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Incident } from "./Incident";
+
+/**
+ * Entidad AssignmentDecision que representa la tabla 'decisiones_asignacion'
+ * Auditoría de cada asignación automática: estrategia aplicada, candidatos
+ * evaluados con su carga de trabajo y técnico elegido
+ */
+@Entity({ name: "decisiones_asignacion" })
+export class AssignmentDecision {
+  @PrimaryGeneratedColumn()
+  id_decision!: number;
+
+  @Column({ type: "int" })
+  incidencia_id!: number;
+
+  @Column({ type: "int" })
+  categoria_id!: number;
+
+  @Column({ type: "varchar", length: 30 })
+  estrategia!: string;
+
+  @Column({ type: "int", nullable: true })
+  soporte_id: number | null | undefined;
+
+  @Column({ type: "text" })
+  candidatos!: string; // JSON con los candidatos y su carga
+
+  @Column({ type: "varchar", length: 255 })
+  motivo!: string;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  fecha!: Date;
+
+  @ManyToOne(() => Incident, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "incidencia_id" })
+  incidencia!: Incident;
+}
@@ -0,0 +1,41 @@
+import {
+  Column,
+  Entity,
+  PrimaryColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Category } from "./Category";
+
+/**
+ * Entidad AssignmentRule que representa la tabla 'reglas_asignacion'
+ * Estrategia de asignación automática configurada para cada categoría
+ */
+@Entity({ name: "reglas_asignacion" })
+export class AssignmentRule {
+  @PrimaryColumn({ type: "int" })
+  categoria_id!: number;
+
+  @Column({ type: "varchar", length: 30 })
+  estrategia!: string;
+
+  @Column({ type: "simple-array", nullable: true })
+  soportes_ids: string[] | null | undefined;
+
+  @Column({ type: "boolean", default: true })
+  activa!: boolean;
+
+  @Column({ type: "int", nullable: true })
+  ultimo_soporte_id: number | null | undefined;
+
+  @Column({
+    type: "timestamp",
+    default: () => "CURRENT_TIMESTAMP",
+    onUpdate: "CURRENT_TIMESTAMP",
+  })
+  actualizado_en!: Date;
+
+  @ManyToOne(() => Category, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "categoria_id" })
+  categoria!: Category;
+}
@@ -0,0 +1,57 @@
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Incident } from "./Incident";
+import { Comments } from "./Comments";
+import { User } from "./User";
+
+/**
+ * Entidad Attachment que representa la tabla 'adjuntos'
+ * Guarda los metadatos de cada archivo adjunto; el contenido se almacena
+ * fuera de la base de datos bajo clave_almacenamiento
+ */
+@Entity({ name: "adjuntos" })
+export class Attachment {
+  @PrimaryGeneratedColumn()
+  id_adjunto!: number;
+
+  @Column({ type: "int" })
+  incidencia_id!: number;
+
+  @Column({ type: "int", nullable: true })
+  comentario_id: number | null | undefined;
+
+  @Column({ type: "varchar", length: 255 })
+  nombre_original!: string;
+
+  @Column({ type: "varchar", length: 100 })
+  tipo_mime!: string;
+
+  @Column({ type: "int" })
+  tamano!: number;
+
+  @Column({ type: "varchar", length: 255 })
+  clave_almacenamiento!: string;
+
+  @Column({ type: "int" })
+  usuario_id!: number;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  creado_en!: Date;
+
+  @ManyToOne(() => Incident, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "incidencia_id" })
+  incidencia!: Incident;
+
+  @ManyToOne(() => Comments, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "comentario_id" })
+  comentario!: Comments;
+
+  @ManyToOne(() => User, { onDelete: "RESTRICT", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "usuario_id" })
+  usuario!: User;
+}
@@ -0,0 +1,25 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * Entidad BusinessCalendar que representa la tabla 'calendario_laboral'
+ * Contiene una única fila con la jornada laboral del sistema
+ */
+@Entity({ name: "calendario_laboral" })
+export class BusinessCalendar {
+  @PrimaryGeneratedColumn()
+  id_calendario!: number;
+  @Column({ type: "simple-array" })
+  dias_laborables!: string[];
+  @Column({ type: "varchar", length: 5 })
+  hora_inicio!: string;
+  @Column({ type: "varchar", length: 5 })
+  hora_fin!: string;
+  @Column({ type: "varchar", length: 64 })
+  zona_horaria!: string;
+  @Column({
+    type: "timestamp",
+    default: () => "CURRENT_TIMESTAMP",
+    onUpdate: "CURRENT_TIMESTAMP",
+  })
+  actualizado_en!: Date;
+}
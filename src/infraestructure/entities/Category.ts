@@ -1,4 +1,11 @@
-import { Column, Entity, PrimaryGeneratedColumn, OneToMany } from "typeorm";
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { SupportGroup } from "./SupportGroup";
 
 /**
  * Entidad Category que representa la tabla 'categorias' en la base de datos
@@ -15,6 +22,16 @@ export class Category {
   descripcion?: string;
   @Column({ type: "tinyint", default: 1 })
   estado!: number;
+  @Column({ type: "int", nullable: true })
+  grupo_soporte_id: number | null | undefined;
   @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
   fecha_creacion!: Date;
+
+  @ManyToOne(() => SupportGroup, {
+    nullable: true,
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  })
+  @JoinColumn({ name: "grupo_soporte_id" })
+  grupoSoporte?: SupportGroup;
 }
@@ -0,0 +1,19 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * Entidad ClosureCode que representa la tabla 'codigos_cierre' en la base de datos
+ * Catálogo de códigos que indican cómo se cerró una incidencia
+ */
+@Entity({ name: "codigos_cierre" })
+export class ClosureCode {
+  @PrimaryGeneratedColumn()
+  id_codigos_cierre!: number;
+  @Column({ type: "varchar", length: 100, unique: true })
+  nombre!: string;
+  @Column({ type: "text", nullable: true })
+  descripcion?: string;
+  @Column({ type: "tinyint", default: 1 })
+  estado!: number;
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  fecha_creacion!: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  Column,
+  Entity,
+  PrimaryColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Comments } from "./Comments";
+import { User } from "./User";
+
+/**
+ * Entidad CommentMention que representa la tabla 'menciones_comentarios'
+ * Relaciona cada comentario con los usuarios mencionados en su texto
+ */
+@Entity({ name: "menciones_comentarios" })
+export class CommentMention {
+  @PrimaryColumn({ type: "int" })
+  comentario_id!: number;
+
+  @PrimaryColumn({ type: "int" })
+  usuario_id!: number;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  creado_en!: Date;
+
+  @ManyToOne(() => Comments, (comment) => comment.menciones, {
+    onDelete: "CASCADE",
+    onUpdate: "CASCADE",
+  })
+  @JoinColumn({ name: "comentario_id" })
+  comentario!: Comments;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "usuario_id" })
+  usuario!: User;
+}
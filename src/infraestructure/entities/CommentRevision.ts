@@ -0,0 +1,34 @@
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Comments } from "./Comments";
+
+/**
+ * Entidad CommentRevision que representa la tabla 'revisiones_comentarios'
+ * Conserva el texto anterior de un comentario cada vez que se edita
+ */
+@Entity({ name: "revisiones_comentarios" })
+export class CommentRevision {
+  @PrimaryGeneratedColumn()
+  id_revision!: number;
+
+  @Column({ type: "int" })
+  comentario_id!: number;
+
+  @Column({ type: "text" })
+  comentario!: string;
+
+  @Column({ type: "int" })
+  editado_por_id!: number;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  fecha!: Date;
+
+  @ManyToOne(() => Comments, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "comentario_id" })
+  comentarioOriginal!: Comments;
+}
@@ -0,0 +1,38 @@
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Comments } from "./Comments";
+
+/**
+ * Entidad CommentVisibilityChange que representa la tabla
+ * 'cambios_visibilidad_comentarios'
+ * Auditoría de cada conversión de un comentario entre público e interno
+ */
+@Entity({ name: "cambios_visibilidad_comentarios" })
+export class CommentVisibilityChange {
+  @PrimaryGeneratedColumn()
+  id_cambio!: number;
+
+  @Column({ type: "int" })
+  comentario_id!: number;
+
+  @Column({ type: "varchar", length: 10 })
+  visibilidad_anterior!: string;
+
+  @Column({ type: "varchar", length: 10 })
+  visibilidad_nueva!: string;
+
+  @Column({ type: "int" })
+  usuario_id!: number;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  fecha!: Date;
+
+  @ManyToOne(() => Comments, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "comentario_id" })
+  comentario!: Comments;
+}
@@ -1,4 +1,13 @@
-import { Column, Entity, PrimaryGeneratedColumn, OneToMany } from "typeorm";
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { CommentMention } from "./CommentMention";
 
 /**
  * Entidad Category que representa la tabla 'categorias' en la base de datos
@@ -6,6 +15,7 @@ import { Column, Entity, PrimaryGeneratedColumn, OneToMany } from "typeorm";
  * Utiliza TypeORM como ORM para el mapeo objeto-relacional
  */
 @Entity({ name: "comentarios" })
+@Index("ft_comentarios_texto", ["comentario"], { fulltext: true })
 export class Comments {
   @PrimaryGeneratedColumn()
   id_comentarios!: number;
@@ -15,6 +25,22 @@ export class Comments {
   usuario_id!: number;
   @Column({ type: "text" })
   comentario!: string;
+  @Column({ type: "int", nullable: true })
+  creado_por_id: number | null | undefined;
+  @Column({ type: "int", nullable: true })
+  comentario_padre_id: number | null | undefined;
+  @Column({ type: "varchar", length: 10, default: "publico" })
+  visibilidad!: string;
+  @Column({ type: "timestamp", nullable: true })
+  editado_en: Date | null | undefined;
   @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
   creado_en!: Date;
+
+  // Las respuestas se conservan como hilos independientes si se elimina el padre
+  @ManyToOne(() => Comments, { onDelete: "SET NULL", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "comentario_padre_id" })
+  comentarioPadre!: Comments | null;
+
+  @OneToMany(() => CommentMention, (mention) => mention.comentario)
+  menciones!: CommentMention[];
 }
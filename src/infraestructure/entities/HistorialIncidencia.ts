@@ -0,0 +1,45 @@
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Incident } from "./Incident";
+import { User } from "./User";
+
+/**
+ * Entidad HistorialIncidencia que representa la tabla 'historial_incidencias'
+ * Cada fila guarda el cambio de un campo de una incidencia y el usuario que lo realizó
+ */
+@Entity({ name: "historial_incidencias" })
+export class HistorialIncidencia {
+  @PrimaryGeneratedColumn()
+  id_historial!: number;
+
+  @Column({ type: "int" })
+  incidencia_id!: number;
+
+  @Column({ type: "varchar", length: 50 })
+  campo!: string;
+
+  @Column({ type: "text", nullable: true })
+  valor_anterior: string | null | undefined;
+
+  @Column({ type: "text", nullable: true })
+  valor_nuevo: string | null | undefined;
+
+  @Column({ type: "int" })
+  usuario_id!: number;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  fecha!: Date;
+
+  @ManyToOne(() => Incident, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "incidencia_id" })
+  incidencia!: Incident;
+
+  @ManyToOne(() => User, { onDelete: "RESTRICT", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "usuario_id" })
+  usuario!: User;
+}
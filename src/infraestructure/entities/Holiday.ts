@@ -0,0 +1,17 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * Entidad Holiday que representa la tabla 'dias_festivos'
+ * Cada fila es un día completo no laborable del calendario
+ */
+@Entity({ name: "dias_festivos" })
+export class Holiday {
+  @PrimaryGeneratedColumn()
+  id_festivo!: number;
+  @Column({ type: "date", unique: true })
+  fecha!: string;
+  @Column({ type: "varchar", length: 150, nullable: true })
+  descripcion?: string;
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  fecha_creacion!: Date;
+}
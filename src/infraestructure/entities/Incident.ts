@@ -4,12 +4,16 @@ import {
   PrimaryGeneratedColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from "typeorm";
 import { User } from "./User";
 import { Category } from "./Category";
 import { Priority } from "./Priority";
+import { ClosureCode } from "./ClosureCode";
+import { SupportGroup } from "./SupportGroup";
 
 @Entity({ name: "incidencias" })
+@Index("ft_incidencias_texto", ["titulo", "descripcion"], { fulltext: true })
 export class Incident {
   @PrimaryGeneratedColumn()
   id_incidencias!: number;
@@ -20,12 +24,9 @@ export class Incident {
   @Column({ type: "text", nullable: true })
   descripcion?: string;
 
-  @Column({
-    type: "enum",
-    enum: ["abierta", "en_progreso", "cerrada"],
-    default: "abierta",
-  })
-  estado!: "abierta" | "en_progreso" | "cerrada";
+  // Clave de un estado del flujo de trabajo configurado
+  @Column({ type: "varchar", length: 50, default: "abierta" })
+  estado!: string;
 
   @Column({ type: "int" })
   usuario_id!: number;
@@ -33,12 +34,18 @@ export class Incident {
   @Column({ type: "int", nullable: true })
   soporte_id: number | null | undefined;
 
+  @Column({ type: "int", nullable: true })
+  grupo_soporte_id: number | null | undefined;
+
   @Column({ type: "int" })
   categoria_id!: number;
 
   @Column({ type: "int" })
   prioridad_id!: number;
 
+  @Column({ type: "int", nullable: true })
+  creado_por_id: number | null | undefined;
+
   @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
   creado_en!: Date;
 
@@ -48,6 +55,37 @@ export class Incident {
     onUpdate: "CURRENT_TIMESTAMP",
   })
   actualizado_en!: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  fecha_primera_respuesta: Date | null | undefined;
+
+  @Column({ type: "timestamp", nullable: true })
+  fecha_cierre: Date | null | undefined;
+
+  @Column({ type: "timestamp", nullable: true })
+  fecha_reapertura: Date | null | undefined;
+
+  @Column({ type: "int", default: 0 })
+  reaperturas!: number;
+
+  @Column({ type: "timestamp", nullable: true })
+  fecha_limite_respuesta: Date | null | undefined;
+
+  @Column({ type: "timestamp", nullable: true })
+  fecha_limite_resolucion: Date | null | undefined;
+
+  @Column({ type: "text", nullable: true })
+  nota_resolucion: string | null | undefined;
+
+  @Column({ type: "int", nullable: true })
+  codigo_cierre_id: number | null | undefined;
+
+  @Column({ type: "timestamp", nullable: true })
+  fecha_resolucion: Date | null | undefined;
+
+  @Column({ type: "int", nullable: true })
+  incidencia_origen_id: number | null | undefined;
+
   @ManyToOne(() => User, { onDelete: "RESTRICT", onUpdate: "CASCADE" })
   @JoinColumn({ name: "usuario_id" })
   usuario!: User;
@@ -60,6 +98,14 @@ export class Incident {
   @JoinColumn({ name: "soporte_id" })
   soporte?: User;
 
+  @ManyToOne(() => SupportGroup, {
+    nullable: true,
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  })
+  @JoinColumn({ name: "grupo_soporte_id" })
+  grupoSoporte?: SupportGroup;
+
   @ManyToOne(() => Category, { onDelete: "RESTRICT", onUpdate: "CASCADE" })
   @JoinColumn({ name: "categoria_id" })
   categoria!: Category;
@@ -67,4 +113,20 @@ export class Incident {
   @ManyToOne(() => Priority, { onDelete: "RESTRICT", onUpdate: "CASCADE" })
   @JoinColumn({ name: "prioridad_id" })
   prioridad!: Priority;
+
+  @ManyToOne(() => ClosureCode, {
+    nullable: true,
+    onDelete: "RESTRICT",
+    onUpdate: "CASCADE",
+  })
+  @JoinColumn({ name: "codigo_cierre_id" })
+  codigoCierre?: ClosureCode;
+
+  @ManyToOne(() => Incident, {
+    nullable: true,
+    onDelete: "SET NULL",
+    onUpdate: "CASCADE",
+  })
+  @JoinColumn({ name: "incidencia_origen_id" })
+  incidenciaOrigen?: Incident;
 }
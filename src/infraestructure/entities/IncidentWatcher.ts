@@ -0,0 +1,37 @@
+import {
+  Column,
+  Entity,
+  PrimaryColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Incident } from "./Incident";
+import { User } from "./User";
+
+/**
+ * Entidad IncidentWatcher que representa la tabla 'seguidores_incidencias'
+ * Relaciona cada incidencia con los usuarios que la siguen y, si los
+ * añadió un gestor, con quién lo hizo
+ */
+@Entity({ name: "seguidores_incidencias" })
+export class IncidentWatcher {
+  @PrimaryColumn({ type: "int" })
+  incidencia_id!: number;
+
+  @PrimaryColumn({ type: "int" })
+  usuario_id!: number;
+
+  @Column({ type: "int", nullable: true })
+  agregado_por_id: number | null | undefined;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  creado_en!: Date;
+
+  @ManyToOne(() => Incident, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "incidencia_id" })
+  incidencia!: Incident;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "usuario_id" })
+  usuario!: User;
+}
@@ -0,0 +1,32 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * Entidad LoginAttempt que representa la tabla 'intentos_login'
+ * Registro de auditoría de todos los intentos de inicio de sesión
+ */
+@Entity({ name: "intentos_login" })
+export class LoginAttempt {
+  @PrimaryGeneratedColumn()
+  id_intento!: number;
+
+  @Index("idx_intentos_login_email")
+  @Column({ type: "varchar", length: 255 })
+  email!: string;
+
+  @Column({ type: "int", nullable: true })
+  usuario_id: number | null | undefined;
+
+  @Index("idx_intentos_login_ip")
+  @Column({ type: "varchar", length: 45 })
+  ip!: string;
+
+  @Column({ type: "boolean" })
+  exito!: boolean;
+
+  @Column({ type: "varchar", length: 20, nullable: true })
+  motivo: string | null | undefined;
+
+  @Index("idx_intentos_login_fecha")
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  fecha!: Date;
+}
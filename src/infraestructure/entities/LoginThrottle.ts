@@ -0,0 +1,23 @@
+import { Column, Entity, PrimaryColumn } from "typeorm";
+
+/**
+ * Entidad LoginThrottle que representa la tabla 'bloqueos_login'
+ * Una fila por cuenta (email) o IP con fallos de inicio de sesión recientes
+ */
+@Entity({ name: "bloqueos_login" })
+export class LoginThrottle {
+  @PrimaryColumn({ type: "enum", enum: ["cuenta", "ip"] })
+  tipo!: "cuenta" | "ip";
+
+  @PrimaryColumn({ type: "varchar", length: 255 })
+  clave!: string;
+
+  @Column({ type: "int", default: 0 })
+  fallos!: number;
+
+  @Column({ type: "timestamp" })
+  ultimo_fallo!: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  bloqueado_hasta: Date | null | undefined;
+}
@@ -0,0 +1,26 @@
+import { Column, Entity, PrimaryColumn, OneToOne, JoinColumn } from "typeorm";
+import { User } from "./User";
+
+/**
+ * Entidad NotificationPreference que representa la tabla 'preferencias_notificacion'
+ * Una fila por usuario que haya configurado sus notificaciones por correo
+ */
+@Entity({ name: "preferencias_notificacion" })
+export class NotificationPreference {
+  @PrimaryColumn({ type: "int" })
+  usuario_id!: number;
+  @Column({ type: "boolean", default: true })
+  email_habilitado!: boolean;
+  @Column({ type: "simple-array", nullable: true })
+  tipos_desactivados: string[] | null | undefined;
+  @Column({
+    type: "timestamp",
+    default: () => "CURRENT_TIMESTAMP",
+    onUpdate: "CURRENT_TIMESTAMP",
+  })
+  actualizado_en!: Date;
+
+  @OneToOne(() => User, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "usuario_id" })
+  usuario!: User;
+}
@@ -0,0 +1,37 @@
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { User } from "./User";
+
+/**
+ * Entidad PasswordResetToken que representa la tabla 'tokens_restablecimiento'
+ * Guarda el hash de cada token de restablecimiento de contraseña emitido
+ */
+@Entity({ name: "tokens_restablecimiento" })
+export class PasswordResetToken {
+  @PrimaryGeneratedColumn()
+  id_token!: number;
+
+  @Column({ type: "int" })
+  usuario_id!: number;
+
+  @Column({ type: "char", length: 64, unique: true })
+  token_hash!: string;
+
+  @Column({ type: "timestamp" })
+  expira_en!: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  usado_en: Date | null | undefined;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  creado_en!: Date;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "usuario_id" })
+  usuario!: User;
+}
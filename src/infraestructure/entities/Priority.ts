@@ -19,6 +19,10 @@ export class Priority {
   nivel_prioridad!: number;
   @Column({ type: "varchar", length: 7, nullable: true })
   color_prioridad?: string;
+  @Column({ type: "int", nullable: true })
+  horas_respuesta?: number;
+  @Column({ type: "int", nullable: true })
+  horas_resolucion?: number;
   @Column({ type: "tinyint", default: 1 })
   estado_prioridad!: number;
   @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
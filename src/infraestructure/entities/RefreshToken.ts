@@ -0,0 +1,42 @@
+import {
+  Column,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { User } from "./User";
+
+/**
+ * Entidad RefreshToken que representa la tabla 'tokens_refresco'
+ * Guarda el hash de cada refresh token emitido y su estado de revocación
+ */
+@Entity({ name: "tokens_refresco" })
+export class RefreshToken {
+  @PrimaryGeneratedColumn()
+  id_token!: number;
+
+  @Column({ type: "int" })
+  usuario_id!: number;
+
+  @Index("idx_tokens_refresco_sesion")
+  @Column({ type: "varchar", length: 36 })
+  sesion_id!: string;
+
+  @Column({ type: "char", length: 64, unique: true })
+  token_hash!: string;
+
+  @Column({ type: "timestamp" })
+  expira_en!: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  revocado_en: Date | null | undefined;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  creado_en!: Date;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "usuario_id" })
+  usuario!: User;
+}
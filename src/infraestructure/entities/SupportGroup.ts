@@ -0,0 +1,19 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * Entidad SupportGroup que representa la tabla 'grupos_soporte' en la base de datos
+ * Grupos de técnicos a los que se asignan las incidencias
+ */
+@Entity({ name: "grupos_soporte" })
+export class SupportGroup {
+  @PrimaryGeneratedColumn()
+  id_grupos_soporte!: number;
+  @Column({ type: "varchar", length: 100, unique: true })
+  nombre!: string;
+  @Column({ type: "text", nullable: true })
+  descripcion?: string;
+  @Column({ type: "tinyint", default: 1 })
+  estado!: number;
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  fecha_creacion!: Date;
+}
@@ -0,0 +1,33 @@
+import {
+  Column,
+  Entity,
+  PrimaryColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { SupportGroup } from "./SupportGroup";
+import { User } from "./User";
+
+/**
+ * Entidad SupportGroupMember que representa la tabla 'miembros_grupos_soporte'
+ * Relaciona cada grupo de soporte con los técnicos que lo forman
+ */
+@Entity({ name: "miembros_grupos_soporte" })
+export class SupportGroupMember {
+  @PrimaryColumn({ type: "int" })
+  grupo_id!: number;
+
+  @PrimaryColumn({ type: "int" })
+  usuario_id!: number;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  creado_en!: Date;
+
+  @ManyToOne(() => SupportGroup, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "grupo_id" })
+  grupo!: SupportGroup;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "usuario_id" })
+  usuario!: User;
+}
@@ -0,0 +1,27 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * Entidad Webhook que representa la tabla 'webhooks'
+ * Endpoints externos registrados por los administradores
+ */
+@Entity({ name: "webhooks" })
+export class Webhook {
+  @PrimaryGeneratedColumn()
+  id_webhook!: number;
+  @Column({ type: "varchar", length: 500 })
+  url!: string;
+  @Column({ type: "varchar", length: 255 })
+  secreto!: string;
+  @Column({ type: "simple-array" })
+  eventos!: string[];
+  @Column({ type: "boolean", default: true })
+  activo!: boolean;
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  creado_en!: Date;
+  @Column({
+    type: "timestamp",
+    default: () => "CURRENT_TIMESTAMP",
+    onUpdate: "CURRENT_TIMESTAMP",
+  })
+  actualizado_en!: Date;
+}
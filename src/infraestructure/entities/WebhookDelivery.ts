@@ -0,0 +1,59 @@
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Webhook } from "./Webhook";
+
+/**
+ * Entidad WebhookDelivery que representa la tabla 'entregas_webhook'
+ * Registro de cada entrega de un evento a un webhook y de sus reintentos
+ */
+@Entity({ name: "entregas_webhook" })
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn()
+  id_entrega!: number;
+
+  @Column({ type: "int" })
+  webhook_id!: number;
+
+  @Column({ type: "varchar", length: 50 })
+  evento!: string;
+
+  @Column({ type: "mediumtext" })
+  payload!: string;
+
+  @Column({
+    type: "enum",
+    enum: ["pendiente", "entregado", "fallido"],
+    default: "pendiente",
+  })
+  estado!: "pendiente" | "entregado" | "fallido";
+
+  @Column({ type: "int", default: 0 })
+  intentos!: number;
+
+  @Column({ type: "int", nullable: true })
+  codigo_respuesta: number | null | undefined;
+
+  @Column({ type: "text", nullable: true })
+  ultimo_error: string | null | undefined;
+
+  @Column({ type: "timestamp", nullable: true })
+  proximo_intento: Date | null | undefined;
+
+  @Column({ type: "int", nullable: true })
+  entrega_original_id: number | null | undefined;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  creado_en!: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  entregado_en: Date | null | undefined;
+
+  @ManyToOne(() => Webhook, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "webhook_id" })
+  webhook!: Webhook;
+}
@@ -0,0 +1,17 @@
+import { Column, Entity, PrimaryColumn } from "typeorm";
+
+/**
+ * Entidad WorkflowState que representa la tabla 'estados_flujo'
+ * Estados configurables del ciclo de vida de las incidencias
+ */
+@Entity({ name: "estados_flujo" })
+export class WorkflowState {
+  @PrimaryColumn({ type: "varchar", length: 50 })
+  clave!: string;
+  @Column({ type: "varchar", length: 100 })
+  nombre!: string;
+  @Column({ type: "enum", enum: ["inicial", "intermedio", "final"] })
+  tipo!: "inicial" | "intermedio" | "final";
+  @Column({ type: "int" })
+  orden!: number;
+}
@@ -0,0 +1,41 @@
+import {
+  Column,
+  Entity,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from "typeorm";
+import { WorkflowState } from "./WorkflowState";
+
+/**
+ * Entidad WorkflowTransition que representa la tabla 'transiciones_flujo'
+ * Transiciones permitidas entre estados, con los roles que pueden realizarlas
+ * y los campos que exigen
+ */
+@Entity({ name: "transiciones_flujo" })
+@Unique("uq_transiciones_flujo", ["estado_origen", "estado_destino"])
+export class WorkflowTransition {
+  @PrimaryGeneratedColumn()
+  id_transicion!: number;
+
+  @Column({ type: "varchar", length: 50 })
+  estado_origen!: string;
+
+  @Column({ type: "varchar", length: 50 })
+  estado_destino!: string;
+
+  @Column({ type: "simple-array" })
+  roles!: string[];
+
+  @Column({ type: "simple-array", nullable: true })
+  campos_requeridos: string[] | null | undefined;
+
+  @ManyToOne(() => WorkflowState, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "estado_origen" })
+  origen!: WorkflowState;
+
+  @ManyToOne(() => WorkflowState, { onDelete: "CASCADE", onUpdate: "CASCADE" })
+  @JoinColumn({ name: "estado_destino" })
+  destino!: WorkflowState;
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Añade a incidencias y comentarios el usuario que los registró en nombre
+ * de otro
+ */
+export class AddCreatorToIncidentsAndComments1750000000003 implements MigrationInterface {
+  name = "AddCreatorToIncidentsAndComments1750000000003";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` ADD `creado_por_id` int NULL"
+    );
+    await queryRunner.query(
+      "ALTER TABLE `comentarios` ADD `creado_por_id` int NULL"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("ALTER TABLE `comentarios` DROP COLUMN `creado_por_id`");
+    await queryRunner.query("ALTER TABLE `incidencias` DROP COLUMN `creado_por_id`");
+  }
+}
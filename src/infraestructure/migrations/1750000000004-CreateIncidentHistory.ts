@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea la tabla del historial de cambios de las incidencias
+ */
+export class CreateIncidentHistory1750000000004 implements MigrationInterface {
+  name = "CreateIncidentHistory1750000000004";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `historial_incidencias` (" +
+        "`id_historial` int NOT NULL AUTO_INCREMENT, " +
+        "`incidencia_id` int NOT NULL, " +
+        "`campo` varchar(50) NOT NULL, " +
+        "`valor_anterior` text NULL, " +
+        "`valor_nuevo` text NULL, " +
+        "`usuario_id` int NOT NULL, " +
+        "`fecha` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`id_historial`), " +
+        "CONSTRAINT `fk_historial_incidencias_incidencia` FOREIGN KEY (`incidencia_id`) " +
+        "REFERENCES `incidencias` (`id_incidencias`) ON DELETE CASCADE ON UPDATE CASCADE, " +
+        "CONSTRAINT `fk_historial_incidencias_usuario` FOREIGN KEY (`usuario_id`) " +
+        "REFERENCES `usuarios` (`id_usuarios`) ON DELETE RESTRICT ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `historial_incidencias`");
+  }
+}
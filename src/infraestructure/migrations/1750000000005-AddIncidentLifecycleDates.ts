@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Añade a las incidencias las fechas de primera respuesta, cierre y
+ * reapertura usadas en las estadísticas de resolución
+ */
+export class AddIncidentLifecycleDates1750000000005 implements MigrationInterface {
+  name = "AddIncidentLifecycleDates1750000000005";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "ADD `fecha_primera_respuesta` timestamp NULL, " +
+        "ADD `fecha_cierre` timestamp NULL, " +
+        "ADD `fecha_reapertura` timestamp NULL, " +
+        "ADD `reaperturas` int NOT NULL DEFAULT 0"
+    );
+    // Las incidencias ya cerradas toman como cierre su última modificación
+    await queryRunner.query(
+      "UPDATE `incidencias` SET `fecha_cierre` = `actualizado_en` WHERE `estado` = 'cerrada'"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "DROP COLUMN `reaperturas`, " +
+        "DROP COLUMN `fecha_reapertura`, " +
+        "DROP COLUMN `fecha_cierre`, " +
+        "DROP COLUMN `fecha_primera_respuesta`"
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Añade los objetivos de SLA de cada prioridad y las fechas límite de las
+ * incidencias
+ */
+export class AddSlaTargets1750000000006 implements MigrationInterface {
+  name = "AddSlaTargets1750000000006";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `prioridades` " +
+        "ADD `horas_respuesta` int NULL, " +
+        "ADD `horas_resolucion` int NULL"
+    );
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "ADD `fecha_limite_respuesta` timestamp NULL, " +
+        "ADD `fecha_limite_resolucion` timestamp NULL"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "DROP COLUMN `fecha_limite_resolucion`, " +
+        "DROP COLUMN `fecha_limite_respuesta`"
+    );
+    await queryRunner.query(
+      "ALTER TABLE `prioridades` " +
+        "DROP COLUMN `horas_resolucion`, " +
+        "DROP COLUMN `horas_respuesta`"
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea las tablas del calendario laboral y de los días festivos
+ */
+export class CreateBusinessCalendar1750000000007 implements MigrationInterface {
+  name = "CreateBusinessCalendar1750000000007";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `calendario_laboral` (" +
+        "`id_calendario` int NOT NULL AUTO_INCREMENT, " +
+        "`dias_laborables` text NOT NULL, " +
+        "`hora_inicio` varchar(5) NOT NULL, " +
+        "`hora_fin` varchar(5) NOT NULL, " +
+        "`zona_horaria` varchar(64) NOT NULL, " +
+        "`actualizado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`id_calendario`)" +
+        ") ENGINE=InnoDB"
+    );
+    await queryRunner.query(
+      "CREATE TABLE `dias_festivos` (" +
+        "`id_festivo` int NOT NULL AUTO_INCREMENT, " +
+        "`fecha` date NOT NULL, " +
+        "`descripcion` varchar(150) NULL, " +
+        "`fecha_creacion` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "UNIQUE INDEX `uq_dias_festivos_fecha` (`fecha`), " +
+        "PRIMARY KEY (`id_festivo`)" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `dias_festivos`");
+    await queryRunner.query("DROP TABLE `calendario_laboral`");
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea los índices FULLTEXT que usa la búsqueda de incidencias sobre el
+ * título, la descripción y los comentarios
+ */
+export class AddFullTextSearchIndexes1750000000009 implements MigrationInterface {
+  name = "AddFullTextSearchIndexes1750000000009";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE FULLTEXT INDEX `ft_incidencias_texto` ON `incidencias` (`titulo`, `descripcion`)"
+    );
+    await queryRunner.query(
+      "CREATE FULLTEXT INDEX `ft_comentarios_texto` ON `comentarios` (`comentario`)"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP INDEX `ft_comentarios_texto` ON `comentarios`");
+    await queryRunner.query("DROP INDEX `ft_incidencias_texto` ON `incidencias`");
+  }
+}
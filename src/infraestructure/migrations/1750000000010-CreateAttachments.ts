@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea la tabla de los archivos adjuntos a incidencias y comentarios
+ */
+export class CreateAttachments1750000000010 implements MigrationInterface {
+  name = "CreateAttachments1750000000010";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `adjuntos` (" +
+        "`id_adjunto` int NOT NULL AUTO_INCREMENT, " +
+        "`incidencia_id` int NOT NULL, " +
+        "`comentario_id` int NULL, " +
+        "`nombre_original` varchar(255) NOT NULL, " +
+        "`tipo_mime` varchar(100) NOT NULL, " +
+        "`tamano` int NOT NULL, " +
+        "`clave_almacenamiento` varchar(255) NOT NULL, " +
+        "`usuario_id` int NOT NULL, " +
+        "`creado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`id_adjunto`), " +
+        "CONSTRAINT `fk_adjuntos_incidencia` FOREIGN KEY (`incidencia_id`) " +
+        "REFERENCES `incidencias` (`id_incidencias`) ON DELETE CASCADE ON UPDATE CASCADE, " +
+        "CONSTRAINT `fk_adjuntos_comentario` FOREIGN KEY (`comentario_id`) " +
+        "REFERENCES `comentarios` (`id_comentarios`) ON DELETE CASCADE ON UPDATE CASCADE, " +
+        "CONSTRAINT `fk_adjuntos_usuario` FOREIGN KEY (`usuario_id`) " +
+        "REFERENCES `usuarios` (`id_usuarios`) ON DELETE RESTRICT ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `adjuntos`");
+  }
+}
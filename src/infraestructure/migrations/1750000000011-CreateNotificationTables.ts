@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea las tablas de las preferencias de notificación de cada usuario y
+ * de los seguidores de las incidencias
+ */
+export class CreateNotificationTables1750000000011 implements MigrationInterface {
+  name = "CreateNotificationTables1750000000011";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `preferencias_notificacion` (" +
+        "`usuario_id` int NOT NULL, " +
+        "`email_habilitado` tinyint NOT NULL DEFAULT 1, " +
+        "`tipos_desactivados` text NULL, " +
+        "`actualizado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`usuario_id`), " +
+        "CONSTRAINT `fk_preferencias_notificacion_usuario` FOREIGN KEY (`usuario_id`) " +
+        "REFERENCES `usuarios` (`id_usuarios`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+    await queryRunner.query(
+      "CREATE TABLE `seguidores_incidencias` (" +
+        "`incidencia_id` int NOT NULL, " +
+        "`usuario_id` int NOT NULL, " +
+        "`creado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`incidencia_id`, `usuario_id`), " +
+        "CONSTRAINT `fk_seguidores_incidencias_incidencia` FOREIGN KEY (`incidencia_id`) " +
+        "REFERENCES `incidencias` (`id_incidencias`) ON DELETE CASCADE ON UPDATE CASCADE, " +
+        "CONSTRAINT `fk_seguidores_incidencias_usuario` FOREIGN KEY (`usuario_id`) " +
+        "REFERENCES `usuarios` (`id_usuarios`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `seguidores_incidencias`");
+    await queryRunner.query("DROP TABLE `preferencias_notificacion`");
+  }
+}
@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea las tablas de los webhooks salientes y del registro de sus entregas
+ */
+export class CreateWebhooks1750000000012 implements MigrationInterface {
+  name = "CreateWebhooks1750000000012";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `webhooks` (" +
+        "`id_webhook` int NOT NULL AUTO_INCREMENT, " +
+        "`url` varchar(500) NOT NULL, " +
+        "`secreto` varchar(255) NOT NULL, " +
+        "`eventos` text NOT NULL, " +
+        "`activo` tinyint NOT NULL DEFAULT 1, " +
+        "`creado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "`actualizado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`id_webhook`)" +
+        ") ENGINE=InnoDB"
+    );
+    await queryRunner.query(
+      "CREATE TABLE `entregas_webhook` (" +
+        "`id_entrega` int NOT NULL AUTO_INCREMENT, " +
+        "`webhook_id` int NOT NULL, " +
+        "`evento` varchar(50) NOT NULL, " +
+        "`payload` mediumtext NOT NULL, " +
+        "`estado` enum('pendiente', 'entregado', 'fallido') NOT NULL DEFAULT 'pendiente', " +
+        "`intentos` int NOT NULL DEFAULT 0, " +
+        "`codigo_respuesta` int NULL, " +
+        "`ultimo_error` text NULL, " +
+        "`proximo_intento` timestamp NULL, " +
+        "`entrega_original_id` int NULL, " +
+        "`creado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "`entregado_en` timestamp NULL, " +
+        "PRIMARY KEY (`id_entrega`), " +
+        "CONSTRAINT `fk_entregas_webhook_webhook` FOREIGN KEY (`webhook_id`) " +
+        "REFERENCES `webhooks` (`id_webhook`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `entregas_webhook`");
+    await queryRunner.query("DROP TABLE `webhooks`");
+  }
+}
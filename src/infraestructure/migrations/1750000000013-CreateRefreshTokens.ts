@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea la tabla de los tokens de refresco de las sesiones
+ */
+export class CreateRefreshTokens1750000000013 implements MigrationInterface {
+  name = "CreateRefreshTokens1750000000013";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `tokens_refresco` (" +
+        "`id_token` int NOT NULL AUTO_INCREMENT, " +
+        "`usuario_id` int NOT NULL, " +
+        "`sesion_id` varchar(36) NOT NULL, " +
+        "`token_hash` char(64) NOT NULL, " +
+        "`expira_en` timestamp NOT NULL, " +
+        "`revocado_en` timestamp NULL, " +
+        "`creado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "INDEX `idx_tokens_refresco_sesion` (`sesion_id`), " +
+        "UNIQUE INDEX `uq_tokens_refresco_hash` (`token_hash`), " +
+        "PRIMARY KEY (`id_token`), " +
+        "CONSTRAINT `fk_tokens_refresco_usuario` FOREIGN KEY (`usuario_id`) " +
+        "REFERENCES `usuarios` (`id_usuarios`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `tokens_refresco`");
+  }
+}
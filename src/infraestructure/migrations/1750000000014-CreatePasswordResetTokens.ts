@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea la tabla de los tokens de restablecimiento de contraseña
+ */
+export class CreatePasswordResetTokens1750000000014 implements MigrationInterface {
+  name = "CreatePasswordResetTokens1750000000014";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `tokens_restablecimiento` (" +
+        "`id_token` int NOT NULL AUTO_INCREMENT, " +
+        "`usuario_id` int NOT NULL, " +
+        "`token_hash` char(64) NOT NULL, " +
+        "`expira_en` timestamp NOT NULL, " +
+        "`usado_en` timestamp NULL, " +
+        "`creado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "UNIQUE INDEX `uq_tokens_restablecimiento_hash` (`token_hash`), " +
+        "PRIMARY KEY (`id_token`), " +
+        "CONSTRAINT `fk_tokens_restablecimiento_usuario` FOREIGN KEY (`usuario_id`) " +
+        "REFERENCES `usuarios` (`id_usuarios`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `tokens_restablecimiento`");
+  }
+}
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea las tablas del registro de intentos de inicio de sesión y de los
+ * bloqueos por cuenta e IP
+ */
+export class CreateLoginProtection1750000000015 implements MigrationInterface {
+  name = "CreateLoginProtection1750000000015";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `intentos_login` (" +
+        "`id_intento` int NOT NULL AUTO_INCREMENT, " +
+        "`email` varchar(255) NOT NULL, " +
+        "`usuario_id` int NULL, " +
+        "`ip` varchar(45) NOT NULL, " +
+        "`exito` tinyint NOT NULL, " +
+        "`motivo` varchar(20) NULL, " +
+        "`fecha` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "INDEX `idx_intentos_login_email` (`email`), " +
+        "INDEX `idx_intentos_login_ip` (`ip`), " +
+        "INDEX `idx_intentos_login_fecha` (`fecha`), " +
+        "PRIMARY KEY (`id_intento`)" +
+        ") ENGINE=InnoDB"
+    );
+    await queryRunner.query(
+      "CREATE TABLE `bloqueos_login` (" +
+        "`tipo` enum('cuenta', 'ip') NOT NULL, " +
+        "`clave` varchar(255) NOT NULL, " +
+        "`fallos` int NOT NULL DEFAULT 0, " +
+        "`ultimo_fallo` timestamp NOT NULL, " +
+        "`bloqueado_hasta` timestamp NULL, " +
+        "PRIMARY KEY (`tipo`, `clave`)" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `bloqueos_login`");
+    await queryRunner.query("DROP TABLE `intentos_login`");
+  }
+}
@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea las tablas del flujo de trabajo configurable y pasa el estado de
+ * las incidencias a la clave de un estado del flujo
+ */
+export class CreateWorkflow1750000000016 implements MigrationInterface {
+  name = "CreateWorkflow1750000000016";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `estados_flujo` (" +
+        "`clave` varchar(50) NOT NULL, " +
+        "`nombre` varchar(100) NOT NULL, " +
+        "`tipo` enum('inicial', 'intermedio', 'final') NOT NULL, " +
+        "`orden` int NOT NULL, " +
+        "PRIMARY KEY (`clave`)" +
+        ") ENGINE=InnoDB"
+    );
+    await queryRunner.query(
+      "CREATE TABLE `transiciones_flujo` (" +
+        "`id_transicion` int NOT NULL AUTO_INCREMENT, " +
+        "`estado_origen` varchar(50) NOT NULL, " +
+        "`estado_destino` varchar(50) NOT NULL, " +
+        "`roles` text NOT NULL, " +
+        "`campos_requeridos` text NULL, " +
+        "UNIQUE INDEX `uq_transiciones_flujo` (`estado_origen`, `estado_destino`), " +
+        "PRIMARY KEY (`id_transicion`), " +
+        "CONSTRAINT `fk_transiciones_flujo_origen` FOREIGN KEY (`estado_origen`) " +
+        "REFERENCES `estados_flujo` (`clave`) ON DELETE CASCADE ON UPDATE CASCADE, " +
+        "CONSTRAINT `fk_transiciones_flujo_destino` FOREIGN KEY (`estado_destino`) " +
+        "REFERENCES `estados_flujo` (`clave`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+    // Los estados anteriores son claves del flujo por defecto, así que
+    // las incidencias existentes conservan su valor
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "MODIFY `estado` varchar(50) NOT NULL DEFAULT 'abierta', " +
+        "ADD `nota_resolucion` text NULL"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Los estados que no existían antes se llevan al más próximo de los tres
+    await queryRunner.query(
+      "UPDATE `incidencias` SET `estado` = 'cerrada' WHERE `estado` IN ('resuelta', 'cancelada')"
+    );
+    await queryRunner.query(
+      "UPDATE `incidencias` SET `estado` = 'en_progreso' " +
+        "WHERE `estado` NOT IN ('abierta', 'en_progreso', 'cerrada')"
+    );
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "DROP COLUMN `nota_resolucion`, " +
+        "MODIFY `estado` enum('abierta', 'en_progreso', 'cerrada') NOT NULL DEFAULT 'abierta'"
+    );
+    await queryRunner.query("DROP TABLE `transiciones_flujo`");
+    await queryRunner.query("DROP TABLE `estados_flujo`");
+  }
+}
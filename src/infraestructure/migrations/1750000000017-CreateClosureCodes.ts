@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea el catálogo de códigos de cierre y lo enlaza desde las incidencias
+ */
+export class CreateClosureCodes1750000000017 implements MigrationInterface {
+  name = "CreateClosureCodes1750000000017";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `codigos_cierre` (" +
+        "`id_codigos_cierre` int NOT NULL AUTO_INCREMENT, " +
+        "`nombre` varchar(100) NOT NULL, " +
+        "`descripcion` text NULL, " +
+        "`estado` tinyint NOT NULL DEFAULT 1, " +
+        "`fecha_creacion` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "UNIQUE INDEX `uq_codigos_cierre_nombre` (`nombre`), " +
+        "PRIMARY KEY (`id_codigos_cierre`)" +
+        ") ENGINE=InnoDB"
+    );
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "ADD `codigo_cierre_id` int NULL, " +
+        "ADD CONSTRAINT `fk_incidencias_codigo_cierre` FOREIGN KEY (`codigo_cierre_id`) " +
+        "REFERENCES `codigos_cierre` (`id_codigos_cierre`) ON DELETE RESTRICT ON UPDATE CASCADE"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` DROP FOREIGN KEY `fk_incidencias_codigo_cierre`"
+    );
+    await queryRunner.query("ALTER TABLE `incidencias` DROP COLUMN `codigo_cierre_id`");
+    await queryRunner.query("DROP TABLE `codigos_cierre`");
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Añade a las incidencias la fecha de resolución y la incidencia de la que
+ * son seguimiento
+ */
+export class AddResolutionFollowUp1750000000018 implements MigrationInterface {
+  name = "AddResolutionFollowUp1750000000018";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "ADD `fecha_resolucion` timestamp NULL, " +
+        "ADD `incidencia_origen_id` int NULL, " +
+        "ADD CONSTRAINT `fk_incidencias_incidencia_origen` FOREIGN KEY (`incidencia_origen_id`) " +
+        "REFERENCES `incidencias` (`id_incidencias`) ON DELETE SET NULL ON UPDATE CASCADE"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` DROP FOREIGN KEY `fk_incidencias_incidencia_origen`"
+    );
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "DROP COLUMN `incidencia_origen_id`, " +
+        "DROP COLUMN `fecha_resolucion`"
+    );
+  }
+}
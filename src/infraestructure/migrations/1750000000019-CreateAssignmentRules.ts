@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea las tablas de las reglas de asignación automática por categoría y
+ * del registro de sus decisiones
+ */
+export class CreateAssignmentRules1750000000019 implements MigrationInterface {
+  name = "CreateAssignmentRules1750000000019";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `reglas_asignacion` (" +
+        "`categoria_id` int NOT NULL, " +
+        "`estrategia` varchar(30) NOT NULL, " +
+        "`soportes_ids` text NULL, " +
+        "`activa` tinyint NOT NULL DEFAULT 1, " +
+        "`ultimo_soporte_id` int NULL, " +
+        "`actualizado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`categoria_id`), " +
+        "CONSTRAINT `fk_reglas_asignacion_categoria` FOREIGN KEY (`categoria_id`) " +
+        "REFERENCES `categorias` (`id_categorias`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+    await queryRunner.query(
+      "CREATE TABLE `decisiones_asignacion` (" +
+        "`id_decision` int NOT NULL AUTO_INCREMENT, " +
+        "`incidencia_id` int NOT NULL, " +
+        "`categoria_id` int NOT NULL, " +
+        "`estrategia` varchar(30) NOT NULL, " +
+        "`soporte_id` int NULL, " +
+        "`candidatos` text NOT NULL, " +
+        "`motivo` varchar(255) NOT NULL, " +
+        "`fecha` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`id_decision`), " +
+        "CONSTRAINT `fk_decisiones_asignacion_incidencia` FOREIGN KEY (`incidencia_id`) " +
+        "REFERENCES `incidencias` (`id_incidencias`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `decisiones_asignacion`");
+    await queryRunner.query("DROP TABLE `reglas_asignacion`");
+  }
+}
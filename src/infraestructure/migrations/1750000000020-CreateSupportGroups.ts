@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Crea los grupos de soporte con sus miembros y los enlaza desde las
+ * categorías, como grupo por defecto, y desde las incidencias
+ */
+export class CreateSupportGroups1750000000020 implements MigrationInterface {
+  name = "CreateSupportGroups1750000000020";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "CREATE TABLE `grupos_soporte` (" +
+        "`id_grupos_soporte` int NOT NULL AUTO_INCREMENT, " +
+        "`nombre` varchar(100) NOT NULL, " +
+        "`descripcion` text NULL, " +
+        "`estado` tinyint NOT NULL DEFAULT 1, " +
+        "`fecha_creacion` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "UNIQUE INDEX `uq_grupos_soporte_nombre` (`nombre`), " +
+        "PRIMARY KEY (`id_grupos_soporte`)" +
+        ") ENGINE=InnoDB"
+    );
+    await queryRunner.query(
+      "CREATE TABLE `miembros_grupos_soporte` (" +
+        "`grupo_id` int NOT NULL, " +
+        "`usuario_id` int NOT NULL, " +
+        "`creado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`grupo_id`, `usuario_id`), " +
+        "CONSTRAINT `fk_miembros_grupos_soporte_grupo` FOREIGN KEY (`grupo_id`) " +
+        "REFERENCES `grupos_soporte` (`id_grupos_soporte`) ON DELETE CASCADE ON UPDATE CASCADE, " +
+        "CONSTRAINT `fk_miembros_grupos_soporte_usuario` FOREIGN KEY (`usuario_id`) " +
+        "REFERENCES `usuarios` (`id_usuarios`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+    await queryRunner.query(
+      "ALTER TABLE `categorias` " +
+        "ADD `grupo_soporte_id` int NULL, " +
+        "ADD CONSTRAINT `fk_categorias_grupo_soporte` FOREIGN KEY (`grupo_soporte_id`) " +
+        "REFERENCES `grupos_soporte` (`id_grupos_soporte`) ON DELETE SET NULL ON UPDATE CASCADE"
+    );
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` " +
+        "ADD `grupo_soporte_id` int NULL, " +
+        "ADD CONSTRAINT `fk_incidencias_grupo_soporte` FOREIGN KEY (`grupo_soporte_id`) " +
+        "REFERENCES `grupos_soporte` (`id_grupos_soporte`) ON DELETE RESTRICT ON UPDATE CASCADE"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `incidencias` DROP FOREIGN KEY `fk_incidencias_grupo_soporte`"
+    );
+    await queryRunner.query("ALTER TABLE `incidencias` DROP COLUMN `grupo_soporte_id`");
+    await queryRunner.query(
+      "ALTER TABLE `categorias` DROP FOREIGN KEY `fk_categorias_grupo_soporte`"
+    );
+    await queryRunner.query("ALTER TABLE `categorias` DROP COLUMN `grupo_soporte_id`");
+    await queryRunner.query("DROP TABLE `miembros_grupos_soporte`");
+    await queryRunner.query("DROP TABLE `grupos_soporte`");
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Añade a los seguidores de una incidencia el gestor que los añadió
+ */
+export class AddWatcherAddedBy1750000000021 implements MigrationInterface {
+  name = "AddWatcherAddedBy1750000000021";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `seguidores_incidencias` ADD `agregado_por_id` int NULL"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `seguidores_incidencias` DROP COLUMN `agregado_por_id`"
+    );
+  }
+}
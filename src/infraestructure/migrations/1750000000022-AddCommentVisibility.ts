@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Añade la visibilidad de los comentarios y la tabla de auditoría de sus
+ * cambios
+ */
+export class AddCommentVisibility1750000000022 implements MigrationInterface {
+  name = "AddCommentVisibility1750000000022";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `comentarios` ADD `visibilidad` varchar(10) NOT NULL DEFAULT 'publico'"
+    );
+    await queryRunner.query(
+      "CREATE TABLE `cambios_visibilidad_comentarios` (" +
+        "`id_cambio` int NOT NULL AUTO_INCREMENT, " +
+        "`comentario_id` int NOT NULL, " +
+        "`visibilidad_anterior` varchar(10) NOT NULL, " +
+        "`visibilidad_nueva` varchar(10) NOT NULL, " +
+        "`usuario_id` int NOT NULL, " +
+        "`fecha` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`id_cambio`), " +
+        "CONSTRAINT `fk_cambios_visibilidad_comentarios_comentario` FOREIGN KEY (`comentario_id`) " +
+        "REFERENCES `comentarios` (`id_comentarios`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `cambios_visibilidad_comentarios`");
+    await queryRunner.query("ALTER TABLE `comentarios` DROP COLUMN `visibilidad`");
+  }
+}
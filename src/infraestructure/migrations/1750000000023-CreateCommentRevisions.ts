@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Añade la fecha de edición de los comentarios y la tabla con sus
+ * versiones anteriores
+ */
+export class CreateCommentRevisions1750000000023 implements MigrationInterface {
+  name = "CreateCommentRevisions1750000000023";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("ALTER TABLE `comentarios` ADD `editado_en` timestamp NULL");
+    await queryRunner.query(
+      "CREATE TABLE `revisiones_comentarios` (" +
+        "`id_revision` int NOT NULL AUTO_INCREMENT, " +
+        "`comentario_id` int NOT NULL, " +
+        "`comentario` text NOT NULL, " +
+        "`editado_por_id` int NOT NULL, " +
+        "`fecha` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`id_revision`), " +
+        "CONSTRAINT `fk_revisiones_comentarios_comentario` FOREIGN KEY (`comentario_id`) " +
+        "REFERENCES `comentarios` (`id_comentarios`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `revisiones_comentarios`");
+    await queryRunner.query("ALTER TABLE `comentarios` DROP COLUMN `editado_en`");
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Añade el comentario padre de las respuestas y la tabla de menciones
+ */
+export class AddCommentThreadsAndMentions1750000000024 implements MigrationInterface {
+  name = "AddCommentThreadsAndMentions1750000000024";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `comentarios` " +
+        "ADD `comentario_padre_id` int NULL, " +
+        "ADD CONSTRAINT `fk_comentarios_comentario_padre` FOREIGN KEY (`comentario_padre_id`) " +
+        "REFERENCES `comentarios` (`id_comentarios`) ON DELETE SET NULL ON UPDATE CASCADE"
+    );
+    await queryRunner.query(
+      "CREATE TABLE `menciones_comentarios` (" +
+        "`comentario_id` int NOT NULL, " +
+        "`usuario_id` int NOT NULL, " +
+        "`creado_en` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+        "PRIMARY KEY (`comentario_id`, `usuario_id`), " +
+        "CONSTRAINT `fk_menciones_comentarios_comentario` FOREIGN KEY (`comentario_id`) " +
+        "REFERENCES `comentarios` (`id_comentarios`) ON DELETE CASCADE ON UPDATE CASCADE, " +
+        "CONSTRAINT `fk_menciones_comentarios_usuario` FOREIGN KEY (`usuario_id`) " +
+        "REFERENCES `usuarios` (`id_usuarios`) ON DELETE CASCADE ON UPDATE CASCADE" +
+        ") ENGINE=InnoDB"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query("DROP TABLE `menciones_comentarios`");
+    await queryRunner.query(
+      "ALTER TABLE `comentarios` DROP FOREIGN KEY `fk_comentarios_comentario_padre`"
+    );
+    await queryRunner.query("ALTER TABLE `comentarios` DROP COLUMN `comentario_padre_id`");
+  }
+}
@@ -2,14 +2,30 @@ import { Router } from "express";
 import { UserAdapter } from '../adapter/UserAdapter';
 import { UserApplicationService } from "../../application/UserApplicationService";
 import { UserController } from "../controller/UserControllador";
-import { authenticateToken } from "../web/authMiddleware";
+import { authenticateToken, authorize } from "../web/authMiddleware";
+import { PasswordResetTokenAdapter } from "../adapter/PasswordResetTokenAdapter";
+import { LoginAttemptAdapter } from "../adapter/LoginAttemptAdapter";
+import { LoginProtectionApplicationService } from "../../application/LoginProtectionApplicationService";
+import { SmtpMailAdapter } from "../adapter/SmtpMailAdapter";
+import { authConfig, sessionService } from "../config/auth";
+import { mailConfig } from "../config/mail";
 
 const router = Router();
 
 //inicializacion de las capas
 
 const userAdapter = new UserAdapter();
-const userAppService = new UserApplicationService(userAdapter);
+const userAppService = new UserApplicationService(
+    userAdapter,
+    sessionService,
+    new PasswordResetTokenAdapter(),
+    new SmtpMailAdapter(mailConfig),
+    authConfig.passwordReset,
+    new LoginProtectionApplicationService(
+        new LoginAttemptAdapter(),
+        authConfig.loginProtection
+    )
+);
 const userController = new UserController(userAppService);
 
 //definir las rutas con manejo de errores
@@ -18,7 +34,57 @@ router.post("/login", async (req, res) => {
         await userController.login(req, res);
 });
 
-router.get("/users", authenticateToken, async (req, res) => {
+router.post("/auth/refresh", async (req, res) => {
+    try {
+        await userController.refresh(req, res);
+    } catch (error) {
+        res.status(400).json({
+            message: "Error al renovar la sesión",
+        })
+    }
+});
+
+router.post("/auth/logout", async (req, res) => {
+    try {
+        await userController.logout(req, res);
+    } catch (error) {
+        res.status(400).json({
+            message: "Error al cerrar la sesión",
+        })
+    }
+});
+
+router.post("/auth/change-password", authenticateToken, authorize("users:change_password"), async (req, res) => {
+    try {
+        await userController.changePassword(req, res);
+    } catch (error) {
+        res.status(400).json({
+            message: "Error al cambiar la contraseña",
+        })
+    }
+});
+
+router.post("/auth/forgot-password", async (req, res) => {
+    try {
+        await userController.forgotPassword(req, res);
+    } catch (error) {
+        res.status(400).json({
+            message: "Error al solicitar el restablecimiento de contraseña",
+        })
+    }
+});
+
+router.post("/auth/reset-password", async (req, res) => {
+    try {
+        await userController.resetPassword(req, res);
+    } catch (error) {
+        res.status(400).json({
+            message: "Error al restablecer la contraseña",
+        })
+    }
+});
+
+router.get("/users", authenticateToken, authorize("users:read"), async (req, res) => {
     try {
         await userController.getAllUsers(req, res);
     } catch (error) {
@@ -28,7 +94,7 @@ router.get("/users", authenticateToken, async (req, res) => {
     }
 });
 
-router.post("/users", async (req, res) => {
+router.post("/users", authenticateToken, authorize("users:manage"), async (req, res) => {
     try {
         await userController.createUser(req, res);
     } catch (error) {
@@ -38,7 +104,27 @@ router.post("/users", async (req, res) => {
     }
 });
 
-router.get("/users/:id", authenticateToken, async (req, res) => {
+router.get("/login-attempts", authenticateToken, authorize("users:manage"), async (req, res) => {
+    try {
+        await userController.getLoginAttempts(req, res);
+    } catch (error) {
+        res.status(400).json({
+            message: "Error al obtener los intentos de inicio de sesión",
+        })
+    }
+});
+
+router.post("/users/:id/unlock", authenticateToken, authorize("users:manage"), async (req, res) => {
+    try {
+        await userController.unlockUser(req, res);
+    } catch (error) {
+        res.status(400).json({
+            message: "Error al desbloquear el usuario",
+        })
+    }
+});
+
+router.get("/users/:id", authenticateToken, authorize("users:read"), async (req, res) => {
     try {
         await userController.getUserById(req, res);
     } catch (error) {
@@ -48,7 +134,7 @@ router.get("/users/:id", authenticateToken, async (req, res) => {
     }
 });
 
-router.get("/users-mail/:email", authenticateToken, async (req, res) => {
+router.get("/users-mail/:email", authenticateToken, authorize("users:read"), async (req, res) => {
     try {
         await userController.getUserByEmail(req, res);
     } catch (error) {
@@ -58,7 +144,7 @@ router.get("/users-mail/:email", authenticateToken, async (req, res) => {
     }
 });
 
-router.delete("/users/:id", authenticateToken, async (req, res) => {
+router.delete("/users/:id", authenticateToken, authorize("users:manage"), async (req, res) => {
     try {
         await userController.deleteUser(req, res);
     } catch (error) {
@@ -68,7 +154,7 @@ router.delete("/users/:id", authenticateToken, async (req, res) => {
     }
 });
 
-router.put("/users/:id", authenticateToken, async (req, res) => {
+router.put("/users/:id", authenticateToken, authorize("users:manage"), async (req, res) => {
     try {
         await userController.updateUser(req, res);
     } catch (error) {
@@ -0,0 +1,80 @@
+import { Router } from "express";
+import { AssignmentController } from "../controller/AssignmentController";
+import { AssignmentApplicationService } from "../../application/AssignmentApplicationService";
+import { AssignmentAdapter } from "../adapter/AssignmentAdapter";
+import { CategoryAdapter } from "../adapter/CategoryAdapter";
+import { UserAdapter } from "../adapter/UserAdapter";
+import { IncidentAdapter } from "../adapter/IncidentAdapter";
+import { authenticateToken, authorize } from "../web/authMiddleware";
+
+/**
+ * Configuración de rutas para la asignación automática de incidencias
+ */
+
+const assignmentService = new AssignmentApplicationService(
+  new AssignmentAdapter(),
+  new CategoryAdapter(),
+  new UserAdapter(),
+  new IncidentAdapter()
+);
+const assignmentController = new AssignmentController(assignmentService);
+
+// Crear el router de Express
+const assignmentRouter = Router();
+
+assignmentRouter.get("/assignment-rules", authenticateToken, authorize("assignment:manage"), async (req, res) => {
+  try {
+    await assignmentController.getAllRules(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las reglas de asignación",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+assignmentRouter.get("/assignment-rules/:categoryId", authenticateToken, authorize("assignment:manage"), async (req, res) => {
+  try {
+    await assignmentController.getRuleByCategory(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener la regla de asignación",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+assignmentRouter.put("/assignment-rules/:categoryId", authenticateToken, authorize("assignment:manage"), async (req, res) => {
+  try {
+    await assignmentController.saveRule(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al guardar la regla de asignación",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+assignmentRouter.delete("/assignment-rules/:categoryId", authenticateToken, authorize("assignment:manage"), async (req, res) => {
+  try {
+    await assignmentController.deleteRule(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al eliminar la regla de asignación",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+assignmentRouter.get("/incidents/:id/assignment-decisions", authenticateToken, authorize("incidents:assign"), async (req, res) => {
+  try {
+    await assignmentController.getDecisionsByIncident(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las decisiones de asignación",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+export { assignmentRouter };
@@ -0,0 +1,106 @@
+import { Router } from "express";
+import { AttachmentController } from "../controller/AttachmentController";
+import { AttachmentApplicationService } from "../../application/AttachmentApplicationService";
+import { IncidentApplicationService } from "../../application/IncidentApplicationService";
+import { AttachmentAdapter } from "../adapter/AttachmentAdapter";
+import { LocalFileStorageAdapter } from "../adapter/LocalFileStorageAdapter";
+import { IncidentAdapter } from "../adapter/IncidentAdapter";
+import { HistorialIncidenciaAdapter } from "../adapter/HistorialIncidenciaAdapter";
+import { PriorityAdapter } from "../adapter/PriorityAdapter";
+import { BusinessCalendarAdapter } from "../adapter/BusinessCalendarAdapter";
+import { MySqlIncidentSearchAdapter } from "../adapter/MySqlIncidentSearchAdapter";
+import { CommentsAdapter } from "../adapter/CommentsAdapter";
+import { WorkflowAdapter } from "../adapter/WorkflowAdapter";
+import { ClosureCodeAdapter } from "../adapter/ClosureCodeAdapter";
+import { AssignmentAdapter } from "../adapter/AssignmentAdapter";
+import { UserAdapter } from "../adapter/UserAdapter";
+import { CategoryAdapter } from "../adapter/CategoryAdapter";
+import { SupportGroupAdapter } from "../adapter/SupportGroupAdapter";
+import { IncidentWatcherAdapter } from "../adapter/IncidentWatcherAdapter";
+import { attachmentsConfig } from "../config/attachments";
+import { eventBus } from "../config/events";
+import { resolutionConfig } from "../config/resolution";
+import { authenticateToken, authorize } from "../web/authMiddleware";
+import { uploadAttachment } from "../web/uploadMiddleware";
+
+/**
+ * Configuración de rutas para los archivos adjuntos de incidencias y comentarios
+ */
+
+const attachmentAdapter = new AttachmentAdapter();
+const storageAdapter = new LocalFileStorageAdapter(attachmentsConfig.directorio);
+const incidentService = new IncidentApplicationService(
+  new IncidentAdapter(),
+  new HistorialIncidenciaAdapter(),
+  new PriorityAdapter(),
+  new BusinessCalendarAdapter(),
+  new MySqlIncidentSearchAdapter(),
+  attachmentAdapter,
+  storageAdapter,
+  new WorkflowAdapter(),
+  new ClosureCodeAdapter(),
+  new AssignmentAdapter(),
+  new UserAdapter(),
+  new CategoryAdapter(),
+  new SupportGroupAdapter(),
+  new IncidentWatcherAdapter(),
+  eventBus,
+  resolutionConfig
+);
+const attachmentService = new AttachmentApplicationService(
+  attachmentAdapter,
+  storageAdapter,
+  incidentService,
+  new CommentsAdapter(),
+  attachmentsConfig.tamanoMaximoBytes
+);
+const attachmentController = new AttachmentController(attachmentService);
+
+// Crear el router de Express
+const attachmentRouter = Router();
+
+attachmentRouter.post("/incidents/:id/attachments", authenticateToken, authorize("attachments:create"), uploadAttachment, async (req, res) => {
+  try {
+    await attachmentController.uploadAttachment(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al adjuntar el archivo",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+attachmentRouter.get("/incidents/:id/attachments", authenticateToken, authorize("attachments:read"), async (req, res) => {
+  try {
+    await attachmentController.getAttachmentsByIncident(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los adjuntos",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+attachmentRouter.get("/attachments/:id/download", authenticateToken, authorize("attachments:read"), async (req, res) => {
+  try {
+    await attachmentController.downloadAttachment(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al descargar el adjunto",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+attachmentRouter.delete("/attachments/:id", authenticateToken, authorize("attachments:delete"), async (req, res) => {
+  try {
+    await attachmentController.deleteAttachment(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al eliminar el adjunto",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+export { attachmentRouter };
@@ -0,0 +1,73 @@
+import { Router } from "express";
+import { BusinessCalendarController } from "../controller/BusinessCalendarController";
+import { BusinessCalendarApplicationService } from "../../application/BusinessCalendarApplicationService";
+import { BusinessCalendarAdapter } from "../adapter/BusinessCalendarAdapter";
+import { authenticateToken, authorize } from "../web/authMiddleware";
+
+/**
+ * Configuración de rutas para la gestión del calendario laboral y los festivos
+ */
+
+const calendarAdapter = new BusinessCalendarAdapter();
+const calendarService = new BusinessCalendarApplicationService(calendarAdapter);
+const calendarController = new BusinessCalendarController(calendarService);
+
+// Crear el router de Express
+const calendarRouter = Router();
+
+calendarRouter.get("/calendar", authenticateToken, authorize("calendar:read"), async (req, res) => {
+  try {
+    await calendarController.getCalendar(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener el calendario laboral",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+calendarRouter.put("/calendar", authenticateToken, authorize("calendar:manage"), async (req, res) => {
+  try {
+    await calendarController.updateCalendar(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al actualizar el calendario laboral",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+calendarRouter.get("/calendar/holidays", authenticateToken, authorize("calendar:read"), async (req, res) => {
+  try {
+    await calendarController.getHolidays(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los días festivos",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+calendarRouter.post("/calendar/holidays", authenticateToken, authorize("calendar:manage"), async (req, res) => {
+  try {
+    await calendarController.createHoliday(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error en la creación del día festivo",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+calendarRouter.delete("/calendar/holidays/:id", authenticateToken, authorize("calendar:manage"), async (req, res) => {
+  try {
+    await calendarController.deleteHoliday(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al eliminar el día festivo",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+export { calendarRouter };
@@ -2,20 +2,24 @@ import { Router } from "express";
 import { CategoryController } from "../controller/CategoryController";
 import { CategoryApplicationService } from "../../application/CategoryApplicationService";
 import { CategoryAdapter } from "../adapter/CategoryAdapter";
-import { authenticateToken } from "../web/authMiddleware";
+import { SupportGroupAdapter } from "../adapter/SupportGroupAdapter";
+import { authenticateToken, authorize } from "../web/authMiddleware";
 
 /**
  * Configuración de rutas para las operaciones de categorías
  */
 
 const categoryAdapter = new CategoryAdapter();
-const categoryService = new CategoryApplicationService(categoryAdapter);
+const categoryService = new CategoryApplicationService(
+  categoryAdapter,
+  new SupportGroupAdapter()
+);
 const categoryController = new CategoryController(categoryService);
 
 // Crear el router de Express
 const categoryRouter = Router();
 
-categoryRouter.post("/categories", authenticateToken, async (req, res) => {
+categoryRouter.post("/categories", authenticateToken, authorize("categories:manage"), async (req, res) => {
   try {
     await categoryController.createCategory(req, res);
   } catch (error) {
@@ -25,7 +29,7 @@ categoryRouter.post("/categories", authenticateToken, async (req, res) => {
   }
 });
 
-categoryRouter.get("/categories", authenticateToken, async (req, res, next) => {
+categoryRouter.get("/categories", authenticateToken, authorize("categories:read"), async (req, res, next) => {
   try {
     await categoryController.getAllCategories(req, res);
   } catch (error) {
@@ -35,7 +39,7 @@ categoryRouter.get("/categories", authenticateToken, async (req, res, next) => {
   }
 });
 
-categoryRouter.get("/categories/active", authenticateToken, async (req, res, next) => {
+categoryRouter.get("/categories/active", authenticateToken, authorize("categories:read"), async (req, res, next) => {
   try {
     await categoryController.getAllActiveCategories(req, res);
   } catch (error) {
@@ -45,7 +49,7 @@ categoryRouter.get("/categories/active", authenticateToken, async (req, res, nex
   }
 });
 
-categoryRouter.get("/categories/:id", authenticateToken, async (req, res, next) => {
+categoryRouter.get("/categories/:id", authenticateToken, authorize("categories:read"), async (req, res, next) => {
   try {
     await categoryController.getCategoryById(req, res);
   } catch (error) {
@@ -55,7 +59,7 @@ categoryRouter.get("/categories/:id", authenticateToken, async (req, res, next)
   }
 });
 
-categoryRouter.get("/categories/by-name/:nombre", authenticateToken, async (req, res, next) => {
+categoryRouter.get("/categories/by-name/:nombre", authenticateToken, authorize("categories:read"), async (req, res, next) => {
   try {
     await categoryController.getCategoryByName(req, res);
   } catch (error) {
@@ -65,7 +69,7 @@ categoryRouter.get("/categories/by-name/:nombre", authenticateToken, async (req,
   }
 });
 
-categoryRouter.put("/categories/:id", authenticateToken, async (req, res, next) => {
+categoryRouter.put("/categories/:id", authenticateToken, authorize("categories:manage"), async (req, res, next) => {
   try {
     await categoryController.updateCategory(req, res);
   } catch (error) {
@@ -75,7 +79,7 @@ categoryRouter.put("/categories/:id", authenticateToken, async (req, res, next)
   }
 });
 
-categoryRouter.delete("/categories/:id", authenticateToken, async (req, res, next) => {
+categoryRouter.delete("/categories/:id", authenticateToken, authorize("categories:manage"), async (req, res, next) => {
   try {
     await categoryController.deleteCategory(req, res);
   } catch (error) {
@@ -0,0 +1,84 @@
+import { Router } from "express";
+import { ClosureCodeController } from "../controller/ClosureCodeController";
+import { ClosureCodeApplicationService } from "../../application/ClosureCodeApplicationService";
+import { ClosureCodeAdapter } from "../adapter/ClosureCodeAdapter";
+import { authenticateToken, authorize } from "../web/authMiddleware";
+
+/**
+ * Configuración de rutas para el catálogo de códigos de cierre
+ */
+
+const closureCodeAdapter = new ClosureCodeAdapter();
+const closureCodeService = new ClosureCodeApplicationService(closureCodeAdapter);
+const closureCodeController = new ClosureCodeController(closureCodeService);
+
+// Crear el router de Express
+const closureCodeRouter = Router();
+
+closureCodeRouter.post("/closure-codes", authenticateToken, authorize("closure_codes:manage"), async (req, res) => {
+  try {
+    await closureCodeController.createClosureCode(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error en la creación del código de cierre",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+closureCodeRouter.get("/closure-codes", authenticateToken, authorize("closure_codes:read"), async (req, res) => {
+  try {
+    await closureCodeController.getAllClosureCodes(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los códigos de cierre",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+closureCodeRouter.get("/closure-codes/active", authenticateToken, authorize("closure_codes:read"), async (req, res) => {
+  try {
+    await closureCodeController.getAllActiveClosureCodes(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los códigos de cierre activos",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+closureCodeRouter.get("/closure-codes/:id", authenticateToken, authorize("closure_codes:read"), async (req, res) => {
+  try {
+    await closureCodeController.getClosureCodeById(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener el código de cierre",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+closureCodeRouter.put("/closure-codes/:id", authenticateToken, authorize("closure_codes:manage"), async (req, res) => {
+  try {
+    await closureCodeController.updateClosureCode(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error en la actualización del código de cierre",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+closureCodeRouter.delete("/closure-codes/:id", authenticateToken, authorize("closure_codes:manage"), async (req, res) => {
+  try {
+    await closureCodeController.deleteClosureCode(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al eliminar el código de cierre",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+export { closureCodeRouter };
@@ -3,20 +3,37 @@ import { Router } from "express";
 import { CommentsController } from "../controller/commentsController";
 import { CommentsApplicationService } from "../../application/CommentsApplicationService";
 import { CommentsAdapter } from "../adapter/CommentsAdapter";
-import { authenticateToken } from "../web/authMiddleware";
+import { IncidentAdapter } from "../adapter/IncidentAdapter";
+import { AttachmentAdapter } from "../adapter/AttachmentAdapter";
+import { LocalFileStorageAdapter } from "../adapter/LocalFileStorageAdapter";
+import { UserAdapter } from "../adapter/UserAdapter";
+import { attachmentsConfig } from "../config/attachments";
+import { commentsConfig } from "../config/comments";
+import { eventBus } from "../config/events";
+import { authenticateToken, authorize } from "../web/authMiddleware";
 
 /**
  * Configuración de rutas para las operaciones de comentarios
  */
 
 const commentsAdapter = new CommentsAdapter();
-const commentsService = new CommentsApplicationService(commentsAdapter);
+const attachmentAdapter = new AttachmentAdapter();
+const storageAdapter = new LocalFileStorageAdapter(attachmentsConfig.directorio);
+const commentsService = new CommentsApplicationService(
+  commentsAdapter,
+  new IncidentAdapter(),
+  attachmentAdapter,
+  storageAdapter,
+  new UserAdapter(),
+  eventBus,
+  commentsConfig.minutosEdicion
+);
 const commentsController = new CommentsController(commentsService);
 
 // Crear el router de Express
 const CommentsRouter = Router();
 
-CommentsRouter.post("/comments", authenticateToken, async (req, res) => {
+CommentsRouter.post("/comments", authenticateToken, authorize("comments:create"), async (req, res) => {
   try {
     await commentsController.createComments(req, res);
   } catch (error) {
@@ -27,7 +44,7 @@ CommentsRouter.post("/comments", authenticateToken, async (req, res) => {
   }
 });
 
-CommentsRouter.get("/comments", authenticateToken, async (req, res) => {
+CommentsRouter.get("/comments", authenticateToken, authorize("comments:read_all"), async (req, res) => {
   try {
     await commentsController.getAllComments(req, res);
   } catch (error) {
@@ -38,7 +55,18 @@ CommentsRouter.get("/comments", authenticateToken, async (req, res) => {
   }
 });
 
-CommentsRouter.get("/comments/:id", authenticateToken, async (req, res) => {
+CommentsRouter.get("/comments/mentions", authenticateToken, authorize("comments:read"), async (req, res) => {
+  try {
+    await commentsController.getMentions(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las menciones",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+CommentsRouter.get("/comments/:id", authenticateToken, authorize("comments:read"), async (req, res) => {
   try {
     await commentsController.getCommentsById(req, res);
   } catch (error) {
@@ -49,7 +77,7 @@ CommentsRouter.get("/comments/:id", authenticateToken, async (req, res) => {
   }
 });
 
-CommentsRouter.put("/comments/:id", authenticateToken, async (req, res) => {
+CommentsRouter.put("/comments/:id", authenticateToken, authorize("comments:update"), async (req, res) => {
   try {
     await commentsController.updateComments(req, res);
   } catch (error) {
@@ -60,7 +88,18 @@ CommentsRouter.put("/comments/:id", authenticateToken, async (req, res) => {
   }
 });
 
-CommentsRouter.delete("/comments/:id", authenticateToken, async (req, res) => {
+CommentsRouter.get("/comments/:id/revisions", authenticateToken, authorize("comments:read"), async (req, res) => {
+  try {
+    await commentsController.getRevisions(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las revisiones del comentario",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+CommentsRouter.delete("/comments/:id", authenticateToken, authorize("comments:delete"), async (req, res) => {
   try {
     await commentsController.deleteComments(req, res);
   } catch (error) {
@@ -71,7 +110,29 @@ CommentsRouter.delete("/comments/:id", authenticateToken, async (req, res) => {
   }
 });
 
-CommentsRouter.get("/comments/incidencia/:incidenciaId", authenticateToken, async (req, res) => {
+CommentsRouter.patch("/comments/:id/visibility", authenticateToken, authorize("comments:change_visibility"), async (req, res) => {
+  try {
+    await commentsController.changeVisibility(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al cambiar la visibilidad del comentario",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+CommentsRouter.get("/comments/:id/visibility-changes", authenticateToken, authorize("comments:change_visibility"), async (req, res) => {
+  try {
+    await commentsController.getVisibilityChanges(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los cambios de visibilidad del comentario",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+CommentsRouter.get("/comments/incidencia/:incidenciaId", authenticateToken, authorize("comments:read"), async (req, res) => {
   try {
     await commentsController.getCommentsByIncidencia(req, res);
   } catch (error) {
@@ -2,20 +2,66 @@ import { Router } from "express";
 import { IncidentController } from "../controller/IncidentController";
 import { IncidentApplicationService } from "../../application/IncidentApplicationService";
 import { IncidentAdapter } from "../adapter/IncidentAdapter";
-import { authenticateToken } from "../web/authMiddleware";
+import { HistorialIncidenciaAdapter } from "../adapter/HistorialIncidenciaAdapter";
+import { PriorityAdapter } from "../adapter/PriorityAdapter";
+import { BusinessCalendarAdapter } from "../adapter/BusinessCalendarAdapter";
+import { MySqlIncidentSearchAdapter } from "../adapter/MySqlIncidentSearchAdapter";
+import { AttachmentAdapter } from "../adapter/AttachmentAdapter";
+import { LocalFileStorageAdapter } from "../adapter/LocalFileStorageAdapter";
+import { WorkflowAdapter } from "../adapter/WorkflowAdapter";
+import { ClosureCodeAdapter } from "../adapter/ClosureCodeAdapter";
+import { AssignmentAdapter } from "../adapter/AssignmentAdapter";
+import { UserAdapter } from "../adapter/UserAdapter";
+import { CategoryAdapter } from "../adapter/CategoryAdapter";
+import { SupportGroupAdapter } from "../adapter/SupportGroupAdapter";
+import { IncidentWatcherAdapter } from "../adapter/IncidentWatcherAdapter";
+import { attachmentsConfig } from "../config/attachments";
+import { eventBus } from "../config/events";
+import { resolutionConfig } from "../config/resolution";
+import { authenticateToken, authorize } from "../web/authMiddleware";
 
 /**
  * Configuración de rutas para las operaciones de incidencias
  */
 
 const incidentAdapter = new IncidentAdapter();
-const incidentService = new IncidentApplicationService(incidentAdapter);
+const historialAdapter = new HistorialIncidenciaAdapter();
+const priorityAdapter = new PriorityAdapter();
+const calendarAdapter = new BusinessCalendarAdapter();
+const searchAdapter = new MySqlIncidentSearchAdapter();
+const attachmentAdapter = new AttachmentAdapter();
+const storageAdapter = new LocalFileStorageAdapter(attachmentsConfig.directorio);
+const workflowAdapter = new WorkflowAdapter();
+const closureCodeAdapter = new ClosureCodeAdapter();
+const assignmentAdapter = new AssignmentAdapter();
+const userAdapter = new UserAdapter();
+const categoryAdapter = new CategoryAdapter();
+const supportGroupAdapter = new SupportGroupAdapter();
+const watcherAdapter = new IncidentWatcherAdapter();
+const incidentService = new IncidentApplicationService(
+  incidentAdapter,
+  historialAdapter,
+  priorityAdapter,
+  calendarAdapter,
+  searchAdapter,
+  attachmentAdapter,
+  storageAdapter,
+  workflowAdapter,
+  closureCodeAdapter,
+  assignmentAdapter,
+  userAdapter,
+  categoryAdapter,
+  supportGroupAdapter,
+  watcherAdapter,
+  eventBus,
+  resolutionConfig
+);
 const incidentController = new IncidentController(incidentService);
 
 // Crear el router de Express
 const incidentRouter = Router();
 
-incidentRouter.post("/incidents", authenticateToken, async (req, res) => {
+incidentRouter.post("/incidents", authenticateToken, authorize("incidents:create"), async (req, res) => {
   try {
     await incidentController.createIncident(req, res);
   } catch (error) {
@@ -26,7 +72,7 @@ incidentRouter.post("/incidents", authenticateToken, async (req, res) => {
   }
 });
 
-incidentRouter.get("/incidents", authenticateToken, async (req, res) => {
+incidentRouter.get("/incidents", authenticateToken, authorize("incidents:read"), async (req, res) => {
   try {
     await incidentController.getAllIncidents(req, res);
   } catch (error) {
@@ -37,7 +83,29 @@ incidentRouter.get("/incidents", authenticateToken, async (req, res) => {
   }
 });
 
-incidentRouter.get("/incidents/statistics", authenticateToken, async (req, res) => {
+incidentRouter.get("/incidents/search", authenticateToken, authorize("incidents:read"), async (req, res) => {
+  try {
+    await incidentController.searchIncidents(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al buscar incidencias",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.get("/incidents/watching", authenticateToken, authorize("incidents:watch"), async (req, res) => {
+  try {
+    await incidentController.getWatchedIncidents(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las incidencias seguidas",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.get("/incidents/statistics", authenticateToken, authorize("incidents:statistics"), async (req, res) => {
   try {
     await incidentController.getIncidentStatistics(req, res);
   } catch (error) {
@@ -48,7 +116,29 @@ incidentRouter.get("/incidents/statistics", authenticateToken, async (req, res)
   }
 });
 
-incidentRouter.get("/incidents/user/:usuarioId", authenticateToken, async (req, res) => {
+incidentRouter.get("/incidents/sla/at-risk", authenticateToken, authorize("incidents:read"), async (req, res) => {
+  try {
+    await incidentController.getIncidentsBySla(req, res, "en_riesgo");
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las incidencias en riesgo de SLA",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.get("/incidents/sla/breached", authenticateToken, authorize("incidents:read"), async (req, res) => {
+  try {
+    await incidentController.getIncidentsBySla(req, res, "incumplida");
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las incidencias con SLA incumplido",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.get("/incidents/user/:usuarioId", authenticateToken, authorize("incidents:read"), async (req, res) => {
   try {
     await incidentController.getIncidentsByUser(req, res);
   } catch (error) {
@@ -59,7 +149,7 @@ incidentRouter.get("/incidents/user/:usuarioId", authenticateToken, async (req,
   }
 });
 
-incidentRouter.get("/incidents/support/:soporteId", authenticateToken, async (req, res) => {
+incidentRouter.get("/incidents/support/:soporteId", authenticateToken, authorize("incidents:read"), async (req, res) => {
   try {
     await incidentController.getIncidentsBySupport(req, res);
   } catch (error) {
@@ -70,7 +160,18 @@ incidentRouter.get("/incidents/support/:soporteId", authenticateToken, async (re
   }
 });
 
-incidentRouter.get("/incidents/category/:categoriaId", authenticateToken, async (req, res) => {
+incidentRouter.get("/incidents/group/:grupoSoporteId", authenticateToken, authorize("support_groups:read"), async (req, res) => {
+  try {
+    await incidentController.getIncidentsBySupportGroup(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener la cola del grupo de soporte",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.get("/incidents/category/:categoriaId", authenticateToken, authorize("incidents:read"), async (req, res) => {
   try {
     await incidentController.getIncidentsByCategory(req, res);
   } catch (error) {
@@ -81,7 +182,7 @@ incidentRouter.get("/incidents/category/:categoriaId", authenticateToken, async
   }
 });
 
-incidentRouter.get("/incidents/priority/:prioridadId", authenticateToken, async (req, res) => {
+incidentRouter.get("/incidents/priority/:prioridadId", authenticateToken, authorize("incidents:read"), async (req, res) => {
   try {
     await incidentController.getIncidentsByPriority(req, res);
   } catch (error) {
@@ -92,7 +193,7 @@ incidentRouter.get("/incidents/priority/:prioridadId", authenticateToken, async
   }
 });
 
-incidentRouter.get("/incidents/:id", authenticateToken, async (req, res) => {
+incidentRouter.get("/incidents/:id", authenticateToken, authorize("incidents:read"), async (req, res) => {
   try {
     await incidentController.getIncidentById(req, res);
   } catch (error) {
@@ -103,7 +204,117 @@ incidentRouter.get("/incidents/:id", authenticateToken, async (req, res) => {
   }
 });
 
-incidentRouter.put("/incidents/:id", authenticateToken, async (req, res) => {
+incidentRouter.get("/incidents/:id/history", authenticateToken, authorize("incidents:read"), async (req, res) => {
+  try {
+    await incidentController.getIncidentHistory(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener el historial de la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.get("/incidents/:id/transitions", authenticateToken, authorize("incidents:read"), async (req, res) => {
+  try {
+    await incidentController.getAvailableTransitions(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las transiciones disponibles",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.post("/incidents/:id/resolution/confirm", authenticateToken, authorize("incidents:change_status"), async (req, res) => {
+  try {
+    await incidentController.confirmResolution(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al confirmar la resolución de la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.post("/incidents/:id/resolution/reject", authenticateToken, authorize("incidents:change_status"), async (req, res) => {
+  try {
+    await incidentController.rejectResolution(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al rechazar la resolución de la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.post("/incidents/:id/reopen", authenticateToken, authorize("incidents:change_status"), async (req, res) => {
+  try {
+    await incidentController.reopenIncident(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al reabrir la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.get("/incidents/:id/watchers", authenticateToken, authorize("incidents:read"), async (req, res) => {
+  try {
+    await incidentController.getWatchers(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los seguidores de la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.post("/incidents/:id/watch", authenticateToken, authorize("incidents:watch"), async (req, res) => {
+  try {
+    await incidentController.watchIncident(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al seguir la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.delete("/incidents/:id/watch", authenticateToken, authorize("incidents:watch"), async (req, res) => {
+  try {
+    await incidentController.unwatchIncident(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al dejar de seguir la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.post("/incidents/:id/watchers", authenticateToken, authorize("incidents:manage_watchers"), async (req, res) => {
+  try {
+    await incidentController.addWatcher(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al añadir el seguidor de la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.delete("/incidents/:id/watchers/:userId", authenticateToken, authorize("incidents:manage_watchers"), async (req, res) => {
+  try {
+    await incidentController.removeWatcher(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al quitar el seguidor de la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.put("/incidents/:id", authenticateToken, authorize("incidents:update"), async (req, res) => {
   try {
     await incidentController.updateIncident(req, res);
   } catch (error) {
@@ -114,7 +325,7 @@ incidentRouter.put("/incidents/:id", authenticateToken, async (req, res) => {
   }
 });
 
-incidentRouter.patch("/incidents/:id/status", authenticateToken, async (req, res) => {
+incidentRouter.patch("/incidents/:id/status", authenticateToken, authorize("incidents:change_status"), async (req, res) => {
   try {
     await incidentController.changeIncidentStatus(req, res);
   } catch (error) {
@@ -125,7 +336,7 @@ incidentRouter.patch("/incidents/:id/status", authenticateToken, async (req, res
   }
 });
 
-incidentRouter.patch("/incidents/:id/assign", authenticateToken, async (req, res) => {
+incidentRouter.patch("/incidents/:id/assign", authenticateToken, authorize("incidents:assign"), async (req, res) => {
   try {
     await incidentController.assignIncident(req, res);
   } catch (error) {
@@ -136,10 +347,20 @@ incidentRouter.patch("/incidents/:id/assign", authenticateToken, async (req, res
   }
 });
 
-incidentRouter.delete("/incidents/:id", authenticateToken, async (req, res) => {
+incidentRouter.patch("/incidents/:id/assign-group", authenticateToken, authorize("incidents:assign"), async (req, res) => {
+  try {
+    await incidentController.assignIncidentGroup(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al asignar el grupo de soporte de la incidencia",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+incidentRouter.delete("/incidents/:id", authenticateToken, authorize("incidents:delete"), async (req, res) => {
   try {
-    const id = Number(req.params.id);
-    await incidentController.deleteIncident(req, res, id);
+    await incidentController.deleteIncident(req, res);
   } catch (error) {
     res.status(500).json({
       message: "Error al eliminar la incidencia",
@@ -148,4 +369,4 @@ incidentRouter.delete("/incidents/:id", authenticateToken, async (req, res) => {
   }
 });
 
-export { incidentRouter };
+export { incidentRouter, incidentService };
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { NotificationController } from "../controller/NotificationController";
+import { NotificationApplicationService } from "../../application/NotificationApplicationService";
+import { IncidentAdapter } from "../adapter/IncidentAdapter";
+import { CommentsAdapter } from "../adapter/CommentsAdapter";
+import { UserAdapter } from "../adapter/UserAdapter";
+import { IncidentWatcherAdapter } from "../adapter/IncidentWatcherAdapter";
+import { NotificationPreferenceAdapter } from "../adapter/NotificationPreferenceAdapter";
+import { SmtpMailAdapter } from "../adapter/SmtpMailAdapter";
+import { mailConfig } from "../config/mail";
+import { authenticateToken, authorize } from "../web/authMiddleware";
+
+/**
+ * Configuración de las notificaciones por correo y de las rutas
+ * de preferencias de notificación
+ */
+
+const notificationService = new NotificationApplicationService(
+  new IncidentAdapter(),
+  new CommentsAdapter(),
+  new UserAdapter(),
+  new IncidentWatcherAdapter(),
+  new NotificationPreferenceAdapter(),
+  new SmtpMailAdapter(mailConfig)
+);
+
+const notificationController = new NotificationController(notificationService);
+
+// Crear el router de Express
+const notificationRouter = Router();
+
+notificationRouter.get("/notifications/preferences", authenticateToken, authorize("notifications:preferences"), async (req, res) => {
+  try {
+    await notificationController.getPreferences(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las preferencias de notificación",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+notificationRouter.put("/notifications/preferences", authenticateToken, authorize("notifications:preferences"), async (req, res) => {
+  try {
+    await notificationController.updatePreferences(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al actualizar las preferencias de notificación",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+export { notificationRouter, notificationService };
@@ -2,7 +2,7 @@ import { Router } from "express";
 import { PriorityController } from "../controller/PriorityController";
 import { PriorityApplicationService } from "../../application/PriorityApplicationService";
 import { PriorityAdapter } from "../adapter/PriorityAdapter";
-import { authenticateToken } from "../web/authMiddleware";
+import { authenticateToken, authorize } from "../web/authMiddleware";
 
 /**
  * Configuración de rutas para las operaciones de prioridades
@@ -15,7 +15,7 @@ const priorityController = new PriorityController(priorityService);
 // Crear el router de Express
 const priorityRouter = Router();
 
-priorityRouter.post("/priority", authenticateToken, async (req, res) => {
+priorityRouter.post("/priority", authenticateToken, authorize("priorities:manage"), async (req, res) => {
   try {
     await priorityController.createPriority(req, res);
   } catch (error) {
@@ -25,7 +25,7 @@ priorityRouter.post("/priority", authenticateToken, async (req, res) => {
   }
 });
 
-priorityRouter.get("/priority", authenticateToken, async (req, res) => {
+priorityRouter.get("/priority", authenticateToken, authorize("priorities:read"), async (req, res) => {
   try {
     await priorityController.getAllPriorities(req, res);
   } catch (error) {
@@ -35,7 +35,7 @@ priorityRouter.get("/priority", authenticateToken, async (req, res) => {
   }
 });
 
-priorityRouter.get("/priority/active", authenticateToken, async (req, res) => {
+priorityRouter.get("/priority/active", authenticateToken, authorize("priorities:read"), async (req, res) => {
   try {
     await priorityController.getAllActivePriorities(req, res);
   } catch (error) {
@@ -45,7 +45,7 @@ priorityRouter.get("/priority/active", authenticateToken, async (req, res) => {
   }
 });
 
-priorityRouter.get("/priority/by-name/:nombre", authenticateToken, async (req, res) => {
+priorityRouter.get("/priority/by-name/:nombre", authenticateToken, authorize("priorities:read"), async (req, res) => {
   try {
     await priorityController.getPriorityByName(req, res);
   } catch (error) {
@@ -55,7 +55,7 @@ priorityRouter.get("/priority/by-name/:nombre", authenticateToken, async (req, r
   }
 });
 
-priorityRouter.get("/priority/by-level/:nivel", authenticateToken, async (req, res) => {
+priorityRouter.get("/priority/by-level/:nivel", authenticateToken, authorize("priorities:read"), async (req, res) => {
   try {
     await priorityController.getPriorityByLevel(req, res);
   } catch (error) {
@@ -65,7 +65,7 @@ priorityRouter.get("/priority/by-level/:nivel", authenticateToken, async (req, r
   }
 });
 
-priorityRouter.get("/priority/:id", authenticateToken, async (req, res) => {
+priorityRouter.get("/priority/:id", authenticateToken, authorize("priorities:read"), async (req, res) => {
   try {
     await priorityController.getPriorityById(req, res);
   } catch (error) {
@@ -75,7 +75,7 @@ priorityRouter.get("/priority/:id", authenticateToken, async (req, res) => {
   }
 });
 
-priorityRouter.put("/priority/:id", authenticateToken, async (req, res) => {
+priorityRouter.put("/priority/:id", authenticateToken, authorize("priorities:manage"), async (req, res) => {
   try {
     await priorityController.updatePriority(req, res);
   } catch (error) {
@@ -85,7 +85,7 @@ priorityRouter.put("/priority/:id", authenticateToken, async (req, res) => {
   }
 });
 
-priorityRouter.delete("/priority/:id", authenticateToken, async (req, res) => {
+priorityRouter.delete("/priority/:id", authenticateToken, authorize("priorities:manage"), async (req, res) => {
   try {
     await priorityController.deletePriority(req, res);
   } catch (error) {
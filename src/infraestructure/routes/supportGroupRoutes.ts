@@ -0,0 +1,121 @@
+import { Router } from "express";
+import { SupportGroupController } from "../controller/SupportGroupController";
+import { SupportGroupApplicationService } from "../../application/SupportGroupApplicationService";
+import { SupportGroupAdapter } from "../adapter/SupportGroupAdapter";
+import { UserAdapter } from "../adapter/UserAdapter";
+import { authenticateToken, authorize } from "../web/authMiddleware";
+
+/**
+ * Configuración de rutas para los grupos de soporte y sus miembros
+ */
+
+const supportGroupAdapter = new SupportGroupAdapter();
+const supportGroupService = new SupportGroupApplicationService(
+  supportGroupAdapter,
+  new UserAdapter()
+);
+const supportGroupController = new SupportGroupController(supportGroupService);
+
+// Crear el router de Express
+const supportGroupRouter = Router();
+
+supportGroupRouter.post("/support-groups", authenticateToken, authorize("support_groups:manage"), async (req, res) => {
+  try {
+    await supportGroupController.createSupportGroup(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error en la creación del grupo de soporte",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+supportGroupRouter.get("/support-groups", authenticateToken, authorize("support_groups:read"), async (req, res) => {
+  try {
+    await supportGroupController.getAllSupportGroups(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los grupos de soporte",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+supportGroupRouter.get("/support-groups/active", authenticateToken, authorize("support_groups:read"), async (req, res) => {
+  try {
+    await supportGroupController.getAllActiveSupportGroups(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los grupos de soporte activos",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+supportGroupRouter.get("/support-groups/:id", authenticateToken, authorize("support_groups:read"), async (req, res) => {
+  try {
+    await supportGroupController.getSupportGroupById(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener el grupo de soporte",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+supportGroupRouter.put("/support-groups/:id", authenticateToken, authorize("support_groups:manage"), async (req, res) => {
+  try {
+    await supportGroupController.updateSupportGroup(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error en la actualización del grupo de soporte",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+supportGroupRouter.delete("/support-groups/:id", authenticateToken, authorize("support_groups:manage"), async (req, res) => {
+  try {
+    await supportGroupController.deleteSupportGroup(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al eliminar el grupo de soporte",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+supportGroupRouter.get("/support-groups/:id/members", authenticateToken, authorize("support_groups:read"), async (req, res) => {
+  try {
+    await supportGroupController.getMembers(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los miembros del grupo de soporte",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+supportGroupRouter.post("/support-groups/:id/members", authenticateToken, authorize("support_groups:manage"), async (req, res) => {
+  try {
+    await supportGroupController.addMember(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al añadir el miembro al grupo de soporte",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+supportGroupRouter.delete("/support-groups/:id/members/:userId", authenticateToken, authorize("support_groups:manage"), async (req, res) => {
+  try {
+    await supportGroupController.removeMember(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al quitar el miembro del grupo de soporte",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+export { supportGroupRouter };
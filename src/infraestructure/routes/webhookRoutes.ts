@@ -0,0 +1,101 @@
+import { Router } from "express";
+import { WebhookController } from "../controller/WebhookController";
+import { WebhookApplicationService } from "../../application/WebhookApplicationService";
+import { WebhookAdapter } from "../adapter/WebhookAdapter";
+import { HttpWebhookSenderAdapter } from "../adapter/HttpWebhookSenderAdapter";
+import { IncidentAdapter } from "../adapter/IncidentAdapter";
+import { authenticateToken, authorize } from "../web/authMiddleware";
+
+/**
+ * Configuración de los webhooks salientes y de sus rutas de administración
+ */
+
+const webhookService = new WebhookApplicationService(
+  new WebhookAdapter(),
+  new HttpWebhookSenderAdapter(),
+  new IncidentAdapter()
+);
+
+const webhookController = new WebhookController(webhookService);
+
+// Crear el router de Express
+const webhookRouter = Router();
+
+webhookRouter.post("/webhooks", authenticateToken, authorize("webhooks:manage"), async (req, res) => {
+  try {
+    await webhookController.createWebhook(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al crear el webhook",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+webhookRouter.get("/webhooks", authenticateToken, authorize("webhooks:manage"), async (req, res) => {
+  try {
+    await webhookController.getAllWebhooks(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener los webhooks",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+webhookRouter.post("/webhooks/deliveries/:id/replay", authenticateToken, authorize("webhooks:manage"), async (req, res) => {
+  try {
+    await webhookController.replayDelivery(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al reenviar la entrega",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+webhookRouter.get("/webhooks/:id", authenticateToken, authorize("webhooks:manage"), async (req, res) => {
+  try {
+    await webhookController.getWebhookById(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener el webhook",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+webhookRouter.put("/webhooks/:id", authenticateToken, authorize("webhooks:manage"), async (req, res) => {
+  try {
+    await webhookController.updateWebhook(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al actualizar el webhook",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+webhookRouter.delete("/webhooks/:id", authenticateToken, authorize("webhooks:manage"), async (req, res) => {
+  try {
+    await webhookController.deleteWebhook(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al eliminar el webhook",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+webhookRouter.get("/webhooks/:id/deliveries", authenticateToken, authorize("webhooks:manage"), async (req, res) => {
+  try {
+    await webhookController.getDeliveries(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener las entregas del webhook",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+export { webhookRouter, webhookService };
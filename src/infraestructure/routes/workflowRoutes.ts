@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { WorkflowController } from "../controller/WorkflowController";
+import { WorkflowApplicationService } from "../../application/WorkflowApplicationService";
+import { WorkflowAdapter } from "../adapter/WorkflowAdapter";
+import { IncidentAdapter } from "../adapter/IncidentAdapter";
+import { authenticateToken, authorize } from "../web/authMiddleware";
+
+/**
+ * Configuración de rutas para la gestión del flujo de trabajo de las incidencias
+ */
+
+const workflowService = new WorkflowApplicationService(
+  new WorkflowAdapter(),
+  new IncidentAdapter()
+);
+const workflowController = new WorkflowController(workflowService);
+
+// Crear el router de Express
+const workflowRouter = Router();
+
+workflowRouter.get("/workflow", authenticateToken, authorize("workflow:read"), async (req, res) => {
+  try {
+    await workflowController.getWorkflow(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al obtener el flujo de trabajo",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+workflowRouter.put("/workflow", authenticateToken, authorize("workflow:manage"), async (req, res) => {
+  try {
+    await workflowController.updateWorkflow(req, res);
+  } catch (error) {
+    res.status(500).json({
+      message: "Error al actualizar el flujo de trabajo",
+      error: error instanceof Error ? error.message : "Error inesperado",
+    });
+  }
+});
+
+export { workflowRouter };
@@ -5,6 +5,15 @@ import { categoryRouter } from "../routes/categoryRoutes";
 import { priorityRouter } from "../routes/priorityRoutes";
 import { incidentRouter } from "../routes/incidentRoutes";
 import { CommentsRouter } from "../routes/commentsRoutes";
+import { calendarRouter } from "../routes/calendarRoutes";
+import { attachmentRouter } from "../routes/attachmentRoutes";
+import { notificationRouter } from "../routes/notificationRoutes";
+import { webhookRouter } from "../routes/webhookRoutes";
+import { workflowRouter } from "../routes/workflowRoutes";
+import { closureCodeRouter } from "../routes/closureCodeRoutes";
+import { assignmentRouter } from "../routes/assignmentRoutes";
+import { supportGroupRouter } from "../routes/supportGroupRoutes";
+import { serverConfig } from "../config/server";
 import cors from "cors"
 
 class App{
@@ -18,6 +27,8 @@ class App{
     }
 
     private middleware(): void {
+        // Necesario para que req.ip sea la IP del cliente detrás de un proxy
+        this.app.set("trust proxy", serverConfig.trustProxy);
         this.app.use(cors());
         this.app.use(express.json());
     }
@@ -28,6 +39,14 @@ class App{
         this.app.use("/api", priorityRouter);
         this.app.use("/api", incidentRouter);
         this.app.use("/api", CommentsRouter);
+        this.app.use("/api", calendarRouter);
+        this.app.use("/api", attachmentRouter);
+        this.app.use("/api", notificationRouter);
+        this.app.use("/api", webhookRouter);
+        this.app.use("/api", workflowRouter);
+        this.app.use("/api", closureCodeRouter);
+        this.app.use("/api", assignmentRouter);
+        this.app.use("/api", supportGroupRouter);
     }
 
     getApp(){
@@ -1,7 +1,14 @@
 import { Request, Response, NextFunction } from "express";
-import { AuthService } from "../../application/AuthService";
+import { sessionService } from "../config/auth";
+import { AuthUser } from "../../domain/AuthUser";
+import { Permission, hasPermission } from "../../domain/Permission";
 
-export function authenticateToken(req: Request, res: Response, next: NextFunction): void {
+/**
+ * Middleware de autenticación
+ * Además de la firma y la caducidad del JWT comprueba que su sesión no haya
+ * sido revocada y que el usuario siga activo
+ */
+export async function authenticateToken(req: Request, res: Response, next: NextFunction): Promise<void> {
   const authHeader = req.headers["authorization"];
   const token = authHeader && authHeader.split(" ")[1];
 
@@ -10,12 +17,42 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
     return; 
   }
 
+  let user: AuthUser;
   try {
-    const payload = AuthService.verifyToken(token);
-    (req as any).user = payload;
-    next();
-  } catch {
-    res.status(403).json({ error: "Token inválido o expirado" });
+    user = await sessionService.authenticate(token);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (message.includes("Token") || message.includes("desactivado")) {
+      res.status(403).json({ error: message });
+    } else {
+      res.status(500).json({ error: "Error al validar el token" });
+    }
     return; 
   }
+
+  (req as any).user = user;
+  next();
+}
+
+/**
+ * Middleware de autorización basado en roles
+ * Debe usarse siempre después de authenticateToken: comprueba que el rol
+ * presente en el token tenga concedido al menos uno de los permisos indicados
+ */
+export function authorize(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as any).user as AuthUser | undefined;
+
+    if (!user) {
+      res.status(401).json({ error: "Token requerido" });
+      return;
+    }
+
+    if (!permissions.some((permission) => hasPermission(user.rol, permission))) {
+      res.status(403).json({ error: "No tiene permisos para realizar esta acción" });
+      return;
+    }
+
+    next();
+  };
 }
@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { attachmentsConfig } from "../config/attachments";
+
+/**
+ * Recibe en memoria un único archivo del campo multipart "archivo"
+ * El límite de tamaño se aplica durante la recepción para no leer
+ * archivos mayores de lo permitido; el tipo se valida en el servicio
+ */
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: attachmentsConfig.tamanoMaximoBytes, files: 1 },
+}).single("archivo");
+
+export function uploadAttachment(req: Request, res: Response, next: NextFunction): void {
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        res.status(413).json({ error: "El archivo excede el tamaño máximo permitido" });
+        return;
+      }
+
+      res.status(400).json({ error: `Error en el archivo recibido: ${error.message}` });
+      return;
+    }
+
+    if (error) {
+      next(error);
+      return;
+    }
+
+    next();
+  });
+}
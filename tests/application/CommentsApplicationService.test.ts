@@ -0,0 +1,194 @@
+import { CommentsApplicationService } from "../../src/application/CommentsApplicationService";
+import { AttachmentPort } from "../../src/domain/AttachmentPort";
+import { AuthUser } from "../../src/domain/AuthUser";
+import { Comments } from "../../src/domain/Comments";
+import { CommentsPort } from "../../src/domain/CommentsPort";
+import { EventBusPort } from "../../src/domain/EventBusPort";
+import { FileStoragePort } from "../../src/domain/FileStoragePort";
+import { Incident } from "../../src/domain/Incident";
+import { IncidentPort } from "../../src/domain/IncidentPort";
+import { User } from "../../src/domain/User";
+import { UserPort } from "../../src/domain/UserPort";
+
+const administrador: AuthUser = { id: 1, email: "admin@test.com", rol: "administrador" };
+const tecnico: AuthUser = { id: 2, email: "tecnico@test.com", rol: "soporte" };
+const otroTecnico: AuthUser = { id: 3, email: "otro@test.com", rol: "soporte" };
+const reportador: AuthUser = { id: 4, email: "reportador@test.com", rol: "empleado" };
+const otroEmpleado: AuthUser = { id: 5, email: "empleado@test.com", rol: "empleado" };
+
+const incident: Incident = {
+  id: 10,
+  titulo: "Sin acceso a la VPN",
+  estado: "en_progreso",
+  usuarioId: reportador.id,
+  soporteId: tecnico.id,
+  categoriaId: 1,
+  prioridadId: 1,
+  creadoEn: new Date(),
+  actualizadoEn: new Date(),
+};
+
+function comment(id: number, datos: Partial<Comments> = {}): Comments {
+  return {
+    id,
+    incidencia: incident.id,
+    usuario: tecnico.id,
+    comentario: `Comentario ${id}`,
+    visibilidad: "publico",
+    editado: false,
+    fechaCreacion: new Date(),
+    ...datos,
+  };
+}
+
+describe("CommentsApplicationService", () => {
+  let comments: Comments[];
+  let menciones: Map<number, number[]>;
+  let cambiosVisibilidad: [number, string][];
+  let service: CommentsApplicationService;
+
+  beforeEach(() => {
+    comments = [comment(100), comment(101, { visibilidad: "interno" })];
+    menciones = new Map();
+    cambiosVisibilidad = [];
+
+    const users: User[] = [administrador, tecnico, otroTecnico, reportador, otroEmpleado].map(
+      (user) => ({ ...user, name: user.email, password: "", status: 1 })
+    );
+
+    service = new CommentsApplicationService(
+      {
+        getAllComments: async () => comments,
+        getVisibilityChanges: async () => [],
+        getCommentsById: async (id: number) =>
+          comments.find((c) => c.id === id) ?? null,
+        getCommentsByIncidencia: async (id: number) =>
+          comments.filter((c) => c.incidencia === id),
+        getCommentsMentioningUser: async (usuarioId: number) =>
+          comments.filter((c) => (menciones.get(c.id) ?? []).includes(usuarioId)),
+        createComments: async (data: Omit<Comments, "id">) => {
+          const id = comments.length + 100;
+          comments.push({ ...data, id });
+          return id;
+        },
+        setMentions: async (id: number, usuarioIds: number[]) => {
+          menciones.set(id, usuarioIds);
+        },
+        getRevisions: async () => [],
+        changeVisibility: async (id: number, visibilidad: string) => {
+          cambiosVisibilidad.push([id, visibilidad]);
+          return true;
+        },
+      } as unknown as CommentsPort,
+      {
+        getIncidentById: async (id: number) =>
+          id === incident.id ? incident : null,
+      } as unknown as IncidentPort,
+      {} as AttachmentPort,
+      {} as FileStoragePort,
+      { getAllUsers: async () => users } as unknown as UserPort,
+      { publish: () => {}, subscribe: () => {} } as EventBusPort
+    );
+  });
+
+  describe("visibilidad de la incidencia", () => {
+    it.each([
+      ["administrador", administrador],
+      ["técnico asignado", tecnico],
+      ["reportador", reportador],
+    ])("permite al %s consultar los comentarios", async (_nombre, caller) => {
+      const visibles = await service.getCommentsByIncidencia(caller, incident.id);
+
+      expect(visibles.length).toBeGreaterThan(0);
+      expect(await service.getCommentsById(caller, 100)).not.toBeNull();
+    });
+
+    it.each([
+      ["otro técnico", otroTecnico],
+      ["otro empleado", otroEmpleado],
+    ])("oculta los comentarios a %s", async (_nombre, caller) => {
+      await expect(
+        service.getCommentsByIncidencia(caller, incident.id)
+      ).rejects.toThrow("Incidencia no encontrada");
+      expect(await service.getCommentsById(caller, 100)).toBeNull();
+      await expect(service.getRevisions(caller, 100)).rejects.toThrow(
+        "Comentario no encontrado"
+      );
+      await expect(service.getVisibilityChanges(caller, 101)).rejects.toThrow(
+        "Comentario no encontrado"
+      );
+      expect(await service.getAllComments(caller)).toEqual([]);
+    });
+
+    it("lista todos los comentarios visibles para el usuario", async () => {
+      comments.push(comment(102, { incidencia: 99, visibilidad: "interno" }));
+
+      expect((await service.getAllComments(administrador)).map((c) => c.id)).toEqual([
+        100, 101,
+      ]);
+      expect((await service.getAllComments(reportador)).map((c) => c.id)).toEqual([100]);
+    });
+
+    it("no permite comentar en una incidencia fuera del alcance del usuario", async () => {
+      await expect(
+        service.createComments(otroEmpleado, {
+          incidencia: incident.id,
+          comentario: "¿Hay novedades?",
+        })
+      ).rejects.toThrow("Incidencia no encontrada");
+    });
+
+    it("oculta las notas internas a los empleados", async () => {
+      const visibles = await service.getCommentsByIncidencia(reportador, incident.id);
+
+      expect(visibles.map((c) => c.id)).toEqual([100]);
+      expect(await service.getCommentsById(reportador, 101)).toBeNull();
+    });
+  });
+
+  describe("menciones", () => {
+    it("solo registra a los usuarios que pueden ver la incidencia", async () => {
+      const id = await service.createComments(tecnico, {
+        incidencia: incident.id,
+        comentario: "@reportador @otro @empleado @admin@test.com revisad esto",
+      });
+
+      expect(menciones.get(id)).toEqual([reportador.id, administrador.id]);
+    });
+
+    it("no registra a los empleados en una nota interna", async () => {
+      const id = await service.createComments(tecnico, {
+        incidencia: incident.id,
+        comentario: "@reportador @admin revisad esto",
+        visibilidad: "interno",
+      });
+
+      expect(menciones.get(id)).toEqual([administrador.id]);
+    });
+
+    it("oculta las menciones de incidencias que el usuario ya no puede ver", async () => {
+      menciones.set(100, [otroTecnico.id]);
+
+      expect(await service.getMentions(otroTecnico)).toEqual([]);
+    });
+  });
+
+  describe("cambio de visibilidad", () => {
+    it("no hace pública una respuesta a una nota interna", async () => {
+      comments.push(comment(102, { comentarioPadreId: 101, visibilidad: "interno" }));
+
+      await expect(service.changeVisibility(tecnico, 102, "publico")).rejects.toThrow(
+        "La respuesta a una nota interna debe ser interna"
+      );
+      expect(cambiosVisibilidad).toEqual([]);
+    });
+
+    it("hace pública una respuesta interna a un comentario público", async () => {
+      comments.push(comment(102, { comentarioPadreId: 100, visibilidad: "interno" }));
+
+      await service.changeVisibility(tecnico, 102, "publico");
+
+      expect(cambiosVisibilidad).toEqual([[102, "publico"]]);
+    });
+  });
+});
@@ -0,0 +1,385 @@
+import { IncidentApplicationService } from "../../src/application/IncidentApplicationService";
+import { AuthUser } from "../../src/domain/AuthUser";
+import { BusinessCalendar } from "../../src/domain/BusinessCalendar";
+import { BusinessCalendarPort } from "../../src/domain/BusinessCalendarPort";
+import { DomainEvent } from "../../src/domain/DomainEvent";
+import { EventBusPort } from "../../src/domain/EventBusPort";
+import { HistorialIncidencia } from "../../src/domain/HistorialIncidencia";
+import { HistorialIncidenciaPort } from "../../src/domain/HistorialIncidenciaPort";
+import {
+  Incident,
+  IncidentStatistics,
+  IncidentStatusChange,
+} from "../../src/domain/Incident";
+import { IncidentPort } from "../../src/domain/IncidentPort";
+import { Priority } from "../../src/domain/Priority";
+import { PriorityPort } from "../../src/domain/PriorityPort";
+import { ResolutionPolicy } from "../../src/domain/ResolutionPolicy";
+
+const administrador: AuthUser = { id: 1, email: "admin@test.com", rol: "administrador" };
+const tecnico: AuthUser = { id: 2, email: "tecnico@test.com", rol: "soporte" };
+const reportador: AuthUser = { id: 4, email: "reportador@test.com", rol: "empleado" };
+const politica: ResolutionPolicy = { diasConfirmacion: 5, diasReapertura: 30 };
+
+// Lunes a viernes de 09:00 a 18:00 en UTC, para que las fechas se lean directamente
+const calendario: BusinessCalendar = {
+  diasLaborables: [1, 2, 3, 4, 5],
+  horaInicio: "09:00",
+  horaFin: "18:00",
+  zonaHoraria: "UTC",
+};
+
+function incident(id: number, datos: Partial<Incident> = {}): Incident {
+  return {
+    id,
+    titulo: `Incidencia ${id}`,
+    estado: "en_progreso",
+    usuarioId: reportador.id,
+    soporteId: tecnico.id,
+    categoriaId: 1,
+    prioridadId: 1,
+    creadoEn: new Date("2024-03-04T09:00:00Z"),
+    actualizadoEn: new Date("2024-03-04T09:00:00Z"),
+    ...datos,
+  };
+}
+
+/**
+ * Persistencia de incidencias en memoria que registra cada escritura
+ */
+class InMemoryIncidentPort {
+  incidents: Incident[] = [];
+  escrituras: {
+    operacion: string;
+    id: number;
+    cambios?: Partial<Incident>;
+    cambioEstado?: IncidentStatusChange;
+  }[] = [];
+
+  estadisticas: Partial<IncidentStatistics> = {};
+  tiempos: Pick<Incident, "estado" | "creadoEn" | "fechaPrimeraRespuesta" | "fechaCierre">[] = [];
+
+  consultasSla: unknown[][] = [];
+
+  async getIncidentById(id: number) {
+    return this.incidents.find((i) => i.id === id) ?? null;
+  }
+
+  async createIncident(datos: Omit<Incident, "id" | "creadoEn" | "actualizadoEn">) {
+    const id = this.incidents.length + 1;
+    this.incidents.push({ ...datos, id, creadoEn: new Date(), actualizadoEn: new Date() });
+    return id;
+  }
+
+  consultasPagina: unknown[][] = [];
+
+  async getIncidentsPage(...argumentos: unknown[]) {
+    this.consultasPagina.push(argumentos);
+    return { items: [], total: 0, limite: 20, siguienteCursor: null };
+  }
+
+  async getIncidentsBySla(...argumentos: unknown[]) {
+    this.consultasSla.push(argumentos);
+    return [];
+  }
+
+  async updateIncident(
+    id: number,
+    cambios: Partial<Incident>,
+    _actorId: number,
+    cambioEstado?: IncidentStatusChange
+  ) {
+    this.escrituras.push({ operacion: "updateIncident", id, cambios, cambioEstado });
+    return true;
+  }
+
+  async changeIncidentStatus(id: number, cambioEstado: IncidentStatusChange) {
+    this.escrituras.push({ operacion: "changeIncidentStatus", id, cambioEstado });
+    return true;
+  }
+
+  async getIncidentStatistics() {
+    return { porEstado: {}, ...this.estadisticas };
+  }
+
+  async getIncidentLifecycleTimes() {
+    return this.tiempos;
+  }
+}
+
+describe("IncidentApplicationService", () => {
+  let port: InMemoryIncidentPort;
+  let eventos: DomainEvent[];
+  let festivos: string[];
+  let prioridades: Priority[];
+  let historial: HistorialIncidencia[];
+  let service: IncidentApplicationService;
+
+  beforeEach(() => {
+    port = new InMemoryIncidentPort();
+    eventos = [];
+    festivos = [];
+    prioridades = [];
+    historial = [];
+
+    const vacio = {} as any;
+    service = new IncidentApplicationService(
+      port as unknown as IncidentPort,
+      {
+        getHistoryByIncident: async (id: number) =>
+          historial.filter((entrada) => entrada.incidenciaId === id),
+      } as HistorialIncidenciaPort,
+      {
+        getPriorityById: async (id: number) =>
+          prioridades.find((p) => p.id === id) ?? null,
+      } as unknown as PriorityPort,
+      {
+        getCalendar: async () => calendario,
+        getHolidays: async () =>
+          festivos.map((fecha, i) => ({ id: i + 1, fecha })),
+      } as unknown as BusinessCalendarPort,
+      vacio,
+      vacio,
+      vacio,
+      { getWorkflow: async () => null } as any,
+      vacio,
+      { getRuleByCategory: async () => null } as any,
+      vacio,
+      { getCategoryById: async () => null } as any,
+      vacio,
+      vacio,
+      { publish: (event: DomainEvent) => eventos.push(event), subscribe: () => {} } as EventBusPort,
+      politica
+    );
+  });
+
+  describe("actualización", () => {
+    it("guarda los datos y el cambio de estado en una sola operación", async () => {
+      port.incidents.push(incident(10));
+
+      await service.updateIncident(tecnico, 10, {
+        titulo: "Sin acceso a la VPN",
+        estado: "pendiente_usuario",
+      });
+
+      expect(port.escrituras).toEqual([
+        {
+          operacion: "updateIncident",
+          id: 10,
+          cambios: { titulo: "Sin acceso a la VPN" },
+          cambioEstado: expect.objectContaining({
+            estadoAnterior: "en_progreso",
+            estado: "pendiente_usuario",
+          }),
+        },
+      ]);
+      expect(eventos.map((e) => e.tipo).sort()).toEqual([
+        "incident.status_changed",
+        "incident.updated",
+      ]);
+    });
+
+    it("no guarda nada si la transición no está permitida", async () => {
+      port.incidents.push(incident(10));
+
+      await expect(
+        service.updateIncident(administrador, 10, { estado: "inexistente" })
+      ).rejects.toThrow();
+      expect(port.escrituras).toEqual([]);
+    });
+  });
+
+  describe("estadísticas de tiempos", () => {
+    it("resume en horas laborables los tiempos de resolución y de primera respuesta", async () => {
+      const lunes = new Date("2024-03-04T09:00:00Z");
+      port.estadisticas = { porEstado: { abierta: 1, en_progreso: 1, cerrada: 3 } };
+      port.tiempos = [
+        // Resueltas en 2 h, 9 h (toda la jornada del lunes) y 11 h (lunes y martes)
+        { estado: "cerrada", creadoEn: lunes, fechaCierre: new Date("2024-03-04T11:00:00Z") },
+        { estado: "cerrada", creadoEn: lunes, fechaCierre: new Date("2024-03-05T08:00:00Z") },
+        {
+          estado: "cerrada",
+          creadoEn: lunes,
+          fechaPrimeraRespuesta: new Date("2024-03-04T10:30:00Z"),
+          fechaCierre: new Date("2024-03-05T11:00:00Z"),
+        },
+        // Reabierta: su cierre anterior no cuenta como resolución
+        {
+          estado: "en_progreso",
+          creadoEn: lunes,
+          fechaPrimeraRespuesta: new Date("2024-03-04T12:00:00Z"),
+          fechaCierre: new Date("2024-03-04T13:00:00Z"),
+        },
+      ];
+
+      const estadisticas = await service.getIncidentStatistics(administrador);
+
+      expect(estadisticas).toMatchObject({ abiertas: 1, enProgreso: 1, cerradas: 3 });
+      expect(estadisticas.tiemposResolucion).toEqual({
+        promedio: 7.33,
+        mediana: 9,
+        p90: 11,
+        muestras: 3,
+      });
+      expect(estadisticas.tiempoPromedioResolucion).toBe(7.33);
+      expect(estadisticas.tiemposPrimeraRespuesta).toEqual({
+        promedio: 2.25,
+        mediana: 2.25,
+        p90: 3,
+        muestras: 2,
+      });
+    });
+
+    it("descuenta los fines de semana y los festivos de los tiempos", async () => {
+      festivos = ["2024-03-11"];
+      port.tiempos = [
+        // Del viernes a las 17:00 al martes a las 10:00: 1 h + 1 h
+        {
+          estado: "cerrada",
+          creadoEn: new Date("2024-03-08T17:00:00Z"),
+          fechaCierre: new Date("2024-03-12T10:00:00Z"),
+        },
+      ];
+
+      const estadisticas = await service.getIncidentStatistics(administrador);
+
+      expect(estadisticas.tiemposResolucion?.promedio).toBe(2);
+      expect(estadisticas.tiemposPrimeraRespuesta).toBeUndefined();
+    });
+  });
+
+  describe("plazos del SLA", () => {
+    function prioridad(id: number, datos: Partial<Priority> = {}): Priority {
+      return { id, nombre: `Prioridad ${id}`, nivel: id, estado: 1, fechaCreacion: new Date(), ...datos };
+    }
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("calcula los vencimientos al crear la incidencia en horas laborables", async () => {
+      jest.useFakeTimers({ now: new Date("2024-03-08T15:00:00Z"), doNotFake: ["setImmediate"] });
+      prioridades = [prioridad(1, { horasRespuesta: 4, horasResolucion: 16 })];
+
+      const id = await service.createIncident(reportador, {
+        titulo: "Sin acceso a la VPN",
+        categoriaId: 1,
+        prioridadId: 1,
+      });
+
+      // Viernes 15:00: 3 h el viernes y el resto a partir del lunes
+      expect(await port.getIncidentById(id)).toMatchObject({
+        fechaLimiteRespuesta: new Date("2024-03-11T10:00:00Z"),
+        fechaLimiteResolucion: new Date("2024-03-12T13:00:00Z"),
+      });
+    });
+
+    it("no asigna vencimientos si la prioridad no tiene objetivos", async () => {
+      prioridades = [prioridad(1)];
+
+      const id = await service.createIncident(reportador, {
+        titulo: "Sin acceso a la VPN",
+        categoriaId: 1,
+        prioridadId: 1,
+      });
+
+      const creada = await port.getIncidentById(id);
+      expect(creada?.fechaLimiteRespuesta).toBeUndefined();
+      expect(creada?.fechaLimiteResolucion).toBeUndefined();
+    });
+
+    it("recalcula los vencimientos desde la creación al cambiar la prioridad", async () => {
+      port.incidents.push(incident(10));
+      prioridades = [prioridad(1), prioridad(2, { horasRespuesta: 2, horasResolucion: 8 })];
+
+      await service.updateIncident(tecnico, 10, { prioridadId: 2 });
+
+      expect(port.escrituras[0].cambios).toEqual({
+        prioridadId: 2,
+        fechaLimiteRespuesta: new Date("2024-03-04T11:00:00Z"),
+        fechaLimiteResolucion: new Date("2024-03-04T17:00:00Z"),
+      });
+    });
+
+    it("consulta las incidencias en riesgo fuera de los estados finales y en el alcance del usuario", async () => {
+      jest.useFakeTimers({ now: new Date("2024-03-04T10:00:00Z"), doNotFake: ["setImmediate"] });
+
+      await service.getIncidentsBySla(reportador, "en_riesgo", 2);
+
+      expect(port.consultasSla).toEqual([
+        [
+          "en_riesgo",
+          {
+            ahora: new Date("2024-03-04T10:00:00Z"),
+            limiteRiesgo: new Date("2024-03-04T12:00:00Z"),
+            estadosFinales: ["cerrada", "cancelada"],
+          },
+          { usuarioId: reportador.id },
+          false,
+        ],
+      ]);
+    });
+
+    it("rechaza un umbral de horas no positivo", async () => {
+      await expect(
+        service.getIncidentsBySla(administrador, "en_riesgo", 0)
+      ).rejects.toThrow("El umbral de horas debe ser un número positivo");
+    });
+  });
+
+  describe("paginación", () => {
+    it("aplica por defecto la primera página de las más recientes dentro del alcance del usuario", async () => {
+      await service.getAllIncidents(tecnico);
+
+      expect(port.consultasPagina).toEqual([
+        [
+          { colaSoporteId: tecnico.id },
+          { pagina: undefined, cursor: undefined, limite: 20, ordenarPor: "creadoEn", orden: "DESC" },
+          false,
+        ],
+      ]);
+    });
+
+    it("ordena los estados según el flujo de trabajo al ordenar por estado", async () => {
+      await service.getAllIncidents(administrador, {}, { ordenarPor: "estado", orden: "ASC" });
+
+      expect(port.consultasPagina[0][1]).toMatchObject({
+        ordenarPor: "estado",
+        orden: "ASC",
+        ordenEstados: ["abierta", "en_progreso", "pendiente_usuario", "resuelta", "cerrada", "cancelada"],
+      });
+    });
+
+    it.each([
+      [{ pagina: 2, cursor: "abc" }, "No se puede combinar la paginación por página y por cursor"],
+      [{ pagina: 0 }, "El número de página debe ser un entero positivo"],
+      [{ limite: 101 }, "El límite de la página debe ser un entero entre 1 y 100"],
+      [{ ordenarPor: "titulo" as any }, "El criterio de ordenación debe ser"],
+    ])("rechaza opciones de paginación no válidas (%o)", async (opciones, mensaje) => {
+      await expect(service.getAllIncidents(administrador, {}, opciones)).rejects.toThrow(mensaje);
+      expect(port.consultasPagina).toEqual([]);
+    });
+  });
+
+  describe("historial", () => {
+    beforeEach(() => {
+      port.incidents.push(incident(10));
+      historial = [
+        { id: 1, incidenciaId: 10, campo: "soporteId", valorNuevo: "2", usuarioId: 1, fecha: new Date("2024-03-04T09:05:00Z") },
+        { id: 2, incidenciaId: 10, campo: "estado", valorAnterior: "abierta", valorNuevo: "en_progreso", usuarioId: 2, fecha: new Date("2024-03-04T09:10:00Z") },
+      ];
+    });
+
+    it("devuelve la línea de tiempo de una incidencia visible", async () => {
+      expect(await service.getIncidentHistory(reportador, 10)).toEqual(historial);
+    });
+
+    it("trata como inexistente una incidencia fuera del alcance del usuario", async () => {
+      const otroEmpleado: AuthUser = { id: 5, email: "empleado@test.com", rol: "empleado" };
+
+      await expect(service.getIncidentHistory(otroEmpleado, 10)).rejects.toThrow(
+        "Incidencia no encontrada"
+      );
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { LoginProtectionApplicationService } from "../../src/application/LoginProtectionApplicationService";
+import { LoginThrottle } from "../../src/domain/LoginAttempt";
+import { LoginAttemptPort } from "../../src/domain/LoginAttemptPort";
+
+/**
+ * Contadores en memoria; updateThrottle encadena las actualizaciones de
+ * cada clave igual que el bloqueo de fila del adaptador
+ */
+class FakeLoginAttemptPort {
+  throttles = new Map<string, LoginThrottle>();
+  private colas = new Map<string, Promise<unknown>>();
+
+  async recordAttempt(): Promise<number> {
+    return 1;
+  }
+
+  async getThrottle(tipo: LoginThrottle["tipo"], clave: string) {
+    return this.throttles.get(`${tipo}:${clave}`) ?? null;
+  }
+
+  updateThrottle(
+    tipo: LoginThrottle["tipo"],
+    clave: string,
+    actualizar: (actual: LoginThrottle | null) => LoginThrottle
+  ): Promise<LoginThrottle> {
+    const key = `${tipo}:${clave}`;
+    const resultado = (this.colas.get(key) ?? Promise.resolve()).then(async () => {
+      const actual = this.throttles.get(key) ?? null;
+      await new Promise((resolve) => setImmediate(resolve));
+      const throttle = actualizar(actual);
+      this.throttles.set(key, throttle);
+      return throttle;
+    });
+    this.colas.set(key, resultado);
+    return resultado;
+  }
+
+  async clearThrottle(tipo: LoginThrottle["tipo"], clave: string) {
+    return this.throttles.delete(`${tipo}:${clave}`);
+  }
+}
+
+describe("LoginProtectionApplicationService", () => {
+  let port: FakeLoginAttemptPort;
+  let service: LoginProtectionApplicationService;
+
+  beforeEach(() => {
+    port = new FakeLoginAttemptPort();
+    service = new LoginProtectionApplicationService(
+      port as unknown as LoginAttemptPort,
+      {
+        maxFallosCuenta: 5,
+        maxFallosIp: 20,
+        fallosAntesDeEspera: 3,
+        esperaMaximaSegundos: 30,
+        ventanaMinutos: 15,
+        bloqueoMinutos: 15,
+      }
+    );
+  });
+
+  it("cuenta todos los fallos simultáneos y bloquea la cuenta", async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        service.recordFailure("User@Test.com", "10.0.0.1", "credenciales")
+      )
+    );
+
+    const throttle = await service.getAccountThrottle("user@test.com");
+    expect(throttle?.fallos).toBe(5);
+    expect(throttle?.bloqueadoHasta).toBeDefined();
+    await expect(
+      service.assertCanAttempt("user@test.com", "10.0.0.2")
+    ).rejects.toThrow("Demasiados intentos fallidos");
+  });
+
+  it("reinicia el contador de la cuenta tras un inicio de sesión correcto", async () => {
+    await service.recordFailure("user@test.com", "10.0.0.1", "credenciales");
+    await service.recordSuccess("user@test.com", "10.0.0.1", 1);
+
+    expect(await service.getAccountThrottle("user@test.com")).toBeNull();
+    await expect(
+      service.assertCanAttempt("user@test.com", "10.0.0.1")
+    ).resolves.toBeUndefined();
+  });
+
+  it("descuenta de la IP solo los fallos de la cuenta que inicia sesión", async () => {
+    for (let i = 0; i < 3; i++) {
+      await service.recordFailure("otro@test.com", "10.0.0.1", "credenciales");
+    }
+    for (let i = 0; i < 2; i++) {
+      await service.recordFailure("user@test.com", "10.0.0.1", "credenciales");
+    }
+
+    await service.recordSuccess("user@test.com", "10.0.0.1", 1);
+
+    expect((await port.getThrottle("ip", "10.0.0.1"))?.fallos).toBe(3);
+  });
+});
@@ -0,0 +1,285 @@
+import { NotificationApplicationService } from "../../src/application/NotificationApplicationService";
+import { Comments } from "../../src/domain/Comments";
+import { CommentsPort } from "../../src/domain/CommentsPort";
+import { DomainEvent, DomainEventType } from "../../src/domain/DomainEvent";
+import { DomainEventHandler, EventBusPort } from "../../src/domain/EventBusPort";
+import { Incident } from "../../src/domain/Incident";
+import { IncidentPort } from "../../src/domain/IncidentPort";
+import { MailMessage, MailPort } from "../../src/domain/MailPort";
+import { NotificationPreference } from "../../src/domain/NotificationPreference";
+import { NotificationPreferencePort } from "../../src/domain/NotificationPreferencePort";
+import { User } from "../../src/domain/User";
+import { UserPort } from "../../src/domain/UserPort";
+import { WatcherPort } from "../../src/domain/WatcherPort";
+
+/**
+ * Bus de eventos que permite esperar a que terminen los suscriptores
+ */
+class RecordingEventBus implements EventBusPort {
+  private handlers = new Map<DomainEventType, DomainEventHandler<any>[]>();
+
+  publish(): void {}
+
+  subscribe<K extends DomainEventType>(
+    tipo: K,
+    handler: DomainEventHandler<Extract<DomainEvent, { tipo: K }>>
+  ): void {
+    this.handlers.set(tipo, [...(this.handlers.get(tipo) ?? []), handler]);
+  }
+
+  async emit(event: DomainEvent): Promise<void> {
+    for (const handler of this.handlers.get(event.tipo) ?? []) {
+      await handler(event);
+    }
+  }
+}
+
+class FakeMailPort implements MailPort {
+  enviados: MailMessage[] = [];
+  fallarPara = new Set<string>();
+
+  async sendMail(message: MailMessage): Promise<void> {
+    if (this.fallarPara.has(message.para)) {
+      throw new Error("Error de SMTP");
+    }
+    this.enviados.push(message);
+  }
+}
+
+function user(id: number, rol: User["rol"], datos: Partial<User> = {}): User {
+  return {
+    id,
+    name: `Usuario ${id}`,
+    email: `usuario${id}@test.com`,
+    rol,
+    password: "",
+    status: 1,
+    ...datos,
+  };
+}
+
+describe("NotificationApplicationService", () => {
+  const reportador = user(1, "empleado");
+  const tecnico = user(2, "soporte");
+  const seguidor = user(3, "administrador");
+  const otroTecnico = user(5, "soporte");
+  const administrador = user(4, "administrador");
+
+  let users: User[];
+  let watcherIds: number[];
+  let preferences: NotificationPreference[];
+  let incident: Incident;
+  let comment: Comments;
+  let mail: FakeMailPort;
+  let eventBus: RecordingEventBus;
+
+  beforeEach(() => {
+    users = [reportador, tecnico, seguidor, administrador, otroTecnico];
+    watcherIds = [seguidor.id];
+    preferences = [];
+    incident = {
+      id: 50,
+      titulo: "Sin acceso a la VPN",
+      estado: "en_progreso",
+      usuarioId: reportador.id,
+      soporteId: tecnico.id,
+      categoriaId: 1,
+      prioridadId: 1,
+      creadoEn: new Date(),
+      actualizadoEn: new Date(),
+    };
+    comment = {
+      id: 70,
+      incidencia: incident.id,
+      usuario: tecnico.id,
+      comentario: "Reinicie el cliente <b>VPN</b>",
+      visibilidad: "publico",
+      editado: false,
+      fechaCreacion: new Date(),
+    };
+    mail = new FakeMailPort();
+    eventBus = new RecordingEventBus();
+
+    const service = new NotificationApplicationService(
+      {
+        getIncidentById: async (id: number) =>
+          id === incident.id ? incident : null,
+      } as unknown as IncidentPort,
+      {
+        getCommentsById: async (id: number) =>
+          id === comment.id ? comment : null,
+      } as unknown as CommentsPort,
+      {
+        getUserById: async (id: number) =>
+          users.find((candidate) => candidate.id === id) ?? null,
+      } as unknown as UserPort,
+      {
+        getWatcherIds: async () => watcherIds,
+      } as unknown as WatcherPort,
+      {
+        getPreferences: async (usuarioId: number) =>
+          preferences.find((p) => p.usuarioId === usuarioId) ?? null,
+        savePreferences: async () => true,
+      } as NotificationPreferencePort,
+      mail
+    );
+    service.registerHandlers(eventBus);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const destinatarios = () => mail.enviados.map((message) => message.para).sort();
+
+  it("notifica la asignación al reportador, al técnico y a los seguidores salvo al actor", async () => {
+    await eventBus.emit({
+      tipo: "incident.assigned",
+      incidenciaId: incident.id,
+      actorId: administrador.id,
+      fecha: new Date(),
+      soporteId: tecnico.id,
+    });
+
+    expect(destinatarios()).toEqual([
+      reportador.email,
+      tecnico.email,
+      seguidor.email,
+    ]);
+    expect(mail.enviados[0].asunto).toBe(
+      `[Incidencia #50] Asignada a ${tecnico.name}`
+    );
+  });
+
+  it("no notifica una desasignación", async () => {
+    await eventBus.emit({
+      tipo: "incident.assigned",
+      incidenciaId: incident.id,
+      actorId: administrador.id,
+      fecha: new Date(),
+      soporteAnteriorId: tecnico.id,
+      soporteId: null,
+    });
+
+    expect(mail.enviados).toEqual([]);
+  });
+
+  it("notifica el cierre solo al llegar a un estado final", async () => {
+    const cambio = {
+      tipo: "incident.status_changed" as const,
+      incidenciaId: incident.id,
+      actorId: tecnico.id,
+      fecha: new Date(),
+      estadoAnterior: "abierta",
+    };
+
+    await eventBus.emit({ ...cambio, estadoNuevo: "en_progreso", estadoFinal: false });
+    expect(mail.enviados).toEqual([]);
+
+    incident.estado = "cerrada";
+    await eventBus.emit({ ...cambio, estadoNuevo: "cerrada", estadoFinal: true });
+    expect(destinatarios()).toEqual([reportador.email, seguidor.email]);
+  });
+
+  it.each([
+    ["cerrada", "Cerrada", "ha cerrado"],
+    ["cancelada", "Cancelada", "ha cancelado"],
+    ["descartada", "Finalizada", "ha finalizado (descartada)"],
+  ])("redacta el aviso según el estado final %s", async (estado, asunto, accion) => {
+    incident.estado = estado;
+
+    await eventBus.emit({
+      tipo: "incident.status_changed",
+      incidenciaId: incident.id,
+      actorId: tecnico.id,
+      fecha: new Date(),
+      estadoAnterior: "en_progreso",
+      estadoNuevo: estado,
+      estadoFinal: true,
+    });
+
+    expect(mail.enviados[0].asunto).toBe(`[Incidencia #50] ${asunto}`);
+    expect(mail.enviados[0].texto).toContain(
+      `${tecnico.name} ${accion} la incidencia #50`
+    );
+  });
+
+  it("excluye a los usuarios inactivos y respeta las preferencias", async () => {
+    users = users.map((candidate) =>
+      candidate.id === seguidor.id ? { ...candidate, status: 0 } : candidate
+    );
+    preferences = [
+      { usuarioId: reportador.id, emailHabilitado: true, tiposDesactivados: ["comentario"] },
+    ];
+
+    await eventBus.emit({
+      tipo: "comment.created",
+      incidenciaId: incident.id,
+      actorId: tecnico.id,
+      fecha: new Date(),
+      comentarioId: comment.id,
+      visibilidad: "publico",
+    });
+
+    expect(mail.enviados).toEqual([]);
+  });
+
+  it("excluye a los seguidores que ya no pueden consultar la incidencia", async () => {
+    watcherIds = [seguidor.id, otroTecnico.id];
+
+    await eventBus.emit({
+      tipo: "incident.assigned",
+      incidenciaId: incident.id,
+      actorId: administrador.id,
+      fecha: new Date(),
+      soporteId: tecnico.id,
+    });
+
+    expect(destinatarios()).not.toContain(otroTecnico.email);
+    expect(destinatarios()).toContain(seguidor.email);
+  });
+
+  it("no envía las notas internas a los empleados", async () => {
+    comment.visibilidad = "interno";
+
+    await eventBus.emit({
+      tipo: "comment.created",
+      incidenciaId: incident.id,
+      actorId: tecnico.id,
+      fecha: new Date(),
+      comentarioId: comment.id,
+      visibilidad: "interno",
+    });
+
+    expect(destinatarios()).toEqual([seguidor.email]);
+  });
+
+  it("escapa el contenido del comentario en el HTML", async () => {
+    await eventBus.emit({
+      tipo: "comment.created",
+      incidenciaId: incident.id,
+      actorId: tecnico.id,
+      fecha: new Date(),
+      comentarioId: comment.id,
+      visibilidad: "publico",
+    });
+
+    expect(mail.enviados[0].html).toContain("&lt;b&gt;VPN&lt;/b&gt;");
+    expect(mail.enviados[0].html).not.toContain("<b>VPN</b>");
+  });
+
+  it("continúa con los demás destinatarios si un envío falla", async () => {
+    mail.fallarPara.add(reportador.email);
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await eventBus.emit({
+      tipo: "incident.assigned",
+      incidenciaId: incident.id,
+      actorId: administrador.id,
+      fecha: new Date(),
+      soporteId: tecnico.id,
+    });
+
+    expect(destinatarios()).toEqual([tecnico.email, seguidor.email]);
+  });
+});
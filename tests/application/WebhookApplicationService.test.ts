@@ -0,0 +1,155 @@
+import { WebhookApplicationService } from "../../src/application/WebhookApplicationService";
+import { IncidentPort } from "../../src/domain/IncidentPort";
+import { Webhook, WebhookDelivery } from "../../src/domain/Webhook";
+import { WebhookPort } from "../../src/domain/WebhookPort";
+import { WebhookSenderPort, WebhookSendResult } from "../../src/domain/WebhookSenderPort";
+
+const webhook: Webhook = {
+  id: 1,
+  url: "https://example.com/hook",
+  secreto: "secreto-de-prueba-123",
+  eventos: ["incident.created"],
+  activo: true,
+  creadoEn: new Date(),
+};
+
+/**
+ * Persistencia en memoria de las entregas con la misma semántica de
+ * reclamación condicional que el adaptador
+ */
+class InMemoryWebhookPort {
+  deliveries: WebhookDelivery[] = [];
+
+  async getWebhookById(id: number) {
+    return id === webhook.id ? webhook : null;
+  }
+
+  async getWebhooksByEvent() {
+    return [webhook];
+  }
+
+  async createDelivery(delivery: Omit<WebhookDelivery, "id" | "creadoEn">) {
+    const id = this.deliveries.length + 1;
+    this.deliveries.push({ ...delivery, id, creadoEn: new Date() });
+    return id;
+  }
+
+  async getDueDeliveries(ahora: Date) {
+    return this.deliveries
+      .filter((d) => d.estado === "pendiente" && d.proximoIntento! <= ahora)
+      .map((d) => ({ ...d }));
+  }
+
+  async claimDelivery(id: number, ahora: Date, hasta: Date) {
+    const delivery = this.deliveries.find((d) => d.id === id);
+    if (!delivery || delivery.estado !== "pendiente" || delivery.proximoIntento! > ahora) {
+      return false;
+    }
+    delivery.proximoIntento = hasta;
+    return true;
+  }
+
+  async updateDelivery(id: number, cambios: Partial<WebhookDelivery>) {
+    const delivery = this.deliveries.find((d) => d.id === id)!;
+    Object.assign(delivery, cambios);
+    return true;
+  }
+}
+
+/**
+ * Emisor cuyas peticiones quedan abiertas hasta que el test las resuelve
+ */
+class PendingSender implements WebhookSenderPort {
+  enviados: number[] = [];
+  private pendientes: ((result: WebhookSendResult) => void)[] = [];
+
+  send(
+    _url: string,
+    _secreto: string,
+    _payload: string,
+    cabeceras: { evento: string; entregaId: number }
+  ): Promise<WebhookSendResult> {
+    this.enviados.push(cabeceras.entregaId);
+    return new Promise((resolve) => this.pendientes.push(resolve));
+  }
+
+  responder(result: WebhookSendResult): void {
+    this.pendientes.shift()!(result);
+  }
+}
+
+describe("WebhookApplicationService", () => {
+  let port: InMemoryWebhookPort;
+  let sender: PendingSender;
+  let service: WebhookApplicationService;
+  let dispatch: (event: unknown) => Promise<void>;
+
+  beforeEach(() => {
+    port = new InMemoryWebhookPort();
+    sender = new PendingSender();
+    service = new WebhookApplicationService(
+      port as unknown as WebhookPort,
+      sender,
+      { getIncidentById: async () => null } as unknown as IncidentPort
+    );
+
+    const handlers = new Map<string, (event: unknown) => Promise<void>>();
+    service.registerHandlers({
+      publish: () => {},
+      subscribe: (tipo: string, handler: (event: unknown) => Promise<void>) =>
+        handlers.set(tipo, handler),
+    } as any);
+    dispatch = handlers.get("incident.created")!;
+  });
+
+  function createdEvent() {
+    return {
+      tipo: "incident.created",
+      incidenciaId: 10,
+      actorId: 1,
+      fecha: new Date(),
+    };
+  }
+
+  it("no reenvía desde los reintentos una entrega cuyo primer intento sigue en curso", async () => {
+    const envio = dispatch(createdEvent());
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await service.processDueDeliveries();
+
+    expect(sender.enviados).toEqual([1]);
+
+    sender.responder({ exito: true, codigo: 200 });
+    await envio;
+
+    expect(port.deliveries[0]).toMatchObject({ estado: "entregado", intentos: 1 });
+  });
+
+  it("reintenta una sola vez las entregas vencidas aunque compitan dos procesos", async () => {
+    await port.createDelivery({
+      webhookId: webhook.id,
+      evento: "incident.created",
+      payload: "{}",
+      estado: "pendiente",
+      intentos: 1,
+      proximoIntento: new Date(Date.now() - 1000),
+    });
+    const otroProceso = new WebhookApplicationService(
+      port as unknown as WebhookPort,
+      sender,
+      {} as IncidentPort
+    );
+
+    const primero = service.processDueDeliveries();
+    const segundo = otroProceso.processDueDeliveries();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(sender.enviados).toEqual([1]);
+
+    sender.responder({ exito: false, codigo: 500 });
+    await Promise.all([primero, segundo]);
+
+    expect(port.deliveries[0]).toMatchObject({ estado: "pendiente", intentos: 2 });
+    expect(port.deliveries[0].proximoIntento!.getTime()).toBeGreaterThan(Date.now());
+  });
+});
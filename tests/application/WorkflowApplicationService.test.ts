@@ -0,0 +1,73 @@
+import { WorkflowApplicationService } from "../../src/application/WorkflowApplicationService";
+import { IncidentPort } from "../../src/domain/IncidentPort";
+import { DEFAULT_WORKFLOW, Workflow } from "../../src/domain/Workflow";
+import { WorkflowPort } from "../../src/domain/WorkflowPort";
+
+describe("WorkflowApplicationService", () => {
+  let guardado: Workflow | null;
+  let service: WorkflowApplicationService;
+
+  beforeEach(() => {
+    guardado = null;
+    service = new WorkflowApplicationService(
+      {
+        getWorkflow: async () => guardado,
+        saveWorkflow: async (workflow: Workflow) => {
+          guardado = workflow;
+          return true;
+        },
+      } as unknown as WorkflowPort,
+      { countIncidentsByStatus: async () => ({}) } as unknown as IncidentPort
+    );
+  });
+
+  it("guarda un flujo que conserva los estados de la resolución", async () => {
+    await expect(service.updateWorkflow(DEFAULT_WORKFLOW)).resolves.toBe(true);
+    expect(guardado?.estados).toHaveLength(DEFAULT_WORKFLOW.estados.length);
+  });
+
+  it.each(["resuelta", "cerrada", "en_progreso"])(
+    "rechaza un flujo sin el estado %s",
+    async (clave) => {
+      const workflow: Workflow = {
+        estados: DEFAULT_WORKFLOW.estados.filter((estado) => estado.clave !== clave),
+        transiciones: DEFAULT_WORKFLOW.transiciones.filter(
+          (transicion) =>
+            transicion.estadoOrigen !== clave && transicion.estadoDestino !== clave
+        ),
+      };
+
+      await expect(service.updateWorkflow(workflow)).rejects.toThrow(
+        `El estado "${clave}" es obligatorio`
+      );
+      expect(guardado).toBeNull();
+    }
+  );
+
+  it("rechaza un flujo en el que la resolución es un estado final", async () => {
+    const workflow: Workflow = {
+      ...DEFAULT_WORKFLOW,
+      estados: DEFAULT_WORKFLOW.estados.map((estado) =>
+        estado.clave === "resuelta" ? { ...estado, tipo: "final" } : estado
+      ),
+    };
+
+    await expect(service.updateWorkflow(workflow)).rejects.toThrow(
+      "deben ser de tipo inicial o intermedio"
+    );
+  });
+
+  it("rechaza un flujo sin la transición de confirmación", async () => {
+    const workflow: Workflow = {
+      ...DEFAULT_WORKFLOW,
+      transiciones: DEFAULT_WORKFLOW.transiciones.filter(
+        (transicion) =>
+          !(transicion.estadoOrigen === "resuelta" && transicion.estadoDestino === "cerrada")
+      ),
+    };
+
+    await expect(service.updateWorkflow(workflow)).rejects.toThrow(
+      'La transición de "resuelta" a "cerrada" es obligatoria'
+    );
+  });
+});
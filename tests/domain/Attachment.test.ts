@@ -0,0 +1,64 @@
+import { matchesAttachmentType } from "../../src/domain/Attachment";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+describe("matchesAttachmentType", () => {
+  it("acepta un archivo cuya extensión y contenido corresponden al tipo", () => {
+    expect(
+      matchesAttachmentType({ nombreOriginal: "captura.PNG", tipoMime: "image/png", contenido: PNG })
+    ).toBe(true);
+    expect(
+      matchesAttachmentType({
+        nombreOriginal: "registro.log",
+        tipoMime: "text/plain",
+        contenido: Buffer.from("error en el servidor\n"),
+      })
+    ).toBe(true);
+  });
+
+  it("rechaza una extensión que no corresponde al tipo declarado", () => {
+    expect(
+      matchesAttachmentType({ nombreOriginal: "captura.exe", tipoMime: "image/png", contenido: PNG })
+    ).toBe(false);
+    expect(
+      matchesAttachmentType({ nombreOriginal: "captura", tipoMime: "image/png", contenido: PNG })
+    ).toBe(false);
+  });
+
+  it("rechaza un contenido que no tiene la firma del tipo declarado", () => {
+    expect(
+      matchesAttachmentType({
+        nombreOriginal: "captura.png",
+        tipoMime: "image/png",
+        contenido: Buffer.from("<script>alert(1)</script>"),
+      })
+    ).toBe(false);
+    expect(
+      matchesAttachmentType({
+        nombreOriginal: "imagen.webp",
+        tipoMime: "image/webp",
+        contenido: Buffer.from("RIFF\x00\x00\x00\x00WAVE", "latin1"),
+      })
+    ).toBe(false);
+  });
+
+  it("rechaza un archivo de texto con contenido binario", () => {
+    expect(
+      matchesAttachmentType({
+        nombreOriginal: "notas.txt",
+        tipoMime: "text/plain",
+        contenido: Buffer.from([0x4d, 0x5a, 0x00, 0x01]),
+      })
+    ).toBe(false);
+  });
+
+  it("rechaza un tipo no admitido", () => {
+    expect(
+      matchesAttachmentType({
+        nombreOriginal: "script.sh",
+        tipoMime: "application/x-sh",
+        contenido: Buffer.from("#!/bin/sh"),
+      })
+    ).toBe(false);
+  });
+});
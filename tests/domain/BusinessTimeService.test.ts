@@ -0,0 +1,138 @@
+import { BusinessCalendar } from "../../src/domain/BusinessCalendar";
+import { BusinessTimeService } from "../../src/domain/BusinessTimeService";
+
+// Lunes a viernes de 09:00 a 18:00 en Madrid (UTC+1 en invierno, UTC+2 en verano)
+const madrid: BusinessCalendar = {
+  diasLaborables: [1, 2, 3, 4, 5],
+  horaInicio: "09:00",
+  horaFin: "18:00",
+  zonaHoraria: "Europe/Madrid",
+};
+
+// Todos los días de 01:00 a 05:00, una jornada que contiene el cambio de hora
+const madrugada: BusinessCalendar = {
+  diasLaborables: [0, 1, 2, 3, 4, 5, 6],
+  horaInicio: "01:00",
+  horaFin: "05:00",
+  zonaHoraria: "Europe/Madrid",
+};
+
+function fecha(iso: string): Date {
+  return new Date(iso);
+}
+
+describe("BusinessTimeService", () => {
+  describe("addBusinessHours", () => {
+    const service = new BusinessTimeService(madrid);
+
+    it("suma horas dentro de la misma jornada", () => {
+      expect(
+        service.addBusinessHours(fecha("2024-03-04T09:00:00Z"), 4).toISOString()
+      ).toBe("2024-03-04T13:00:00.000Z");
+    });
+
+    it("continúa en la jornada del día siguiente", () => {
+      // Lunes 16:00 + 4 h: 2 h el lunes y 2 h el martes desde las 09:00
+      expect(
+        service.addBusinessHours(fecha("2024-03-04T15:00:00Z"), 4).toISOString()
+      ).toBe("2024-03-05T10:00:00.000Z");
+    });
+
+    it("salta el fin de semana", () => {
+      // Viernes 17:00 + 2 h: 1 h el viernes y 1 h el lunes
+      expect(
+        service.addBusinessHours(fecha("2024-03-08T16:00:00Z"), 2).toISOString()
+      ).toBe("2024-03-11T09:00:00.000Z");
+    });
+
+    it("empieza a contar en la siguiente jornada si el inicio es fuera de horario", () => {
+      // Sábado a mediodía y lunes a las 06:00: el plazo corre desde el lunes a las 09:00
+      expect(
+        service.addBusinessHours(fecha("2024-03-09T12:00:00Z"), 1).toISOString()
+      ).toBe("2024-03-11T09:00:00.000Z");
+      expect(
+        service.addBusinessHours(fecha("2024-03-11T05:00:00Z"), 1).toISOString()
+      ).toBe("2024-03-11T09:00:00.000Z");
+      // Lunes a las 20:00: el plazo corre desde el martes
+      expect(
+        service.addBusinessHours(fecha("2024-03-11T19:00:00Z"), 1).toISOString()
+      ).toBe("2024-03-12T09:00:00.000Z");
+    });
+
+    it("salta los festivos", () => {
+      const conFestivo = new BusinessTimeService(madrid, ["2024-03-05"]);
+
+      expect(
+        conFestivo.addBusinessHours(fecha("2024-03-04T15:00:00Z"), 4).toISOString()
+      ).toBe("2024-03-06T10:00:00.000Z");
+    });
+
+    it("aplica el desfase horario de cada día al cruzar el cambio de hora", () => {
+      // Viernes 29/03 17:00 (UTC+1) + 2 h: el lunes 01/04 ya es UTC+2
+      expect(
+        service.addBusinessHours(fecha("2024-03-29T16:00:00Z"), 2).toISOString()
+      ).toBe("2024-04-01T08:00:00.000Z");
+    });
+
+    it("falla si el calendario no tiene días laborables", () => {
+      const sinDias = new BusinessTimeService({ ...madrid, diasLaborables: [] });
+
+      expect(() => sinDias.addBusinessHours(fecha("2024-03-04T09:00:00Z"), 1)).toThrow(
+        "el calendario laboral no tiene días laborables"
+      );
+    });
+  });
+
+  describe("businessHoursBetween", () => {
+    it("cuenta solo el horario de los días laborables no festivos", () => {
+      const inicio = fecha("2024-03-04T08:00:00Z"); // lunes 09:00
+      const fin = fecha("2024-03-11T08:00:00Z"); // lunes siguiente 09:00
+
+      expect(new BusinessTimeService(madrid).businessHoursBetween(inicio, fin)).toBe(45);
+      expect(
+        new BusinessTimeService(madrid, ["2024-03-06"]).businessHoursBetween(inicio, fin)
+      ).toBe(36);
+    });
+
+    it("recorta los extremos que quedan fuera del horario", () => {
+      const service = new BusinessTimeService(madrid);
+
+      // Del lunes a las 07:00 al lunes a las 10:30 solo cuentan 1,5 h
+      expect(
+        service.businessHoursBetween(fecha("2024-03-04T06:00:00Z"), fecha("2024-03-04T09:30:00Z"))
+      ).toBe(1.5);
+      // Del sábado al domingo no hay horas laborables
+      expect(
+        service.businessHoursBetween(fecha("2024-03-09T08:00:00Z"), fecha("2024-03-10T20:00:00Z"))
+      ).toBe(0);
+    });
+
+    it("devuelve cero si el fin no es posterior al inicio", () => {
+      const service = new BusinessTimeService(madrid);
+
+      expect(
+        service.businessHoursBetween(fecha("2024-03-05T10:00:00Z"), fecha("2024-03-04T10:00:00Z"))
+      ).toBe(0);
+    });
+
+    it("acorta la jornada el día en que se adelanta la hora", () => {
+      // 31/03: de 01:00 (UTC+1) a 05:00 (UTC+2) solo pasan 3 h
+      expect(
+        new BusinessTimeService(madrugada).businessHoursBetween(
+          fecha("2024-03-30T23:00:00Z"),
+          fecha("2024-03-31T12:00:00Z")
+        )
+      ).toBe(3);
+    });
+
+    it("alarga la jornada el día en que se retrasa la hora", () => {
+      // 27/10: de 01:00 (UTC+2) a 05:00 (UTC+1) pasan 5 h
+      expect(
+        new BusinessTimeService(madrugada).businessHoursBetween(
+          fecha("2024-10-26T22:00:00Z"),
+          fecha("2024-10-27T12:00:00Z")
+        )
+      ).toBe(5);
+    });
+  });
+});
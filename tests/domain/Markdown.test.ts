@@ -0,0 +1,42 @@
+import { escapeHtml } from "../../src/domain/Html";
+import { renderMarkdown, validateMarkdown } from "../../src/domain/Markdown";
+
+describe("escapeHtml", () => {
+  it("escapa los caracteres especiales de HTML", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;"
+    );
+  });
+});
+
+describe("Markdown", () => {
+  it("convierte el subconjunto admitido en HTML", () => {
+    expect(renderMarkdown("# Título\n\n**negrita** y `código`")).toBe(
+      "<h1>Título</h1>\n<p><strong>negrita</strong> y <code>código</code></p>"
+    );
+    expect(renderMarkdown("- uno\n- dos")).toBe("<ul><li>uno</li><li>dos</li></ul>");
+  });
+
+  it("escapa el HTML y descarta los enlaces con protocolos no admitidos", () => {
+    expect(renderMarkdown("<script>alert(1)</script>")).toBe(
+      "<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>"
+    );
+    expect(renderMarkdown("[x](javascript:alert(1))")).not.toContain("<a ");
+    expect(renderMarkdown("[web](https://example.com)")).toContain(
+      '<a href="https://example.com" rel="noopener noreferrer nofollow">web</a>'
+    );
+  });
+
+  it("rechaza HTML, imágenes y enlaces inseguros al validar", () => {
+    expect(() => validateMarkdown("<b>hola</b>", "el comentario")).toThrow(
+      "Contenido no válido en el comentario"
+    );
+    expect(() => validateMarkdown("![x](https://example.com/a.png)", "el comentario")).toThrow(
+      "no se admiten imágenes"
+    );
+    expect(() => validateMarkdown("[x](javascript:alert(1))", "el comentario")).toThrow(
+      "Enlace no válido en el comentario"
+    );
+    expect(() => validateMarkdown("`<b>` es una etiqueta", "el comentario")).not.toThrow();
+  });
+});
@@ -0,0 +1,68 @@
+import { hasPermission, ROLE_PERMISSIONS } from "../../src/domain/Permission";
+
+describe("Permission", () => {
+  describe("hasPermission", () => {
+    it("concede al administrador los permisos de gestión", () => {
+      expect(hasPermission("administrador", "users:manage")).toBe(true);
+      expect(hasPermission("administrador", "incidents:delete")).toBe(true);
+      expect(hasPermission("administrador", "workflow:manage")).toBe(true);
+    });
+
+    it("concede a soporte la gestión de incidencias", () => {
+      expect(hasPermission("soporte", "incidents:assign")).toBe(true);
+      expect(hasPermission("soporte", "comments:read_all")).toBe(true);
+      expect(hasPermission("soporte", "incidents:manage_watchers")).toBe(true);
+    });
+
+    it("deniega a soporte la administración del sistema", () => {
+      expect(hasPermission("soporte", "users:manage")).toBe(false);
+      expect(hasPermission("soporte", "incidents:delete")).toBe(false);
+      expect(hasPermission("soporte", "webhooks:manage")).toBe(false);
+    });
+
+    it("concede al empleado reportar y comentar incidencias", () => {
+      expect(hasPermission("empleado", "incidents:create")).toBe(true);
+      expect(hasPermission("empleado", "incidents:read")).toBe(true);
+      expect(hasPermission("empleado", "comments:create")).toBe(true);
+    });
+
+    it("deniega al empleado la gestión de incidencias y notas internas", () => {
+      expect(hasPermission("empleado", "incidents:update")).toBe(false);
+      expect(hasPermission("empleado", "incidents:assign")).toBe(false);
+      expect(hasPermission("empleado", "comments:read_all")).toBe(false);
+      expect(hasPermission("empleado", "comments:change_visibility")).toBe(
+        false
+      );
+      expect(hasPermission("empleado", "users:read")).toBe(false);
+    });
+
+    it("deniega cualquier permiso sin rol o con un rol desconocido", () => {
+      expect(hasPermission(undefined, "incidents:read")).toBe(false);
+      expect(hasPermission("invitado" as any, "incidents:read")).toBe(false);
+    });
+  });
+
+  describe("ROLE_PERMISSIONS", () => {
+    it("concede al administrador todos los permisos de los demás roles", () => {
+      const permisos = [
+        ...ROLE_PERMISSIONS.empleado,
+        ...ROLE_PERMISSIONS.soporte,
+      ];
+      permisos.forEach((permiso) => {
+        expect(ROLE_PERMISSIONS.administrador).toContain(permiso);
+      });
+    });
+
+    it("concede a soporte todos los permisos del empleado", () => {
+      ROLE_PERMISSIONS.empleado.forEach((permiso) => {
+        expect(ROLE_PERMISSIONS.soporte).toContain(permiso);
+      });
+    });
+
+    it("no repite permisos dentro de un rol", () => {
+      Object.values(ROLE_PERMISSIONS).forEach((permisos) => {
+        expect(new Set(permisos).size).toBe(permisos.length);
+      });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { FindOperator } from "typeorm";
+import { CommentsAdapter } from "../../../src/infraestructure/adapter/CommentsAdapter";
+import { CommentVisibilityChange } from "../../../src/infraestructure/entities/CommentVisibilityChange";
+
+interface FilaComentario {
+  id_comentarios: number;
+  comentario_padre_id: number | null;
+  visibilidad: string;
+}
+
+/**
+ * Repositorios de la transacción: los comentarios guardados, los bloqueos
+ * pedidos y los cambios de visibilidad auditados
+ */
+const transaccion = {
+  comentarios: [] as FilaComentario[],
+  bloqueos: [] as [number | string, string][],
+  auditoria: [] as CommentVisibilityChange[],
+  getRepository(entidad: unknown) {
+    if (entidad === CommentVisibilityChange) {
+      return {
+        save: async (cambios: CommentVisibilityChange[]) => {
+          transaccion.auditoria.push(...cambios);
+        },
+      };
+    }
+
+    return {
+      findOne: async (opciones: {
+        where: { id_comentarios: number };
+        lock: { mode: string };
+      }) => {
+        transaccion.bloqueos.push([opciones.where.id_comentarios, opciones.lock.mode]);
+        const fila = transaccion.comentarios.find(
+          (c) => c.id_comentarios === opciones.where.id_comentarios
+        );
+        return fila ? { ...fila } : null;
+      },
+      find: async (opciones: {
+        where: { comentario_padre_id: FindOperator<number[]>; visibilidad: string };
+        lock: { mode: string };
+      }) => {
+        const padres = opciones.where.comentario_padre_id.value as unknown as number[];
+        transaccion.bloqueos.push([`respuestas de ${padres.join(",")}`, opciones.lock.mode]);
+        return transaccion.comentarios
+          .filter(
+            (c) =>
+              c.comentario_padre_id !== null &&
+              padres.includes(c.comentario_padre_id) &&
+              c.visibilidad === opciones.where.visibilidad
+          )
+          .map((c) => ({ ...c }));
+      },
+      save: async (filas: FilaComentario[]) => {
+        for (const fila of filas) {
+          Object.assign(
+            transaccion.comentarios.find((c) => c.id_comentarios === fila.id_comentarios)!,
+            fila
+          );
+        }
+      },
+    };
+  },
+};
+
+// El adaptador solo necesita los repositorios y las transacciones; se evita
+// conectar con la base de datos
+jest.mock("../../../src/infraestructure/config/data-base", () => ({
+  AppDataSource: {
+    getRepository: () => ({}),
+    transaction: (trabajo: (gestor: typeof transaccion) => Promise<unknown>) =>
+      trabajo(transaccion),
+  },
+}));
+
+function fila(
+  id: number,
+  visibilidad: string,
+  comentarioPadreId: number | null = null
+): FilaComentario {
+  return { id_comentarios: id, comentario_padre_id: comentarioPadreId, visibilidad };
+}
+
+describe("CommentsAdapter.changeVisibility", () => {
+  let adapter: CommentsAdapter;
+
+  beforeEach(() => {
+    transaccion.comentarios = [
+      fila(1, "publico"),
+      fila(2, "publico", 1),
+      fila(3, "interno", 1),
+      fila(4, "publico", 2),
+      fila(5, "publico"),
+    ];
+    transaccion.bloqueos = [];
+    transaccion.auditoria = [];
+    adapter = new CommentsAdapter();
+  });
+
+  function visibilidades() {
+    return transaccion.comentarios.map((c) => [c.id_comentarios, c.visibilidad]);
+  }
+
+  it("pasa a internas todas las respuestas públicas del hilo y audita cada cambio", async () => {
+    expect(await adapter.changeVisibility(1, "interno", 7)).toBe(true);
+
+    expect(visibilidades()).toEqual([
+      [1, "interno"],
+      [2, "interno"],
+      [3, "interno"],
+      [4, "interno"],
+      [5, "publico"],
+    ]);
+    expect(
+      transaccion.auditoria.map((c) => [
+        c.comentario_id,
+        c.visibilidad_anterior,
+        c.visibilidad_nueva,
+        c.usuario_id,
+      ])
+    ).toEqual([
+      [1, "publico", "interno", 7],
+      [2, "publico", "interno", 7],
+      [4, "publico", "interno", 7],
+    ]);
+    expect(transaccion.bloqueos.every(([, modo]) => modo === "pessimistic_write")).toBe(true);
+  });
+
+  it("rechaza con el padre bloqueado hacer pública una respuesta a una nota interna", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    transaccion.comentarios.push(fila(6, "interno", 3));
+
+    await expect(adapter.changeVisibility(6, "publico", 7)).rejects.toThrow(
+      "La respuesta a una nota interna debe ser interna"
+    );
+
+    expect(transaccion.bloqueos).toEqual([
+      [6, "pessimistic_write"],
+      [3, "pessimistic_read"],
+    ]);
+    expect(transaccion.auditoria).toEqual([]);
+    jest.restoreAllMocks();
+  });
+
+  it("hace público un comentario interno sin tocar sus respuestas", async () => {
+    await adapter.changeVisibility(3, "publico", 7);
+
+    expect(visibilidades()[2]).toEqual([3, "publico"]);
+    expect(transaccion.auditoria.map((c) => c.comentario_id)).toEqual([3]);
+  });
+
+  it("devuelve false si el comentario no existe", async () => {
+    expect(await adapter.changeVisibility(99, "interno", 7)).toBe(false);
+    expect(transaccion.auditoria).toEqual([]);
+  });
+});
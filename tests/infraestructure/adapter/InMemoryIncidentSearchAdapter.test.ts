@@ -0,0 +1,104 @@
+import { Comments } from "../../../src/domain/Comments";
+import { Incident } from "../../../src/domain/Incident";
+import { InMemoryIncidentSearchAdapter } from "../../../src/infraestructure/adapter/InMemoryIncidentSearchAdapter";
+
+function incident(id: number, datos: Partial<Incident> = {}): Incident {
+  return {
+    id,
+    titulo: `Incidencia ${id}`,
+    estado: "abierta",
+    usuarioId: 10,
+    categoriaId: 1,
+    prioridadId: 1,
+    creadoEn: new Date("2026-01-01T09:00:00Z"),
+    actualizadoEn: new Date("2026-01-01T09:00:00Z"),
+    ...datos,
+  };
+}
+
+function comment(id: number, datos: Partial<Comments>): Comments {
+  return {
+    id,
+    incidencia: 1,
+    usuario: 20,
+    comentario: "",
+    visibilidad: "publico",
+    editado: false,
+    fechaCreacion: new Date("2026-01-02T09:00:00Z"),
+    ...datos,
+  };
+}
+
+describe("InMemoryIncidentSearchAdapter", () => {
+  const incidents = [
+    incident(1, { titulo: "La impresora no imprime", descripcion: "Atasco de papel" }),
+    incident(2, { titulo: "Sin acceso a la VPN", usuarioId: 11, soporteId: 30 }),
+    incident(3, { titulo: "Correo lento", descripcion: "La impresora del correo" }),
+  ];
+  const comments = [
+    comment(100, { incidencia: 2, comentario: "Revisar la impresora de red" }),
+    comment(101, {
+      incidencia: 3,
+      comentario: "Nota: impresora sustituida",
+      visibilidad: "interno",
+    }),
+  ];
+  const adapter = new InMemoryIncidentSearchAdapter(incidents, comments);
+
+  it("ordena por relevancia y pondera título y descripción sobre comentarios", async () => {
+    const hits = await adapter.searchIncidents("impresora", {}, 10, false);
+
+    // A igual relevancia se muestran primero las más recientes
+    expect(hits.map((hit) => hit.incidenciaId)).toEqual([3, 1, 2]);
+    expect(hits[1].puntuacion).toBe(2);
+    expect(hits[2]).toEqual({
+      incidenciaId: 2,
+      puntuacion: 1,
+      coincidencias: [
+        {
+          campo: "comentario",
+          texto: "Revisar la impresora de red",
+          comentarioId: 100,
+        },
+      ],
+    });
+  });
+
+  it("busca sin distinguir mayúsculas ni tildes", async () => {
+    const hits = await adapter.searchIncidents("ACCÉSO", {}, 10, false);
+
+    expect(hits.map((hit) => hit.incidenciaId)).toEqual([2]);
+  });
+
+  it("solo tiene en cuenta las notas internas si se indica", async () => {
+    const sinInternos = await adapter.searchIncidents("sustituida", {}, 10, false);
+    const conInternos = await adapter.searchIncidents("sustituida", {}, 10, true);
+
+    expect(sinInternos).toEqual([]);
+    expect(conInternos.map((hit) => hit.incidenciaId)).toEqual([3]);
+  });
+
+  it("aplica los filtros de visibilidad y el límite", async () => {
+    const propias = await adapter.searchIncidents(
+      "impresora",
+      { usuarioId: 11 },
+      10,
+      false
+    );
+    const cola = await adapter.searchIncidents(
+      "impresora",
+      { colaSoporteId: 31 },
+      10,
+      false
+    );
+    const limitadas = await adapter.searchIncidents("impresora", {}, 1, false);
+
+    expect(propias.map((hit) => hit.incidenciaId)).toEqual([2]);
+    expect(cola.map((hit) => hit.incidenciaId)).toEqual([3, 1]);
+    expect(limitadas.map((hit) => hit.incidenciaId)).toEqual([3]);
+  });
+
+  it("no devuelve resultados si la búsqueda no tiene términos válidos", async () => {
+    expect(await adapter.searchIncidents("de la", {}, 10, true)).toEqual([]);
+  });
+});
@@ -0,0 +1,310 @@
+import { IncidentPagination } from "../../../src/domain/Incident";
+import { IncidentAdapter } from "../../../src/infraestructure/adapter/IncidentAdapter";
+import { HistorialIncidencia } from "../../../src/infraestructure/entities/HistorialIncidencia";
+
+/**
+ * Consulta que registra las condiciones, la ordenación y los límites
+ * aplicados y devuelve las filas preparadas por el test
+ */
+class FakeQueryBuilder {
+  condiciones: { sql: string; params?: { [nombre: string]: unknown } }[] = [];
+  uniones: string[] = [];
+  orden: [string, string][] = [];
+  desplazamiento?: number;
+  limite?: number;
+
+  constructor(private filas: unknown[]) {}
+
+  leftJoinAndSelect(relacion: string) {
+    this.uniones.push(relacion);
+    return this;
+  }
+
+  where(sql: string, params?: { [nombre: string]: unknown }) {
+    return this.andWhere(sql, params);
+  }
+
+  andWhere(sql: string, params?: { [nombre: string]: unknown }) {
+    this.condiciones.push({ sql, params });
+    return this;
+  }
+
+  orderBy(expresion: string, sentido: string) {
+    this.orden = [[expresion, sentido]];
+    return this;
+  }
+
+  addOrderBy(expresion: string, sentido: string) {
+    this.orden.push([expresion, sentido]);
+    return this;
+  }
+
+  offset(valor: number) {
+    this.desplazamiento = valor;
+    return this;
+  }
+
+  limit(valor: number) {
+    this.limite = valor;
+    return this;
+  }
+
+  async getCount() {
+    return this.filas.length;
+  }
+
+  async getMany() {
+    return this.filas.slice(0, this.limite);
+  }
+}
+
+/**
+ * Repositorios de la transacción: la incidencia guardada y las entradas
+ * del historial escritas
+ */
+const transaccion = {
+  incidencia: undefined as { [columna: string]: unknown } | undefined,
+  bloqueos: [] as unknown[],
+  historial: [] as HistorialIncidencia[],
+  getRepository(entidad: unknown) {
+    if (entidad === HistorialIncidencia) {
+      return {
+        save: async (entradas: HistorialIncidencia[]) => {
+          transaccion.historial.push(...entradas);
+        },
+      };
+    }
+
+    return {
+      findOne: async (opciones: { lock?: unknown }) => {
+        transaccion.bloqueos.push(opciones.lock);
+        return transaccion.incidencia ? { ...transaccion.incidencia } : null;
+      },
+      update: async (_criterio: unknown, cambios: { [columna: string]: unknown }) => {
+        Object.assign(transaccion.incidencia!, cambios);
+        return { affected: 1 };
+      },
+    };
+  },
+};
+
+let consultas: FakeQueryBuilder[] = [];
+let filas: unknown[] = [];
+
+// El adaptador solo necesita el repositorio y las transacciones; se evita
+// conectar con la base de datos
+jest.mock("../../../src/infraestructure/config/data-base", () => ({
+  AppDataSource: {
+    getRepository: () => ({
+      createQueryBuilder: () => {
+        const consulta = new FakeQueryBuilder(filas);
+        consultas.push(consulta);
+        return consulta;
+      },
+    }),
+    transaction: (trabajo: (gestor: typeof transaccion) => Promise<unknown>) =>
+      trabajo(transaccion),
+  },
+}));
+
+function fila(id: number, estado: string, nivel: number, creadoEn: string) {
+  return {
+    id_incidencias: id,
+    titulo: `Incidencia ${id}`,
+    estado,
+    usuario_id: 10,
+    categoria_id: 1,
+    prioridad_id: nivel,
+    prioridad: { nivel_prioridad: nivel },
+    creado_en: new Date(creadoEn),
+    actualizado_en: new Date(creadoEn),
+    reaperturas: 0,
+  };
+}
+
+function paginacion(datos: Partial<IncidentPagination> = {}): IncidentPagination {
+  return { limite: 2, ordenarPor: "creadoEn", orden: "DESC", ...datos };
+}
+
+function decodificar(cursor: string | null) {
+  return JSON.parse(Buffer.from(cursor!, "base64url").toString("utf8"));
+}
+
+describe("IncidentAdapter.getIncidentsPage", () => {
+  let adapter: IncidentAdapter;
+
+  beforeEach(() => {
+    consultas = [];
+    filas = [
+      fila(3, "en_progreso", 2, "2024-03-06T09:00:00Z"),
+      fila(2, "abierta", 1, "2024-03-05T09:00:00Z"),
+      fila(1, "cerrada", 3, "2024-03-04T09:00:00Z"),
+    ];
+    adapter = new IncidentAdapter();
+  });
+
+  it("ordena por el criterio indicado y desempata por ID en el mismo sentido", async () => {
+    const pagina = await adapter.getIncidentsPage({}, paginacion({ pagina: 1 }));
+
+    expect(consultas[0].orden).toEqual([
+      ["incident.creado_en", "DESC"],
+      ["incident.id_incidencias", "DESC"],
+    ]);
+    // Se pide un elemento de más para saber si hay página siguiente
+    expect(consultas[0].limite).toBe(3);
+    expect(consultas[0].desplazamiento).toBe(0);
+    expect(pagina).toMatchObject({ total: 3, limite: 2, pagina: 1, totalPaginas: 2 });
+    expect(pagina.items.map((incident) => incident.id)).toEqual([3, 2]);
+  });
+
+  it("codifica en el cursor el valor de ordenación y el ID de la última incidencia", async () => {
+    const pagina = await adapter.getIncidentsPage({}, paginacion());
+
+    expect(decodificar(pagina.siguienteCursor)).toEqual({
+      valor: "2024-03-05T09:00:00.000Z",
+      id: 2,
+    });
+  });
+
+  it("continúa tras el cursor sin desplazamiento ni número de página", async () => {
+    const cursor = (await adapter.getIncidentsPage({}, paginacion())).siguienteCursor!;
+    filas = filas.slice(2);
+
+    const pagina = await adapter.getIncidentsPage({}, paginacion({ cursor }));
+
+    const condicion = consultas[1].condiciones[0];
+    expect(condicion.sql).toBe(
+      "(incident.creado_en < :cursorValor OR " +
+        "(incident.creado_en = :cursorValor AND incident.id_incidencias < :cursorId))"
+    );
+    expect(condicion.params).toEqual({
+      cursorValor: new Date("2024-03-05T09:00:00Z"),
+      cursorId: 2,
+    });
+    expect(consultas[1].desplazamiento).toBe(0);
+    expect(pagina.pagina).toBeUndefined();
+    expect(pagina.totalPaginas).toBeUndefined();
+    expect(pagina.siguienteCursor).toBeNull();
+  });
+
+  it("compara en sentido contrario al ordenar de forma ascendente", async () => {
+    const cursor = Buffer.from(JSON.stringify({ valor: 2, id: 3 })).toString("base64url");
+
+    await adapter.getIncidentsPage(
+      {},
+      paginacion({ ordenarPor: "prioridad", orden: "ASC", cursor })
+    );
+
+    expect(consultas[0].uniones).toEqual(["incident.prioridad"]);
+    expect(consultas[0].orden[0]).toEqual(["prioridad.nivel_prioridad", "ASC"]);
+    expect(consultas[0].condiciones[0].sql).toContain(
+      "prioridad.nivel_prioridad > :cursorValor"
+    );
+    expect(consultas[0].condiciones[0].params).toEqual({ cursorValor: 2, cursorId: 3 });
+  });
+
+  it("ordena por estado según el orden del flujo de trabajo", async () => {
+    const pagina = await adapter.getIncidentsPage(
+      {},
+      paginacion({
+        ordenarPor: "estado",
+        ordenEstados: ["abierta", "en_progreso", "cerrada"],
+      })
+    );
+
+    expect(consultas[0].orden[0]).toEqual([
+      "FIELD(incident.estado, 'abierta', 'en_progreso', 'cerrada')",
+      "DESC",
+    ]);
+    // El cursor guarda la posición del estado, igual que FIELD
+    expect(decodificar(pagina.siguienteCursor)).toEqual({ valor: 1, id: 2 });
+  });
+
+  it.each([
+    ["no es JSON", Buffer.from("no es json").toString("base64url")],
+    ["tiene un ID no válido", Buffer.from(JSON.stringify({ valor: "2024-03-05T09:00:00Z", id: 0 })).toString("base64url")],
+    ["es de otro criterio de ordenación", Buffer.from(JSON.stringify({ valor: 2, id: 3 })).toString("base64url")],
+  ])("rechaza un cursor que %s", async (_motivo, cursor) => {
+    await expect(
+      adapter.getIncidentsPage({}, paginacion({ cursor }))
+    ).rejects.toThrow("El cursor de paginación no es válido");
+  });
+});
+
+describe("IncidentAdapter: historial de cambios", () => {
+  let adapter: IncidentAdapter;
+
+  beforeEach(() => {
+    transaccion.incidencia = {
+      ...fila(10, "en_progreso", 2, "2024-03-04T09:00:00Z"),
+      descripcion: "No conecta",
+      soporte_id: null,
+      fecha_primera_respuesta: new Date("2024-03-04T10:00:00Z"),
+    };
+    transaccion.bloqueos = [];
+    transaccion.historial = [];
+    adapter = new IncidentAdapter();
+  });
+
+  function entradas() {
+    return transaccion.historial.map((entrada) => ({
+      campo: entrada.campo,
+      valorAnterior: entrada.valor_anterior,
+      valorNuevo: entrada.valor_nuevo,
+      usuarioId: entrada.usuario_id,
+      incidenciaId: entrada.incidencia_id,
+    }));
+  }
+
+  it("registra solo los campos que cambian, con su valor anterior y el autor", async () => {
+    await adapter.updateIncident(
+      10,
+      { titulo: "Sin acceso a la VPN", descripcion: "No conecta", prioridadId: 3 },
+      7
+    );
+
+    expect(entradas()).toEqual([
+      { campo: "titulo", valorAnterior: "Incidencia 10", valorNuevo: "Sin acceso a la VPN", usuarioId: 7, incidenciaId: 10 },
+      { campo: "prioridadId", valorAnterior: "2", valorNuevo: "3", usuarioId: 7, incidenciaId: 10 },
+    ]);
+  });
+
+  it("registra la asignación de un técnico partiendo de un valor vacío", async () => {
+    await adapter.assignIncident(10, 5, 1);
+
+    expect(entradas()).toEqual([
+      { campo: "soporteId", valorAnterior: null, valorNuevo: "5", usuarioId: 1, incidenciaId: 10 },
+    ]);
+  });
+
+  it("registra el cambio de estado y sus datos de cierre en la misma transacción", async () => {
+    await adapter.changeIncidentStatus(
+      10,
+      {
+        estadoAnterior: "en_progreso",
+        estado: "cerrada",
+        tipoAnterior: "intermedio",
+        tipoNuevo: "final",
+        notaResolucion: "Se reinició el router",
+        codigoCierreId: 4,
+      },
+      2
+    );
+
+    expect(transaccion.bloqueos).toEqual([{ mode: "pessimistic_write" }]);
+    expect(entradas().map((entrada) => [entrada.campo, entrada.valorAnterior, entrada.valorNuevo])).toEqual([
+      ["estado", "en_progreso", "cerrada"],
+      ["notaResolucion", null, "Se reinició el router"],
+      ["codigoCierreId", null, "4"],
+    ]);
+    expect(transaccion.incidencia?.fecha_cierre).toBeInstanceOf(Date);
+  });
+
+  it("no registra nada si la incidencia no existe", async () => {
+    transaccion.incidencia = undefined;
+
+    expect(await adapter.updateIncident(99, { titulo: "Sin acceso a la VPN" }, 7)).toBe(false);
+    expect(transaccion.historial).toEqual([]);
+  });
+});
+
@@ -0,0 +1,173 @@
+import net from "net";
+import { SmtpConfig, SmtpMailAdapter } from "../../../src/infraestructure/adapter/SmtpMailAdapter";
+
+interface MensajeRecibido {
+  remitente: string;
+  destinatarios: string[];
+  datos: string;
+}
+
+/**
+ * Servidor SMTP mínimo en local que acepta los mensajes y los guarda,
+ * salvo para los destinatarios indicados en rechazar
+ */
+class SmtpStub {
+  mensajes: MensajeRecibido[] = [];
+  autenticaciones: string[] = [];
+  rechazar = new Set<string>();
+  private server = net.createServer((socket) => this.atender(socket));
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private atender(socket: net.Socket): void {
+    let pendiente = "";
+    let enDatos = false;
+    let actual: MensajeRecibido = { remitente: "", destinatarios: [], datos: "" };
+    const responder = (linea: string) => socket.write(`${linea}\r\n`);
+
+    responder("220 localhost ESMTP");
+    socket.on("data", (trozo) => {
+      pendiente += trozo.toString("utf8");
+      let fin: number;
+      while ((fin = pendiente.indexOf("\r\n")) >= 0) {
+        const linea = pendiente.slice(0, fin);
+        pendiente = pendiente.slice(fin + 2);
+
+        if (enDatos) {
+          if (linea === ".") {
+            enDatos = false;
+            this.mensajes.push(actual);
+            actual = { remitente: "", destinatarios: [], datos: "" };
+            responder("250 OK: encolado");
+          } else {
+            actual.datos += `${linea}\n`;
+          }
+          continue;
+        }
+
+        const comando = linea.toUpperCase();
+        if (comando.startsWith("EHLO")) {
+          socket.write("250-localhost\r\n250 AUTH PLAIN\r\n");
+        } else if (comando.startsWith("AUTH PLAIN")) {
+          this.autenticaciones.push(
+            Buffer.from(linea.split(" ")[2], "base64").toString("utf8")
+          );
+          responder("235 Autenticado");
+        } else if (comando.startsWith("MAIL FROM:")) {
+          actual.remitente = linea.slice(10).replace(/[<>]/g, "").split(" ")[0];
+          responder("250 OK");
+        } else if (comando.startsWith("RCPT TO:")) {
+          const destinatario = linea.slice(8).replace(/[<>]/g, "").trim();
+          if (this.rechazar.has(destinatario)) {
+            responder("550 Buzón no disponible");
+          } else {
+            actual.destinatarios.push(destinatario);
+            responder("250 OK");
+          }
+        } else if (comando === "DATA") {
+          enDatos = true;
+          responder("354 Fin con <CRLF>.<CRLF>");
+        } else if (comando === "QUIT") {
+          responder("221 Adiós");
+          socket.end();
+        } else {
+          responder("250 OK");
+        }
+      }
+    });
+  }
+}
+
+describe("SmtpMailAdapter", () => {
+  let stub: SmtpStub;
+  let config: SmtpConfig;
+
+  beforeEach(async () => {
+    stub = new SmtpStub();
+    config = {
+      host: "127.0.0.1",
+      port: await stub.start(),
+      secure: false,
+      remitente: "Incidencias <incidencias@test.com>",
+    };
+  });
+
+  afterEach(async () => {
+    await stub.stop();
+  });
+
+  it("entrega el mensaje con el remitente configurado y las versiones en texto y HTML", async () => {
+    await new SmtpMailAdapter(config).sendMail({
+      para: "usuario@test.com",
+      asunto: "Incidencia 10 asignada",
+      texto: "Se le ha asignado la incidencia 10",
+      html: "<p>Se le ha asignado la incidencia <strong>10</strong></p>",
+    });
+
+    expect(stub.mensajes).toHaveLength(1);
+    const [mensaje] = stub.mensajes;
+    expect(mensaje.remitente).toBe("incidencias@test.com");
+    expect(mensaje.destinatarios).toEqual(["usuario@test.com"]);
+    expect(mensaje.datos).toContain("From: Incidencias <incidencias@test.com>");
+    expect(mensaje.datos).toContain("To: usuario@test.com");
+    expect(mensaje.datos).toContain("Subject: Incidencia 10 asignada");
+    expect(mensaje.datos).toContain("Se le ha asignado la incidencia 10");
+    expect(mensaje.datos).toContain("<strong>10</strong>");
+    expect(stub.autenticaciones).toEqual([]);
+  });
+
+  it("se autentica con el usuario y la contraseña configurados", async () => {
+    await new SmtpMailAdapter({ ...config, user: "incidencias", password: "secreto" }).sendMail({
+      para: "usuario@test.com",
+      asunto: "Prueba",
+      texto: "Prueba",
+    });
+
+    expect(stub.autenticaciones).toEqual(["\u0000incidencias\u0000secreto"]);
+    expect(stub.mensajes).toHaveLength(1);
+  });
+
+  describe("errores", () => {
+    beforeEach(() => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("falla si el servidor rechaza el destinatario", async () => {
+      stub.rechazar.add("inexistente@test.com");
+
+      await expect(
+        new SmtpMailAdapter(config).sendMail({
+          para: "inexistente@test.com",
+          asunto: "Prueba",
+          texto: "Prueba",
+        })
+      ).rejects.toThrow("Error al enviar el correo electrónico");
+      expect(stub.mensajes).toEqual([]);
+    });
+
+    it("falla si no hay servidor SMTP escuchando", async () => {
+      const cerrado = new SmtpStub();
+      const puertoLibre = await cerrado.start();
+      await cerrado.stop();
+
+      await expect(
+        new SmtpMailAdapter({ ...config, port: puertoLibre }).sendMail({
+          para: "usuario@test.com",
+          asunto: "Prueba",
+          texto: "Prueba",
+        })
+      ).rejects.toThrow("Error al enviar el correo electrónico");
+    });
+  });
+});
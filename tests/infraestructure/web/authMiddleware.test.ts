@@ -0,0 +1,70 @@
+import { Request, Response } from "express";
+import { AuthUser } from "../../../src/domain/AuthUser";
+import { authorize } from "../../../src/infraestructure/web/authMiddleware";
+
+// La autorización solo usa el usuario ya autenticado; se evita cargar la
+// configuración de sesiones, que depende de la base de datos
+jest.mock("../../../src/infraestructure/config/auth", () => ({
+  sessionService: {},
+}));
+
+function run(user: AuthUser | undefined, ...permisos: Parameters<typeof authorize>) {
+  const req = { user } as unknown as Request;
+  const res = {
+    status: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+  };
+  const next = jest.fn();
+
+  authorize(...permisos)(req, res as unknown as Response, next);
+  return { res, next };
+}
+
+const administrador: AuthUser = { id: 1, email: "admin@test.com", rol: "administrador" };
+const soporte: AuthUser = { id: 2, email: "soporte@test.com", rol: "soporte" };
+const empleado: AuthUser = { id: 3, email: "empleado@test.com", rol: "empleado" };
+
+describe("authorize", () => {
+  it("responde 401 si la petición no está autenticada", () => {
+    const { res, next } = run(undefined, "incidents:read");
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["administrador", administrador, "users:manage"],
+    ["administrador", administrador, "incidents:delete"],
+    ["soporte", soporte, "incidents:assign"],
+    ["soporte", soporte, "comments:change_visibility"],
+    ["empleado", empleado, "incidents:create"],
+    ["empleado", empleado, "comments:read"],
+  ] as const)("permite a %s acceder con %s", (_rol, user, permiso) => {
+    const { res, next } = run(user, permiso);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["soporte", soporte, "users:manage"],
+    ["soporte", soporte, "incidents:delete"],
+    ["empleado", empleado, "incidents:assign"],
+    ["empleado", empleado, "comments:read_all"],
+    ["empleado", empleado, "workflow:manage"],
+  ] as const)("deniega a %s el acceso con %s", (_rol, user, permiso) => {
+    const { res, next } = run(user, permiso);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      error: "No tiene permisos para realizar esta acción",
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("permite el acceso si el rol tiene alguno de los permisos indicados", () => {
+    const { next } = run(empleado, "comments:read_all", "comments:read");
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});